@@ -0,0 +1,331 @@
+import fs from "fs";
+import path from "path";
+import * as XLSX from "xlsx";
+import { diffInitiatives } from "@shared/audit";
+import {
+  buildExportWorkbook,
+  buildFormattedWorkbook,
+  cleanNewRowData,
+  cleanRowData,
+  IMPORT_MODES,
+  planImport,
+  readExportMetadata,
+  readImportRows,
+  staleImportWarnings,
+  validateImportData,
+  type ExportMetadata,
+  type ImportMode,
+} from "@shared/exportImport";
+import { pickFields } from "@shared/initiatives";
+import {
+  STATUS_OPTIONS,
+  type Initiative,
+  type TabStatus,
+} from "@shared/types/database";
+import { storage } from "../server/storage";
+
+export const EXPORT_FORMATS = ["xlsx", "csv", "json"] as const;
+
+export interface CliOptions {
+  format?: string;
+  output?: string;
+  mode?: string;
+  status?: string;
+  product?: string;
+  search?: string;
+  "dry-run"?: boolean;
+  json?: boolean;
+}
+
+export type Command = (args: string[], options: CliOptions) => Promise<void>;
+
+/**
+ * A mistake in the command line; the usage is printed with it
+ */
+export class UsageError extends Error {}
+
+/**
+ * A command that ran but could not finish; exits with status 1
+ */
+export class CommandError extends Error {}
+
+// Progress and summaries go to stderr so stdout can be piped
+const info = (message: string) => console.error(message);
+
+const formatValue = (value: unknown) =>
+  value === null || value === undefined ? "(empty)" : String(value);
+
+function readStatus(options: CliOptions): TabStatus {
+  const status = (options.status ?? "All") as TabStatus;
+  if (!STATUS_OPTIONS.includes(status)) {
+    throw new UsageError(
+      `--status must be one of ${STATUS_OPTIONS.join(", ")}`
+    );
+  }
+  return status;
+}
+
+// "-" writes to stdout
+function writeOutput(output: string, content: string | Buffer) {
+  if (output === "-") {
+    process.stdout.write(content);
+  } else {
+    fs.writeFileSync(output, content);
+  }
+}
+
+// JSON exports import as they are; anything else is read as a spreadsheet.
+// Only workbooks exported as xlsx carry metadata.
+function readRows(file: string): {
+  rows: any[];
+  metadata: ExportMetadata | null;
+} {
+  if (!fs.existsSync(file)) {
+    throw new CommandError(`No such file: ${file}`);
+  }
+
+  const content = fs.readFileSync(file);
+  if (path.extname(file).toLowerCase() === ".json") {
+    const rows = JSON.parse(content.toString("utf8"));
+    if (!Array.isArray(rows)) {
+      throw new CommandError(`${file} must hold an array of initiatives`);
+    }
+    return { rows, metadata: null };
+  }
+  const workbook = XLSX.read(content, { type: "buffer" });
+  return {
+    rows: readImportRows(workbook),
+    metadata: readExportMetadata(workbook),
+  };
+}
+
+/**
+ * roadmap export [--format xlsx|csv|json] [--output file|-] [--status S]
+ * [--product P]
+ */
+async function exportCommand(_args: string[], options: CliOptions) {
+  const format = options.format ?? "xlsx";
+  if (!EXPORT_FORMATS.includes(format as any)) {
+    throw new UsageError(
+      `--format must be one of ${EXPORT_FORMATS.join(", ")}`
+    );
+  }
+
+  const data = await storage.listInitiatives({
+    status: readStatus(options),
+    product: options.product,
+  });
+
+  const dateStr = new Date().toISOString().split("T")[0];
+  const output = options.output ?? `roadmap_all_statuses_${dateStr}.${format}`;
+  if (format === "json") {
+    writeOutput(output, `${JSON.stringify(data, null, 2)}\n`);
+  } else if (format === "csv") {
+    const workbook = buildExportWorkbook(data);
+    writeOutput(output, XLSX.utils.sheet_to_csv(workbook.Sheets.Roadmap));
+  } else {
+    const columns = await storage.listColumns();
+    writeOutput(
+      output,
+      Buffer.from(await buildFormattedWorkbook(data, columns))
+    );
+  }
+
+  if (output !== "-") {
+    info(`Exported ${data.length} initiatives to ${output}`);
+  }
+}
+
+/**
+ * roadmap import <file> [--mode update|create|upsert] [--dry-run]
+ * Updates existing initiatives by ID, like Import in the web app, and with
+ * --mode create or upsert adds rows with a blank or unknown ID as new ones.
+ * Field locks are not checked, for updates or creates: the CLI has no
+ * signed-in user whose permission groups could unlock them.
+ */
+async function importCommand(args: string[], options: CliOptions) {
+  const [file] = args;
+  if (!file) {
+    throw new UsageError("import needs a file");
+  }
+
+  const mode = (options.mode ?? "update") as ImportMode;
+  if (!IMPORT_MODES.includes(mode)) {
+    throw new UsageError(`--mode must be one of ${IMPORT_MODES.join(", ")}`);
+  }
+
+  const { rows, metadata } = readRows(file);
+  const { isValid, errors } = validateImportData(rows, mode);
+  if (!isValid) {
+    throw new CommandError(
+      `${file} cannot be imported:\n  ${errors.join("\n  ")}`
+    );
+  }
+
+  const [existing, trashed, columns] = await Promise.all([
+    storage.listInitiatives({ status: "All" }),
+    storage.listInitiatives({ status: "Trash" }),
+    storage.listColumns(),
+  ]);
+  if (metadata) {
+    staleImportWarnings(metadata, rows, existing, columns).forEach(warning =>
+      info(`Warning: ${warning}`)
+    );
+  }
+
+  const byId = new Map(existing.map(init => [init.ID, init]));
+  const plan = planImport(
+    rows,
+    new Set(byId.keys()),
+    new Set(trashed.map(init => init.ID)),
+    mode
+  );
+  const dryRun = !!options["dry-run"];
+  let updated = 0;
+  let unchanged = 0;
+  let created = 0;
+  const failed: string[] = [];
+
+  for (const row of plan.update) {
+    const id = Number(row.ID);
+    const updates = cleanRowData(row, columns);
+    const before = pickFields(byId.get(id)!, Object.keys(updates));
+    const changes = diffInitiatives(before, { ...before, ...updates });
+    if (changes.length === 0) {
+      unchanged++;
+      continue;
+    }
+
+    changes.forEach(change =>
+      info(
+        `#${id} ${change.field}: ${formatValue(change.before)} -> ${formatValue(change.after)}`
+      )
+    );
+    if (dryRun) {
+      updated++;
+      continue;
+    }
+
+    try {
+      await storage.updateInitiative(id, updates, { source: "import" });
+      updated++;
+    } catch (error: any) {
+      info(`#${id} failed: ${error?.message || error}`);
+      failed.push(`#${id}`);
+    }
+  }
+
+  // One at a time, so the new priority ranks follow the file's order
+  for (const row of plan.create) {
+    const initiative = cleanNewRowData(row, columns);
+    const name = formatValue(initiative.Initiative);
+    if (dryRun) {
+      info(`new: ${name}`);
+      created++;
+      continue;
+    }
+
+    try {
+      const { ID } = await storage.createInitiative(initiative, {
+        source: "import",
+      });
+      info(`new: #${ID} ${name}`);
+      created++;
+    } catch (error: any) {
+      info(`new ${name} failed: ${error?.message || error}`);
+      failed.push(name);
+    }
+  }
+
+  const skippedIds = plan.skip
+    .map(row => row.ID)
+    .filter(id => id !== null && id !== undefined && id !== "");
+  info(
+    [
+      `${dryRun ? "Would update" : "Updated"} ${updated}`,
+      `${dryRun ? "create" : "created"} ${created}`,
+      `unchanged ${unchanged}`,
+      plan.skip.length > 0 &&
+        `skipped ${plan.skip.length}${skippedIds.length > 0 ? ` (IDs ${skippedIds.join(", ")})` : ""}`,
+      plan.trashed.length > 0 &&
+        `in the trash ${plan.trashed.length} (IDs ${plan.trashed.map(row => row.ID).join(", ")})`,
+      failed.length > 0 && `failed ${failed.join(", ")}`,
+    ]
+      .filter(Boolean)
+      .join(", ")
+  );
+  if (failed.length > 0) {
+    throw new CommandError(`${failed.length} rows could not be imported`);
+  }
+}
+
+const LIST_FIELDS = ["ID", "Status", "Product", "Priority", "Quarter Due"];
+
+/**
+ * roadmap list [--status S] [--product P] [--search text] [--json]
+ */
+async function listCommand(_args: string[], options: CliOptions) {
+  const data = await storage.listInitiatives({
+    status: readStatus(options),
+    product: options.product,
+    search: options.search,
+  });
+
+  if (options.json) {
+    process.stdout.write(`${JSON.stringify(data, null, 2)}\n`);
+    return;
+  }
+
+  const cells = (init: Initiative) =>
+    LIST_FIELDS.map(field => String(init[field] ?? ""));
+  const widths = LIST_FIELDS.map((field, i) =>
+    Math.max(field.length, ...data.map(init => cells(init)[i].length))
+  );
+  const line = (values: string[]) =>
+    values.map((value, i) => value.padEnd(widths[i])).join("  ");
+
+  console.log(line(LIST_FIELDS) + "  Initiative");
+  data.forEach(init => {
+    console.log(`${line(cells(init))}  ${init.Initiative ?? ""}`);
+  });
+  info(`${data.length} initiatives`);
+}
+
+/**
+ * roadmap set <id> <field> <value>
+ * An empty value clears the field
+ */
+async function setCommand(args: string[], _options: CliOptions) {
+  const [idArg, field, ...rest] = args;
+  const id = Number(idArg);
+  if (!idArg || !Number.isInteger(id) || !field || rest.length === 0) {
+    throw new UsageError("set needs an ID, a field and a value");
+  }
+
+  const columns = await storage.listColumns();
+  if (field === "ID" || !columns.some(col => col.column_name === field)) {
+    throw new UsageError(`Unknown field: ${field}`);
+  }
+
+  const current = await storage.getInitiative(id);
+  if (!current) {
+    throw new CommandError(`Initiative ${id} not found`);
+  }
+
+  const updates = cleanRowData({ [field]: rest.join(" ") }, columns);
+  const updated = await storage.updateInitiative(id, updates);
+  if (!updated) {
+    throw new CommandError(`Initiative ${id} not found`);
+  }
+
+  console.log(
+    `#${id} ${field}: ${formatValue(current[field])} -> ${formatValue(updated[field])}`
+  );
+}
+
+export const COMMANDS: Record<string, Command> = {
+  export: exportCommand,
+  import: importCommand,
+  list: listCommand,
+  set: setCommand,
+};
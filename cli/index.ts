@@ -0,0 +1,90 @@
+#!/usr/bin/env node
+import { parseArgs } from "util";
+import {
+  DEFAULT_WORKSPACE_ID,
+  WORKSPACE_ID_ERROR,
+  WORKSPACE_ID_PATTERN,
+} from "@shared/workspaces";
+import { requestActor, requestWorkspace } from "../server/storage";
+import {
+  COMMANDS,
+  CommandError,
+  UsageError,
+  type CliOptions,
+} from "./commands";
+
+/**
+ * Roadmap maintenance from the command line, against the same storage as
+ * the API server (STORAGE_BACKEND, SUPABASE_SERVICE_ROLE_KEY and friends).
+ * Runs with full access: field permissions and roles do not apply. Changes
+ * are recorded under ROADMAP_ACTOR (default: cli).
+ */
+
+const USAGE = `Usage: roadmap <command> [options]
+
+Commands:
+  export [--format xlsx|csv|json] [--output file|-] [--status S] [--product P]
+  import <file> [--mode update|create|upsert] [--dry-run]
+  list [--status S] [--product P] [--search text] [--json]
+  set <id> <field> <value>
+
+Options:
+  --workspace <id>   Workspace to work in (default: ROADMAP_WORKSPACE or ${DEFAULT_WORKSPACE_ID})
+  -h, --help         Show this help`;
+
+async function main(argv: string[]) {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      format: { type: "string" },
+      output: { type: "string", short: "o" },
+      mode: { type: "string" },
+      status: { type: "string" },
+      product: { type: "string" },
+      search: { type: "string" },
+      "dry-run": { type: "boolean" },
+      json: { type: "boolean" },
+      workspace: { type: "string" },
+      help: { type: "boolean", short: "h" },
+    },
+  });
+
+  const [name, ...args] = positionals;
+  if (values.help || !name) {
+    console.log(USAGE);
+    return;
+  }
+
+  const command = COMMANDS[name];
+  if (!command) {
+    throw new UsageError(`Unknown command: ${name}`);
+  }
+
+  const workspace =
+    values.workspace || process.env.ROADMAP_WORKSPACE || DEFAULT_WORKSPACE_ID;
+  if (!WORKSPACE_ID_PATTERN.test(workspace)) {
+    throw new UsageError(WORKSPACE_ID_ERROR);
+  }
+
+  await requestActor.run(process.env.ROADMAP_ACTOR || "cli", () =>
+    requestWorkspace.run(workspace, () => command(args, values as CliOptions))
+  );
+}
+
+main(process.argv.slice(2)).catch(error => {
+  if (error instanceof UsageError) {
+    console.error(`${error.message}\n\n${USAGE}`);
+    process.exitCode = 2;
+    return;
+  }
+  if (
+    error instanceof CommandError ||
+    error?.code === "ERR_PARSE_ARGS_UNKNOWN_OPTION"
+  ) {
+    console.error(error.message);
+  } else {
+    console.error(error);
+  }
+  process.exitCode = 1;
+});
@@ -1,27 +1,96 @@
 import { Toaster } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
-import { Route, Switch } from "wouter";
+import { Route, Switch, useRoute } from "wouter";
 import ErrorBoundary from "./components/ErrorBoundary";
+import { AuthProvider, useAuth } from "./contexts/AuthContext";
 import { ThemeProvider } from "./contexts/ThemeContext";
+import { WorkspaceProvider, useWorkspace } from "./contexts/WorkspaceContext";
+import Changes from "./pages/Changes";
+import Embed from "./pages/Embed";
 import Home from "./pages/Home";
+import Login from "./pages/Login";
+import PublicRoadmap from "./pages/PublicRoadmap";
+import Shared from "./pages/Shared";
+import Snapshot from "./pages/Snapshot";
+
+function Spinner() {
+  return (
+    <div className="min-h-screen flex items-center justify-center">
+      <div className="animate-spin rounded-full h-10 w-10 border-2 border-muted border-t-primary" />
+    </div>
+  );
+}
+
+// Remounted per workspace so no state carries over from the previous one
+function WorkspaceRoutes() {
+  const { current, loading } = useWorkspace();
+
+  if (loading) {
+    return <Spinner />;
+  }
+
+  if (!current) {
+    return (
+      <div className="min-h-screen flex items-center justify-center text-muted-foreground">
+        You are not a member of any workspace yet. Ask an admin to add you.
+      </div>
+    );
+  }
 
-function Router() {
   return (
-    <Switch>
+    <Switch key={current.id}>
+      <Route path={"/snapshots/:id"} component={Snapshot} />
+      <Route path={"/changes"} component={Changes} />
       <Route path={"/"} component={Home} />
       <Route component={Home} />
     </Switch>
   );
 }
 
+function Router() {
+  const { user, loading } = useAuth();
+  // Share links, their embeds and the public roadmap open without signing in
+  const [isShareLink, shareParams] = useRoute("/share/:token");
+  const [isEmbed, embedParams] = useRoute("/embed/:token");
+  const [isPublic, publicParams] = useRoute("/public/:workspace?");
+
+  if (isShareLink) {
+    return <Shared params={shareParams} />;
+  }
+
+  if (isEmbed) {
+    return <Embed params={embedParams} />;
+  }
+
+  if (isPublic) {
+    return <PublicRoadmap params={publicParams} />;
+  }
+
+  if (loading) {
+    return <Spinner />;
+  }
+
+  if (!user) {
+    return <Login />;
+  }
+
+  return (
+    <WorkspaceProvider key={user.id}>
+      <WorkspaceRoutes />
+    </WorkspaceProvider>
+  );
+}
+
 function App() {
   return (
     <ErrorBoundary>
       <ThemeProvider defaultTheme="light">
-        <TooltipProvider>
-          <Toaster />
-          <Router />
-        </TooltipProvider>
+        <AuthProvider>
+          <TooltipProvider>
+            <Toaster />
+            <Router />
+          </TooltipProvider>
+        </AuthProvider>
       </ThemeProvider>
     </ErrorBoundary>
   );
@@ -7,18 +7,27 @@ import { Initiative } from '@/types/database';
 import { StatusBadge } from './StatusBadge';
 import { useLocalStorage } from '@/hooks/useLocalStorage';
 import { useColumns } from '@/hooks/useColumns';
+import { useAuth } from '@/contexts/AuthContext';
+import { canEditField } from '@shared/auth';
+import { nextColumnSort, sortByColumn, type ColumnSort } from '@shared/initiatives';
+import { ROW_CHANGED, type ChangeHighlights } from '@/hooks/useChangeHighlights';
 import { EditableCell } from './EditableCell';
 import { getColumnType, getColumnOptions } from '@/lib/columnUtils';
 
 interface BacklogViewProps {
   initiatives: Initiative[];
-  onReorder: (reorderedInitiatives: Initiative[]) => void;
+  // Omitted when the user may not reorder
+  onReorder?: (reorderedInitiatives: Initiative[]) => void;
   onRowClick: (initiative: Initiative) => void;
   pageSize: number;
   currentPage: number;
   isEditMode?: boolean;
   savingCells?: Set<string>;
   onCellSave?: (rowId: number, columnName: string, newValue: any, immediate?: boolean) => Promise<void>;
+  recentChanges?: ChangeHighlights;
+  // Lets the page keep the sort (e.g. for exports); kept here otherwise
+  sortConfig?: ColumnSort | null;
+  onSortChange?: (sort: ColumnSort | null) => void;
 }
 
 interface Column {
@@ -26,6 +35,7 @@ interface Column {
   label: string;
   width: number;
   accessor: (item: Initiative) => React.ReactNode;
+  locked?: boolean;
 }
 
 const formatDate = (date: string | null) => date || '';
@@ -123,7 +133,9 @@ function SortableRow({
   onRowClick,
   isEditMode,
   savingCells,
-  onCellSave
+  onCellSave,
+  changedFields = [],
+  reorderable = true
 }: { 
   initiative: Initiative; 
   columns: Column[];
@@ -131,6 +143,8 @@ function SortableRow({
   isEditMode: boolean;
   savingCells: Set<string>;
   onCellSave?: (rowId: number, columnName: string, newValue: any, immediate?: boolean) => Promise<void>;
+  changedFields?: string[];
+  reorderable?: boolean;
 }) {
   const {
     attributes,
@@ -139,7 +153,7 @@ function SortableRow({
     transform,
     transition,
     isDragging
-  } = useSortable({ id: initiative.ID });
+  } = useSortable({ id: initiative.ID, disabled: !reorderable });
 
   const style = {
     transform: CSS.Transform.toString(transform),
@@ -159,19 +173,21 @@ function SortableRow({
       }}
       className={`border-b border-border/50 transition-colors duration-150 ${
         isEditMode ? 'hover:bg-muted/30' : 'hover:bg-muted/50 cursor-pointer'
-      }`}
+      } ${changedFields.includes(ROW_CHANGED) ? 'change-flash' : ''}`}
     >
       <td className="px-4 py-4 w-14 min-w-[56px]">
-        <div 
-          {...attributes} 
-          {...listeners} 
-          data-sortable-handle
-          className="cursor-grab active:cursor-grabbing flex items-center justify-center w-full h-full transition-colors duration-150 touch-none group hover:bg-muted/50 rounded"
-          onClick={(e) => e.stopPropagation()}
-          onMouseDown={(e) => e.stopPropagation()}
-        >
-          <GripVertical className="h-5 w-5 text-muted-foreground group-hover:text-foreground" />
-        </div>
+        {reorderable && (
+          <div 
+            {...attributes} 
+            {...listeners} 
+            data-sortable-handle
+            className="cursor-grab active:cursor-grabbing flex items-center justify-center w-full h-full transition-colors duration-150 touch-none group hover:bg-muted/50 rounded"
+            onClick={(e) => e.stopPropagation()}
+            onMouseDown={(e) => e.stopPropagation()}
+          >
+            <GripVertical className="h-5 w-5 text-muted-foreground group-hover:text-foreground" />
+          </div>
+        )}
       </td>
       {columns.map((column) => {
         const isLeftAligned = LEFT_ALIGNED_COLUMNS.includes(column.id);
@@ -182,7 +198,7 @@ function SortableRow({
         return (
           <td
             key={column.id}
-            className={`px-6 py-4 text-sm text-foreground overflow-hidden ${isLeftAligned ? 'text-left' : 'text-center'}`}
+            className={`px-6 py-4 text-sm text-foreground overflow-hidden ${isLeftAligned ? 'text-left' : 'text-center'} ${changedFields.includes(column.id) ? 'change-flash' : ''}`}
             style={{ width: column.width, minWidth: column.width, maxWidth: column.width }}
             onClick={(e) => isEditMode && e.stopPropagation()}
           >
@@ -197,6 +213,7 @@ function SortableRow({
                 isSaving={isSaving}
                 onSave={onCellSave}
                 dataType={column.dataType}
+                locked={column.locked}
               />
             ) : (
               <div className={isLeftAligned ? 'truncate' : 'truncate inline-block'}>
@@ -218,9 +235,13 @@ export function BacklogView({
   currentPage,
   isEditMode = false,
   savingCells = new Set(),
-  onCellSave
+  onCellSave,
+  recentChanges = {},
+  sortConfig: controlledSort,
+  onSortChange
 }: BacklogViewProps) {
   const { visibleColumns, loading: columnsLoading } = useColumns();
+  const { user } = useAuth();
   
   // Store column widths in localStorage
   const [columnWidths, setColumnWidths] = useLocalStorage<Record<string, number>>(
@@ -243,12 +264,14 @@ export function BacklogView({
         label: colConfig.display_name,
         width,
         accessor: createAccessor(columnName, colConfig.data_type),
-        dataType: colConfig.data_type
+        dataType: colConfig.data_type,
+        locked: !canEditField(user, colConfig)
       };
     });
-  }, [visibleColumns, columnWidths, columnsLoading]);
+  }, [visibleColumns, columnWidths, columnsLoading, user]);
 
-  const [sortConfig, setSortConfig] = useState<{ key: string; direction: 'asc' | 'desc' } | null>(null);
+  const [localSort, setLocalSort] = useState<ColumnSort | null>(null);
+  const sortConfig = controlledSort === undefined ? localSort : controlledSort;
   const [resizingColumn, setResizingColumn] = useState<string | null>(null);
   const resizeStartX = useRef(0);
   const resizeStartWidth = useRef(0);
@@ -264,21 +287,10 @@ export function BacklogView({
     })
   );
 
-  const sortedInitiatives = useMemo(() => {
-    if (!sortConfig) return initiatives;
-
-    return [...initiatives].sort((a, b) => {
-      const aValue = (a as any)[sortConfig.key];
-      const bValue = (b as any)[sortConfig.key];
-
-      if (aValue === null || aValue === undefined) return 1;
-      if (bValue === null || bValue === undefined) return -1;
-
-      if (aValue < bValue) return sortConfig.direction === 'asc' ? -1 : 1;
-      if (aValue > bValue) return sortConfig.direction === 'asc' ? 1 : -1;
-      return 0;
-    });
-  }, [initiatives, sortConfig]);
+  const sortedInitiatives = useMemo(
+    () => sortByColumn(initiatives, sortConfig),
+    [initiatives, sortConfig]
+  );
 
   const paginatedInitiatives = useMemo(() => {
     if (pageSize === -1) return sortedInitiatives;
@@ -287,13 +299,9 @@ export function BacklogView({
   }, [sortedInitiatives, pageSize, currentPage]);
 
   const handleSort = (columnId: string) => {
-    setSortConfig((current) => {
-      if (current?.key === columnId) {
-        if (current.direction === 'asc') return { key: columnId, direction: 'desc' };
-        return null;
-      }
-      return { key: columnId, direction: 'asc' };
-    });
+    const next = nextColumnSort(sortConfig, columnId);
+    setLocalSort(next);
+    onSortChange?.(next);
   };
 
   const handleResizeStart = (columnId: string, e: React.MouseEvent) => {
@@ -331,6 +339,8 @@ export function BacklogView({
   }, [resizingColumn, setColumnWidths]);
 
   const handleRowDragEnd = (event: DragEndEvent) => {
+    if (!onReorder) return;
+
     const { active, over } = event;
 
     if (over && active.id !== over.id) {
@@ -436,6 +446,8 @@ export function BacklogView({
                         isEditMode={isEditMode}
                         savingCells={savingCells}
                         onCellSave={onCellSave}
+                        changedFields={recentChanges[initiative.ID]}
+                        reorderable={!!onReorder}
                       />
                     ))}
                   </SortableContext>
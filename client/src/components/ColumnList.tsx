@@ -1,5 +1,5 @@
 import { useState } from 'react';
-import { GripVertical, Edit2, Trash2 } from 'lucide-react';
+import { GripVertical, Edit2, Lock, LockOpen, Trash2 } from 'lucide-react';
 import { Checkbox } from '@/components/ui/checkbox';
 import { Button } from '@/components/ui/button';
 import {
@@ -27,6 +27,7 @@ interface ColumnListProps {
   onReorder: (reorderedIds: string[]) => void;
   onEdit?: (column: ColumnConfig) => void;
   onDelete?: (column: ColumnConfig) => void;
+  onEditPermissions?: (column: ColumnConfig) => void;
   title: string;
   showActions?: boolean;
 }
@@ -36,14 +37,18 @@ function SortableColumnItem({
   onToggleVisibility,
   onEdit,
   onDelete,
+  onEditPermissions,
   showActions
 }: {
   column: ColumnConfig;
   onToggleVisibility: (id: string, isVisible: boolean) => void;
   onEdit?: (column: ColumnConfig) => void;
   onDelete?: (column: ColumnConfig) => void;
+  onEditPermissions?: (column: ColumnConfig) => void;
   showActions?: boolean;
 }) {
+  const editableBy = column.editable_by ?? [];
+
   const {
     attributes,
     listeners,
@@ -83,7 +88,27 @@ function SortableColumnItem({
         {column.is_required && (
           <span className="text-muted-foreground ml-2 text-xs">(required)</span>
         )}
+        {editableBy.length > 0 && (
+          <span className="text-muted-foreground ml-2 text-xs">
+            (editable by {editableBy.join(', ')})
+          </span>
+        )}
       </span>
+      {onEditPermissions && (
+        <Button
+          variant="ghost"
+          size="icon-sm"
+          onClick={() => onEditPermissions(column)}
+          className="h-7 w-7"
+          title="Edit permissions"
+        >
+          {editableBy.length > 0 ? (
+            <Lock className="h-3.5 w-3.5" />
+          ) : (
+            <LockOpen className="h-3.5 w-3.5 text-muted-foreground" />
+          )}
+        </Button>
+      )}
       {showActions && onEdit && onDelete && (
         <div className="flex gap-1">
           <Button
@@ -114,6 +139,7 @@ export function ColumnList({
   onReorder,
   onEdit,
   onDelete,
+  onEditPermissions,
   title,
   showActions = false
 }: ColumnListProps) {
@@ -161,6 +187,7 @@ export function ColumnList({
                 onToggleVisibility={onToggleVisibility}
                 onEdit={onEdit}
                 onDelete={onDelete}
+                onEditPermissions={onEditPermissions}
                 showActions={showActions}
               />
             ))}
@@ -26,6 +26,7 @@ import { AddColumnForm } from './AddColumnForm';
 import { useColumns, triggerColumnRefetch } from '@/hooks/useColumns';
 import { useColumnMutation } from '@/hooks/useColumnMutation';
 import type { ColumnConfig } from '@/types/database';
+import { parseGroups } from '@shared/auth';
 
 interface ColumnManagerProps {
   open: boolean;
@@ -40,6 +41,8 @@ export function ColumnManager({ open, onOpenChange }: ColumnManagerProps) {
   const [editingColumn, setEditingColumn] = useState<ColumnConfig | null>(null);
   const [deletingColumn, setDeletingColumn] = useState<ColumnConfig | null>(null);
   const [editDisplayName, setEditDisplayName] = useState('');
+  const [permissionsColumn, setPermissionsColumn] = useState<ColumnConfig | null>(null);
+  const [editGroups, setEditGroups] = useState('');
   const [hasUnsavedChanges, setHasUnsavedChanges] = useState(false);
   const [localColumns, setLocalColumns] = useState<ColumnConfig[]>([]);
   const [isSaving, setIsSaving] = useState(false);
@@ -53,6 +56,7 @@ export function ColumnManager({ open, onOpenChange }: ColumnManagerProps) {
       setHasUnsavedChanges(false);
       setShowAddForm(false);
       setEditingColumn(null);
+      setPermissionsColumn(null);
     }
   }, [open, columns]);
 
@@ -129,6 +133,7 @@ export function ColumnManager({ open, onOpenChange }: ColumnManagerProps) {
   };
 
   const handleEditColumn = (column: ColumnConfig) => {
+    setPermissionsColumn(null);
     setEditingColumn(column);
     setEditDisplayName(column.display_name);
   };
@@ -149,6 +154,29 @@ export function ColumnManager({ open, onOpenChange }: ColumnManagerProps) {
     }
   };
 
+  const handleEditPermissions = (column: ColumnConfig) => {
+    setEditingColumn(null);
+    setPermissionsColumn(column);
+    setEditGroups((column.editable_by ?? []).join(', '));
+  };
+
+  const handleSavePermissions = async () => {
+    if (!permissionsColumn) return;
+
+    const groups = parseGroups(editGroups);
+    const success = await updateColumn({
+      id: permissionsColumn.id,
+      editable_by: groups.length > 0 ? groups : null
+    });
+
+    if (success) {
+      await refetch();
+      setPermissionsColumn(null);
+      setEditGroups('');
+      setHasUnsavedChanges(true);
+    }
+  };
+
   const handleDeleteClick = (column: ColumnConfig) => {
     setDeletingColumn(column);
   };
@@ -251,7 +279,7 @@ export function ColumnManager({ open, onOpenChange }: ColumnManagerProps) {
           <DialogHeader className="px-6 pt-6 pb-4">
             <DialogTitle>Manage Columns</DialogTitle>
             <DialogDescription>
-              Drag ≡ to reorder • Check to show/hide
+              Drag ≡ to reorder • Check to show/hide • Lock to limit who can edit
             </DialogDescription>
           </DialogHeader>
 
@@ -264,6 +292,7 @@ export function ColumnManager({ open, onOpenChange }: ColumnManagerProps) {
                 columns={systemCols}
                 onToggleVisibility={handleToggleVisibility}
                 onReorder={handleReorder}
+                onEditPermissions={handleEditPermissions}
                 title=""
                 showActions={false}
               />
@@ -298,6 +327,7 @@ export function ColumnManager({ open, onOpenChange }: ColumnManagerProps) {
                 onReorder={handleReorder}
                 onEdit={handleEditColumn}
                 onDelete={handleDeleteClick}
+                onEditPermissions={handleEditPermissions}
                 title=""
                 showActions={true}
               />
@@ -321,6 +351,29 @@ export function ColumnManager({ open, onOpenChange }: ColumnManagerProps) {
                 </div>
               </div>
             )}
+
+            {permissionsColumn && (
+              <div className="border rounded-lg p-4 bg-muted/50 space-y-4">
+                <div className="space-y-2">
+                  <Label>Who can edit "{permissionsColumn.display_name}"</Label>
+                  <Input
+                    value={editGroups}
+                    onChange={(e) => setEditGroups(e.target.value)}
+                    placeholder="e.g. product-leadership, engineering-leads"
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Comma-separated permission groups. Leave empty to let every editor change this field.
+                    Groups are assigned to users under Manage Users.
+                  </p>
+                </div>
+                <div className="flex justify-end gap-2">
+                  <Button variant="outline" onClick={() => setPermissionsColumn(null)}>
+                    Cancel
+                  </Button>
+                  <Button onClick={handleSavePermissions}>Save</Button>
+                </div>
+              </div>
+            )}
           </div>
 
           <DialogFooter className="px-6 pb-6">
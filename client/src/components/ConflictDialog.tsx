@@ -0,0 +1,149 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
+import { Textarea } from '@/components/ui/textarea';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { useColumns } from '@/hooks/useColumns';
+import type { EditConflict } from '@/hooks/useInitiatives';
+import type { Initiative } from '@/types/database';
+
+type Choice = 'mine' | 'theirs' | 'merge';
+
+interface ConflictDialogProps {
+  conflict: EditConflict | null;
+  onResolve: (values: Partial<Initiative>) => Promise<boolean>;
+  onCancel: () => void;
+}
+
+const formatValue = (value: any) =>
+  value === null || value === undefined || value === '' ? '—' : String(value);
+
+// Starting point for a hand merge: both texts for text fields, otherwise mine
+function mergeDraft(mine: any, theirs: any, dataType?: string) {
+  if (dataType === 'text' && mine && theirs) {
+    return `${theirs}\n${mine}`;
+  }
+  return mine ?? '';
+}
+
+export function ConflictDialog({ conflict, onResolve, onCancel }: ConflictDialogProps) {
+  const { columns } = useColumns();
+  const [choices, setChoices] = useState<Record<string, Choice>>({});
+  const [merged, setMerged] = useState<Record<string, string>>({});
+  const [saving, setSaving] = useState(false);
+
+  const dataTypeOf = (field: string) =>
+    columns.find(col => col.column_name === field)?.data_type;
+
+  // Default every field to keeping my change
+  useEffect(() => {
+    if (!conflict) return;
+    setChoices(Object.fromEntries(conflict.fields.map(field => [field, 'mine' as Choice])));
+    setMerged(Object.fromEntries(conflict.fields.map(field => [
+      field,
+      mergeDraft(conflict.mine[field], conflict.initiative[field], dataTypeOf(field))
+    ])));
+  }, [conflict]);
+
+  if (!conflict) return null;
+
+  const { initiative, mine, fields } = conflict;
+
+  const setAll = (choice: Choice) => {
+    setChoices(Object.fromEntries(fields.map(field => [field, choice])));
+  };
+
+  const handleApply = async () => {
+    const values: Partial<Initiative> = {};
+    fields.forEach(field => {
+      const choice = choices[field] ?? 'mine';
+      values[field] =
+        choice === 'mine' ? mine[field] :
+        choice === 'theirs' ? initiative[field] :
+        merged[field];
+    });
+
+    setSaving(true);
+    try {
+      await onResolve(values);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && !saving && onCancel()}>
+      <DialogContent className="max-w-3xl max-h-[80vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Someone else changed this initiative</DialogTitle>
+          <DialogDescription>
+            "{initiative.Initiative || 'Untitled'}" was edited while you were working on it.
+            Choose which value to keep for each field you both changed.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex-1 overflow-auto space-y-4">
+          {fields.map((field) => {
+            const label = columns.find(col => col.column_name === field)?.display_name || field;
+            const choice = choices[field] ?? 'mine';
+
+            return (
+              <div key={field} className="border rounded-md p-3 space-y-2">
+                <div className="flex items-center justify-between gap-4">
+                  <span className="font-medium text-sm">{label}</span>
+                  <ToggleGroup
+                    type="single"
+                    variant="outline"
+                    size="sm"
+                    value={choice}
+                    onValueChange={(value) => value && setChoices(prev => ({ ...prev, [field]: value as Choice }))}
+                  >
+                    <ToggleGroupItem value="mine">Mine</ToggleGroupItem>
+                    <ToggleGroupItem value="theirs">Theirs</ToggleGroupItem>
+                    <ToggleGroupItem value="merge">Merge</ToggleGroupItem>
+                  </ToggleGroup>
+                </div>
+                <div className="grid grid-cols-2 gap-3 text-sm">
+                  <div>
+                    <div className="text-xs text-muted-foreground mb-1">Mine</div>
+                    <div className="whitespace-pre-wrap break-words">{formatValue(mine[field])}</div>
+                  </div>
+                  <div>
+                    <div className="text-xs text-muted-foreground mb-1">Theirs</div>
+                    <div className="whitespace-pre-wrap break-words">{formatValue(initiative[field])}</div>
+                  </div>
+                </div>
+                {choice === 'merge' && (
+                  <Textarea
+                    value={merged[field] ?? ''}
+                    onChange={(e) => setMerged(prev => ({ ...prev, [field]: e.target.value }))}
+                    rows={3}
+                  />
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        <DialogFooter className="sm:justify-between">
+          <div className="flex gap-2">
+            <Button variant="ghost" size="sm" onClick={() => setAll('mine')} disabled={saving}>
+              Keep all mine
+            </Button>
+            <Button variant="ghost" size="sm" onClick={() => setAll('theirs')} disabled={saving}>
+              Keep all theirs
+            </Button>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={onCancel} disabled={saving}>
+              Discard my changes
+            </Button>
+            <Button onClick={handleApply} disabled={saving}>
+              {saving ? 'Saving...' : 'Apply'}
+            </Button>
+          </div>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -3,7 +3,7 @@ import { useDebouncedCallback } from 'use-debounce';
 import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { Loader2 } from 'lucide-react';
+import { Loader2, Lock } from 'lucide-react';
 import type { Initiative } from '@/types/database';
 
 interface EditableCellProps {
@@ -16,6 +16,8 @@ interface EditableCellProps {
   isSaving: boolean;
   onSave: (rowId: number, columnName: string, newValue: any, immediate?: boolean) => Promise<void>;
   dataType?: string;
+  // Field the user may not edit; shown read-only with a lock in edit mode
+  locked?: boolean;
 }
 
 export function EditableCell({
@@ -27,7 +29,8 @@ export function EditableCell({
   isEditMode,
   isSaving,
   onSave,
-  dataType
+  dataType,
+  locked = false
 }: EditableCellProps) {
   const [localValue, setLocalValue] = useState(value);
 
@@ -64,6 +67,18 @@ export function EditableCell({
     onSave(rowId, columnName, valueToSave, true);
   };
 
+  if (isEditMode && locked) {
+    return (
+      <div
+        className="flex items-center gap-1.5 p-2 text-muted-foreground"
+        title="You don't have permission to edit this field"
+      >
+        <Lock className="h-3 w-3 shrink-0" />
+        <span className="truncate">{value === null || value === undefined || value === '' ? '—' : String(value)}</span>
+      </div>
+    );
+  }
+
   if (!isEditMode) {
     // Display mode - show formatted value
     if (value === null || value === undefined || value === '') {
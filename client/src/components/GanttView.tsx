@@ -1,47 +1,25 @@
 import { useEffect, useRef, useState } from 'react';
 import type { Initiative } from '@/types/database';
-import { quarterToDateRange } from '@/lib/dateUtils';
-import { supabase } from '@/lib/supabase';
+import { initiativeDateRange } from '@/lib/dateUtils';
+import { storage } from '@/lib/storage';
+import { useChangeHighlights } from '@/hooks/useChangeHighlights';
+import { changedFields, compareInitiatives, matchesInitiativeQuery } from '@shared/initiatives';
 import { toast } from 'sonner';
 import { Button } from '@/components/ui/button';
 // @ts-ignore - frappe-gantt doesn't have types
 import Gantt from 'frappe-gantt';
 
+export type GanttViewMode = 'Day' | 'Week' | 'Month' | 'Year';
+
 interface GanttViewProps {
   onTaskClick: (initiative: Initiative) => void;
-  onDateChange: (id: number, startDate: string, endDate: string) => Promise<void>;
-}
-
-function getDateRange(initiative: Initiative): { start: Date; end: Date } {
-  let startDate: Date;
-  let endDate: Date;
-
-  // Use Start Date if available
-  if (initiative['Start Date']) {
-    startDate = new Date(initiative['Start Date']);
-  } else if (initiative['Quarter Due']) {
-    // Derive from Quarter Due
-    const range = quarterToDateRange(initiative['Quarter Due']);
-    startDate = range.start;
-  } else {
-    // Default to current date
-    startDate = new Date();
-  }
-
-  // Use End Date if available
-  if (initiative['End Date']) {
-    endDate = new Date(initiative['End Date']);
-  } else if (initiative['Quarter Due']) {
-    // Derive from Quarter Due
-    const range = quarterToDateRange(initiative['Quarter Due']);
-    endDate = range.end;
-  } else {
-    // Default to 3 months from start
-    endDate = new Date(startDate);
-    endDate.setMonth(endDate.getMonth() + 3);
-  }
-
-  return { start: startDate, end: endDate };
+  // Omitted when the user may not edit; the bars can't be dragged then
+  onDateChange?: (id: number, startDate: string, endDate: string) => Promise<void>;
+  // Charts these rows instead of the live roadmap (snapshots)
+  frozenInitiatives?: Initiative[];
+  // Lets the page keep the view mode (e.g. for exports); kept here otherwise
+  viewMode?: GanttViewMode;
+  onViewModeChange?: (mode: GanttViewMode) => void;
 }
 
 function getStatusColor(status: string | null): string {
@@ -73,7 +51,7 @@ function getProgress(init: Initiative): number {
 
 function transformToGanttTasks(initiatives: Initiative[]) {
   return initiatives.map((init) => {
-    const { start, end } = getDateRange(init);
+    const { start, end } = initiativeDateRange(init);
     const statusColor = getStatusColor(init.Status);
 
     // Build name with priority rank
@@ -94,26 +72,37 @@ function transformToGanttTasks(initiatives: Initiative[]) {
   });
 }
 
-export function GanttView({ onTaskClick, onDateChange }: GanttViewProps) {
+export function GanttView({
+  onTaskClick,
+  onDateChange,
+  frozenInitiatives,
+  viewMode: controlledViewMode,
+  onViewModeChange
+}: GanttViewProps) {
   const ganttRef = useRef<HTMLDivElement>(null);
   const ganttInstance = useRef<any>(null);
   const [initiatives, setInitiatives] = useState<Initiative[]>([]);
   const [loading, setLoading] = useState(true);
-  const [viewMode, setViewMode] = useState<'Day' | 'Week' | 'Month' | 'Year'>('Month');
+  const [localViewMode, setLocalViewMode] = useState<GanttViewMode>('Month');
+  const viewMode = controlledViewMode ?? localViewMode;
+  const { highlights, highlight } = useChangeHighlights();
+  const initiativesRef = useRef(initiatives);
+  initiativesRef.current = initiatives;
 
   // Fetch ALL initiatives regardless of Status
   useEffect(() => {
+    if (frozenInitiatives) {
+      setInitiatives([...frozenInitiatives].sort(compareInitiatives({ orderBy: 'priority_rank' })));
+      setLoading(false);
+      return;
+    }
+
     async function fetchGanttData() {
       setLoading(true);
       try {
-        const { data, error } = await supabase
-          .from('roadmap_fields')
-          .select('*')
-          .order('Status', { ascending: true }) // Group by Status first
-          .order('priority_rank', { ascending: true, nullsFirst: false }); // Then by priority_rank
-
-        if (error) throw error;
-        setInitiatives(data || []);
+        // Grouped by Status first, then by priority_rank
+        const data = await storage.listInitiatives({ orderBy: 'priority_rank' });
+        setInitiatives(data);
       } catch (error) {
         console.error('Error fetching Gantt data:', error);
         toast.error('Failed to fetch initiatives');
@@ -123,7 +112,38 @@ export function GanttView({ onTaskClick, onDateChange }: GanttViewProps) {
     }
 
     fetchGanttData();
-  }, []);
+  }, [frozenInitiatives]);
+
+  // Keep the chart in sync with changes made elsewhere
+  useEffect(() => {
+    if (frozenInitiatives) return;
+
+    return storage.subscribe((change) => {
+      if (change.table !== 'roadmap_fields') return;
+
+      if (change.eventType === 'DELETE') {
+        setInitiatives(prev => prev.filter(init => init.ID !== change.old?.ID));
+        return;
+      }
+
+      const row = change.new;
+      if (!row) return;
+
+      // Trashed initiatives leave the chart
+      const visible = matchesInitiativeQuery(row, {});
+      const existing = initiativesRef.current.find(init => init.ID === row.ID);
+      if (visible && (!existing || changedFields(existing, row).length > 0)) {
+        highlight(row.ID, []);
+      }
+
+      setInitiatives(prev => {
+        const others = prev.filter(init => init.ID !== row.ID);
+        return visible
+          ? [...others, row].sort(compareInitiatives({ orderBy: 'priority_rank' }))
+          : others;
+      });
+    });
+  }, [highlight, frozenInitiatives]);
 
   useEffect(() => {
     if (!ganttRef.current || initiatives.length === 0 || loading) return;
@@ -146,6 +166,7 @@ export function GanttView({ onTaskClick, onDateChange }: GanttViewProps) {
       ganttInstance.current = new Gantt(ganttRef.current, tasks, {
       view_mode: viewMode,
       date_format: 'YYYY-MM-DD',
+      readonly: !onDateChange,
 
       // Bar styling
       bar_height: 30,
@@ -168,15 +189,10 @@ export function GanttView({ onTaskClick, onDateChange }: GanttViewProps) {
         try {
           const startStr = start.toISOString().split('T')[0];
           const endStr = end.toISOString().split('T')[0];
-          await onDateChange(parseInt(task.id), startStr, endStr);
+          await onDateChange?.(parseInt(task.id), startStr, endStr);
           // Refresh data after date change
-          const { data, error } = await supabase
-            .from('roadmap_fields')
-            .select('*')
-            .order('Status', { ascending: true })
-            .order('priority_rank', { ascending: true, nullsFirst: false });
-          if (error) throw error;
-          if (data) setInitiatives(data);
+          const data = await storage.listInitiatives({ orderBy: 'priority_rank' });
+          setInitiatives(data);
         } catch (error) {
           console.error('Failed to update dates:', error);
           toast.error('Failed to update dates');
@@ -223,8 +239,17 @@ export function GanttView({ onTaskClick, onDateChange }: GanttViewProps) {
     }
   }, [initiatives, loading, viewMode, onTaskClick, onDateChange]);
 
-  const handleViewModeChange = (mode: 'Day' | 'Week' | 'Month' | 'Year') => {
-    setViewMode(mode);
+  // Flash bars changed by other users; runs after the chart is (re)built
+  useEffect(() => {
+    ganttRef.current?.querySelectorAll('.bar-wrapper').forEach((bar) => {
+      const id = Number(bar.getAttribute('data-id'));
+      bar.classList.toggle('gantt-changed', id in highlights);
+    });
+  }, [highlights, initiatives, loading, viewMode]);
+
+  const handleViewModeChange = (mode: GanttViewMode) => {
+    setLocalViewMode(mode);
+    onViewModeChange?.(mode);
     if (ganttInstance.current) {
       ganttInstance.current.change_view_mode(mode);
     }
@@ -449,6 +474,12 @@ export function GanttView({ onTaskClick, onDateChange }: GanttViewProps) {
         .gantt-default .bar-progress {
           fill: #4B5563 !important;
         }
+        .gantt-changed .bar {
+          animation: gantt-changed-flash 1s ease-in-out 3;
+        }
+        @keyframes gantt-changed-flash {
+          50% { opacity: 0.4; }
+        }
         
         .gantt .bar-label {
           fill: #fff;
@@ -508,6 +539,14 @@ export function GanttView({ onTaskClick, onDateChange }: GanttViewProps) {
           margin: 4px 0;
           font-size: 14px;
         }
+
+        /* Print the whole chart, not just what fits in the scroll area */
+        @media print {
+          .gantt-container {
+            max-height: none;
+            overflow: visible;
+          }
+        }
       `}</style>
       <div ref={ganttRef} className="gantt-container" style={{ width: '100%', minHeight: '400px' }} />
     </div>
@@ -1,8 +1,22 @@
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { Plus, List, Calendar, Settings, Edit, Download, Upload, Search, BarChart3 } from 'lucide-react';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from '@/components/ui/dropdown-menu';
+import { Plus, List, Calendar, Settings, Edit, Download, Upload, Search, BarChart3, ListChecks, Camera, Share2, FileSpreadsheet, Presentation, FileText, FileJson } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useWorkspace } from '@/contexts/WorkspaceContext';
 import type { ProductType } from '@/types/database';
+import type { ViewExportFormat } from '@shared/exportImport';
+import { DEFAULT_WORKSPACE_TITLE } from '@shared/workspaces';
+import { UserMenu } from './UserMenu';
+import { WorkspaceSwitcher } from './WorkspaceSwitcher';
 
 interface HeaderProps {
   view: 'list' | 'gantt';
@@ -14,11 +28,17 @@ interface HeaderProps {
   onSearchChange: (term: string) => void;
   onNewInitiative: () => void;
   onManageColumns: () => void;
+  onCheckRanks: () => void;
   isEditMode: boolean;
   onEditModeToggle: () => void;
   savingCells: number;
   onExport: () => void;
+  onExportSlides: () => void;
+  onExportPdf: () => void;
+  onExportView: (format: ViewExportFormat) => void;
   onImport: () => void;
+  onSnapshots: () => void;
+  onShareLinks: () => void;
 }
 
 export function Header({
@@ -31,49 +51,128 @@ export function Header({
   onSearchChange,
   onNewInitiative,
   onManageColumns,
+  onCheckRanks,
   isEditMode,
   onEditModeToggle,
   savingCells,
   onExport,
-  onImport
+  onExportSlides,
+  onExportPdf,
+  onExportView,
+  onImport,
+  onSnapshots,
+  onShareLinks
 }: HeaderProps) {
+  const { can } = useAuth();
+  const { current: workspace } = useWorkspace();
+
   return (
     <header className="sticky top-0 z-50 backdrop-blur-sm bg-background/95 border-b border-border shadow-sm">
       <div className="max-w-[1600px] mx-auto px-6 py-4">
         <div className="flex items-center justify-between mb-4">
-          <h1 className="text-2xl font-semibold bg-gradient-to-r from-foreground to-muted-foreground bg-clip-text text-transparent">
-            Executive Product Roadmap
-          </h1>
+          <div className="flex items-center gap-4 min-w-0">
+            {workspace?.logo_url && (
+              <img src={workspace.logo_url} alt={workspace.name} className="h-9 w-auto max-w-[140px] object-contain" />
+            )}
+            <h1 className="text-2xl font-semibold bg-gradient-to-r from-foreground to-muted-foreground bg-clip-text text-transparent truncate">
+              {workspace?.title || DEFAULT_WORKSPACE_TITLE}
+            </h1>
+            <WorkspaceSwitcher />
+          </div>
           <div className="flex items-center gap-3">
-            <Button
-              variant={isEditMode ? 'default' : 'outline'}
-              onClick={onEditModeToggle}
-              className="gap-2 shadow-sm transition-all duration-200 hover:shadow-md"
-            >
-              <Edit className="h-4 w-4" />
-              {isEditMode ? 'Done Editing' : 'Edit Roadmap'}
-            </Button>
+            {can('editor') && (
+              <Button
+                variant={isEditMode ? 'default' : 'outline'}
+                onClick={onEditModeToggle}
+                className="gap-2 shadow-sm transition-all duration-200 hover:shadow-md"
+              >
+                <Edit className="h-4 w-4" />
+                {isEditMode ? 'Done Editing' : 'Edit Roadmap'}
+              </Button>
+            )}
             {isEditMode && (
               <span className="text-sm text-muted-foreground px-2">
                 {savingCells > 0 ? 'Saving...' : 'All changes saved'}
               </span>
             )}
-            <Button variant="outline" onClick={onExport} className="gap-2 shadow-sm transition-all duration-200 hover:shadow-md">
-              <Download className="h-4 w-4" />
-              Export
-            </Button>
-            <Button variant="outline" onClick={onImport} className="gap-2 shadow-sm transition-all duration-200 hover:shadow-md">
-              <Upload className="h-4 w-4" />
-              Import
-            </Button>
-            <Button variant="outline" onClick={onManageColumns} className="gap-2 shadow-sm transition-all duration-200 hover:shadow-md">
-              <Settings className="h-4 w-4" />
-              Manage Columns
-            </Button>
-            <Button onClick={onNewInitiative} className="gap-2 shadow-md hover:shadow-lg transition-all duration-200">
-              <Plus className="h-4 w-4" />
-              New Initiative
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="outline" className="gap-2 shadow-sm transition-all duration-200 hover:shadow-md">
+                  <Download className="h-4 w-4" />
+                  Export
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end" className="w-64">
+                <DropdownMenuItem onSelect={onExport}>
+                  <FileSpreadsheet className="h-4 w-4" />
+                  Excel (all statuses)
+                </DropdownMenuItem>
+                <DropdownMenuSeparator />
+                <DropdownMenuLabel className="text-xs font-normal text-muted-foreground">
+                  Current view (tab, filters, sort and visible columns)
+                </DropdownMenuLabel>
+                <DropdownMenuItem onSelect={() => onExportView('xlsx')}>
+                  <FileSpreadsheet className="h-4 w-4" />
+                  Excel
+                </DropdownMenuItem>
+                <DropdownMenuItem onSelect={() => onExportView('csv')}>
+                  <FileText className="h-4 w-4" />
+                  CSV
+                </DropdownMenuItem>
+                <DropdownMenuItem onSelect={() => onExportView('json')}>
+                  <FileJson className="h-4 w-4" />
+                  JSON
+                </DropdownMenuItem>
+                <DropdownMenuItem onSelect={onExportPdf}>
+                  <FileText className="h-4 w-4" />
+                  PDF of this view
+                </DropdownMenuItem>
+                <DropdownMenuSeparator />
+                <DropdownMenuLabel className="text-xs font-normal text-muted-foreground">
+                  Current product filter and search
+                </DropdownMenuLabel>
+                <DropdownMenuItem onSelect={onExportSlides}>
+                  <Presentation className="h-4 w-4" />
+                  PowerPoint slides
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+            <Button variant="outline" onClick={onSnapshots} className="gap-2 shadow-sm transition-all duration-200 hover:shadow-md">
+              <Camera className="h-4 w-4" />
+              Snapshots
             </Button>
+            {can('admin') && (
+              <>
+                <Button variant="outline" onClick={onImport} className="gap-2 shadow-sm transition-all duration-200 hover:shadow-md">
+                  <Upload className="h-4 w-4" />
+                  Import
+                </Button>
+                <Button variant="outline" onClick={onShareLinks} className="gap-2 shadow-sm transition-all duration-200 hover:shadow-md">
+                  <Share2 className="h-4 w-4" />
+                  Share
+                </Button>
+                <Button variant="outline" onClick={onManageColumns} className="gap-2 shadow-sm transition-all duration-200 hover:shadow-md">
+                  <Settings className="h-4 w-4" />
+                  Manage Columns
+                </Button>
+                <Button
+                  variant="outline"
+                  size="icon"
+                  onClick={onCheckRanks}
+                  title="Check rank integrity"
+                  className="shadow-sm transition-all duration-200 hover:shadow-md"
+                >
+                  <ListChecks className="h-4 w-4" />
+                </Button>
+              </>
+            )}
+            {can('editor') && (
+              <Button onClick={onNewInitiative} className="gap-2 shadow-md hover:shadow-lg transition-all duration-200">
+                <Plus className="h-4 w-4" />
+                New Initiative
+              </Button>
+            )}
+            <UserMenu />
           </div>
         </div>
 
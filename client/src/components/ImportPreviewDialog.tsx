@@ -1,36 +1,70 @@
-import { useState } from 'react';
+import { useMemo, useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
-import { Loader2 } from 'lucide-react';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { AlertTriangle, Loader2 } from 'lucide-react';
+import type { ImportPreview } from '@/lib/exportImport';
+import { planImport, type ImportMode } from '@shared/exportImport';
 
 interface ImportPreviewDialogProps {
   open: boolean;
-  data: any[];
-  onConfirm: () => Promise<void>;
+  // Rows and the IDs they may match; warnings are reasons the file may be
+  // out of date, importing it is still allowed
+  preview: ImportPreview | null;
+  onConfirm: (mode: ImportMode) => Promise<void>;
   onCancel: () => void;
 }
 
+const MODE_LABELS: Record<ImportMode, string> = {
+  update: 'Update existing initiatives only',
+  create: 'Create new initiatives only',
+  upsert: 'Update existing and create new'
+};
+
+type RowAction = 'Create' | 'Update' | 'Skip' | 'In trash';
+
 export function ImportPreviewDialog({
   open,
-  data,
+  preview,
   onConfirm,
   onCancel
 }: ImportPreviewDialogProps) {
   const [processing, setProcessing] = useState(false);
+  const [mode, setMode] = useState<ImportMode>('update');
+
+  // Rows match by ID; blank or unknown IDs are new initiatives
+  const actions = useMemo(() => {
+    const result = new Map<any, RowAction>();
+    if (!preview) return result;
+    const plan = planImport(preview.rows, preview.existingIds, preview.trashedIds, mode);
+    plan.create.forEach((row) => result.set(row, 'Create'));
+    plan.update.forEach((row) => result.set(row, 'Update'));
+    plan.skip.forEach((row) => result.set(row, 'Skip'));
+    plan.trashed.forEach((row) => result.set(row, 'In trash'));
+    return result;
+  }, [preview, mode]);
 
   const handleConfirm = async () => {
     setProcessing(true);
     try {
-      await onConfirm();
+      await onConfirm(mode);
     } finally {
       setProcessing(false);
     }
   };
 
-  if (data.length === 0) {
+  if (!preview || preview.rows.length === 0) {
     return null;
   }
 
+  const { rows: data, warnings } = preview;
+  const count = (action: RowAction) => Array.from(actions.values()).filter((a) => a === action).length;
+  const created = count('Create');
+  const updated = count('Update');
+  const skipped = count('Skip');
+  const trashed = count('In trash');
+
   const columns = Object.keys(data[0] || {});
   const previewRows = data.slice(0, 10);
 
@@ -40,15 +74,52 @@ export function ImportPreviewDialog({
         <DialogHeader>
           <DialogTitle>Import Preview</DialogTitle>
           <DialogDescription>
-            {data.length} row{data.length !== 1 ? 's' : ''} will be updated. Review the first 10 rows below.
+            {created} will be created, {updated} updated and {skipped} skipped.
+            {trashed > 0 && ` ${trashed} belong to initiatives in the trash and will be left alone; restore them first to import them.`}
+            {' '}Review the first 10 rows below.
           </DialogDescription>
         </DialogHeader>
 
+        <div className="flex items-center gap-3">
+          <span className="text-sm font-medium">Import mode</span>
+          <Select value={mode} onValueChange={(value) => setMode(value as ImportMode)} disabled={processing}>
+            <SelectTrigger className="w-72">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(MODE_LABELS) as ImportMode[]).map((value) => (
+                <SelectItem key={value} value={value}>
+                  {MODE_LABELS[value]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <span className="text-xs text-muted-foreground">
+            New initiatives get their ID and priority rank when they are created.
+          </span>
+        </div>
+
+        {warnings.length > 0 && (
+          <Alert className="border-amber-300 bg-amber-50 text-amber-900">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertTitle>This file may be out of date</AlertTitle>
+            <AlertDescription className="text-amber-900">
+              <ul className="list-disc pl-4">
+                {warnings.map((warning) => (
+                  <li key={warning}>{warning}</li>
+                ))}
+              </ul>
+              Importing may overwrite more recent edits.
+            </AlertDescription>
+          </Alert>
+        )}
+
         <div className="flex-1 overflow-auto border rounded-md">
           <div className="overflow-x-auto">
             <table className="w-full border-collapse text-sm">
               <thead className="bg-muted sticky top-0">
                 <tr>
+                  <th className="border p-2 text-left font-medium">Action</th>
                   {columns.map((key) => (
                     <th
                       key={key}
@@ -61,7 +132,11 @@ export function ImportPreviewDialog({
               </thead>
               <tbody>
                 {previewRows.map((row, idx) => (
-                  <tr key={idx} className="hover:bg-muted/50">
+                  <tr
+                    key={idx}
+                    className={`hover:bg-muted/50 ${actions.get(row) === 'Skip' || actions.get(row) === 'In trash' ? 'text-muted-foreground' : ''}`}
+                  >
+                    <td className="border p-2 text-left font-medium">{actions.get(row)}</td>
                     {columns.map((key) => (
                       <td
                         key={key}
@@ -97,7 +172,7 @@ export function ImportPreviewDialog({
           </Button>
           <Button
             onClick={handleConfirm}
-            disabled={processing}
+            disabled={processing || created + updated === 0}
             className="gap-2"
           >
             {processing ? (
@@ -0,0 +1,166 @@
+import { useEffect, useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { History, Loader2, Undo2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useColumns } from '@/hooks/useColumns';
+import { canChangeActorName, getActorName, setActorName } from '@/lib/actor';
+import { storage } from '@/lib/storage';
+import type { AuditAction, AuditEntry, FieldChange } from '@shared/audit';
+
+interface InitiativeHistoryProps {
+  initiativeId: number;
+  // Omitted for users who may not edit
+  onRevert?: (change: FieldChange) => Promise<boolean>;
+}
+
+const ACTION_LABELS: Record<AuditAction, string> = {
+  create: 'created this initiative',
+  update: 'edited',
+  delete: 'moved this initiative to the trash',
+  restore: 'restored this initiative from the trash',
+  purge: 'permanently deleted this initiative',
+  reorder: 'moved this initiative',
+  import: 'imported changes'
+};
+
+// Only regular edits can be undone field by field; ordering has its own tools
+const REVERTIBLE_ACTIONS: AuditAction[] = ['update', 'import'];
+
+const formatValue = (value: any) =>
+  value === null || value === undefined || value === '' ? '—' : String(value);
+
+export function InitiativeHistory({ initiativeId, onRevert }: InitiativeHistoryProps) {
+  const { columns } = useColumns();
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [reverting, setReverting] = useState<string | null>(null);
+  const [actorName, setActorNameState] = useState(getActorName);
+
+  const fetchHistory = async () => {
+    try {
+      setEntries(await storage.listHistory(initiativeId));
+    } catch (error) {
+      console.error('Error fetching history:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    setLoading(true);
+    fetchHistory();
+
+    // Each write to the row adds a history entry
+    return storage.subscribe((change) => {
+      if (change.table !== 'roadmap_fields') return;
+      const id = change.new?.ID ?? change.old?.ID;
+      if (id === initiativeId) {
+        fetchHistory();
+      }
+    });
+  }, [initiativeId]);
+
+  const labelFor = (field: string) =>
+    columns.find(col => col.column_name === field)?.display_name || field;
+
+  const handleRevert = async (entry: AuditEntry, change: FieldChange) => {
+    if (!onRevert) return;
+    const key = `${entry.id}-${change.field}`;
+    setReverting(key);
+    try {
+      await onRevert(change);
+    } finally {
+      setReverting(null);
+    }
+  };
+
+  const handleChangeName = () => {
+    const name = prompt('Name to show in the change history', actorName);
+    if (name !== null) {
+      setActorName(name);
+      setActorNameState(getActorName());
+    }
+  };
+
+  return (
+    <div className="pt-6 border-t border-border">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-sm font-semibold text-foreground flex items-center gap-2">
+          <History className="h-4 w-4" />
+          History
+        </h3>
+        {canChangeActorName() ? (
+          <button
+            type="button"
+            onClick={handleChangeName}
+            className="text-xs text-muted-foreground hover:text-foreground"
+          >
+            Editing as {actorName}
+          </button>
+        ) : (
+          <span className="text-xs text-muted-foreground">Signed in as {actorName}</span>
+        )}
+      </div>
+
+      {loading ? (
+        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          Loading history...
+        </div>
+      ) : entries.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No changes recorded yet.</p>
+      ) : (
+        <ul className="space-y-3">
+          {entries.map((entry) => {
+            const showFields = !['create', 'delete', 'restore', 'purge'].includes(entry.action);
+
+            return (
+              <li key={entry.id} className="text-sm">
+                <div className="text-muted-foreground">
+                  <span className="font-medium text-foreground">{entry.actor}</span>{' '}
+                  {ACTION_LABELS[entry.action]}{' '}
+                  <span title={new Date(entry.created_at).toLocaleString()}>
+                    {formatDistanceToNow(new Date(entry.created_at), { addSuffix: true })}
+                  </span>
+                </div>
+                {showFields && (
+                  <ul className="mt-1 space-y-1 pl-3 border-l border-border">
+                    {entry.changes.map((change) => {
+                      const key = `${entry.id}-${change.field}`;
+                      return (
+                        <li key={change.field} className="flex items-start justify-between gap-3">
+                          <div className="min-w-0">
+                            <span className="font-medium">{labelFor(change.field)}:</span>{' '}
+                            <span className="text-muted-foreground line-through break-words">{formatValue(change.before)}</span>
+                            {' → '}
+                            <span className="break-words">{formatValue(change.after)}</span>
+                          </div>
+                          {onRevert && REVERTIBLE_ACTIONS.includes(entry.action) && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="h-7 gap-1 flex-shrink-0"
+                              disabled={reverting !== null}
+                              onClick={() => handleRevert(entry, change)}
+                            >
+                              {reverting === key ? (
+                                <Loader2 className="h-3 w-3 animate-spin" />
+                              ) : (
+                                <Undo2 className="h-3 w-3" />
+                              )}
+                              Revert
+                            </Button>
+                          )}
+                        </li>
+                      );
+                    })}
+                  </ul>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { useDebouncedCallback } from 'use-debounce';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Input } from '@/components/ui/input';
@@ -6,9 +6,24 @@ import { Textarea } from '@/components/ui/textarea';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Button } from '@/components/ui/button';
 import { Label } from '@/components/ui/label';
-import { Loader2, Trash2, X } from 'lucide-react';
+import { Switch } from '@/components/ui/switch';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from '@/components/ui/dropdown-menu';
+import { ArrowRightLeft, Eye, EyeOff, Loader2, Lock, Trash2, X } from 'lucide-react';
 import { toast } from 'sonner';
 import type { Initiative, TabStatus } from '@/types/database';
+import type { FieldChange } from '@shared/audit';
+import { toPublicInitiative } from '@shared/publicRoadmap';
+import { useFieldLocks } from '@/hooks/useFieldLocks';
+import { useWorkspace } from '@/contexts/WorkspaceContext';
+import { InitiativeHistory } from './InitiativeHistory';
+import { PublicInitiativeCard } from './PublicInitiativeCard';
 import {
   PRIORITY_OPTIONS,
   QUARTER_OPTIONS,
@@ -22,22 +37,52 @@ interface InitiativePopupProps {
   initiative: Initiative | null;
   open: boolean;
   onClose: () => void;
-  onUpdate: (id: number, updates: Partial<Initiative>) => Promise<boolean>;
-  onDelete: (id: number) => Promise<boolean>;
+  onUpdate: (id: number, updates: Partial<Initiative>, base?: Partial<Initiative>) => Promise<boolean>;
+  // Omitted for users who may not delete
+  onDelete?: (id: number) => Promise<boolean>;
   onCreate?: (initiative: Partial<Initiative>) => Promise<Initiative | null>;
+  // Move or copy the initiative into another workspace (editors)
+  onMove?: (id: number, workspaceId: string) => Promise<boolean>;
+  onCopy?: (id: number, workspaceId: string) => Promise<boolean>;
+  // Shows the details without letting them be edited (viewers)
+  readOnly?: boolean;
+}
+
+// Marks a field the user's permission groups don't allow them to change
+function LockedIcon() {
+  return (
+    <Lock
+      className="inline-block h-3 w-3 ml-1.5 text-muted-foreground"
+      aria-label="You don't have permission to edit this field"
+    />
+  );
 }
 
-export function InitiativePopup({ initiative, open, onClose, onUpdate, onDelete, onCreate }: InitiativePopupProps) {
+export function InitiativePopup({ initiative, open, onClose, onUpdate, onDelete, onCreate, onMove, onCopy, readOnly = false }: InitiativePopupProps) {
   const [formData, setFormData] = useState<Partial<Initiative>>({});
   const [saving, setSaving] = useState(false);
   const [deleting, setDeleting] = useState(false);
+  const [transferring, setTransferring] = useState(false);
+  const { workspaces, current } = useWorkspace();
+  const otherWorkspaces = workspaces.filter(ws => ws.id !== current?.id);
   const [creating, setCreating] = useState(false);
+  // Shows the initiative the way the public roadmap does
+  const [preview, setPreview] = useState(false);
+  const fieldLocked = useFieldLocks();
+  // Read-only users can't change anything, so only editors see locks
+  const isLocked = (field: string) => !readOnly && fieldLocked(field);
+
+  // Last values known to be saved, so a stale save can tell which fields
+  // someone else changed after the popup opened
+  const savedValues = useRef<Partial<Initiative>>({});
 
   const isNewInitiative = !initiative || !initiative.ID;
 
   useEffect(() => {
+    setPreview(false);
     if (initiative) {
       setFormData(initiative);
+      savedValues.current = initiative;
     } else {
       // Reset form data when no initiative (shouldn't happen, but safety check)
       setFormData({});
@@ -48,16 +93,22 @@ export function InitiativePopup({ initiative, open, onClose, onUpdate, onDelete,
     // Only auto-save for existing initiatives
     if (!initiative || !initiative.ID) return;
     
+    const base = Object.fromEntries(
+      Object.keys(updates).map(field => [field, savedValues.current[field] ?? null])
+    );
+
     setSaving(true);
-    const success = await onUpdate(initiative.ID, updates);
+    const success = await onUpdate(initiative.ID, updates, base);
     setSaving(false);
     
     if (success) {
+      savedValues.current = { ...savedValues.current, ...updates };
       toast.success('Saved');
     }
   }, 500);
 
   const handleFieldChange = (field: keyof Initiative, value: any) => {
+    if (readOnly || isLocked(field as string)) return;
     const updates = { [field]: value };
     setFormData(prev => ({ ...prev, ...updates }));
     
@@ -67,6 +118,25 @@ export function InitiativePopup({ initiative, open, onClose, onUpdate, onDelete,
     }
   };
 
+  // Puts one field back to its value before a recorded change. If the field
+  // has been edited again since, this surfaces as a conflict.
+  const handleRevert = async (change: FieldChange) => {
+    if (!initiative || !initiative.ID) return false;
+
+    debouncedSave.flush();
+    const { field, before, after } = change;
+    setFormData(prev => ({ ...prev, [field]: before }));
+
+    const success = await onUpdate(initiative.ID, { [field]: before }, { [field]: after });
+    if (success) {
+      savedValues.current = { ...savedValues.current, [field]: before };
+      toast.success('Change reverted');
+    } else {
+      setFormData(prev => ({ ...prev, [field]: savedValues.current[field] }));
+    }
+    return success;
+  };
+
   const handleCreate = async () => {
     if (!onCreate) return;
     
@@ -85,10 +155,9 @@ export function InitiativePopup({ initiative, open, onClose, onUpdate, onDelete,
   };
 
   const handleDelete = async () => {
-    if (!initiative || !initiative.ID) return;
-    
-    if (!confirm('Are you sure you want to delete this initiative?')) return;
+    if (!initiative || !initiative.ID || !onDelete) return;
     
+    // Deleting moves the initiative to the trash, where it can be restored
     setDeleting(true);
     const success = await onDelete(initiative.ID);
     setDeleting(false);
@@ -98,6 +167,19 @@ export function InitiativePopup({ initiative, open, onClose, onUpdate, onDelete,
     }
   };
 
+  const handleTransfer = async (transfer: typeof onMove, workspaceId: string) => {
+    if (!initiative || !initiative.ID || !transfer) return;
+
+    setTransferring(true);
+    const success = await transfer(initiative.ID, workspaceId);
+    setTransferring(false);
+
+    // A moved initiative is no longer in this workspace
+    if (success && transfer === onMove) {
+      onClose();
+    }
+  };
+
   // Allow popup to show even for new initiatives (draft state)
   if (!initiative && !onCreate) return null;
 
@@ -109,6 +191,15 @@ export function InitiativePopup({ initiative, open, onClose, onUpdate, onDelete,
             Initiative Details
           </DialogTitle>
           <div className="flex items-center gap-4">
+            <Button
+              variant={preview ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => setPreview(prev => !prev)}
+              className="gap-2"
+            >
+              {preview ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+              Customer Preview
+            </Button>
             {saving && (
               <span className="text-sm font-normal text-muted-foreground flex items-center gap-2">
                 <Loader2 className="h-4 w-4 animate-spin" />
@@ -125,10 +216,26 @@ export function InitiativePopup({ initiative, open, onClose, onUpdate, onDelete,
         </div>
 
         <div className="overflow-y-auto flex-1 px-6 py-6 min-h-0">
-          <div className="space-y-6">
+          {preview ? (
+            <div className="space-y-4">
+              <p className="text-sm text-muted-foreground">
+                {formData.is_public
+                  ? 'Customers see this card on the public roadmap.'
+                  : 'Not on the public roadmap yet. Customers would see this card once it is made public.'}
+              </p>
+              <div className="max-w-sm">
+                <PublicInitiativeCard initiative={toPublicInitiative(formData)} />
+              </div>
+            </div>
+          ) : (
+          <>
+          <fieldset disabled={readOnly} className="space-y-6 min-w-0">
             {/* Move to dropdown */}
-            <div className="pb-6 border-b border-border">
-              <Label className="block text-sm font-medium text-foreground mb-2">Move to</Label>
+            <fieldset disabled={isLocked('Status')} className="pb-6 border-b border-border min-w-0">
+              <Label className="block text-sm font-medium text-foreground mb-2">
+                Move to
+                {isLocked('Status') && <LockedIcon />}
+              </Label>
               <Select
                 value={formData.Status || ''}
                 onValueChange={(value) => handleFieldChange('Status', value)}
@@ -142,65 +249,83 @@ export function InitiativePopup({ initiative, open, onClose, onUpdate, onDelete,
                   ))}
                 </SelectContent>
               </Select>
-            </div>
+            </fieldset>
 
             {/* Two-column grid for fields */}
             <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
               {/* Product */}
-              <div className="space-y-2">
-                <Label className="block text-sm font-medium text-foreground">Product</Label>
+              <fieldset disabled={isLocked('Product')} className="space-y-2 min-w-0">
+                <Label className="block text-sm font-medium text-foreground">
+                  Product
+                  {isLocked('Product') && <LockedIcon />}
+                </Label>
                 <Input
                   value={formData.Product || ''}
                   onChange={(e) => handleFieldChange('Product', e.target.value)}
                   placeholder="Enter product name"
                   className="shadow-sm focus:ring-2 focus:ring-primary/50 transition-all duration-200"
                 />
-              </div>
+              </fieldset>
 
               {/* Initiative */}
-              <div className="space-y-2">
-                <Label className="block text-sm font-medium text-foreground">Initiative</Label>
+              <fieldset disabled={isLocked('Initiative')} className="space-y-2 min-w-0">
+                <Label className="block text-sm font-medium text-foreground">
+                  Initiative
+                  {isLocked('Initiative') && <LockedIcon />}
+                </Label>
                 <Input
                   value={formData.Initiative || ''}
                   onChange={(e) => handleFieldChange('Initiative', e.target.value)}
                   className="shadow-sm focus:ring-2 focus:ring-primary/50 transition-all duration-200"
                 />
-            </div>
+            </fieldset>
 
               {/* Objective - full width */}
-              <div className="space-y-2 md:col-span-2">
-                <Label className="block text-sm font-medium text-foreground">Objective</Label>
+              <fieldset disabled={isLocked('Objective')} className="space-y-2 md:col-span-2 min-w-0">
+                <Label className="block text-sm font-medium text-foreground">
+                  Objective
+                  {isLocked('Objective') && <LockedIcon />}
+                </Label>
                 <Textarea
                   value={formData.Objective || ''}
                   onChange={(e) => handleFieldChange('Objective', e.target.value)}
                   rows={3}
                   className="shadow-sm focus:ring-2 focus:ring-primary/50 transition-all duration-200 resize-none"
                 />
-              </div>
+              </fieldset>
 
             {/* Deliverables - full width */}
-            <div className="space-y-2 md:col-span-2">
-              <Label>Deliverables</Label>
+            <fieldset disabled={isLocked('Deliverables')} className="space-y-2 md:col-span-2 min-w-0">
+              <Label>
+                Deliverables
+                {isLocked('Deliverables') && <LockedIcon />}
+              </Label>
               <Textarea
                 value={formData.Deliverables || ''}
                 onChange={(e) => handleFieldChange('Deliverables', e.target.value)}
                 rows={3}
               />
-            </div>
+            </fieldset>
 
             {/* Measure of Success - full width */}
-            <div className="space-y-2 md:col-span-2">
-              <Label>Measure of Success / Outcomes</Label>
+            <fieldset disabled={isLocked('Measure of Success / Outcomes')} className="space-y-2 md:col-span-2 min-w-0">
+              <Label>
+                Measure of Success / Outcomes
+                {isLocked('Measure of Success / Outcomes') && <LockedIcon />}
+              </Label>
               <Textarea
                 value={formData['Measure of Success / Outcomes'] || ''}
                 onChange={(e) => handleFieldChange('Measure of Success / Outcomes', e.target.value)}
                 rows={2}
               />
-            </div>
+            </fieldset>
 
             {/* User Impact / Effort */}
-            <div className="space-y-2">
-              <Label>User Impact / Effort</Label>
+            <fieldset disabled={isLocked('User Impact / Effort')} className="space-y-2 min-w-0">
+              <Label>
+                User Impact / Effort
+                {isLocked('User Impact / Effort') && <LockedIcon />}
+              </Label>
               <Select
                 value={formData['User Impact / Effort'] || ''}
                 onValueChange={(value) => handleFieldChange('User Impact / Effort', value)}
@@ -214,11 +339,14 @@ export function InitiativePopup({ initiative, open, onClose, onUpdate, onDelete,
                   ))}
                 </SelectContent>
               </Select>
-            </div>
+            </fieldset>
 
             {/* Priority */}
-            <div className="space-y-2">
-              <Label>Priority</Label>
+            <fieldset disabled={isLocked('Priority')} className="space-y-2 min-w-0">
+              <Label>
+                Priority
+                {isLocked('Priority') && <LockedIcon />}
+              </Label>
               <Select
                 value={formData.Priority || ''}
                 onValueChange={(value) => handleFieldChange('Priority', value)}
@@ -232,87 +360,114 @@ export function InitiativePopup({ initiative, open, onClose, onUpdate, onDelete,
                   ))}
                 </SelectContent>
               </Select>
-            </div>
+            </fieldset>
 
             {/* Priority Rank */}
-            <div className="space-y-2">
-              <Label>Priority Rank</Label>
+            <fieldset disabled={isLocked('priority_rank')} className="space-y-2 min-w-0">
+              <Label>
+                Priority Rank
+                {isLocked('priority_rank') && <LockedIcon />}
+              </Label>
               <Input
                 type="number"
                 value={formData.priority_rank ?? ''}
                 onChange={(e) => handleFieldChange('priority_rank', e.target.value ? parseInt(e.target.value) : null)}
               />
-            </div>
+            </fieldset>
 
             {/* Requested By */}
-            <div className="space-y-2">
-              <Label>Requested By</Label>
+            <fieldset disabled={isLocked('requested_by')} className="space-y-2 min-w-0">
+              <Label>
+                Requested By
+                {isLocked('requested_by') && <LockedIcon />}
+              </Label>
               <Input
                 value={formData.requested_by || ''}
                 onChange={(e) => handleFieldChange('requested_by', e.target.value)}
               />
-            </div>
+            </fieldset>
 
             {/* Engineer Assigned */}
-            <div className="space-y-2">
-              <Label>Engineer Assigned</Label>
+            <fieldset disabled={isLocked('engineer_assigned')} className="space-y-2 min-w-0">
+              <Label>
+                Engineer Assigned
+                {isLocked('engineer_assigned') && <LockedIcon />}
+              </Label>
               <Input
                 value={formData.engineer_assigned || ''}
                 onChange={(e) => handleFieldChange('engineer_assigned', e.target.value)}
               />
-            </div>
+            </fieldset>
 
             {/* Est. Hours / Story Points */}
-            <div className="space-y-2">
-              <Label>Est. Hours / Story Points</Label>
+            <fieldset disabled={isLocked('est_hours_story_points')} className="space-y-2 min-w-0">
+              <Label>
+                Est. Hours / Story Points
+                {isLocked('est_hours_story_points') && <LockedIcon />}
+              </Label>
               <Input
                 type="number"
                 step="0.1"
                 value={formData.est_hours_story_points ?? ''}
                 onChange={(e) => handleFieldChange('est_hours_story_points', e.target.value ? parseFloat(e.target.value) : null)}
               />
-            </div>
+            </fieldset>
 
             {/* Dependencies */}
-            <div className="space-y-2 md:col-span-2">
-              <Label>Dependencies</Label>
+            <fieldset disabled={isLocked('dependencies')} className="space-y-2 md:col-span-2 min-w-0">
+              <Label>
+                Dependencies
+                {isLocked('dependencies') && <LockedIcon />}
+              </Label>
               <Textarea
                 value={formData.dependencies || ''}
                 onChange={(e) => handleFieldChange('dependencies', e.target.value)}
                 rows={2}
               />
-            </div>
+            </fieldset>
 
             {/* Tags / Labels */}
-            <div className="space-y-2">
-              <Label>Tags / Labels</Label>
+            <fieldset disabled={isLocked('tags_labels')} className="space-y-2 min-w-0">
+              <Label>
+                Tags / Labels
+                {isLocked('tags_labels') && <LockedIcon />}
+              </Label>
               <Input
                 value={formData.tags_labels || ''}
                 onChange={(e) => handleFieldChange('tags_labels', e.target.value)}
               />
-            </div>
+            </fieldset>
 
             {/* Epic / Theme */}
-            <div className="space-y-2">
-              <Label>Epic / Theme</Label>
+            <fieldset disabled={isLocked('epic_theme')} className="space-y-2 min-w-0">
+              <Label>
+                Epic / Theme
+                {isLocked('epic_theme') && <LockedIcon />}
+              </Label>
               <Input
                 value={formData.epic_theme || ''}
                 onChange={(e) => handleFieldChange('epic_theme', e.target.value)}
               />
-            </div>
+            </fieldset>
 
             {/* Business Value / ROI */}
-            <div className="space-y-2">
-              <Label>Business Value / ROI</Label>
+            <fieldset disabled={isLocked('business_value_roi')} className="space-y-2 min-w-0">
+              <Label>
+                Business Value / ROI
+                {isLocked('business_value_roi') && <LockedIcon />}
+              </Label>
               <Input
                 value={formData.business_value_roi || ''}
                 onChange={(e) => handleFieldChange('business_value_roi', e.target.value)}
               />
-            </div>
+            </fieldset>
 
             {/* Risk Level */}
-            <div className="space-y-2">
-              <Label>Risk Level</Label>
+            <fieldset disabled={isLocked('risk_level')} className="space-y-2 min-w-0">
+              <Label>
+                Risk Level
+                {isLocked('risk_level') && <LockedIcon />}
+              </Label>
               <Select
                 value={formData.risk_level || ''}
                 onValueChange={(value) => handleFieldChange('risk_level', value)}
@@ -326,39 +481,51 @@ export function InitiativePopup({ initiative, open, onClose, onUpdate, onDelete,
                   ))}
                 </SelectContent>
               </Select>
-            </div>
+            </fieldset>
 
             {/* External Links */}
-            <div className="space-y-2 md:col-span-2">
-              <Label>External Links</Label>
+            <fieldset disabled={isLocked('external_links')} className="space-y-2 md:col-span-2 min-w-0">
+              <Label>
+                External Links
+                {isLocked('external_links') && <LockedIcon />}
+              </Label>
               <Input
                 type="url"
                 value={formData.external_links || ''}
                 onChange={(e) => handleFieldChange('external_links', e.target.value)}
               />
-            </div>
+            </fieldset>
 
             {/* Customer Impact */}
-            <div className="space-y-2">
-              <Label>Customer Impact</Label>
+            <fieldset disabled={isLocked('customer_impact')} className="space-y-2 min-w-0">
+              <Label>
+                Customer Impact
+                {isLocked('customer_impact') && <LockedIcon />}
+              </Label>
               <Input
                 value={formData.customer_impact || ''}
                 onChange={(e) => handleFieldChange('customer_impact', e.target.value)}
               />
-            </div>
+            </fieldset>
 
             {/* Team */}
-            <div className="space-y-2">
-              <Label>Team</Label>
+            <fieldset disabled={isLocked('team')} className="space-y-2 min-w-0">
+              <Label>
+                Team
+                {isLocked('team') && <LockedIcon />}
+              </Label>
               <Input
                 value={formData.team || ''}
                 onChange={(e) => handleFieldChange('team', e.target.value)}
               />
-            </div>
+            </fieldset>
 
             {/* Quarter Due */}
-            <div className="space-y-2">
-              <Label>Quarter Due</Label>
+            <fieldset disabled={isLocked('Quarter Due')} className="space-y-2 min-w-0">
+              <Label>
+                Quarter Due
+                {isLocked('Quarter Due') && <LockedIcon />}
+              </Label>
               <Select
                 value={formData['Quarter Due'] || ''}
                 onValueChange={(value) => handleFieldChange('Quarter Due', value)}
@@ -372,50 +539,65 @@ export function InitiativePopup({ initiative, open, onClose, onUpdate, onDelete,
                   ))}
                 </SelectContent>
               </Select>
-            </div>
+            </fieldset>
 
             {/* Start Date */}
-            <div className="space-y-2">
-              <Label>Start Date</Label>
+            <fieldset disabled={isLocked('Start Date')} className="space-y-2 min-w-0">
+              <Label>
+                Start Date
+                {isLocked('Start Date') && <LockedIcon />}
+              </Label>
               <Input
                 type="date"
                 value={formData['Start Date'] || ''}
                 onChange={(e) => handleFieldChange('Start Date', e.target.value)}
               />
-            </div>
+            </fieldset>
 
             {/* End Date */}
-            <div className="space-y-2">
-              <Label>End Date</Label>
+            <fieldset disabled={isLocked('End Date')} className="space-y-2 min-w-0">
+              <Label>
+                End Date
+                {isLocked('End Date') && <LockedIcon />}
+              </Label>
               <Input
                 type="date"
                 value={formData['End Date'] || ''}
                 onChange={(e) => handleFieldChange('End Date', e.target.value)}
               />
-            </div>
+            </fieldset>
 
             {/* Actual Completion Date */}
-            <div className="space-y-2">
-              <Label>Actual Completion Date</Label>
+            <fieldset disabled={isLocked('actual_completion_date')} className="space-y-2 min-w-0">
+              <Label>
+                Actual Completion Date
+                {isLocked('actual_completion_date') && <LockedIcon />}
+              </Label>
               <Input
                 type="date"
                 value={formData.actual_completion_date || ''}
                 onChange={(e) => handleFieldChange('actual_completion_date', e.target.value)}
               />
-            </div>
+            </fieldset>
 
             {/* Production Live Date */}
-            <div className="space-y-2">
-              <Label>Production Live Date</Label>
+            <fieldset disabled={isLocked('Production Live Date')} className="space-y-2 min-w-0">
+              <Label>
+                Production Live Date
+                {isLocked('Production Live Date') && <LockedIcon />}
+              </Label>
               <Input
                 value={formData['Production Live Date'] || ''}
                 onChange={(e) => handleFieldChange('Production Live Date', e.target.value)}
               />
-            </div>
+            </fieldset>
 
             {/* Product Dev Status */}
-            <div className="space-y-2 md:col-span-2">
-              <Label>Product Dev Status</Label>
+            <fieldset disabled={isLocked('Product Dev Status')} className="space-y-2 md:col-span-2 min-w-0">
+              <Label>
+                Product Dev Status
+                {isLocked('Product Dev Status') && <LockedIcon />}
+              </Label>
               <Select
                 value={formData['Product Dev Status'] || ''}
                 onValueChange={(value) => handleFieldChange('Product Dev Status', value)}
@@ -429,20 +611,75 @@ export function InitiativePopup({ initiative, open, onClose, onUpdate, onDelete,
                   ))}
                 </SelectContent>
               </Select>
-            </div>
+            </fieldset>
 
             {/* Notes - full width */}
-            <div className="space-y-2 md:col-span-2">
-              <Label>Notes</Label>
+            <fieldset disabled={isLocked('Notes')} className="space-y-2 md:col-span-2 min-w-0">
+              <Label>
+                Notes
+                {isLocked('Notes') && <LockedIcon />}
+              </Label>
               <Textarea
                 value={formData.Notes || ''}
                 onChange={(e) => handleFieldChange('Notes', e.target.value)}
                 rows={4}
               />
-            </div>
+            </fieldset>
           </div>
 
+          {/* Public roadmap - admins decide what customers see */}
+          <div className="pt-6 border-t border-border space-y-4">
+            <fieldset disabled={isLocked('is_public')} className="flex items-center justify-between gap-4 min-w-0">
+              <div>
+                <Label htmlFor="initiative-is-public">
+                  Show on public roadmap
+                  {isLocked('is_public') && <LockedIcon />}
+                </Label>
+                <p className="text-xs text-muted-foreground mt-1">
+                  Customers only see the public title and description, the product, priority and quarter.
+                </p>
+              </div>
+              <Switch
+                id="initiative-is-public"
+                checked={!!formData.is_public}
+                onCheckedChange={(checked) => handleFieldChange('is_public', checked)}
+              />
+            </fieldset>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <fieldset disabled={isLocked('public_title')} className="space-y-2 md:col-span-2 min-w-0">
+                <Label>
+                  Public Title
+                  {isLocked('public_title') && <LockedIcon />}
+                </Label>
+                <Input
+                  value={formData.public_title || ''}
+                  onChange={(e) => handleFieldChange('public_title', e.target.value)}
+                  placeholder={formData.Initiative || 'Defaults to the initiative name'}
+                />
+              </fieldset>
+              <fieldset disabled={isLocked('public_description')} className="space-y-2 md:col-span-2 min-w-0">
+                <Label>
+                  Public Description
+                  {isLocked('public_description') && <LockedIcon />}
+                </Label>
+                <Textarea
+                  value={formData.public_description || ''}
+                  onChange={(e) => handleFieldChange('public_description', e.target.value)}
+                  rows={3}
+                />
+              </fieldset>
+            </div>
           </div>
+
+          </fieldset>
+
+          {!isNewInitiative && initiative && (
+            <div className="mt-6">
+              <InitiativeHistory initiativeId={initiative.ID} onRevert={readOnly ? undefined : handleRevert} />
+            </div>
+          )}
+          </>
+          )}
         </div>
 
         {/* Footer with actions */}
@@ -450,7 +687,9 @@ export function InitiativePopup({ initiative, open, onClose, onUpdate, onDelete,
           <div className="text-sm text-muted-foreground">
             {isNewInitiative 
               ? 'Fill in the details and click Create to add this initiative'
-              : saving 
+              : readOnly
+                ? 'You have read-only access'
+                : saving 
                 ? 'Saving...' 
                 : 'All changes saved automatically'}
           </div>
@@ -488,24 +727,67 @@ export function InitiativePopup({ initiative, open, onClose, onUpdate, onDelete,
                 >
                   Done
                 </Button>
-                <Button
-                  variant="destructive"
-                  onClick={handleDelete}
-                  disabled={deleting}
-                  className="gap-2 shadow-sm transition-all duration-200 hover:shadow-md"
-                >
-                  {deleting ? (
-                    <>
-                      <Loader2 className="h-4 w-4 animate-spin" />
-                      Deleting...
-                    </>
-                  ) : (
-                    <>
-                      <Trash2 className="h-4 w-4" />
-                      Delete Initiative
-                    </>
-                  )}
-                </Button>
+                {(onMove || onCopy) && otherWorkspaces.length > 0 && (
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                      <Button
+                        variant="outline"
+                        disabled={transferring}
+                        className="gap-2 shadow-sm transition-all duration-200 hover:shadow-md"
+                      >
+                        {transferring ? (
+                          <Loader2 className="h-4 w-4 animate-spin" />
+                        ) : (
+                          <ArrowRightLeft className="h-4 w-4" />
+                        )}
+                        Move / Copy
+                      </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="end" className="w-56">
+                      {onMove && (
+                        <>
+                          <DropdownMenuLabel>Move to</DropdownMenuLabel>
+                          {otherWorkspaces.map(ws => (
+                            <DropdownMenuItem key={ws.id} onSelect={() => handleTransfer(onMove, ws.id)}>
+                              {ws.name}
+                            </DropdownMenuItem>
+                          ))}
+                        </>
+                      )}
+                      {onMove && onCopy && <DropdownMenuSeparator />}
+                      {onCopy && (
+                        <>
+                          <DropdownMenuLabel>Copy to</DropdownMenuLabel>
+                          {otherWorkspaces.map(ws => (
+                            <DropdownMenuItem key={ws.id} onSelect={() => handleTransfer(onCopy, ws.id)}>
+                              {ws.name}
+                            </DropdownMenuItem>
+                          ))}
+                        </>
+                      )}
+                    </DropdownMenuContent>
+                  </DropdownMenu>
+                )}
+                {onDelete && (
+                  <Button
+                    variant="destructive"
+                    onClick={handleDelete}
+                    disabled={deleting}
+                    className="gap-2 shadow-sm transition-all duration-200 hover:shadow-md"
+                  >
+                    {deleting ? (
+                      <>
+                        <Loader2 className="h-4 w-4 animate-spin" />
+                        Deleting...
+                      </>
+                    ) : (
+                      <>
+                        <Trash2 className="h-4 w-4" />
+                        Move to Trash
+                      </>
+                    )}
+                  </Button>
+                )}
               </>
             )}
           </div>
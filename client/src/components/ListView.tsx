@@ -3,10 +3,15 @@ import { DndContext, closestCenter, KeyboardSensor, PointerSensor, useSensor, us
 import { arrayMove, SortableContext, sortableKeyboardCoordinates, useSortable, verticalListSortingStrategy } from '@dnd-kit/sortable';
 import { CSS } from '@dnd-kit/utilities';
 import { ArrowUpDown, GripVertical, Settings } from 'lucide-react';
-import { Initiative } from '@/types/database';
+import { Initiative, type ColumnConfig } from '@/types/database';
 import { StatusBadge } from './StatusBadge';
 import { useLocalStorage } from '@/hooks/useLocalStorage';
 import { useColumns } from '@/hooks/useColumns';
+import { useAuth } from '@/contexts/AuthContext';
+import { canEditField } from '@shared/auth';
+import { getVisibleColumns } from '@shared/columns';
+import { nextColumnSort, sortByColumn, type ColumnSort } from '@shared/initiatives';
+import { ROW_CHANGED, type ChangeHighlights } from '@/hooks/useChangeHighlights';
 import { EditableCell } from './EditableCell';
 import { getColumnType, getColumnOptions } from '@/lib/columnUtils';
 
@@ -19,6 +24,12 @@ interface ListViewProps {
   isEditMode?: boolean;
   savingCells?: Set<string>;
   onCellSave?: (rowId: number, columnName: string, newValue: any, immediate?: boolean) => Promise<void>;
+  recentChanges?: ChangeHighlights;
+  // Column configuration to show instead of the live one (snapshots)
+  columnConfig?: ColumnConfig[];
+  // Lets the page keep the sort (e.g. for exports); kept here otherwise
+  sortConfig?: ColumnSort | null;
+  onSortChange?: (sort: ColumnSort | null) => void;
 }
 
 interface Column {
@@ -27,6 +38,7 @@ interface Column {
   width: number;
   accessor: (item: Initiative) => React.ReactNode;
   dataType?: string;
+  locked?: boolean;
 }
 
 const formatDate = (date: string | null) => date || '';
@@ -124,7 +136,9 @@ function SortableRow({
   onRowClick,
   isEditMode,
   savingCells,
-  onCellSave
+  onCellSave,
+  changedFields = [],
+  reorderable = true
 }: { 
   initiative: Initiative; 
   columns: Column[];
@@ -132,6 +146,8 @@ function SortableRow({
   isEditMode: boolean;
   savingCells: Set<string>;
   onCellSave?: (rowId: number, columnName: string, newValue: any, immediate?: boolean) => Promise<void>;
+  changedFields?: string[];
+  reorderable?: boolean;
 }) {
   const {
     attributes,
@@ -140,7 +156,7 @@ function SortableRow({
     transform,
     transition,
     isDragging
-  } = useSortable({ id: initiative.ID });
+  } = useSortable({ id: initiative.ID, disabled: !reorderable });
 
   const style = {
     transform: CSS.Transform.toString(transform),
@@ -160,19 +176,21 @@ function SortableRow({
       }}
       className={`border-b border-border/50 transition-colors duration-150 ${
         isEditMode ? 'hover:bg-muted/30' : 'hover:bg-muted/50 cursor-pointer'
-      }`}
+      } ${changedFields.includes(ROW_CHANGED) ? 'change-flash' : ''}`}
     >
       <td className="px-4 py-4 w-14 min-w-[56px]">
-        <div 
-          {...attributes} 
-          {...listeners} 
-          data-sortable-handle
-          className="cursor-grab active:cursor-grabbing flex items-center justify-center w-full h-full transition-colors duration-150 touch-none group hover:bg-muted/50 rounded"
-          onClick={(e) => e.stopPropagation()}
-          onMouseDown={(e) => e.stopPropagation()}
-        >
-          <GripVertical className="h-5 w-5 text-muted-foreground group-hover:text-foreground" />
-        </div>
+        {reorderable && (
+          <div 
+            {...attributes} 
+            {...listeners} 
+            data-sortable-handle
+            className="cursor-grab active:cursor-grabbing flex items-center justify-center w-full h-full transition-colors duration-150 touch-none group hover:bg-muted/50 rounded"
+            onClick={(e) => e.stopPropagation()}
+            onMouseDown={(e) => e.stopPropagation()}
+          >
+            <GripVertical className="h-5 w-5 text-muted-foreground group-hover:text-foreground" />
+          </div>
+        )}
       </td>
       {columns.map((column) => {
         const isLeftAligned = LEFT_ALIGNED_COLUMNS.includes(column.id);
@@ -183,7 +201,7 @@ function SortableRow({
         return (
           <td
             key={column.id}
-            className={`px-6 py-4 text-sm text-foreground overflow-hidden ${isLeftAligned ? 'text-left' : 'text-center'}`}
+            className={`px-6 py-4 text-sm text-foreground overflow-hidden ${isLeftAligned ? 'text-left' : 'text-center'} ${changedFields.includes(column.id) ? 'change-flash' : ''}`}
             style={{ width: column.width, minWidth: column.width, maxWidth: column.width }}
             onClick={(e) => isEditMode && e.stopPropagation()}
           >
@@ -198,6 +216,7 @@ function SortableRow({
                 isSaving={isSaving}
                 onSave={onCellSave}
                 dataType={column.dataType}
+                locked={column.locked}
               />
             ) : (
               <div className={isLeftAligned ? 'truncate' : 'truncate inline-block'}>
@@ -219,9 +238,21 @@ export function ListView({
   currentPage,
   isEditMode = false,
   savingCells = new Set(),
-  onCellSave
+  onCellSave,
+  recentChanges = {},
+  columnConfig,
+  sortConfig: controlledSort,
+  onSortChange
 }: ListViewProps) {
-  const { visibleColumns, loading: columnsLoading } = useColumns();
+  const liveColumns = useColumns();
+  const visibleColumns = useMemo(
+    () => columnConfig
+      ? getVisibleColumns(columnConfig)
+      : liveColumns.visibleColumns,
+    [columnConfig, liveColumns.visibleColumns]
+  );
+  const columnsLoading = !columnConfig && liveColumns.loading;
+  const { user } = useAuth();
   
   // Store column widths in localStorage
   const [columnWidths, setColumnWidths] = useLocalStorage<Record<string, number>>(
@@ -244,12 +275,14 @@ export function ListView({
         label: colConfig.display_name,
         width,
         accessor: createAccessor(columnName, colConfig.data_type),
-        dataType: colConfig.data_type
+        dataType: colConfig.data_type,
+        locked: !canEditField(user, colConfig)
       };
     });
-  }, [visibleColumns, columnWidths, columnsLoading]);
+  }, [visibleColumns, columnWidths, columnsLoading, user]);
 
-  const [sortConfig, setSortConfig] = useState<{ key: string; direction: 'asc' | 'desc' } | null>(null);
+  const [localSort, setLocalSort] = useState<ColumnSort | null>(null);
+  const sortConfig = controlledSort === undefined ? localSort : controlledSort;
   const [resizingColumn, setResizingColumn] = useState<string | null>(null);
   const resizeStartX = useRef(0);
   const resizeStartWidth = useRef(0);
@@ -265,21 +298,10 @@ export function ListView({
     })
   );
 
-  const sortedInitiatives = useMemo(() => {
-    if (!sortConfig) return initiatives;
-
-    return [...initiatives].sort((a, b) => {
-      const aValue = (a as any)[sortConfig.key];
-      const bValue = (b as any)[sortConfig.key];
-
-      if (aValue === null || aValue === undefined) return 1;
-      if (bValue === null || bValue === undefined) return -1;
-
-      if (aValue < bValue) return sortConfig.direction === 'asc' ? -1 : 1;
-      if (aValue > bValue) return sortConfig.direction === 'asc' ? 1 : -1;
-      return 0;
-    });
-  }, [initiatives, sortConfig]);
+  const sortedInitiatives = useMemo(
+    () => sortByColumn(initiatives, sortConfig),
+    [initiatives, sortConfig]
+  );
 
   const paginatedInitiatives = useMemo(() => {
     if (pageSize === -1) return sortedInitiatives;
@@ -288,13 +310,9 @@ export function ListView({
   }, [sortedInitiatives, pageSize, currentPage]);
 
   const handleSort = (columnId: string) => {
-    setSortConfig((current) => {
-      if (current?.key === columnId) {
-        if (current.direction === 'asc') return { key: columnId, direction: 'desc' };
-        return null;
-      }
-      return { key: columnId, direction: 'asc' };
-    });
+    const next = nextColumnSort(sortConfig, columnId);
+    setLocalSort(next);
+    onSortChange?.(next);
   };
 
   const handleResizeStart = (columnId: string, e: React.MouseEvent) => {
@@ -440,6 +458,8 @@ export function ListView({
                         isEditMode={isEditMode}
                         savingCells={savingCells}
                         onCellSave={onCellSave}
+                        changedFields={recentChanges[initiative.ID]}
+                        reorderable={!!onReorder}
                       />
                     ))}
                   </SortableContext>
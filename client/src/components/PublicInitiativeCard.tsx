@@ -0,0 +1,25 @@
+import { Badge } from '@/components/ui/badge';
+import type { PublicInitiative } from '@/types/database';
+
+interface PublicInitiativeCardProps {
+  initiative: PublicInitiative;
+}
+
+// One initiative as customers see it on the public roadmap
+export function PublicInitiativeCard({ initiative }: PublicInitiativeCardProps) {
+  return (
+    <div className="rounded-lg border border-border bg-card p-4 shadow-sm space-y-2">
+      <div className="flex items-start justify-between gap-3">
+        <h3 className="font-medium text-foreground">{initiative.title}</h3>
+        {initiative.released && <Badge className="shrink-0">Released</Badge>}
+      </div>
+      {initiative.description && (
+        <p className="text-sm text-muted-foreground whitespace-pre-line">{initiative.description}</p>
+      )}
+      <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+        {initiative.product && <Badge variant="secondary">{initiative.product}</Badge>}
+        {initiative.quarter && initiative.quarter !== 'TBD' && <span>{initiative.quarter}</span>}
+      </div>
+    </div>
+  );
+}
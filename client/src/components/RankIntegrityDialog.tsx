@@ -0,0 +1,149 @@
+import { useEffect, useState } from 'react';
+import { CheckCircle2, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { useFieldLocks } from '@/hooks/useFieldLocks';
+import { storage } from '@/lib/storage';
+import type { Initiative } from '@/types/database';
+import { checkRankIntegrity, rankRepairUpdates, type RankIssue } from '@shared/ranks';
+
+interface RankIntegrityDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const plural = (count: number, word: string) => `${count} ${word}${count !== 1 ? 's' : ''}`;
+
+function describeIssue(issue: RankIssue) {
+  switch (issue.kind) {
+    case 'missing':
+      return `${plural(issue.ids.length, 'initiative')} without a rank`;
+    case 'duplicate':
+      return `Rank ${issue.rank} is shared by ${issue.ids.length} initiatives`;
+    case 'gap':
+      return issue.lastRank !== issue.rank
+        ? `Ranks ${issue.rank}–${issue.lastRank} are skipped`
+        : `Rank ${issue.rank} is skipped`;
+    case 'completed':
+      return `${plural(issue.ids.length, 'completed initiative')} still ranked`;
+  }
+}
+
+export function RankIntegrityDialog({ open, onOpenChange }: RankIntegrityDialogProps) {
+  const [initiatives, setInitiatives] = useState<Initiative[]>([]);
+  const [issues, setIssues] = useState<RankIssue[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [repairing, setRepairing] = useState(false);
+  const rankLocked = useFieldLocks()('priority_rank');
+
+  const runCheck = async () => {
+    setLoading(true);
+    try {
+      const data = await storage.listInitiatives({ status: 'All' });
+      setInitiatives(data);
+      setIssues(checkRankIntegrity(data));
+    } catch (error) {
+      console.error('Error checking rank integrity:', error);
+      toast.error('Failed to check rank integrity');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (open) {
+      runCheck();
+    }
+  }, [open]);
+
+  const handleRepair = async () => {
+    setRepairing(true);
+    try {
+      const updates = rankRepairUpdates(initiatives);
+      await storage.saveOrder(updates);
+      toast.success(`Renumbered ${plural(updates.length, 'initiative')}`);
+      await runCheck();
+    } catch (error) {
+      console.error('Error repairing ranks:', error);
+      toast.error('Failed to repair ranks');
+    } finally {
+      setRepairing(false);
+    }
+  };
+
+  const nameOf = (id: number) =>
+    initiatives.find(init => init.ID === id)?.Initiative || `#${id}`;
+
+  const statuses = Array.from(new Set(issues.map(issue => issue.status)));
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[80vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Check Rank Integrity</DialogTitle>
+          <DialogDescription>
+            Each status should rank its initiatives 1, 2, 3… without gaps or ties, and completed
+            initiatives should have no rank.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex-1 overflow-auto">
+          {loading ? (
+            <div className="flex items-center gap-2 text-sm text-muted-foreground py-6">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Checking ranks...
+            </div>
+          ) : issues.length === 0 ? (
+            <div className="flex items-center gap-2 text-sm text-muted-foreground py-6">
+              <CheckCircle2 className="h-4 w-4 text-green-600" />
+              All priority ranks are consistent.
+            </div>
+          ) : (
+            <div className="space-y-4">
+              {statuses.map((status) => (
+                <div key={status}>
+                  <h3 className="text-sm font-semibold text-foreground mb-2">{status || 'No status'}</h3>
+                  <ul className="space-y-2 pl-3 border-l border-border">
+                    {issues
+                      .filter(issue => issue.status === status)
+                      .map((issue) => (
+                        <li key={`${issue.kind}-${issue.rank}`} className="text-sm">
+                          <div>{describeIssue(issue)}</div>
+                          {issue.ids.length > 0 && (
+                            <div className="text-muted-foreground">
+                              {issue.ids.map(nameOf).join(', ')}
+                            </div>
+                          )}
+                        </li>
+                      ))}
+                  </ul>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={repairing}>
+            Close
+          </Button>
+          <Button
+            onClick={handleRepair}
+            disabled={loading || repairing || issues.length === 0 || rankLocked}
+            title={rankLocked ? "You don't have permission to change priority ranks" : undefined}
+          >
+            {repairing ? 'Repairing...' : 'Repair'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
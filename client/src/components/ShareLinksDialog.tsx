@@ -0,0 +1,333 @@
+import { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { Ban, Code, Copy, Loader2, Share2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useColumns } from '@/hooks/useColumns';
+import { storage } from '@/lib/storage';
+import type { ShareLink, ShareLinkView } from '@/types/database';
+import {
+  SHARE_LINK_FIELDS,
+  SHARE_LINK_STATUSES,
+  isShareLinkLive,
+  validateShareLink
+} from '@shared/shareLinks';
+
+interface ShareLinksDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  availableProducts: string[];
+}
+
+// Internal fields a new link leaves out until they are checked
+const INTERNAL_FIELDS = ['Notes', 'business_value_roi', 'engineer_assigned', 'est_hours_story_points', 'requested_by'];
+
+const shareUrl = (link: ShareLink) => `${window.location.origin}/share/${link.token}`;
+
+// For wikis and dashboards; pages/Embed.tsx lists the query parameters
+const embedCode = (link: ShareLink) =>
+  `<iframe src="${window.location.origin}/embed/${link.token}" width="100%" height="400" style="border:0" title="${link.name.replace(/"/g, '&quot;')}"></iframe>`;
+
+export function ShareLinksDialog({ open, onOpenChange, availableProducts }: ShareLinksDialogProps) {
+  const { columns: allColumns } = useColumns();
+  const [links, setLinks] = useState<ShareLink[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [creating, setCreating] = useState(false);
+  const [revoking, setRevoking] = useState<string | null>(null);
+
+  const [name, setName] = useState('');
+  const [view, setView] = useState<ShareLinkView>('list');
+  const [columns, setColumns] = useState<Set<string>>(new Set());
+  const [statuses, setStatuses] = useState<Set<string>>(new Set());
+  const [products, setProducts] = useState<Set<string>>(new Set());
+  const [expiresOn, setExpiresOn] = useState('');
+
+  // ID, Initiative and Status are always shared
+  const shareableColumns = allColumns
+    .filter(col => !SHARE_LINK_FIELDS.includes(col.column_name))
+    .sort((a, b) => a.sort_order - b.sort_order);
+
+  const resetForm = () => {
+    setName('');
+    setView('list');
+    setColumns(new Set(
+      shareableColumns
+        .filter(col => col.is_visible && !INTERNAL_FIELDS.includes(col.column_name))
+        .map(col => col.column_name)
+    ));
+    setStatuses(new Set());
+    setProducts(new Set());
+    setExpiresOn('');
+  };
+
+  // Columns may still be loading when the dialog opens
+  useEffect(() => {
+    if (open) resetForm();
+  }, [open, allColumns]);
+
+  useEffect(() => {
+    if (!open) return;
+
+    setLoading(true);
+    storage.listShareLinks()
+      .then(setLinks)
+      .catch((error) => {
+        console.error('Error loading share links:', error);
+        toast.error('Failed to load share links');
+      })
+      .finally(() => setLoading(false));
+  }, [open]);
+
+  const toggle = (set: Set<string>, value: string, checked: boolean) => {
+    const next = new Set(set);
+    if (checked) next.add(value);
+    else next.delete(value);
+    return next;
+  };
+
+  const copyText = async (text: string, what: string) => {
+    try {
+      await navigator.clipboard.writeText(text);
+      toast.success(`${what} copied`);
+    } catch {
+      toast.error(`Failed to copy the ${what.toLowerCase()}`);
+    }
+  };
+
+  const copyLink = (link: ShareLink) => copyText(shareUrl(link), 'Link');
+
+  const handleCreate = async () => {
+    const link = {
+      name: name.trim(),
+      view,
+      columns: Array.from(columns),
+      statuses: Array.from(statuses),
+      products: Array.from(products),
+      // Open until the end of the chosen day
+      expires_at: expiresOn ? new Date(`${expiresOn}T23:59:59`).toISOString() : null
+    };
+    const error = validateShareLink(link);
+    if (error) {
+      toast.error(error);
+      return;
+    }
+
+    setCreating(true);
+    try {
+      const created = await storage.createShareLink(link);
+      setLinks(prev => [created, ...prev]);
+      resetForm();
+      await copyLink(created);
+    } catch (error: any) {
+      console.error('Error creating share link:', error);
+      toast.error(`Failed to create share link: ${error?.message || 'Unknown error'}`);
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleRevoke = async (link: ShareLink) => {
+    if (!confirm(`Revoke "${link.name}"? Anyone with the link loses access at once.`)) return;
+
+    setRevoking(link.id);
+    try {
+      const revoked = await storage.revokeShareLink(link.id);
+      if (revoked) setLinks(prev => prev.map(l => (l.id === revoked.id ? revoked : l)));
+      toast.success('Link revoked');
+    } catch (error) {
+      console.error('Error revoking share link:', error);
+      toast.error('Failed to revoke link');
+    } finally {
+      setRevoking(null);
+    }
+  };
+
+  const linkState = (link: ShareLink) => {
+    if (link.revoked_at) return `Revoked ${format(new Date(link.revoked_at), 'PP')}`;
+    if (!isShareLinkLive(link)) return `Expired ${format(new Date(link.expires_at!), 'PP')}`;
+    return link.expires_at ? `Expires ${format(new Date(link.expires_at), 'PP')}` : 'Does not expire';
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[85vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Share Links</DialogTitle>
+          <DialogDescription>
+            Read-only links that open without signing in. Each link only shows the columns, statuses and products chosen here.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex-1 overflow-auto space-y-4">
+          {loading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : links.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-4">No share links yet.</p>
+          ) : (
+            <ul className="divide-y divide-border border border-border rounded-md">
+              {links.map((link) => {
+                const live = isShareLinkLive(link);
+                return (
+                  <li key={link.id} className={`flex items-center gap-3 px-3 py-2 ${live ? '' : 'opacity-60'}`}>
+                    <div className="flex-1 min-w-0">
+                      <p className="font-medium truncate">{link.name}</p>
+                      <p className="text-xs text-muted-foreground truncate">
+                        {link.view === 'list' ? 'List' : 'Gantt'} · {link.columns.length} columns
+                        {link.statuses && ` · ${link.statuses.join(', ')}`}
+                        {link.products && ` · ${link.products.join(', ')}`}
+                        {' · '}{linkState(link)} · by {link.created_by}
+                      </p>
+                    </div>
+                    {live && (
+                      <>
+                        <Button variant="ghost" size="icon" title="Copy link" onClick={() => copyLink(link)}>
+                          <Copy className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          title="Copy embed code"
+                          onClick={() => copyText(embedCode(link), 'Embed code')}
+                        >
+                          <Code className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          title="Revoke link"
+                          disabled={revoking === link.id}
+                          onClick={() => handleRevoke(link)}
+                        >
+                          <Ban className="h-4 w-4" />
+                        </Button>
+                      </>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+
+          <form
+            className="space-y-3 border border-border rounded-md p-3"
+            onSubmit={(e) => {
+              e.preventDefault();
+              handleCreate();
+            }}
+          >
+            <p className="text-sm font-medium">New link</p>
+            <div className="grid grid-cols-3 gap-3">
+              <div className="space-y-2 col-span-2">
+                <Label htmlFor="share-name">Name</Label>
+                <Input
+                  id="share-name"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  placeholder="e.g. Partner preview Q3"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>View</Label>
+                <Select value={view} onValueChange={(value) => setView(value as ShareLinkView)}>
+                  <SelectTrigger className="w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="list">List</SelectItem>
+                    <SelectItem value="gantt">Gantt</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label>Columns</Label>
+              <p className="text-xs text-muted-foreground">
+                ID, Initiative and Status are always shared. The Gantt view draws bars from Start Date, End Date and Quarter Due.
+              </p>
+              <div className="grid grid-cols-3 gap-2">
+                {shareableColumns.map((col) => (
+                  <div key={col.id} className="flex items-center gap-2 min-w-0">
+                    <Checkbox
+                      id={`share-column-${col.column_name}`}
+                      checked={columns.has(col.column_name)}
+                      onCheckedChange={(checked) => setColumns(prev => toggle(prev, col.column_name, checked === true))}
+                    />
+                    <Label htmlFor={`share-column-${col.column_name}`} className="font-normal truncate">
+                      {col.display_name}
+                    </Label>
+                  </div>
+                ))}
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label>Statuses</Label>
+              <div className="flex items-center gap-4">
+                {SHARE_LINK_STATUSES.map((status) => (
+                  <div key={status} className="flex items-center gap-2">
+                    <Checkbox
+                      id={`share-status-${status}`}
+                      checked={statuses.has(status)}
+                      onCheckedChange={(checked) => setStatuses(prev => toggle(prev, status, checked === true))}
+                    />
+                    <Label htmlFor={`share-status-${status}`} className="font-normal">
+                      {status}
+                    </Label>
+                  </div>
+                ))}
+              </div>
+              <p className="text-xs text-muted-foreground">None checked: every status. The trash is never shared.</p>
+            </div>
+            {availableProducts.length > 0 && (
+              <div className="space-y-2">
+                <Label>Products</Label>
+                <div className="grid grid-cols-3 gap-2">
+                  {availableProducts.map((product) => (
+                    <div key={product} className="flex items-center gap-2 min-w-0">
+                      <Checkbox
+                        id={`share-product-${product}`}
+                        checked={products.has(product)}
+                        onCheckedChange={(checked) => setProducts(prev => toggle(prev, product, checked === true))}
+                      />
+                      <Label htmlFor={`share-product-${product}`} className="font-normal truncate">
+                        {product}
+                      </Label>
+                    </div>
+                  ))}
+                </div>
+                <p className="text-xs text-muted-foreground">None checked: every product.</p>
+              </div>
+            )}
+            <div className="flex items-end justify-between gap-3">
+              <div className="space-y-2">
+                <Label htmlFor="share-expires">Expires on (optional)</Label>
+                <Input
+                  id="share-expires"
+                  type="date"
+                  value={expiresOn}
+                  onChange={(e) => setExpiresOn(e.target.value)}
+                />
+              </div>
+              <Button type="submit" disabled={creating} className="gap-2">
+                {creating ? <Loader2 className="h-4 w-4 animate-spin" /> : <Share2 className="h-4 w-4" />}
+                Create Link
+              </Button>
+            </div>
+          </form>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
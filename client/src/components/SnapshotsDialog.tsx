@@ -0,0 +1,179 @@
+import { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { Camera, ExternalLink, GitCompare, Loader2, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { useLocation } from 'wouter';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { useAuth } from '@/contexts/AuthContext';
+import { storage } from '@/lib/storage';
+import type { SnapshotSummary } from '@/types/database';
+
+interface SnapshotsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function SnapshotsDialog({ open, onOpenChange }: SnapshotsDialogProps) {
+  const { can } = useAuth();
+  const [, navigate] = useLocation();
+  const [snapshots, setSnapshots] = useState<SnapshotSummary[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [name, setName] = useState('');
+  const [creating, setCreating] = useState(false);
+  const [deleting, setDeleting] = useState<string | null>(null);
+
+  const loadSnapshots = async () => {
+    setLoading(true);
+    try {
+      setSnapshots(await storage.listSnapshots());
+    } catch (error) {
+      console.error('Error loading snapshots:', error);
+      toast.error('Failed to load snapshots');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (open) {
+      setName('');
+      loadSnapshots();
+    }
+  }, [open]);
+
+  const handleCreate = async () => {
+    if (!name.trim()) {
+      toast.error('Name is required');
+      return;
+    }
+
+    setCreating(true);
+    try {
+      const snapshot = await storage.createSnapshot(name.trim());
+      setSnapshots(prev => [snapshot, ...prev]);
+      setName('');
+      toast.success(`Snapshot "${snapshot.name}" saved with ${snapshot.initiative_count} initiatives`);
+    } catch (error: any) {
+      console.error('Error creating snapshot:', error);
+      toast.error(`Failed to create snapshot: ${error?.message || 'Unknown error'}`);
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleDelete = async (snapshot: SnapshotSummary) => {
+    if (!confirm(`Delete the snapshot "${snapshot.name}"? This cannot be undone.`)) return;
+
+    setDeleting(snapshot.id);
+    try {
+      await storage.deleteSnapshot(snapshot.id);
+      setSnapshots(prev => prev.filter(s => s.id !== snapshot.id));
+      toast.success('Snapshot deleted');
+    } catch (error) {
+      console.error('Error deleting snapshot:', error);
+      toast.error('Failed to delete snapshot');
+    } finally {
+      setDeleting(null);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[85vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Snapshots</DialogTitle>
+          <DialogDescription>
+            Frozen copies of every initiative and the column configuration, kept exactly as they were when taken.
+          </DialogDescription>
+        </DialogHeader>
+
+        {can('editor') && (
+          <form
+            className="flex items-center gap-2"
+            onSubmit={(e) => {
+              e.preventDefault();
+              handleCreate();
+            }}
+          >
+            <Input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. Q3 exec review"
+              aria-label="Snapshot name"
+            />
+            <Button type="submit" disabled={creating} className="gap-2 shrink-0">
+              {creating ? <Loader2 className="h-4 w-4 animate-spin" /> : <Camera className="h-4 w-4" />}
+              Take Snapshot
+            </Button>
+          </form>
+        )}
+
+        <div className="flex-1 overflow-auto">
+          {loading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : snapshots.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-8">No snapshots yet.</p>
+          ) : (
+            <ul className="divide-y divide-border border border-border rounded-md">
+              {snapshots.map((snapshot) => (
+                <li key={snapshot.id} className="flex items-center gap-3 px-3 py-2">
+                  <div className="flex-1 min-w-0">
+                    <p className="font-medium truncate">{snapshot.name}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {format(new Date(snapshot.created_at), 'PPp')} by {snapshot.created_by} ·{' '}
+                      {snapshot.initiative_count} initiatives
+                    </p>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    title="What changed since this snapshot"
+                    onClick={() => {
+                      onOpenChange(false);
+                      navigate(`/changes?from=${snapshot.id}`);
+                    }}
+                  >
+                    <GitCompare className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="gap-2"
+                    onClick={() => {
+                      onOpenChange(false);
+                      navigate(`/snapshots/${snapshot.id}`);
+                    }}
+                  >
+                    <ExternalLink className="h-4 w-4" />
+                    Open
+                  </Button>
+                  {can('admin') && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      title="Delete snapshot"
+                      disabled={deleting === snapshot.id}
+                      onClick={() => handleDelete(snapshot)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
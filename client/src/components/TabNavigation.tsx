@@ -5,10 +5,11 @@ interface TabNavigationProps {
   activeTab: TabStatus;
   onTabChange: (tab: TabStatus) => void;
   counts?: Record<TabStatus, number>;
+  showTrash?: boolean;
 }
 
-export function TabNavigation({ activeTab, onTabChange, counts }: TabNavigationProps) {
-  const tabs: TabStatus[] = ['Active', 'Backlog', 'Completed', 'All'];
+export function TabNavigation({ activeTab, onTabChange, counts, showTrash = true }: TabNavigationProps) {
+  const tabs: TabStatus[] = ['Active', 'Backlog', 'Completed', 'All', ...(showTrash ? ['Trash' as const] : [])];
 
   return (
     <div className="border-b border-border bg-background">
@@ -0,0 +1,184 @@
+import { useState } from 'react';
+import { differenceInCalendarDays, formatDistanceToNow } from 'date-fns';
+import { RotateCcw, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from '@/components/ui/alert-dialog';
+import type { Initiative } from '@/types/database';
+import { ONE_DAY_MS } from '@shared/const';
+
+interface TrashViewProps {
+  initiatives: Initiative[];
+  retentionDays: number;
+  onRestore: (id: number) => Promise<boolean>;
+  onPurge: (id: number) => Promise<boolean>;
+  onEmptyTrash: () => Promise<boolean>;
+}
+
+// What to purge: one initiative, or everything when 'all'
+type PurgeTarget = Initiative | 'all';
+
+export function TrashView({ initiatives, retentionDays, onRestore, onPurge, onEmptyTrash }: TrashViewProps) {
+  const [purgeTarget, setPurgeTarget] = useState<PurgeTarget | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const purgeLabel = (deletedAt: string) => {
+    if (retentionDays === 0) return 'Kept until deleted';
+    const purgeAt = new Date(new Date(deletedAt).getTime() + retentionDays * ONE_DAY_MS);
+    const days = Math.max(0, differenceInCalendarDays(purgeAt, new Date()));
+    return days === 0 ? 'Deleted today' : `Deleted in ${days} day${days !== 1 ? 's' : ''}`;
+  };
+
+  const handleRestore = async (id: number) => {
+    setBusy(true);
+    try {
+      await onRestore(id);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleConfirmPurge = async () => {
+    if (!purgeTarget) return;
+    setPurgeTarget(null);
+
+    setBusy(true);
+    try {
+      await (purgeTarget === 'all' ? onEmptyTrash() : onPurge(purgeTarget.ID));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (initiatives.length === 0) {
+    return (
+      <div className="bg-background rounded-lg border border-border shadow-sm p-12 text-center">
+        <div className="flex flex-col items-center gap-4">
+          <div className="w-16 h-16 rounded-full bg-muted flex items-center justify-center">
+            <Trash2 className="w-8 h-8 text-muted-foreground" />
+          </div>
+          <div>
+            <h3 className="text-lg font-semibold text-foreground mb-2">Trash is empty</h3>
+            <p className="text-sm text-muted-foreground">
+              Deleted initiatives appear here
+              {retentionDays > 0 && ` for ${retentionDays} days`} and can be restored.
+            </p>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-background rounded-lg border border-border shadow-sm overflow-hidden">
+      <div className="flex items-center justify-between px-6 py-3 border-b border-border bg-muted/30">
+        <p className="text-sm text-muted-foreground">
+          {retentionDays > 0
+            ? `Initiatives are permanently deleted ${retentionDays} days after they were moved to the trash.`
+            : 'Initiatives stay here until they are permanently deleted.'}
+        </p>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => setPurgeTarget('all')}
+          disabled={busy}
+        >
+          Empty trash
+        </Button>
+      </div>
+
+      <table className="w-full">
+        <thead className="bg-muted/50 border-b border-border">
+          <tr>
+            {['Initiative', 'Product', 'Status', 'Deleted', 'Purge', ''].map((label) => (
+              <th
+                key={label}
+                className="px-6 py-3 text-left text-xs font-semibold text-muted-foreground uppercase tracking-wider"
+              >
+                {label}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {initiatives.map((initiative) => (
+            <tr key={initiative.ID} className="border-b border-border/50">
+              <td className="px-6 py-4 text-sm font-medium text-foreground">
+                {initiative.Initiative || 'Untitled'}
+              </td>
+              <td className="px-6 py-4 text-sm text-muted-foreground">{initiative.Product || '—'}</td>
+              <td className="px-6 py-4 text-sm text-muted-foreground">{initiative.Status || '—'}</td>
+              <td className="px-6 py-4 text-sm text-muted-foreground">
+                {initiative.deleted_at &&
+                  formatDistanceToNow(new Date(initiative.deleted_at), { addSuffix: true })}
+              </td>
+              <td className="px-6 py-4 text-sm text-muted-foreground">
+                {initiative.deleted_at && purgeLabel(initiative.deleted_at)}
+              </td>
+              <td className="px-6 py-4">
+                <div className="flex justify-end gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="gap-2"
+                    onClick={() => handleRestore(initiative.ID)}
+                    disabled={busy}
+                  >
+                    <RotateCcw className="h-4 w-4" />
+                    Restore
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="gap-2 text-destructive hover:text-destructive"
+                    onClick={() => setPurgeTarget(initiative)}
+                    disabled={busy}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                    Delete forever
+                  </Button>
+                </div>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <AlertDialog
+        open={!!purgeTarget}
+        onOpenChange={(open) => !open && setPurgeTarget(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {purgeTarget === 'all' ? 'Empty Trash' : 'Delete Permanently'}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {purgeTarget === 'all'
+                ? 'Every initiative in the trash will be permanently deleted.'
+                : `"${purgeTarget?.Initiative || 'Untitled'}" will be permanently deleted.`}{' '}
+              This cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleConfirmPurge}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete Permanently
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,91 @@
+import { useState } from 'react';
+import { Globe, LogOut, UserCircle, Users, Webhook } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from '@/components/ui/dropdown-menu';
+import { useAuth } from '@/contexts/AuthContext';
+import { useWorkspace } from '@/contexts/WorkspaceContext';
+import { authRequired } from '@/lib/auth';
+import { UserRolesDialog } from './UserRolesDialog';
+import { WebhooksDialog } from './WebhooksDialog';
+
+export function UserMenu() {
+  const { user, can, signOut } = useAuth();
+  const { current: workspace } = useWorkspace();
+  const [rolesOpen, setRolesOpen] = useState(false);
+  const [webhooksOpen, setWebhooksOpen] = useState(false);
+
+  if (!user) return null;
+
+  const handleSignOut = async () => {
+    try {
+      await signOut();
+    } catch (error) {
+      console.error('Error signing out:', error);
+      toast.error('Failed to sign out');
+    }
+  };
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="ghost" size="icon" title={user.email}>
+            <UserCircle className="h-5 w-5" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-56">
+          <DropdownMenuLabel className="font-normal">
+            <div className="text-sm font-medium truncate">{user.email}</div>
+            <div className="text-xs text-muted-foreground capitalize">{user.role}</div>
+          </DropdownMenuLabel>
+          {workspace && (
+            <>
+              <DropdownMenuSeparator />
+              <DropdownMenuItem asChild>
+                <a href={`/public/${workspace.id}`} target="_blank" rel="noreferrer">
+                  <Globe className="h-4 w-4" />
+                  Public Roadmap
+                </a>
+              </DropdownMenuItem>
+            </>
+          )}
+          {can('admin') && (
+            <>
+              <DropdownMenuSeparator />
+              <DropdownMenuItem onSelect={() => setWebhooksOpen(true)}>
+                <Webhook className="h-4 w-4" />
+                Webhooks
+              </DropdownMenuItem>
+            </>
+          )}
+          {authRequired && (
+            <>
+              <DropdownMenuSeparator />
+              {can('admin') && (
+                <DropdownMenuItem onSelect={() => setRolesOpen(true)}>
+                  <Users className="h-4 w-4" />
+                  Manage Users
+                </DropdownMenuItem>
+              )}
+              <DropdownMenuItem onSelect={handleSignOut}>
+                <LogOut className="h-4 w-4" />
+                Sign Out
+              </DropdownMenuItem>
+            </>
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <UserRolesDialog open={rolesOpen} onOpenChange={setRolesOpen} />
+      <WebhooksDialog open={webhooksOpen} onOpenChange={setWebhooksOpen} />
+    </>
+  );
+}
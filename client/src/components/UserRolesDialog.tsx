@@ -0,0 +1,129 @@
+import { useEffect, useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useAuth } from '@/contexts/AuthContext';
+import { listUserRoles, setUserGroups, setUserRole, type UserRole } from '@/lib/auth';
+import { parseGroups, ROLES, type Role } from '@shared/auth';
+
+interface UserRolesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function UserRolesDialog({ open, onOpenChange }: UserRolesDialogProps) {
+  const { user } = useAuth();
+  const [users, setUsers] = useState<UserRole[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [savingId, setSavingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+
+    setLoading(true);
+    listUserRoles()
+      .then(setUsers)
+      .catch((error) => {
+        console.error('Error loading users:', error);
+        toast.error('Failed to load users');
+      })
+      .finally(() => setLoading(false));
+  }, [open]);
+
+  const handleRoleChange = async (userId: string, role: Role) => {
+    setSavingId(userId);
+    try {
+      await setUserRole(userId, role);
+      setUsers(prev => prev.map(u => (u.user_id === userId ? { ...u, role } : u)));
+      toast.success('Role updated');
+    } catch (error) {
+      console.error('Error updating role:', error);
+      toast.error('Failed to update role');
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const handleGroupsChange = async (userId: string, text: string) => {
+    const groups = parseGroups(text);
+    const current = users.find(u => u.user_id === userId)?.groups ?? [];
+    if (groups.join(',') === current.join(',')) return;
+
+    setSavingId(userId);
+    try {
+      await setUserGroups(userId, groups);
+      setUsers(prev => prev.map(u => (u.user_id === userId ? { ...u, groups } : u)));
+      toast.success('Groups updated');
+    } catch (error) {
+      console.error('Error updating groups:', error);
+      toast.error('Failed to update groups');
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[80vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Manage Users</DialogTitle>
+          <DialogDescription>
+            Viewers can only read the roadmap. Editors can create and edit initiatives. Admins can
+            also manage columns, import, delete and change roles. Permission groups unlock fields
+            that are limited to them in Manage Columns.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex-1 overflow-auto">
+          {loading ? (
+            <div className="flex items-center gap-2 text-sm text-muted-foreground py-6">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Loading users...
+            </div>
+          ) : (
+            <ul className="divide-y divide-border">
+              {users.map((u) => (
+                <li key={u.user_id} className="flex items-center justify-between gap-4 py-3">
+                  <span className="text-sm truncate flex-1">{u.email}</span>
+                  <Input
+                    key={u.groups.join(',')}
+                    defaultValue={u.groups.join(', ')}
+                    onBlur={(e) => handleGroupsChange(u.user_id, e.target.value)}
+                    placeholder="Groups"
+                    className="w-[200px] h-9"
+                    disabled={savingId !== null}
+                  />
+                  <Select
+                    value={u.role}
+                    onValueChange={(value) => handleRoleChange(u.user_id, value as Role)}
+                    // Keeps admins from locking themselves out
+                    disabled={savingId !== null || u.user_id === user?.id}
+                  >
+                    <SelectTrigger className="w-[120px] capitalize">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {ROLES.map((role) => (
+                        <SelectItem key={role} value={role} className="capitalize">
+                          {role}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,371 @@
+import { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { Copy, Loader2, Pencil, RefreshCw, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { storage, storageBackend } from '@/lib/storage';
+import {
+  ACTUAL_STATUS_OPTIONS,
+  type Webhook,
+  type WebhookDelivery,
+  type WebhookDeliveryStatus
+} from '@/types/database';
+import { WEBHOOK_EVENTS, validateWebhook, type WebhookEventType } from '@shared/webhooks';
+
+interface WebhooksDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const EVENT_TYPES = Object.keys(WEBHOOK_EVENTS) as WebhookEventType[];
+
+const DELIVERY_STATUS_COLORS: Record<WebhookDeliveryStatus, string> = {
+  pending: 'text-amber-600 dark:text-amber-400',
+  succeeded: 'text-green-600 dark:text-green-400',
+  failed: 'text-red-600 dark:text-red-400'
+};
+
+// Comma-separated field names, as typed in the form
+const parseFields = (text: string) =>
+  Array.from(new Set(text.split(',').map(field => field.trim()).filter(Boolean)));
+
+export function WebhooksDialog({ open, onOpenChange }: WebhooksDialogProps) {
+  const [webhooks, setWebhooks] = useState<Webhook[]>([]);
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  // Subscription form; editing is the subscription being changed
+  const [editing, setEditing] = useState<Webhook | null>(null);
+  const [url, setUrl] = useState('');
+  const [events, setEvents] = useState<Set<string>>(new Set());
+  const [statuses, setStatuses] = useState<Set<string>>(new Set());
+  const [fields, setFields] = useState('');
+
+  const resetForm = (webhook: Webhook | null = null) => {
+    setEditing(webhook);
+    setUrl(webhook?.url ?? '');
+    setEvents(new Set(webhook?.events ?? []));
+    setStatuses(new Set(webhook?.statuses ?? []));
+    setFields(webhook?.fields?.join(', ') ?? '');
+  };
+
+  const loadDeliveries = async () => {
+    try {
+      setDeliveries(await storage.listWebhookDeliveries());
+    } catch (error) {
+      console.error('Error loading webhook deliveries:', error);
+      toast.error('Failed to load deliveries');
+    }
+  };
+
+  useEffect(() => {
+    if (!open) return;
+
+    resetForm();
+    setExpanded(null);
+    setLoading(true);
+    Promise.all([storage.listWebhooks(), storage.listWebhookDeliveries()])
+      .then(([hooks, log]) => {
+        setWebhooks(hooks);
+        setDeliveries(log);
+      })
+      .catch((error) => {
+        console.error('Error loading webhooks:', error);
+        toast.error('Failed to load webhooks');
+      })
+      .finally(() => setLoading(false));
+  }, [open]);
+
+  const toggle = (set: Set<string>, value: string, checked: boolean) => {
+    const next = new Set(set);
+    if (checked) next.add(value);
+    else next.delete(value);
+    return next;
+  };
+
+  const handleSave = async () => {
+    const webhook = {
+      url: url.trim(),
+      events: EVENT_TYPES.filter(event => events.has(event)),
+      statuses: Array.from(statuses),
+      fields: parseFields(fields)
+    };
+    const error = validateWebhook(webhook);
+    if (error) {
+      toast.error(error);
+      return;
+    }
+
+    setSaving(true);
+    try {
+      if (editing) {
+        const updated = await storage.updateWebhook(editing.id, webhook);
+        if (updated) setWebhooks(prev => prev.map(hook => (hook.id === updated.id ? updated : hook)));
+        toast.success('Webhook updated');
+      } else {
+        const created = await storage.createWebhook(webhook);
+        setWebhooks(prev => [...prev, created]);
+        toast.success('Webhook added');
+      }
+      resetForm();
+    } catch (error: any) {
+      console.error('Error saving webhook:', error);
+      toast.error(`Failed to save webhook: ${error?.message || 'Unknown error'}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleActiveChange = async (webhook: Webhook, active: boolean) => {
+    setBusyId(webhook.id);
+    try {
+      const updated = await storage.updateWebhook(webhook.id, { active });
+      if (updated) setWebhooks(prev => prev.map(hook => (hook.id === updated.id ? updated : hook)));
+    } catch (error) {
+      console.error('Error updating webhook:', error);
+      toast.error('Failed to update webhook');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDelete = async (webhook: Webhook) => {
+    if (!confirm(`Delete the webhook to ${webhook.url} and its delivery log?`)) return;
+
+    setBusyId(webhook.id);
+    try {
+      await storage.deleteWebhook(webhook.id);
+      setWebhooks(prev => prev.filter(hook => hook.id !== webhook.id));
+      setDeliveries(prev => prev.filter(d => d.webhook_id !== webhook.id));
+      if (editing?.id === webhook.id) resetForm();
+      toast.success('Webhook deleted');
+    } catch (error) {
+      console.error('Error deleting webhook:', error);
+      toast.error('Failed to delete webhook');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const copySecret = async (webhook: Webhook) => {
+    try {
+      await navigator.clipboard.writeText(webhook.secret);
+      toast.success('Signing secret copied');
+    } catch {
+      toast.error('Failed to copy the secret');
+    }
+  };
+
+  const urlOf = (webhookId: string) => webhooks.find(hook => hook.id === webhookId)?.url ?? 'Deleted webhook';
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[85vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Webhooks</DialogTitle>
+          <DialogDescription>
+            POST a signed JSON payload to other systems when initiatives or columns in this workspace change.
+            {storageBackend === 'local' && ' With the local backend, only changes made through the API server are sent.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <Tabs defaultValue="subscriptions" className="flex-1 min-h-0 flex flex-col">
+            <TabsList>
+              <TabsTrigger value="subscriptions">Subscriptions</TabsTrigger>
+              <TabsTrigger value="deliveries">Delivery log</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="subscriptions" className="flex-1 overflow-auto space-y-4">
+              {webhooks.length === 0 ? (
+                <p className="text-sm text-muted-foreground text-center py-4">No webhooks yet.</p>
+              ) : (
+                <ul className="divide-y divide-border border border-border rounded-md">
+                  {webhooks.map((webhook) => (
+                    <li key={webhook.id} className="flex items-center gap-3 px-3 py-2">
+                      <Switch
+                        checked={webhook.active}
+                        onCheckedChange={(checked) => handleActiveChange(webhook, checked)}
+                        disabled={busyId === webhook.id}
+                        title={webhook.active ? 'Active' : 'Paused'}
+                      />
+                      <div className="flex-1 min-w-0">
+                        <p className="font-medium truncate">{webhook.url}</p>
+                        <p className="text-xs text-muted-foreground truncate">
+                          {webhook.events.join(', ')}
+                          {webhook.statuses && ` · statuses: ${webhook.statuses.join(', ')}`}
+                          {webhook.fields && ` · fields: ${webhook.fields.join(', ')}`}
+                        </p>
+                      </div>
+                      <Button variant="ghost" size="icon" title="Copy signing secret" onClick={() => copySecret(webhook)}>
+                        <Copy className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="icon" title="Edit webhook" onClick={() => resetForm(webhook)}>
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        title="Delete webhook"
+                        disabled={busyId === webhook.id}
+                        onClick={() => handleDelete(webhook)}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+
+              <form
+                className="space-y-3 border border-border rounded-md p-3"
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  handleSave();
+                }}
+              >
+                <p className="text-sm font-medium">{editing ? 'Edit webhook' : 'Add webhook'}</p>
+                <div className="space-y-2">
+                  <Label htmlFor="webhook-url">Payload URL</Label>
+                  <Input
+                    id="webhook-url"
+                    value={url}
+                    onChange={(e) => setUrl(e.target.value)}
+                    placeholder="https://example.com/roadmap-hook"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Events</Label>
+                  <div className="grid grid-cols-2 gap-2">
+                    {EVENT_TYPES.map((event) => (
+                      <div key={event} className="flex items-center gap-2">
+                        <Checkbox
+                          id={`webhook-event-${event}`}
+                          checked={events.has(event)}
+                          onCheckedChange={(checked) => setEvents(prev => toggle(prev, event, checked === true))}
+                        />
+                        <Label htmlFor={`webhook-event-${event}`} className="font-normal">
+                          {WEBHOOK_EVENTS[event]}
+                        </Label>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+                <div className="space-y-2">
+                  <Label>Only status changes to</Label>
+                  <div className="flex items-center gap-4">
+                    {ACTUAL_STATUS_OPTIONS.map((status) => (
+                      <div key={status} className="flex items-center gap-2">
+                        <Checkbox
+                          id={`webhook-status-${status}`}
+                          checked={statuses.has(status)}
+                          onCheckedChange={(checked) => setStatuses(prev => toggle(prev, status, checked === true))}
+                        />
+                        <Label htmlFor={`webhook-status-${status}`} className="font-normal">
+                          {status}
+                        </Label>
+                      </div>
+                    ))}
+                  </div>
+                  <p className="text-xs text-muted-foreground">None checked: any status.</p>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="webhook-fields">Only edits to fields</Label>
+                  <Input
+                    id="webhook-fields"
+                    value={fields}
+                    onChange={(e) => setFields(e.target.value)}
+                    placeholder="e.g. Production Live Date, End Date"
+                  />
+                  <p className="text-xs text-muted-foreground">Comma-separated column names; empty for any field.</p>
+                </div>
+                <div className="flex justify-end gap-2">
+                  {editing && (
+                    <Button type="button" variant="outline" onClick={() => resetForm()}>
+                      Cancel
+                    </Button>
+                  )}
+                  <Button type="submit" disabled={saving} className="gap-2">
+                    {saving && <Loader2 className="h-4 w-4 animate-spin" />}
+                    {editing ? 'Save' : 'Add Webhook'}
+                  </Button>
+                </div>
+              </form>
+            </TabsContent>
+
+            <TabsContent value="deliveries" className="flex-1 overflow-auto space-y-2">
+              <div className="flex justify-end">
+                <Button variant="outline" size="sm" className="gap-2" onClick={loadDeliveries}>
+                  <RefreshCw className="h-4 w-4" />
+                  Refresh
+                </Button>
+              </div>
+              {deliveries.length === 0 ? (
+                <p className="text-sm text-muted-foreground text-center py-8">No deliveries yet.</p>
+              ) : (
+                <ul className="divide-y divide-border border border-border rounded-md">
+                  {deliveries.map((delivery) => (
+                    <li key={delivery.id} className="px-3 py-2">
+                      <button
+                        type="button"
+                        className="w-full flex items-center gap-3 text-left"
+                        onClick={() => setExpanded(prev => (prev === delivery.id ? null : delivery.id))}
+                      >
+                        <span className={`text-xs font-medium capitalize w-20 ${DELIVERY_STATUS_COLORS[delivery.status]}`}>
+                          {delivery.status}
+                        </span>
+                        <div className="flex-1 min-w-0">
+                          <p className="text-sm font-medium">{delivery.event}</p>
+                          <p className="text-xs text-muted-foreground truncate">{urlOf(delivery.webhook_id)}</p>
+                        </div>
+                        <div className="text-xs text-muted-foreground text-right">
+                          <p>{format(new Date(delivery.created_at), 'PPp')}</p>
+                          <p>
+                            {delivery.attempts} {delivery.attempts === 1 ? 'attempt' : 'attempts'}
+                            {delivery.response_status !== null && ` · HTTP ${delivery.response_status}`}
+                          </p>
+                        </div>
+                      </button>
+                      {expanded === delivery.id && (
+                        <div className="mt-2 space-y-2 text-xs">
+                          {delivery.error && <p className="text-red-600 dark:text-red-400 break-words">{delivery.error}</p>}
+                          {delivery.next_attempt_at && (
+                            <p className="text-muted-foreground">
+                              Next attempt {format(new Date(delivery.next_attempt_at), 'PPpp')}
+                            </p>
+                          )}
+                          <pre className="bg-muted rounded p-2 overflow-auto max-h-64">
+                            {JSON.stringify(delivery.payload, null, 2)}
+                          </pre>
+                        </div>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </TabsContent>
+          </Tabs>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
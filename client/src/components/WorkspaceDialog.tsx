@@ -0,0 +1,219 @@
+import { useEffect, useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useWorkspace } from '@/contexts/WorkspaceContext';
+import { authRequired, listUserRoles, type UserRole } from '@/lib/auth';
+import { storage } from '@/lib/storage';
+import { listWorkspaceMembers, setWorkspaceMember } from '@/lib/workspace';
+import type { Workspace } from '@/types/database';
+import {
+  DEFAULT_WORKSPACE_TITLE,
+  WORKSPACE_ID_ERROR,
+  WORKSPACE_ID_PATTERN,
+  workspaceIdFromName
+} from '@shared/workspaces';
+
+interface WorkspaceDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // The workspace to edit; null creates a new one
+  workspace: Workspace | null;
+}
+
+export function WorkspaceDialog({ open, onOpenChange, workspace }: WorkspaceDialogProps) {
+  const { refresh, switchWorkspace } = useWorkspace();
+  const [name, setName] = useState('');
+  const [id, setId] = useState('');
+  const [idEdited, setIdEdited] = useState(false);
+  const [title, setTitle] = useState('');
+  const [logoUrl, setLogoUrl] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [users, setUsers] = useState<UserRole[]>([]);
+  const [members, setMembers] = useState<Set<string>>(new Set());
+  const [savingMember, setSavingMember] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+
+    setName(workspace?.name ?? '');
+    setId(workspace?.id ?? '');
+    setIdEdited(false);
+    setTitle(workspace?.title ?? DEFAULT_WORKSPACE_TITLE);
+    setLogoUrl(workspace?.logo_url ?? '');
+
+    // Accounts only exist with the Supabase backend
+    if (!workspace || !authRequired) return;
+    Promise.all([listUserRoles(), listWorkspaceMembers(workspace.id)])
+      .then(([allUsers, memberIds]) => {
+        setUsers(allUsers);
+        setMembers(new Set(memberIds));
+      })
+      .catch((error) => {
+        console.error('Error loading workspace members:', error);
+        toast.error('Failed to load members');
+      });
+  }, [open, workspace]);
+
+  const handleNameChange = (value: string) => {
+    setName(value);
+    if (!workspace && !idEdited) {
+      setId(workspaceIdFromName(value));
+    }
+  };
+
+  const handleSave = async () => {
+    if (!name.trim()) {
+      toast.error('Name is required');
+      return;
+    }
+    if (!workspace && !WORKSPACE_ID_PATTERN.test(id)) {
+      toast.error(WORKSPACE_ID_ERROR);
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const fields = {
+        name: name.trim(),
+        title: title.trim() || DEFAULT_WORKSPACE_TITLE,
+        logo_url: logoUrl.trim() || null
+      };
+      if (workspace) {
+        await storage.updateWorkspace(workspace.id, fields);
+        await refresh();
+        toast.success('Workspace updated');
+      } else {
+        const created = await storage.createWorkspace({ id, ...fields });
+        await refresh();
+        switchWorkspace(created.id);
+        toast.success(`Workspace "${created.name}" created`);
+      }
+      onOpenChange(false);
+    } catch (error: any) {
+      console.error('Error saving workspace:', error);
+      toast.error(`Failed to save workspace: ${error?.message || 'Unknown error'}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleMemberChange = async (userId: string, member: boolean) => {
+    if (!workspace) return;
+
+    setSavingMember(userId);
+    try {
+      await setWorkspaceMember(workspace.id, userId, member);
+      setMembers(prev => {
+        const next = new Set(prev);
+        if (member) next.add(userId);
+        else next.delete(userId);
+        return next;
+      });
+    } catch (error) {
+      console.error('Error updating workspace members:', error);
+      toast.error('Failed to update members');
+    } finally {
+      setSavingMember(null);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[85vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>{workspace ? 'Edit Workspace' : 'New Workspace'}</DialogTitle>
+          <DialogDescription>
+            {workspace
+              ? 'Branding shown in the header for everyone using this workspace.'
+              : 'A new workspace starts with a copy of the current column configuration and no initiatives.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex-1 overflow-auto space-y-4 py-2">
+          <div className="space-y-2">
+            <Label htmlFor="workspace-name">Name</Label>
+            <Input id="workspace-name" value={name} onChange={(e) => handleNameChange(e.target.value)} />
+          </div>
+          {!workspace && (
+            <div className="space-y-2">
+              <Label htmlFor="workspace-id">ID</Label>
+              <Input
+                id="workspace-id"
+                value={id}
+                onChange={(e) => {
+                  setId(e.target.value);
+                  setIdEdited(true);
+                }}
+                placeholder="e.g. pritchard"
+              />
+              <p className="text-xs text-muted-foreground">Used in links and API requests; cannot be changed later.</p>
+            </div>
+          )}
+          <div className="space-y-2">
+            <Label htmlFor="workspace-title">Header title</Label>
+            <Input id="workspace-title" value={title} onChange={(e) => setTitle(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="workspace-logo">Logo URL</Label>
+            <div className="flex items-center gap-3">
+              <Input
+                id="workspace-logo"
+                value={logoUrl}
+                onChange={(e) => setLogoUrl(e.target.value)}
+                placeholder="/shaed-logo.png"
+              />
+              {logoUrl.trim() && (
+                <img src={logoUrl.trim()} alt="" className="h-8 w-auto max-w-[96px] object-contain" />
+              )}
+            </div>
+          </div>
+
+          {workspace && authRequired && (
+            <div className="space-y-2">
+              <Label>Members</Label>
+              <p className="text-xs text-muted-foreground">Admins can open every workspace.</p>
+              <ul className="divide-y divide-border border border-border rounded-md">
+                {users.map((u) => (
+                  <li key={u.user_id} className="flex items-center gap-3 px-3 py-2">
+                    <Checkbox
+                      id={`member-${u.user_id}`}
+                      checked={members.has(u.user_id)}
+                      onCheckedChange={(checked) => handleMemberChange(u.user_id, checked === true)}
+                      disabled={savingMember !== null}
+                    />
+                    <Label htmlFor={`member-${u.user_id}`} className="font-normal truncate flex-1">
+                      {u.email}
+                    </Label>
+                    <span className="text-xs text-muted-foreground capitalize">{u.role}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={saving} className="gap-2">
+            {saving && <Loader2 className="h-4 w-4 animate-spin" />}
+            {workspace ? 'Save' : 'Create Workspace'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
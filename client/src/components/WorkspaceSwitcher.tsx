@@ -0,0 +1,74 @@
+import { useState } from 'react';
+import { Check, ChevronDown, Pencil, Plus } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from '@/components/ui/dropdown-menu';
+import { useAuth } from '@/contexts/AuthContext';
+import { useWorkspace } from '@/contexts/WorkspaceContext';
+import type { Workspace } from '@/types/database';
+import { WorkspaceDialog } from './WorkspaceDialog';
+
+export function WorkspaceSwitcher() {
+  const { can } = useAuth();
+  const { workspaces, current, switchWorkspace } = useWorkspace();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<Workspace | null>(null);
+
+  if (!current) return null;
+
+  const openDialog = (workspace: Workspace | null) => {
+    setEditing(workspace);
+    setDialogOpen(true);
+  };
+
+  // Nothing to switch to, and nothing to manage
+  if (workspaces.length < 2 && !can('admin')) return null;
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" className="gap-2 shadow-sm max-w-[220px]">
+            <span className="truncate">{current.name}</span>
+            <ChevronDown className="h-4 w-4 shrink-0 opacity-60" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start" className="w-56">
+          <DropdownMenuLabel>Workspaces</DropdownMenuLabel>
+          {workspaces.map((ws) => (
+            <DropdownMenuItem key={ws.id} onSelect={() => switchWorkspace(ws.id)}>
+              {ws.logo_url ? (
+                <img src={ws.logo_url} alt="" className="h-4 w-4 object-contain" />
+              ) : (
+                <span className="h-4 w-4" />
+              )}
+              <span className="truncate flex-1">{ws.name}</span>
+              {ws.id === current.id && <Check className="h-4 w-4" />}
+            </DropdownMenuItem>
+          ))}
+          {can('admin') && (
+            <>
+              <DropdownMenuSeparator />
+              <DropdownMenuItem onSelect={() => openDialog(current)}>
+                <Pencil className="h-4 w-4" />
+                Edit {current.name}
+              </DropdownMenuItem>
+              <DropdownMenuItem onSelect={() => openDialog(null)}>
+                <Plus className="h-4 w-4" />
+                New Workspace
+              </DropdownMenuItem>
+            </>
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <WorkspaceDialog open={dialogOpen} onOpenChange={setDialogOpen} workspace={editing} />
+    </>
+  );
+}
@@ -0,0 +1,58 @@
+import React, { createContext, useContext, useEffect, useState } from 'react';
+import { hasRole, type RoadmapUser, type Role } from '@shared/auth';
+import { setSignedInActor } from '@/lib/actor';
+import { authRequired, getCurrentUser, onAuthChange, signOut } from '@/lib/auth';
+
+interface AuthContextType {
+  user: RoadmapUser | null;
+  loading: boolean;
+  // Whether the user's role grants at least `role`
+  can: (role: Role) => boolean;
+  signOut: () => Promise<void>;
+  refresh: () => Promise<void>;
+}
+
+const AuthContext = createContext<AuthContextType | undefined>(undefined);
+
+export function AuthProvider({ children }: { children: React.ReactNode }) {
+  const [user, setUser] = useState<RoadmapUser | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const refresh = async () => {
+    try {
+      const current = await getCurrentUser();
+      setUser(current);
+      if (authRequired) {
+        setSignedInActor(current?.email ?? null);
+      }
+    } catch (error) {
+      console.error('Error loading the signed-in user:', error);
+      setUser(null);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    refresh();
+    return onAuthChange(refresh);
+  }, []);
+
+  const value: AuthContextType = {
+    user,
+    loading,
+    can: (role) => hasRole(user?.role, role),
+    signOut,
+    refresh
+  };
+
+  return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
+}
+
+export function useAuth() {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error('useAuth must be used within AuthProvider');
+  }
+  return context;
+}
@@ -0,0 +1,67 @@
+import React, { createContext, useContext, useEffect, useState } from 'react';
+import type { Workspace } from '@/types/database';
+import { storage } from '@/lib/storage';
+import { getWorkspaceId, setWorkspaceId } from '@/lib/workspace';
+import { DEFAULT_WORKSPACE_ID } from '@shared/workspaces';
+
+interface WorkspaceContextType {
+  // Workspaces the user can open
+  workspaces: Workspace[];
+  // Null when the user is not a member of any workspace
+  current: Workspace | null;
+  loading: boolean;
+  switchWorkspace: (id: string) => void;
+  refresh: () => Promise<void>;
+}
+
+const WorkspaceContext = createContext<WorkspaceContextType | undefined>(undefined);
+
+export function WorkspaceProvider({ children }: { children: React.ReactNode }) {
+  const [workspaces, setWorkspaces] = useState<Workspace[]>([]);
+  const [currentId, setCurrentId] = useState(getWorkspaceId());
+  const [loading, setLoading] = useState(true);
+
+  const switchWorkspace = (id: string) => {
+    setWorkspaceId(id);
+    setCurrentId(id);
+  };
+
+  const refresh = async () => {
+    try {
+      const list = await storage.listWorkspaces();
+      setWorkspaces(list);
+
+      // The remembered workspace may have been removed or become inaccessible
+      if (list.length > 0 && !list.some(ws => ws.id === getWorkspaceId())) {
+        const fallback = list.find(ws => ws.id === DEFAULT_WORKSPACE_ID) ?? list[0];
+        switchWorkspace(fallback.id);
+      }
+    } catch (error) {
+      console.error('Error loading workspaces:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  const value: WorkspaceContextType = {
+    workspaces,
+    current: workspaces.find(ws => ws.id === currentId) ?? null,
+    loading,
+    switchWorkspace,
+    refresh
+  };
+
+  return <WorkspaceContext.Provider value={value}>{children}</WorkspaceContext.Provider>;
+}
+
+export function useWorkspace() {
+  const context = useContext(WorkspaceContext);
+  if (!context) {
+    throw new Error('useWorkspace must be used within WorkspaceProvider');
+  }
+  return context;
+}
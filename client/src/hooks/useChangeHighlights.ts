@@ -0,0 +1,38 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+// How long a remote change stays highlighted
+const HIGHLIGHT_DURATION = 3000;
+
+// Marks a whole row as changed (e.g. a newly added initiative)
+export const ROW_CHANGED = '*';
+
+export type ChangeHighlights = Record<number, string[]>;
+
+/**
+ * Tracks which initiatives (and which of their fields) were recently changed
+ * by someone else, so views can briefly highlight them.
+ */
+export function useChangeHighlights() {
+  const [highlights, setHighlights] = useState<ChangeHighlights>({});
+  const timers = useRef(new Map<number, ReturnType<typeof setTimeout>>());
+
+  const highlight = useCallback((id: number, fields: string[]) => {
+    setHighlights(prev => ({ ...prev, [id]: fields }));
+
+    clearTimeout(timers.current.get(id));
+    timers.current.set(id, setTimeout(() => {
+      timers.current.delete(id);
+      setHighlights(prev => {
+        const { [id]: _expired, ...rest } = prev;
+        return rest;
+      });
+    }, HIGHLIGHT_DURATION));
+  }, []);
+
+  useEffect(() => {
+    const pending = timers.current;
+    return () => pending.forEach(timer => clearTimeout(timer));
+  }, []);
+
+  return { highlights, highlight };
+}
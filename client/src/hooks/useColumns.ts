@@ -1,6 +1,7 @@
 import { useEffect, useState } from 'react';
-import { supabase } from '@/lib/supabase';
+import { storage } from '@/lib/storage';
 import type { ColumnConfig } from '@/types/database';
+import { getVisibleColumns } from '@shared/columns';
 import { toast } from 'sonner';
 
 // Custom event name for global column refetch
@@ -18,13 +19,8 @@ export function useColumns() {
   const fetchColumns = async () => {
     try {
       setLoading(true);
-      const { data, error } = await supabase
-        .from('column_config')
-        .select('*')
-        .order('sort_order', { ascending: true });
-
-      if (error) throw error;
-      setColumns(data || []);
+      const data = await storage.listColumns();
+      setColumns(data);
     } catch (error) {
       console.error('Error fetching columns:', error);
       toast.error('Failed to fetch column configuration');
@@ -43,15 +39,28 @@ export function useColumns() {
     
     window.addEventListener(COLUMN_REFETCH_EVENT, handleRefetch);
     
+    // Merge column changes made by other users
+    const unsubscribe = storage.subscribe((change) => {
+      if (change.table !== 'column_config') return;
+
+      setColumns(prev => {
+        const id = change.new?.id ?? change.old?.id;
+        const others = prev.filter(col => col.id !== id);
+        if (change.eventType === 'DELETE' || !change.new) {
+          return others;
+        }
+        return [...others, change.new].sort((a, b) => a.sort_order - b.sort_order);
+      });
+    });
+    
     return () => {
       window.removeEventListener(COLUMN_REFETCH_EVENT, handleRefetch);
+      unsubscribe();
     };
   }, []);
 
   // Get visible columns sorted by sort_order
-  const visibleColumns = columns
-    .filter(col => col.is_visible)
-    .sort((a, b) => a.sort_order - b.sort_order);
+  const visibleColumns = getVisibleColumns(columns);
 
   // Get system columns
   const systemColumns = columns.filter(col => col.is_system_column);
@@ -0,0 +1,22 @@
+import { useCallback } from 'react';
+import { canEditField, hasRole } from '@shared/auth';
+import { PUBLIC_FIELDS } from '@shared/publicRoadmap';
+import { useAuth } from '@/contexts/AuthContext';
+import { useColumns } from './useColumns';
+
+/**
+ * Returns a check for whether the signed-in user is kept from editing a
+ * field, either by the column's permission groups or by their role. Only
+ * admins may change what the public roadmap shows.
+ */
+export function useFieldLocks() {
+  const { user } = useAuth();
+  const { columns } = useColumns();
+
+  return useCallback(
+    (field: string) =>
+      (PUBLIC_FIELDS.includes(field) && !hasRole(user?.role, 'admin')) ||
+      !canEditField(user, columns.find(col => col.column_name === field)),
+    [user, columns]
+  );
+}
@@ -1,105 +1,96 @@
-import { useEffect, useState } from 'react';
-import { supabase } from '@/lib/supabase';
+import { useEffect, useRef, useState } from 'react';
+import { storage } from '@/lib/storage';
 import type { Initiative, TabStatus, ProductType } from '@/types/database';
+import {
+  changedFields,
+  cleanInitiativeUpdates,
+  compareInitiatives,
+  computeOrderUpdates,
+  findConflictingFields,
+  matchesInitiativeQuery,
+  pickFields,
+  type OrderUpdate
+} from '@shared/initiatives';
+import { ConflictError } from '@shared/storage';
+import { ROW_CHANGED, useChangeHighlights } from './useChangeHighlights';
 import { toast } from 'sonner';
 
+// Attempts before giving up on a row that keeps changing under us
+const MAX_SAVE_ATTEMPTS = 3;
+
+/**
+ * A save rejected because someone else changed the same fields
+ */
+export interface EditConflict {
+  // Their version of the row, as it is now
+  initiative: Initiative;
+  // Everything we tried to save
+  mine: Partial<Initiative>;
+  // Fields both of us changed
+  fields: string[];
+}
+
 export function useInitiatives(status: TabStatus, productFilter: ProductType | 'All', searchTerm: string) {
   const [initiatives, setInitiatives] = useState<Initiative[]>([]);
   const [loading, setLoading] = useState(true);
+  const [conflict, setConflict] = useState<EditConflict | null>(null);
+  const { highlights: recentChanges, highlight } = useChangeHighlights();
+  const saveQueues = useRef(new Map<number, Promise<boolean>>());
+
+  // Latest state for the realtime handler, which outlives individual renders
+  const initiativesRef = useRef(initiatives);
+  initiativesRef.current = initiatives;
 
   useEffect(() => {
     fetchInitiatives();
   }, [status, productFilter, searchTerm]);
 
-  const fetchInitiatives = async () => {
-    setLoading(true);
-    try {
-      let query = supabase
-        .from('roadmap_fields')
-        .select('*');
-
-      // Only filter by status if not 'All'
-      if (status !== 'All') {
-        query = query.eq('Status', status);
-      }
+  // Apply changes made by other users (and echoes of our own) as they arrive
+  useEffect(() => {
+    const query = { status, product: productFilter, search: searchTerm };
 
-      if (productFilter !== 'All') {
-        query = query.eq('Product', productFilter);
-      }
+    return storage.subscribe((change) => {
+      if (change.table !== 'roadmap_fields') return;
 
-      if (searchTerm) {
-        query = query.or(`Initiative.ilike.%${searchTerm}%,Objective.ilike.%${searchTerm}%,Notes.ilike.%${searchTerm}%,requested_by.ilike.%${searchTerm}%,engineer_assigned.ilike.%${searchTerm}%,dependencies.ilike.%${searchTerm}%,tags_labels.ilike.%${searchTerm}%,epic_theme.ilike.%${searchTerm}%,customer_impact.ilike.%${searchTerm}%,team.ilike.%${searchTerm}%`);
+      if (change.eventType === 'DELETE') {
+        const id = change.old?.ID;
+        setInitiatives(prev => prev.filter(init => init.ID !== id));
+        return;
       }
 
-      // Order by Status first when showing 'All', then sort_order, then ID
-      if (status === 'All') {
-        query = query.order('Status', { ascending: true })
-                     .order('sort_order', { ascending: true, nullsFirst: false })
-                     .order('ID', { ascending: true });
-      } else {
-        query = query.order('sort_order', { ascending: true, nullsFirst: false })
-                     .order('ID', { ascending: true });
-      }
+      const row = change.new;
+      if (!row) return;
 
-      const { data, error } = await query;
+      const visible = matchesInitiativeQuery(row, query);
+      const existing = initiativesRef.current.find(init => init.ID === row.ID);
 
-      if (error) throw error;
-      
-      // Filter out completed initiatives for priority ranking
-      const nonCompletedInitiatives = (data || []).filter(init => init.Status !== 'Completed');
-      const completedInitiatives = (data || []).filter(init => init.Status === 'Completed');
-      
-      // Initialize priority_rank only for non-completed initiatives (auto-number based on sort_order)
-      const initiativesWithRank = (data || []).map((initiative) => {
-        // If completed, ensure priority_rank is null
-        if (initiative.Status === 'Completed') {
-          return {
-            ...initiative,
-            priority_rank: null
-          };
-        }
-        
-        // For non-completed, find index in non-completed list
-        const nonCompletedIndex = nonCompletedInitiatives.findIndex(init => init.ID === initiative.ID);
-        return {
-          ...initiative,
-          priority_rank: initiative.priority_rank ?? (nonCompletedIndex >= 0 ? nonCompletedIndex + 1 : null)
-        };
-      });
-      
-      // Batch update: clear priority_rank for completed, set for non-completed with null
-      const updatesNeeded: Array<{ ID: number; priority_rank: number | null }> = [];
-      
-      // Clear priority_rank for completed initiatives that have one
-      completedInitiatives.forEach(initiative => {
-        if (initiative.priority_rank !== null && initiative.priority_rank !== undefined) {
-          updatesNeeded.push({ ID: initiative.ID, priority_rank: null });
+      // Echoes of our own optimistic updates carry no new values
+      if (visible) {
+        const fields = existing ? changedFields(existing, row) : [ROW_CHANGED];
+        if (fields.length > 0) {
+          highlight(row.ID, fields);
         }
+      }
+
+      setInitiatives(prev => {
+        const others = prev.filter(init => init.ID !== row.ID);
+        return visible ? [...others, row].sort(compareInitiatives(query)) : others;
       });
-      
-      // Set priority_rank for non-completed initiatives that don't have one
-      nonCompletedInitiatives.forEach((initiative, index) => {
-        if (initiative.priority_rank === null || initiative.priority_rank === undefined) {
-          updatesNeeded.push({ ID: initiative.ID, priority_rank: index + 1 });
-        }
+    });
+  }, [status, productFilter, searchTerm, highlight]);
+
+  const fetchInitiatives = async () => {
+    setLoading(true);
+    try {
+      // Ordered by Status first when showing 'All', then sort_order, then ID
+      const data = await storage.listInitiatives({
+        status,
+        product: productFilter,
+        search: searchTerm
       });
-      
-      if (updatesNeeded.length > 0) {
-        // Update all in parallel
-        Promise.all(
-          updatesNeeded.map(update =>
-            supabase
-              .from('roadmap_fields')
-              .update({ priority_rank: update.priority_rank })
-              .eq('ID', update.ID)
-          )
-        ).then(() => {
-          // Refetch once after all updates
-          fetchInitiatives();
-        });
-      }
-      
-      setInitiatives(initiativesWithRank);
+
+      // Ranks are kept consistent by the backend, not fixed up here
+      setInitiatives(data);
     } catch (error) {
       console.error('Error fetching initiatives:', error);
       toast.error('Failed to fetch initiatives');
@@ -110,88 +101,9 @@ export function useInitiatives(status: TabStatus, productFilter: ProductType | '
 
   const createInitiative = async (initiative: Partial<Initiative>) => {
     try {
-      // Get the maximum ID to generate the next one
-      const { data: maxIdData, error: maxIdError } = await supabase
-        .from('roadmap_fields')
-        .select('ID')
-        .order('ID', { ascending: false })
-        .limit(1);
-
-      if (maxIdError) {
-        console.error('Error fetching max ID:', maxIdError);
-      }
-
-      // Calculate next ID: if we have data, use max + 1, otherwise start at 1
-      const nextId = maxIdData && maxIdData.length > 0 && maxIdData[0]?.ID 
-        ? maxIdData[0].ID + 1 
-        : 1;
-
-      // Determine the status for the new initiative
-      const initiativeStatus = initiative.Status || 'Active';
-
-      // Get the maximum priority_rank for non-completed initiatives with the same status
-      // This ensures new initiatives are placed at the end of the priority sequence
-      let nextPriorityRank = 1;
-      if (initiativeStatus !== 'Completed') {
-        const { data: maxPriorityData, error: maxPriorityError } = await supabase
-          .from('roadmap_fields')
-          .select('priority_rank')
-          .eq('Status', initiativeStatus)
-          .not('priority_rank', 'is', null)
-          .order('priority_rank', { ascending: false })
-          .limit(1);
-
-        if (maxPriorityError) {
-          console.error('Error fetching max priority rank:', maxPriorityError);
-        }
-
-        if (maxPriorityData && maxPriorityData.length > 0 && maxPriorityData[0]?.priority_rank) {
-          nextPriorityRank = maxPriorityData[0].priority_rank + 1;
-        }
-      }
-
-      // Prepare insert data with proper defaults
-      const insertData: any = {
-        ID: nextId,
-        Product: initiative.Product || 'Order Management',
-        Status: initiativeStatus,
-        Priority: initiative.Priority || 'Build Now',
-        "Quarter Due": initiative["Quarter Due"] || 'Q1 2026',
-        Initiative: initiative.Initiative || 'New Initiative',
-        sort_order: initiative.sort_order ?? 0,
-        priority_rank: initiativeStatus !== 'Completed' ? nextPriorityRank : null
-      };
-
-      // Merge in other initiative fields, but filter out undefined values
-      Object.keys(initiative).forEach(key => {
-        if (initiative[key as keyof Initiative] !== undefined && key !== 'ID') {
-          insertData[key] = initiative[key as keyof Initiative];
-        }
-      });
-
-      // Remove any undefined values to avoid issues
-      Object.keys(insertData).forEach(key => {
-        if (insertData[key] === undefined) {
-          delete insertData[key];
-        }
-      });
-
-      const { data, error } = await supabase
-        .from('roadmap_fields')
-        .insert(insertData)
-        .select('*')
-        .single();
-
-      if (error) {
-        console.error('Supabase error creating initiative:', error);
-        console.error('Error details:', {
-          message: error.message,
-          details: error.details,
-          hint: error.hint,
-          code: error.code
-        });
-        throw error;
-      }
+      // The backend assigns the ID and places the initiative at the end of
+      // its status's priority sequence, so concurrent creates never collide
+      const data = await storage.createInitiative(initiative);
       
       toast.success('Initiative created');
       await fetchInitiatives();
@@ -204,111 +116,115 @@ export function useInitiatives(status: TabStatus, productFilter: ProductType | '
     }
   };
 
-  const updateInitiative = async (id: number, updates: Partial<Initiative>) => {
-    try {
-      // Clean up updates: convert empty strings to null
-      const cleanedUpdates: Partial<Initiative> = {};
-      Object.keys(updates).forEach(key => {
-        const value = updates[key as keyof Initiative];
-        // Convert empty strings to null for database
-        cleanedUpdates[key as keyof Initiative] = (value === '' || value === undefined) ? null : value;
-      });
-
-      // If status is being changed to 'Completed', clear priority_rank
-      if (cleanedUpdates.Status === 'Completed') {
-        cleanedUpdates.priority_rank = null;
+  // Saves run one at a time per row so each starts from the previous one's result
+  const enqueueSave = (id: number, save: () => Promise<boolean>) => {
+    const queued = (saveQueues.current.get(id) ?? Promise.resolve(true)).then(save);
+    saveQueues.current.set(id, queued);
+    queued.then(() => {
+      if (saveQueues.current.get(id) === queued) {
+        saveQueues.current.delete(id);
       }
-      
-      // Log the update for debugging
-      console.log('Updating initiative:', { id, updates: cleanedUpdates });
-      console.log('Update keys:', Object.keys(cleanedUpdates));
-      console.log('Update values:', Object.entries(cleanedUpdates));
-      
-      // Store the previous state in case we need to revert
-      let previousInitiative: Initiative | undefined;
-      setInitiatives(prevInitiatives => {
-        previousInitiative = prevInitiatives.find(init => init.ID === id);
-        return prevInitiatives.map(init => 
-          init.ID === id ? { ...init, ...cleanedUpdates } : init
-        );
-      });
+    });
+    return queued;
+  };
+
+  /**
+   * Saves field changes with an optimistic update. `base` holds the values the
+   * editor showed before the change (defaults to the row in state); if the row
+   * changed since, only overlapping fields are treated as a conflict.
+   */
+  const updateInitiative = async (id: number, updates: Partial<Initiative>, base?: Partial<Initiative>) => {
+    // Clean up updates: empty strings become null, Completed clears priority_rank
+    const cleanedUpdates = cleanInitiativeUpdates(updates);
+    console.log('Updating initiative:', { id, updates: cleanedUpdates });
+
+    // Store the previous state in case we need to revert
+    const previousInitiative = initiativesRef.current.find(init => init.ID === id);
+    const baseValues = base ?? pickFields(previousInitiative ?? {}, Object.keys(cleanedUpdates));
+    setInitiatives(prevInitiatives =>
+      prevInitiatives.map(init =>
+        init.ID === id ? { ...init, ...cleanedUpdates } : init
+      )
+    );
+
+    return enqueueSave(id, async () => {
+      // Rows not loaded here (e.g. edits from the Gantt chart) save unversioned
+      let expectedUpdatedAt = previousInitiative?.updated_at;
 
-      // Update database - await the result to properly handle errors
       try {
-        console.log('Sending to Supabase:', { table: 'roadmap_fields', id, updates: cleanedUpdates });
-        const { data, error } = await supabase
-          .from('roadmap_fields')
-          .update(cleanedUpdates)
-          .eq('ID', id)
-          .select();
-        
-        console.log('Supabase response:', { data, error });
-
-        if (error) {
-          console.error('Error updating initiative in database:', error);
-          console.error('Error details:', {
-            message: error.message,
-            details: error.details,
-            hint: error.hint,
-            code: error.code,
-            id,
-            updates: cleanedUpdates,
-            updateKeys: Object.keys(cleanedUpdates),
-            updateEntries: Object.entries(cleanedUpdates)
-          });
-          
-          // Revert optimistic update on error
-          if (previousInitiative) {
-            setInitiatives(prevInitiatives => 
-              prevInitiatives.map(init => 
-                init.ID === id ? previousInitiative! : init
-              )
-            );
+        // Retry stale saves that don't overlap with the other person's edit
+        for (let attempt = 0; attempt < MAX_SAVE_ATTEMPTS; attempt++) {
+          try {
+            const saved = await storage.updateInitiative(id, cleanedUpdates, { expectedUpdatedAt });
+            if (saved) {
+              setInitiatives(prevInitiatives =>
+                prevInitiatives.map(init =>
+                  init.ID === id ? { ...init, updated_at: saved.updated_at } : init
+                )
+              );
+            }
+            return true;
+          } catch (error) {
+            if (!(error instanceof ConflictError)) throw error;
+
+            const { current } = error;
+            const fields = findConflictingFields(cleanedUpdates, baseValues, current);
+            if (fields.length > 0) {
+              // Show their version until the conflict is resolved
+              setInitiatives(prevInitiatives =>
+                prevInitiatives.map(init => init.ID === id ? current : init)
+              );
+              setConflict({ initiative: current, mine: cleanedUpdates, fields });
+              return false;
+            }
+            expectedUpdatedAt = current.updated_at ?? null;
           }
-          
-          toast.error(`Failed to save changes: ${error.message}`);
-          // Refetch on error to restore correct state
-          await fetchInitiatives();
-          return false;
-        } else {
-          console.log('Successfully updated initiative in database:', id);
-          return true;
         }
-      } catch (error) {
-        console.error('Unexpected error updating initiative:', error);
+        throw new Error('The initiative keeps changing, please try again');
+      } catch (error: any) {
+        console.error('Error updating initiative in database:', error);
+        console.error('Error details:', {
+          message: error?.message,
+          code: error?.code,
+          id,
+          updates: cleanedUpdates
+        });
         
         // Revert optimistic update on error
         if (previousInitiative) {
           setInitiatives(prevInitiatives => 
             prevInitiatives.map(init => 
-              init.ID === id ? previousInitiative! : init
+              init.ID === id ? previousInitiative : init
             )
           );
         }
         
-        toast.error('Failed to save changes');
+        toast.error(error?.message ? `Failed to save changes: ${error.message}` : 'Failed to save changes');
         // Refetch on error to restore correct state
         await fetchInitiatives();
         return false;
       }
-    } catch (error) {
-      console.error('Error updating initiative:', error);
-      toast.error('Failed to update initiative');
-      // Refetch on error to restore correct state
-      await fetchInitiatives();
-      return false;
-    }
+    });
   };
 
+  // Saves the values picked in the conflict dialog on top of their version
+  const resolveConflict = async (resolved: Partial<Initiative>) => {
+    if (!conflict) return false;
+    const { initiative, mine } = conflict;
+    setConflict(null);
+
+    const updates = { ...mine, ...resolved };
+    return updateInitiative(initiative.ID, updates, pickFields(initiative, Object.keys(updates)));
+  };
+
+  const dismissConflict = () => setConflict(null);
+
   const deleteInitiative = async (id: number) => {
     try {
-      const { error } = await supabase
-        .from('roadmap_fields')
-        .delete()
-        .eq('ID', id);
-
-      if (error) throw error;
-      toast.success('Initiative deleted');
+      await storage.deleteInitiative(id);
+      toast.success('Moved to trash', {
+        action: { label: 'Restore', onClick: () => restoreInitiative(id) }
+      });
       await fetchInitiatives();
       return true;
     } catch (error) {
@@ -318,72 +234,145 @@ export function useInitiatives(status: TabStatus, productFilter: ProductType | '
     }
   };
 
+  // Moves an initiative to the end of its status in another workspace
+  const moveInitiative = async (id: number, workspaceId: string) => {
+    try {
+      const moved = await storage.moveInitiative(id, workspaceId);
+      if (!moved) {
+        toast.error('This initiative no longer exists');
+        return false;
+      }
+      await fetchInitiatives();
+      return true;
+    } catch (error: any) {
+      console.error('Error moving initiative:', error);
+      toast.error(`Failed to move initiative: ${error?.message || 'Unknown error'}`);
+      return false;
+    }
+  };
+
+  // Copies an initiative into another workspace; resolves to the copy
+  const copyInitiative = async (id: number, workspaceId: string) => {
+    try {
+      return await storage.copyInitiative(id, workspaceId);
+    } catch (error: any) {
+      console.error('Error copying initiative:', error);
+      toast.error(`Failed to copy initiative: ${error?.message || 'Unknown error'}`);
+      return null;
+    }
+  };
+
   const updateInitiativeOrder = async (updatedInitiatives: Initiative[]) => {
+    // Only the initiatives whose position changed
+    const updates = computeOrderUpdates(updatedInitiatives);
+    const byId = new Map(updates.map(update => [update.ID, update]));
+
+    // Optimistically show the new order while it saves
+    setInitiatives(updatedInitiatives.map((initiative) => {
+      const update = byId.get(initiative.ID);
+      return update
+        ? { ...initiative, sort_order: update.sort_order, priority_rank: update.priority_rank }
+        : initiative;
+    }));
+
     try {
-      // Filter out completed initiatives for priority ranking
-      const nonCompletedInitiatives = updatedInitiatives.filter(init => init.Status !== 'Completed');
-      
-      // Calculate new priority ranks and sort orders
-      const updates = updatedInitiatives.map((initiative, index) => {
-        const isCompleted = initiative.Status === 'Completed';
-        const nonCompletedIndex = nonCompletedInitiatives.findIndex(init => init.ID === initiative.ID);
-        
-        return {
-          ID: initiative.ID,
-          sort_order: index,
-          priority_rank: isCompleted ? null : (nonCompletedIndex >= 0 ? nonCompletedIndex + 1 : null)
-        };
-      });
+      await storage.saveOrder(updates);
+      return true;
+    } catch (error) {
+      console.error('Error updating order in database:', error);
+      toast.error('Failed to save order changes');
+      // The save is all or nothing, so the stored order is still the old one
+      fetchInitiatives();
+      return false;
+    }
+  };
 
-      // Optimistically update local state immediately (no reload)
-      const updatedWithNewRanks = updatedInitiatives.map((initiative) => {
-        const update = updates.find(u => u.ID === initiative.ID);
-        if (update) {
-          return {
-            ...initiative,
-            sort_order: update.sort_order,
-            priority_rank: update.priority_rank
-          };
-        }
-        return initiative;
-      });
-      setInitiatives(updatedWithNewRanks);
-
-      // Update database in the background (don't await, fire and forget)
-      Promise.all(
-        updates.map(update =>
-          supabase
-            .from('roadmap_fields')
-            .update({ 
-              sort_order: update.sort_order,
-              priority_rank: update.priority_rank
-            })
-            .eq('ID', update.ID)
-        )
-      ).catch((error) => {
-        console.error('Error updating order in database:', error);
-        toast.error('Failed to save order changes');
-        // Refetch on error to restore correct state
-        fetchInitiatives();
-      });
+  // Writes a known set of positions, e.g. to undo or redo a reorder
+  const applyOrder = async (updates: OrderUpdate[]) => {
+    const byId = new Map(updates.map(update => [update.ID, update]));
+    setInitiatives(prevInitiatives =>
+      prevInitiatives
+        .map(init => {
+          const update = byId.get(init.ID);
+          return update
+            ? { ...init, sort_order: update.sort_order, priority_rank: update.priority_rank }
+            : init;
+        })
+        .sort(compareInitiatives({ status }))
+    );
 
+    try {
+      await storage.saveOrder(updates);
       return true;
     } catch (error) {
-      console.error('Error updating order:', error);
-      toast.error('Failed to update order');
-      // Refetch on error to restore correct state
+      console.error('Error updating order in database:', error);
+      toast.error('Failed to save order changes');
       fetchInitiatives();
       return false;
     }
   };
 
+  // Takes an initiative back out of the trash
+  const restoreInitiative = async (id: number) => {
+    try {
+      const restored = await storage.restoreInitiative(id);
+      if (!restored) {
+        toast.error('This initiative is no longer in the trash');
+        return false;
+      }
+      await fetchInitiatives();
+      return true;
+    } catch (error: any) {
+      console.error('Error restoring initiative:', error);
+      toast.error(`Failed to restore initiative: ${error?.message || 'Unknown error'}`);
+      return false;
+    }
+  };
+
+  // Deletes an initiative from the trash for good
+  const purgeInitiative = async (id: number) => {
+    try {
+      await storage.purgeInitiative(id);
+      toast.success('Initiative permanently deleted');
+      await fetchInitiatives();
+      return true;
+    } catch (error) {
+      console.error('Error purging initiative:', error);
+      toast.error('Failed to permanently delete initiative');
+      return false;
+    }
+  };
+
+  const emptyTrash = async () => {
+    try {
+      const count = await storage.purgeDeleted(new Date().toISOString());
+      toast.success(`${count} initiative${count !== 1 ? 's' : ''} permanently deleted`);
+      await fetchInitiatives();
+      return true;
+    } catch (error) {
+      console.error('Error emptying trash:', error);
+      toast.error('Failed to empty trash');
+      return false;
+    }
+  };
+
   return {
     initiatives,
     loading,
+    recentChanges,
+    conflict,
+    resolveConflict,
+    dismissConflict,
     refetch: fetchInitiatives,
     createInitiative,
     updateInitiative,
     deleteInitiative,
-    updateInitiativeOrder
+    restoreInitiative,
+    purgeInitiative,
+    emptyTrash,
+    moveInitiative,
+    copyInitiative,
+    updateInitiativeOrder,
+    applyOrder
   };
 }
@@ -0,0 +1,89 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { toast } from 'sonner';
+
+// Oldest changes are dropped beyond this
+const MAX_HISTORY = 50;
+
+/**
+ * A change that has been saved and knows how to save its reverse
+ */
+export interface UndoableChange {
+  label: string;
+  undo: () => Promise<boolean>;
+  redo: () => Promise<boolean>;
+}
+
+// Text fields keep the browser's own undo
+function isTextInput(target: EventTarget | null) {
+  if (!(target instanceof HTMLElement)) return false;
+  return target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName);
+}
+
+/**
+ * Undo/redo stack for saved edits, bound to Ctrl+Z / Ctrl+Shift+Z (Cmd on macOS)
+ */
+export function useUndoRedo() {
+  const undoStack = useRef<UndoableChange[]>([]);
+  const redoStack = useRef<UndoableChange[]>([]);
+  const busy = useRef(false);
+  const [sizes, setSizes] = useState({ undo: 0, redo: 0 });
+
+  const syncSizes = () => {
+    setSizes({ undo: undoStack.current.length, redo: redoStack.current.length });
+  };
+
+  const record = useCallback((change: UndoableChange) => {
+    undoStack.current = [...undoStack.current, change].slice(-MAX_HISTORY);
+    redoStack.current = [];
+    syncSizes();
+  }, []);
+
+  // Moves the latest change from one stack to the other if replaying it succeeds
+  const replay = async (direction: 'undo' | 'redo') => {
+    const from = direction === 'undo' ? undoStack : redoStack;
+    const to = direction === 'undo' ? redoStack : undoStack;
+    const change = from.current[from.current.length - 1];
+    if (!change || busy.current) return;
+
+    busy.current = true;
+    try {
+      from.current = from.current.slice(0, -1);
+      // On failure the change is dropped: the row has moved on without it
+      if (await change[direction]()) {
+        to.current = [...to.current, change];
+        toast.success(`${direction === 'undo' ? 'Undone' : 'Redone'}: ${change.label}`);
+      }
+    } finally {
+      busy.current = false;
+      syncSizes();
+    }
+  };
+
+  const undo = useCallback(() => replay('undo'), []);
+  const redo = useCallback(() => replay('redo'), []);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== 'z' || isTextInput(e.target)) {
+        return;
+      }
+      e.preventDefault();
+      if (e.shiftKey) {
+        redo();
+      } else {
+        undo();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo]);
+
+  return {
+    record,
+    undo,
+    redo,
+    canUndo: sizes.undo > 0,
+    canRedo: sizes.redo > 0
+  };
+}
@@ -0,0 +1,38 @@
+const ACTOR_KEY = 'roadmap-actor-name';
+const DEFAULT_ACTOR = 'Anonymous';
+
+// Email of the signed-in user; replaces the chosen name while signed in
+let signedInActor: string | null = null;
+
+export function setSignedInActor(email: string | null) {
+  signedInActor = email;
+}
+
+// Only the local backend, which has no accounts, lets users pick a name
+export function canChangeActorName() {
+  return signedInActor === null;
+}
+
+/**
+ * Name recorded as the author of changes made in this browser
+ */
+export function getActorName(): string {
+  if (signedInActor) return signedInActor;
+  try {
+    return window.localStorage.getItem(ACTOR_KEY) || DEFAULT_ACTOR;
+  } catch {
+    return DEFAULT_ACTOR;
+  }
+}
+
+export function setActorName(name: string) {
+  try {
+    if (name.trim()) {
+      window.localStorage.setItem(ACTOR_KEY, name.trim());
+    } else {
+      window.localStorage.removeItem(ACTOR_KEY);
+    }
+  } catch (error) {
+    console.error('Error saving actor name:', error);
+  }
+}
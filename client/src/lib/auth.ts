@@ -0,0 +1,121 @@
+import { isRole, parseGroups, type RoadmapUser, type Role } from '@shared/auth';
+import { getActorName } from './actor';
+import { storageBackend } from './storage';
+import { supabase } from './supabase';
+
+/**
+ * Role given to the browser's user in local mode, which has no accounts.
+ * Set VITE_LOCAL_ROLE to try the app as a viewer or editor.
+ */
+const localRole: Role = isRole(import.meta.env.VITE_LOCAL_ROLE) ? import.meta.env.VITE_LOCAL_ROLE : 'admin';
+
+// Permission groups of the local user, e.g. VITE_LOCAL_GROUPS=product-leadership
+const localGroups = parseGroups(import.meta.env.VITE_LOCAL_GROUPS || '');
+
+// Local mode has no sign-in; the user is always signed in with localRole
+export const authRequired = storageBackend !== 'local';
+
+const localUser = (): RoadmapUser => ({
+  id: 'local',
+  email: getActorName(),
+  role: localRole,
+  groups: localGroups
+});
+
+async function fetchAccess(userId: string): Promise<Pick<RoadmapUser, 'role' | 'groups'>> {
+  const { data, error } = await supabase
+    .from('user_roles')
+    .select('role, groups')
+    .eq('user_id', userId)
+    .maybeSingle();
+  if (error) throw error;
+  return {
+    role: isRole(data?.role) ? data.role : 'viewer',
+    groups: data?.groups ?? []
+  };
+}
+
+/**
+ * The signed-in user with their role and groups, or null when signed out
+ */
+export async function getCurrentUser(): Promise<RoadmapUser | null> {
+  if (!authRequired) return localUser();
+
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) return null;
+
+  return {
+    id: session.user.id,
+    email: session.user.email || session.user.id,
+    ...(await fetchAccess(session.user.id))
+  };
+}
+
+/**
+ * Calls back whenever the user signs in or out
+ */
+export function onAuthChange(callback: () => void): () => void {
+  if (!authRequired) return () => {};
+
+  const { data: { subscription } } = supabase.auth.onAuthStateChange((event) => {
+    if (event === 'SIGNED_IN' || event === 'SIGNED_OUT' || event === 'USER_UPDATED') {
+      callback();
+    }
+  });
+  return () => subscription.unsubscribe();
+}
+
+export async function signIn(email: string, password: string) {
+  const { error } = await supabase.auth.signInWithPassword({ email, password });
+  if (error) throw error;
+}
+
+/**
+ * Creates an account; new accounts are viewers until an admin changes the role.
+ * Returns false when the email address still has to be confirmed.
+ */
+export async function signUp(email: string, password: string): Promise<boolean> {
+  const { data, error } = await supabase.auth.signUp({ email, password });
+  if (error) throw error;
+  return !!data.session;
+}
+
+export async function signOut() {
+  const { error } = await supabase.auth.signOut();
+  if (error) throw error;
+}
+
+export interface UserRole {
+  user_id: string;
+  email: string;
+  role: Role;
+  groups: string[];
+}
+
+/**
+ * Every account with its role and groups (admins only)
+ */
+export async function listUserRoles(): Promise<UserRole[]> {
+  const { data, error } = await supabase
+    .from('user_roles')
+    .select('user_id, email, role, groups')
+    .order('email', { ascending: true });
+  if (error) throw error;
+  return (data || []) as UserRole[];
+}
+
+export async function setUserRole(userId: string, role: Role) {
+  const { error } = await supabase
+    .from('user_roles')
+    .update({ role })
+    .eq('user_id', userId);
+  if (error) throw error;
+}
+
+export async function setUserGroups(userId: string, groups: string[]) {
+  const { error } = await supabase
+    .from('user_roles')
+    .update({ groups })
+    .eq('user_id', userId);
+  if (error) throw error;
+}
@@ -1,4 +1,5 @@
 import { parse, format } from 'date-fns';
+import type { Initiative } from '@/types/database';
 
 export function quarterToDateRange(quarter: string | null): { start: Date; end: Date } {
   const currentYear = new Date().getFullYear();
@@ -33,6 +34,42 @@ export function quarterToDateRange(quarter: string | null): { start: Date; end:
   };
 }
 
+/**
+ * Where an initiative's Gantt bar starts and ends: its Start and End Date,
+ * falling back to its Quarter Due
+ */
+export function initiativeDateRange(initiative: Initiative): { start: Date; end: Date } {
+  let startDate: Date;
+  let endDate: Date;
+
+  // Use Start Date if available
+  if (initiative['Start Date']) {
+    startDate = new Date(initiative['Start Date']);
+  } else if (initiative['Quarter Due']) {
+    // Derive from Quarter Due
+    const range = quarterToDateRange(initiative['Quarter Due']);
+    startDate = range.start;
+  } else {
+    // Default to current date
+    startDate = new Date();
+  }
+
+  // Use End Date if available
+  if (initiative['End Date']) {
+    endDate = new Date(initiative['End Date']);
+  } else if (initiative['Quarter Due']) {
+    // Derive from Quarter Due
+    const range = quarterToDateRange(initiative['Quarter Due']);
+    endDate = range.end;
+  } else {
+    // Default to 3 months from start
+    endDate = new Date(startDate);
+    endDate.setMonth(endDate.getMonth() + 3);
+  }
+
+  return { start: startDate, end: endDate };
+}
+
 export function formatDate(date: string | null): string {
   if (!date) return '';
   try {
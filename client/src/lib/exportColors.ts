@@ -0,0 +1,31 @@
+/**
+ * Hex colors (without #) for exported files, matching what the web app shows
+ */
+
+// Gantt bars by Status (see GanttLegend)
+export const GANTT_BAR_COLORS: Record<string, string> = {
+  Active: '3B82F6',
+  Completed: '10B981',
+  Backlog: 'F59E0B'
+};
+export const DEFAULT_GANTT_BAR_COLOR = '9CA3AF';
+
+// Product Dev Status badges, matching STATUS_COLORS
+export const DEV_STATUS_COLORS: Record<string, { fill: string; text: string }> = {
+  'Dev In progress': { fill: 'DBEAFE', text: '1E40AF' },
+  'Not started': { fill: 'F3F4F6', text: '1F2937' },
+  'Completed, PROD LIVE': { fill: 'DCFCE7', text: '166534' },
+  'Completed, PROD LIVE, VoC Completed': { fill: 'D1FAE5', text: '065F46' },
+  'Completed, PROD LIVE, VoC In Progress': { fill: 'CCFBF1', text: '115E59' },
+  'Backlog': { fill: 'FEF9C3', text: '854D0E' },
+  'Design In progress': { fill: 'F3E8FF', text: '6B21A8' },
+  'Design In progress, Dev In progress': { fill: 'E0E7FF', text: '3730A3' },
+  'Completed': { fill: 'DCFCE7', text: '166534' }
+};
+export const DEFAULT_DEV_STATUS_COLORS = { fill: 'F3F4F6', text: '374151' };
+
+export const devStatusColors = (status: string | null | undefined) =>
+  (status && DEV_STATUS_COLORS[status]) || DEFAULT_DEV_STATUS_COLORS;
+
+export const ganttBarColor = (status: string | null | undefined) =>
+  GANTT_BAR_COLORS[status ?? ''] ?? DEFAULT_GANTT_BAR_COLOR;
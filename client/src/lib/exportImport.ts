@@ -1,58 +1,65 @@
 import * as XLSX from 'xlsx';
-import { supabase } from './supabase';
-import type { Initiative, TabStatus, ProductType } from '@/types/database';
+import { storage } from './storage';
+import type { ColumnConfig, Initiative, TabStatus, ProductType } from '@/types/database';
 import { toast } from 'sonner';
+import { lockedChanges, lockedFieldsOnCreate, type RoadmapUser } from '@shared/auth';
+import { roadmapDiffToMarkdown, type DiffInitiative, type RoadmapDiff } from '@shared/diff';
+import { getVisibleColumns } from '@shared/columns';
+import {
+  buildExportWorkbook,
+  buildFormattedWorkbook,
+  buildViewRows,
+  cleanNewRowData,
+  cleanRowData,
+  planImport,
+  readExportMetadata,
+  readImportRows,
+  staleImportWarnings,
+  type ExportMetadata,
+  type ImportMode,
+  type ViewExportFormat
+} from '@shared/exportImport';
+
+const XLSX_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+function downloadFile(content: BlobPart, type: string, filename: string): void {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
 
 /**
  * Exports ALL initiatives to Excel file (all statuses: Active, Completed, Backlog)
- * Exports ALL columns from the roadmap_fields table, including custom columns
+ * Exports ALL columns from the roadmap_fields table, including custom columns,
+ * as the formatted workbook: a sheet per Status with dropdowns and date cells
  */
 export async function exportToExcel(): Promise<void> {
   try {
     // Build query - select ALL columns (including custom columns) from ALL statuses
     // This ensures we export everything, not just visible columns
-    let query = supabase
-      .from('roadmap_fields')
-      .select('*');
-
-    // Order by Status first, then sort_order, then ID
-    query = query.order('Status', { ascending: true })
-                 .order('sort_order', { ascending: true, nullsFirst: false })
-                 .order('ID', { ascending: true });
-
-    const { data, error } = await query;
+    // Ordered by Status first, then sort_order, then ID
+    const [data, columns] = await Promise.all([
+      storage.listInitiatives({ status: 'All' }),
+      storage.listColumns()
+    ]);
 
-    if (error) throw error;
-
-    if (!data || data.length === 0) {
+    if (data.length === 0) {
       toast.error('No data to export');
       return;
     }
 
-    // Convert to worksheet
-    const worksheet = XLSX.utils.json_to_sheet(data);
-
-    // Set column widths
-    const maxWidth = 30;
-    const columnWidths = Object.keys(data[0] || {}).map((key) => {
-      const maxLength = Math.max(
-        key.length,
-        ...data.map((row: any) => String(row[key] || '').length)
-      );
-      return { wch: Math.min(maxLength + 2, maxWidth) };
-    });
-    worksheet['!cols'] = columnWidths;
-
-    // Create workbook
-    const workbook = XLSX.utils.book_new();
-    XLSX.utils.book_append_sheet(workbook, worksheet, 'Roadmap');
+    const workbook = await buildFormattedWorkbook(data, columns);
 
     // Generate filename with timestamp
     const dateStr = new Date().toISOString().split('T')[0];
     const filename = `roadmap_all_statuses_${dateStr}.xlsx`;
 
     // Download
-    XLSX.writeFile(workbook, filename);
+    downloadFile(workbook, XLSX_TYPE, filename);
 
     // Count by status for informative message
     const statusCounts = data.reduce((acc: Record<string, number>, row: any) => {
@@ -72,128 +79,119 @@ export async function exportToExcel(): Promise<void> {
   }
 }
 
+export interface ViewExportOptions {
+  tab: TabStatus;
+  // The rows on screen, in their on-screen order, across every page of the list
+  initiatives: Initiative[];
+  format: ViewExportFormat;
+}
+
 /**
- * Validates import data
- * Only requires ID column - accepts any other columns that exist in the table
+ * Exports the current view: the given rows with only the visible columns,
+ * in their configured order, headed by their display names
  */
-export function validateImportData(data: any[]): { isValid: boolean; errors: string[] } {
-  const errors: string[] = [];
-
-  // Check if data is empty
-  if (!data || data.length === 0) {
-    errors.push('File is empty');
-    return { isValid: false, errors };
+export async function exportCurrentView({ tab, initiatives, format }: ViewExportOptions): Promise<void> {
+  if (initiatives.length === 0) {
+    toast.error('No data to export');
+    return;
   }
 
-  // Check required columns - only ID is required
-  const requiredColumns = ['ID'];
-  const firstRow = data[0];
-
-  for (const col of requiredColumns) {
-    if (!(col in firstRow)) {
-      errors.push(`Missing required column: ${col}`);
-    }
-  }
-
-  // Check for duplicate IDs
-  const ids = data.map((row) => row.ID).filter((id) => id != null);
-  const uniqueIds = new Set(ids);
-  if (ids.length !== uniqueIds.size) {
-    errors.push('Duplicate IDs found');
-  }
+  try {
+    const columns = getVisibleColumns(await storage.listColumns());
+    const rows = buildViewRows(initiatives, columns);
 
-  // Validate data types
-  for (let i = 0; i < data.length; i++) {
-    const row = data[i];
+    const dateStr = new Date().toISOString().split('T')[0];
+    const filename = `roadmap_${tab.toLowerCase()}_${dateStr}.${format}`;
 
-    // ID must be a number
-    if (row.ID != null && isNaN(Number(row.ID))) {
-      errors.push(`Row ${i + 2}: ID must be a number`);
+    if (format === 'json') {
+      downloadFile(JSON.stringify(rows, null, 2), 'application/json', filename);
+    } else {
+      // The extension picks CSV or XLSX
+      XLSX.writeFile(buildExportWorkbook(rows), filename);
     }
 
-    // Validate dates - dynamically detect any column with "date" in the name (case-insensitive)
-    for (const col of Object.keys(row)) {
-      if (col.toLowerCase().includes('date') && row[col] && !isValidDate(row[col])) {
-        errors.push(`Row ${i + 2}: ${col} is not a valid date`);
-      }
-    }
+    toast.success(`Exported ${rows.length} row${rows.length !== 1 ? 's' : ''} with ${columns.length} column${columns.length !== 1 ? 's' : ''}`);
+  } catch (error) {
+    console.error('Export failed:', error);
+    toast.error('Failed to export data');
   }
-
-  return {
-    isValid: errors.length === 0,
-    errors
-  };
 }
 
 /**
- * Checks if a string is a valid date
+ * Downloads a roadmap diff as a workbook with one sheet per kind of change
  */
-function isValidDate(dateString: string): boolean {
-  if (!dateString) return true; // Null/empty is valid
-  const date = new Date(dateString);
-  return !isNaN(date.getTime());
+export function exportDiffToExcel(diff: RoadmapDiff, from: string, to: string, columns: ColumnConfig[]): void {
+  const names = new Map(columns.map(c => [c.column_name, c.display_name]));
+  const label = (field: string) => names.get(field) ?? field;
+  const row = (init: DiffInitiative) => ({ ID: init.id, Initiative: init.name, Product: init.product });
+
+  const sheets: [string, Record<string, any>[]][] = [
+    ['Summary', [
+      { Summary: 'From', Value: from },
+      { Summary: 'To', Value: to },
+      { Summary: 'Added', Value: diff.added.length },
+      { Summary: 'Removed', Value: diff.removed.length },
+      { Summary: 'Moved', Value: diff.moved.length },
+      { Summary: 'Date slips', Value: diff.dateSlips.length },
+      { Summary: 'Rank changes', Value: diff.rankChanges.length },
+      { Summary: 'Field edits', Value: diff.edits.length }
+    ]],
+    ['Added', diff.added.map(init => ({ ...row(init), Status: init.status }))],
+    ['Removed', diff.removed.map(init => ({ ...row(init), Status: init.status }))],
+    ['Moved', diff.moved.map(move => ({ ...row(move.initiative), From: move.from, To: move.to }))],
+    ['Date Slips', diff.dateSlips.map(slip => ({
+      ...row(slip.initiative),
+      Field: label(slip.field),
+      Before: slip.before,
+      After: slip.after,
+      Days: slip.days
+    }))],
+    ['Rank Changes', diff.rankChanges.map(change => ({
+      ...row(change.initiative),
+      Status: change.initiative.status,
+      Before: change.before,
+      After: change.after
+    }))],
+    ['Field Edits', diff.edits.flatMap(edit => edit.changes.map(change => ({
+      ...row(edit.initiative),
+      Field: label(change.field),
+      Before: change.before,
+      After: change.after
+    })))]
+  ];
+
+  const workbook = XLSX.utils.book_new();
+  sheets.forEach(([name, rows]) => {
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(rows), name);
+  });
+
+  const dateStr = new Date().toISOString().split('T')[0];
+  XLSX.writeFile(workbook, `roadmap_changes_${dateStr}.xlsx`);
 }
 
 /**
- * Cleans row data for database update
- * Handles ALL columns dynamically, including custom columns
+ * Downloads a roadmap diff as a Markdown report
  */
-export function cleanRowData(row: any): Partial<Initiative> {
-  // Remove ID from updates (it's the WHERE condition)
-  const { ID, ...updates } = row;
-
-  // Convert empty strings to null
-  Object.keys(updates).forEach((key) => {
-    if (updates[key] === '' || updates[key] === undefined) {
-      updates[key] = null;
-    }
-  });
-
-  // Parse dates - dynamically detect any column with "date" in the name (case-insensitive)
-  Object.keys(updates).forEach((col) => {
-    if (col.toLowerCase().includes('date') && updates[col]) {
-      // Ensure proper date format
-      const date = new Date(updates[col]);
-      if (!isNaN(date.getTime())) {
-        updates[col] = date.toISOString().split('T')[0]; // YYYY-MM-DD
-      } else {
-        updates[col] = null;
-      }
-    }
-  });
-
-  // Parse numbers - detect known numeric columns and any column that looks numeric
-  // Known numeric columns
-  const knownNumberColumns = ['priority_rank', 'est_hours_story_points', 'sort_order'];
-  knownNumberColumns.forEach((col) => {
-    if (updates[col] != null && updates[col] !== '') {
-      const num = Number(updates[col]);
-      updates[col] = isNaN(num) ? null : num;
-    } else if (updates[col] === '') {
-      updates[col] = null;
-    }
-  });
-
-  // For other columns, try to detect if they should be numbers based on the value
-  // (This is a best-effort approach - if it's a valid number string, convert it)
-  Object.keys(updates).forEach((col) => {
-    // Skip if already processed or if it's a date column
-    if (knownNumberColumns.includes(col) || col.toLowerCase().includes('date')) {
-      return;
-    }
-    
-    // If the value is a string that looks like a number, try to convert it
-    // But only if it's not a text field (we can't reliably detect this, so we'll be conservative)
-    // For now, we'll only convert known numeric columns above
-  });
+export function exportDiffToMarkdown(diff: RoadmapDiff, from: string, to: string, columns: ColumnConfig[]): void {
+  downloadFile(
+    roadmapDiffToMarkdown(diff, from, to, columns),
+    'text/markdown',
+    `roadmap_changes_${new Date().toISOString().split('T')[0]}.md`
+  );
+}
 
-  return updates;
+/**
+ * The rows of an import file, with the metadata of a workbook from exportToExcel
+ */
+export interface ImportFile {
+  rows: any[];
+  metadata: ExportMetadata | null;
 }
 
 /**
  * Reads and parses Excel/CSV file
  */
-export async function parseImportFile(file: File): Promise<any[]> {
+export async function parseImportFile(file: File): Promise<ImportFile> {
   return new Promise((resolve, reject) => {
     const reader = new FileReader();
 
@@ -206,16 +204,7 @@ export async function parseImportFile(file: File): Promise<any[]> {
         }
 
         const workbook = XLSX.read(data, { type: 'array' });
-        const sheetName = workbook.SheetNames[0];
-        const worksheet = workbook.Sheets[sheetName];
-
-        // Convert to JSON
-        const jsonData = XLSX.utils.sheet_to_json(worksheet, {
-          raw: false, // Keep dates as strings for parsing
-          defval: null // Use null for empty cells
-        });
-
-        resolve(jsonData);
+        resolve({ rows: readImportRows(workbook), metadata: readExportMetadata(workbook) });
       } catch (error) {
         reject(error);
       }
@@ -230,35 +219,104 @@ export async function parseImportFile(file: File): Promise<any[]> {
 }
 
 /**
- * Performs bulk update of initiatives
+ * What the preview needs to count rows to create, update and skip per mode
  */
-export async function bulkUpdateInitiatives(
+export interface ImportPreview {
+  rows: any[];
+  existingIds: Set<number>;
+  trashedIds: Set<number>;
+  // For a file exported before the roadmap or its columns changed
+  warnings: string[];
+}
+
+export async function previewImport({ rows, metadata }: ImportFile): Promise<ImportPreview> {
+  const [current, trashed, columns] = await Promise.all([
+    storage.listInitiatives({ status: 'All' }),
+    storage.listInitiatives({ status: 'Trash' }),
+    storage.listColumns()
+  ]);
+  return {
+    rows,
+    existingIds: new Set(current.map((init) => init.ID)),
+    trashedIds: new Set(trashed.map((init) => init.ID)),
+    warnings: metadata ? staleImportWarnings(metadata, rows, current, columns) : []
+  };
+}
+
+/**
+ * An imported row left unchanged because it edits fields the user may not
+ */
+export interface RejectedRow {
+  // Null for a row that would have created an initiative
+  id: number | null;
+  fields: string[];
+}
+
+export interface ImportResult {
+  createdCount: number;
+  updatedCount: number;
+  skippedCount: number;
+  // Rows left alone because their initiative is in the trash
+  trashedCount: number;
+  errorCount: number;
+  rejected: RejectedRow[];
+}
+
+/**
+ * Performs bulk import of initiatives: updates rows that match an existing
+ * initiative by ID and creates the others, as the mode allows (see planImport).
+ * New initiatives get their ID and priority rank from the backend.
+ * Rows that would change a field the user may not edit are rejected whole.
+ */
+export async function bulkImportInitiatives(
   data: any[],
+  mode: ImportMode,
+  user: RoadmapUser | null,
   onProgress?: (progress: number) => void
-): Promise<{ successCount: number; errorCount: number }> {
-  let successCount = 0;
+): Promise<ImportResult> {
+  let createdCount = 0;
+  let updatedCount = 0;
   let errorCount = 0;
+  const rejected: RejectedRow[] = [];
+
+  const [columns, existing, trashed] = await Promise.all([
+    storage.listColumns(),
+    storage.listInitiatives({ status: 'All' }),
+    storage.listInitiatives({ status: 'Trash' })
+  ]);
+  const byId = new Map(existing.map((init) => [init.ID, init]));
+  const plan = planImport(data, new Set(byId.keys()), new Set(trashed.map((init) => init.ID)), mode);
+  const total = plan.update.length + plan.create.length;
+  let done = 0;
+
+  const reportProgress = (count: number) => {
+    done += count;
+    if (onProgress) {
+      onProgress(Math.round((done / total) * 100));
+    }
+  };
 
-  // Process in batches of 10
+  // Process updates in batches of 10
   const batchSize = 10;
-  const total = data.length;
 
-  for (let i = 0; i < data.length; i += batchSize) {
-    const batch = data.slice(i, i + batchSize);
+  for (let i = 0; i < plan.update.length; i += batchSize) {
+    const batch = plan.update.slice(i, i + batchSize);
 
     // Update each row
     const promises = batch.map(async (row) => {
       try {
         // Convert row to database format
-        const updates = cleanRowData(row);
+        const updates = cleanRowData(row, columns);
 
-        const { error } = await supabase
-          .from('roadmap_fields')
-          .update(updates)
-          .eq('ID', row.ID);
+        const current = byId.get(Number(row.ID));
+        const fields = current ? lockedChanges(user, columns, current, updates) : [];
+        if (fields.length > 0) {
+          rejected.push({ id: Number(row.ID), fields });
+          return;
+        }
 
-        if (error) throw error;
-        successCount++;
+        await storage.updateInitiative(Number(row.ID), updates, { source: 'import' });
+        updatedCount++;
       } catch (error) {
         console.error(`Failed to update ID ${row.ID}:`, error);
         errorCount++;
@@ -266,14 +324,33 @@ export async function bulkUpdateInitiatives(
     });
 
     await Promise.all(promises);
+    reportProgress(batch.length);
+  }
 
-    // Update progress
-    if (onProgress) {
-      const progress = Math.round(((i + batch.length) / total) * 100);
-      onProgress(progress);
+  // Creates run one at a time so new priority ranks follow the file's order
+  for (const row of plan.create) {
+    try {
+      const initiative = cleanNewRowData(row, columns);
+      const fields = lockedFieldsOnCreate(user, columns, initiative);
+      if (fields.length > 0) {
+        rejected.push({ id: null, fields });
+      } else {
+        await storage.createInitiative(initiative, { source: 'import' });
+        createdCount++;
+      }
+    } catch (error) {
+      console.error('Failed to create initiative:', error);
+      errorCount++;
     }
+    reportProgress(1);
   }
 
-  return { successCount, errorCount };
+  return {
+    createdCount,
+    updatedCount,
+    skippedCount: plan.skip.length,
+    trashedCount: plan.trashed.length,
+    errorCount,
+    rejected
+  };
 }
-
@@ -0,0 +1,354 @@
+import {
+  addDays, addMonths, addWeeks, addYears, format,
+  startOfDay, startOfMonth, startOfWeek, startOfYear
+} from 'date-fns';
+import type { jsPDF } from 'jspdf';
+import { toast } from 'sonner';
+import { storage } from './storage';
+import { getVisibleColumns } from '@shared/columns';
+import { initiativeDateRange } from './dateUtils';
+import { DEV_STATUS_COLORS, GANTT_BAR_COLORS, devStatusColors, ganttBarColor } from './exportColors';
+import type { GanttViewMode } from '@/components/GanttView';
+import type { Initiative, ProductType, TabStatus } from '@/types/database';
+
+export interface ListPdfOptions {
+  // Workspace title, at the top of the first page
+  title: string;
+  tab: TabStatus;
+  productFilter: ProductType | 'All';
+  searchTerm: string;
+  // The rows on screen, across every page of the list
+  initiatives: Initiative[];
+}
+
+export interface GanttPdfOptions {
+  title: string;
+  viewMode: GanttViewMode;
+}
+
+// Landscape US Letter, in millimetres
+const MARGIN = 12;
+const HEADER_TOP = 16;
+const CONTENT_TOP = 36;
+const FOOTER_HEIGHT = 10;
+
+const TEXT_COLOR = '#111827';
+const MUTED_COLOR = '#6B7280';
+const BORDER_COLOR = '#E5E7EB';
+const HEADER_FILL = '#F3F4F6';
+const TODAY_COLOR = '#EF4444';
+
+const hex = (color: string) => `#${color}`;
+
+async function createDocument(): Promise<jsPDF> {
+  // Only loaded when someone exports a PDF
+  const { jsPDF } = await import('jspdf');
+  return new jsPDF({ orientation: 'landscape', unit: 'mm', format: 'letter' });
+}
+
+const pageWidth = (doc: jsPDF) => doc.internal.pageSize.getWidth();
+const pageHeight = (doc: jsPDF) => doc.internal.pageSize.getHeight();
+
+function drawTitle(doc: jsPDF, title: string, subtitle: string) {
+  doc.setFontSize(16);
+  doc.setTextColor(TEXT_COLOR);
+  doc.setFont('helvetica', 'bold');
+  doc.text(title, MARGIN, HEADER_TOP);
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(10);
+  doc.setTextColor(MUTED_COLOR);
+  doc.text(subtitle, MARGIN, HEADER_TOP + 6);
+}
+
+// A row of color swatches below the title
+function drawLegend(doc: jsPDF, label: string, entries: [string, { fill: string; text?: string }][]) {
+  const y = HEADER_TOP + 13;
+  doc.setFontSize(8);
+  doc.setTextColor(TEXT_COLOR);
+  doc.text(label, MARGIN, y);
+  let x = MARGIN + doc.getTextWidth(label) + 3;
+
+  entries.forEach(([name, colors]) => {
+    const width = doc.getTextWidth(name);
+    if (x + width + 8 > pageWidth(doc) - MARGIN) return;
+    doc.setFillColor(hex(colors.fill));
+    doc.setDrawColor(BORDER_COLOR);
+    doc.rect(x, y - 3, 4, 4, 'FD');
+    doc.setTextColor(colors.text ? hex(colors.text) : TEXT_COLOR);
+    doc.text(name, x + 5.5, y);
+    x += width + 10;
+  });
+}
+
+// "Generated on" and page numbers, once every page is laid out
+function drawFooters(doc: jsPDF, generatedAt: Date) {
+  const pages = doc.getNumberOfPages();
+  const y = pageHeight(doc) - 6;
+  for (let page = 1; page <= pages; page++) {
+    doc.setPage(page);
+    doc.setFontSize(8);
+    doc.setTextColor(MUTED_COLOR);
+    doc.text(`Generated on ${format(generatedAt, 'PPpp')}`, MARGIN, y);
+    doc.text(`Page ${page} of ${pages}`, pageWidth(doc) - MARGIN, y, { align: 'right' });
+  }
+}
+
+const fileDate = (date: Date) => date.toISOString().split('T')[0];
+
+function listSubtitle({ tab, productFilter, searchTerm, initiatives }: ListPdfOptions) {
+  return [
+    tab === 'All' ? 'All statuses' : tab,
+    productFilter === 'All' ? 'All products' : productFilter,
+    searchTerm && `matching "${searchTerm}"`,
+    `${initiatives.length} initiative${initiatives.length !== 1 ? 's' : ''}`
+  ].filter(Boolean).join('  ·  ');
+}
+
+// As the list shows it: priority_rank as-is, everything else as text
+const cellText = (value: unknown) => (value === null || value === undefined ? '' : String(value));
+
+/**
+ * Downloads the list view as a PDF: the visible columns in their configured
+ * order, for every row in the current tab, product filter and search. Table
+ * headers repeat on each page.
+ */
+export async function exportListToPdf(options: ListPdfOptions): Promise<void> {
+  if (options.initiatives.length === 0) {
+    toast.error('No initiatives to export');
+    return;
+  }
+
+  try {
+    const columns = getVisibleColumns(await storage.listColumns());
+    const [doc, { autoTable }] = await Promise.all([createDocument(), import('jspdf-autotable')]);
+    const generatedAt = new Date();
+    const devStatusIndex = columns.findIndex(col => col.column_name === 'Product Dev Status');
+
+    drawTitle(doc, options.title, listSubtitle(options));
+    if (devStatusIndex !== -1) {
+      // Only the statuses in the table, so the legend fits on one line
+      const statuses = new Set(options.initiatives.map(init => init['Product Dev Status']));
+      drawLegend(doc, 'Product Dev Status:', Object.entries(DEV_STATUS_COLORS).filter(([status]) => statuses.has(status)));
+    }
+
+    autoTable(doc, {
+      head: [columns.map(col => col.display_name)],
+      body: options.initiatives.map(init => columns.map(col => cellText(init[col.column_name]))),
+      startY: devStatusIndex !== -1 ? CONTENT_TOP : CONTENT_TOP - 6,
+      margin: { top: MARGIN, right: MARGIN, bottom: MARGIN + FOOTER_HEIGHT, left: MARGIN },
+      showHead: 'everyPage',
+      styles: {
+        fontSize: columns.length > 12 ? 6 : 8,
+        cellPadding: 1.5,
+        overflow: 'linebreak',
+        textColor: TEXT_COLOR,
+        lineColor: BORDER_COLOR,
+        lineWidth: 0.1
+      },
+      headStyles: { fillColor: HEADER_FILL, textColor: TEXT_COLOR, fontStyle: 'bold' },
+      didParseCell: data => {
+        if (data.section !== 'body' || data.column.index !== devStatusIndex || !data.cell.raw) return;
+        const colors = devStatusColors(String(data.cell.raw));
+        data.cell.styles.fillColor = hex(colors.fill);
+        data.cell.styles.textColor = hex(colors.text);
+        data.cell.styles.fontStyle = 'bold';
+      }
+    });
+
+    drawFooters(doc, generatedAt);
+    doc.save(`roadmap_${options.tab.toLowerCase()}_${fileDate(generatedAt)}.pdf`);
+    toast.success(`Exported ${options.initiatives.length} initiative${options.initiatives.length !== 1 ? 's' : ''} to PDF`);
+  } catch (error) {
+    console.error('Export failed:', error);
+    toast.error('Failed to export PDF');
+  }
+}
+
+interface TimeScale {
+  // Width of one unit (day, week, month or year), in millimetres
+  unitWidth: number;
+  start: (date: Date) => Date;
+  next: (date: Date, amount: number) => Date;
+  label: (date: Date) => string;
+  // Grouping shown above the unit labels
+  groupLabel: (date: Date) => string;
+}
+
+// Same units as the frappe-gantt view modes
+const TIME_SCALES: Record<GanttViewMode, TimeScale> = {
+  Day: {
+    unitWidth: 6,
+    start: startOfDay,
+    next: addDays,
+    label: date => format(date, 'd'),
+    groupLabel: date => format(date, 'MMMM yyyy')
+  },
+  Week: {
+    unitWidth: 10,
+    start: date => startOfWeek(date, { weekStartsOn: 1 }),
+    next: addWeeks,
+    label: date => format(date, 'd'),
+    groupLabel: date => format(date, 'MMMM yyyy')
+  },
+  Month: {
+    unitWidth: 18,
+    start: startOfMonth,
+    next: addMonths,
+    label: date => format(date, 'MMM'),
+    groupLabel: date => format(date, 'yyyy')
+  },
+  Year: {
+    unitWidth: 40,
+    start: startOfYear,
+    next: addYears,
+    label: date => format(date, 'yyyy'),
+    groupLabel: () => ''
+  }
+};
+
+const LABEL_WIDTH = 62;
+const HEADER_ROW_HEIGHT = 6;
+const ROW_HEIGHT = 6.5;
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
+function initiativeLabel(init: Initiative) {
+  const rank = init.priority_rank !== null && init.priority_rank !== undefined ? `#${init.priority_rank} ` : '';
+  return `${rank}${init.Initiative || 'Untitled'}`;
+}
+
+// One page of the chart: some rows over a stretch of time units
+function drawGanttPage(
+  doc: jsPDF,
+  scale: TimeScale,
+  units: Date[],
+  bars: { init: Initiative; start: Date; end: Date }[],
+  now: Date
+) {
+  const left = MARGIN + LABEL_WIDTH;
+  const width = (units.length - 1) * scale.unitWidth;
+  const rowsTop = CONTENT_TOP + 2 * HEADER_ROW_HEIGHT;
+  const gridHeight = 2 * HEADER_ROW_HEIGHT + bars.length * ROW_HEIGHT;
+
+  // Position of a moment between the page's first and last unit boundary
+  const xOf = (time: number) => {
+    if (time <= units[0].getTime()) return left;
+    for (let i = 0; i < units.length - 1; i++) {
+      const from = units[i].getTime();
+      const to = units[i + 1].getTime();
+      if (time < to) return left + (i + (time - from) / (to - from)) * scale.unitWidth;
+    }
+    return left + width;
+  };
+
+  doc.setFillColor(HEADER_FILL);
+  doc.rect(MARGIN, CONTENT_TOP, LABEL_WIDTH + width, 2 * HEADER_ROW_HEIGHT, 'F');
+  doc.setDrawColor(BORDER_COLOR);
+  doc.setLineWidth(0.2);
+  doc.setFontSize(7);
+  doc.setTextColor(MUTED_COLOR);
+
+  units.slice(0, -1).forEach((unit, i) => {
+    const x = left + i * scale.unitWidth;
+    const group = scale.groupLabel(unit);
+    const newGroup = i === 0 || group !== scale.groupLabel(units[i - 1]);
+    if (newGroup && group) {
+      doc.text(group, x + 1, CONTENT_TOP + HEADER_ROW_HEIGHT - 2);
+    }
+    doc.text(scale.label(unit), x + scale.unitWidth / 2, CONTENT_TOP + 2 * HEADER_ROW_HEIGHT - 2, { align: 'center' });
+    doc.line(x, newGroup ? CONTENT_TOP : CONTENT_TOP + HEADER_ROW_HEIGHT, x, CONTENT_TOP + gridHeight);
+  });
+  doc.line(left + width, CONTENT_TOP, left + width, CONTENT_TOP + gridHeight);
+  doc.line(MARGIN, rowsTop, left + width, rowsTop);
+
+  bars.forEach(({ init, start, end }, row) => {
+    const y = rowsTop + row * ROW_HEIGHT;
+    doc.setFontSize(7.5);
+    doc.setTextColor(TEXT_COLOR);
+    const [label] = doc.splitTextToSize(initiativeLabel(init), LABEL_WIDTH - 2);
+    doc.text(label, MARGIN, y + ROW_HEIGHT / 2 + 1);
+    doc.line(MARGIN, y + ROW_HEIGHT, left + width, y + ROW_HEIGHT);
+
+    const x = xOf(start.getTime());
+    const barWidth = xOf(end.getTime()) - x;
+    if (barWidth <= 0) return;
+    doc.setFillColor(hex(ganttBarColor(init.Status)));
+    doc.roundedRect(x, y + 1.25, barWidth, ROW_HEIGHT - 2.5, 0.8, 0.8, 'F');
+  });
+
+  const today = now.getTime();
+  if (today >= units[0].getTime() && today <= units[units.length - 1].getTime()) {
+    doc.setDrawColor(TODAY_COLOR);
+    doc.setLineWidth(0.4);
+    doc.line(xOf(today), CONTENT_TOP, xOf(today), CONTENT_TOP + gridHeight);
+  }
+}
+
+/**
+ * Downloads the Gantt chart as a PDF at the given view mode. The chart is
+ * drawn in full rather than captured from the screen: long timelines carry
+ * on across pages, as do the rows, with the time headers repeated on each.
+ */
+export async function exportGanttToPdf(options: GanttPdfOptions): Promise<void> {
+  try {
+    // Same rows as the Gantt view: every status, by rank
+    const data = await storage.listInitiatives({ orderBy: 'priority_rank' });
+    if (data.length === 0) {
+      toast.error('No initiatives to export');
+      return;
+    }
+
+    const doc = await createDocument();
+    const generatedAt = new Date();
+    const scale = TIME_SCALES[options.viewMode];
+    const bars = data.map(init => ({ init, ...initiativeDateRange(init) }));
+
+    // Unit boundaries from before the first bar to after the last
+    const first = scale.start(new Date(Math.min(...bars.map(bar => bar.start.getTime()))));
+    const last = Math.max(...bars.map(bar => bar.end.getTime()));
+    const boundaries = [first];
+    while (boundaries[boundaries.length - 1].getTime() <= last) {
+      boundaries.push(scale.next(first, boundaries.length));
+    }
+
+    const unitsPerPage = Math.max(1, Math.floor((pageWidth(doc) - 2 * MARGIN - LABEL_WIDTH) / scale.unitWidth));
+    const rowsPerPage = Math.max(
+      1,
+      Math.floor((pageHeight(doc) - CONTENT_TOP - 2 * HEADER_ROW_HEIGHT - MARGIN - FOOTER_HEIGHT) / ROW_HEIGHT)
+    );
+    const timeSlices: Date[][] = [];
+    for (let i = 0; i < boundaries.length - 1; i += unitsPerPage) {
+      timeSlices.push(boundaries.slice(i, i + unitsPerPage + 1));
+    }
+
+    chunk(bars, rowsPerPage).forEach((rows, rowPage) => {
+      timeSlices.forEach((units, timePage) => {
+        if (rowPage > 0 || timePage > 0) doc.addPage();
+        drawTitle(
+          doc,
+          rowPage === 0 && timePage === 0 ? options.title : `${options.title} (continued)`,
+          [
+            `Timeline by ${options.viewMode.toLowerCase()}`,
+            `${format(units[0], 'PP')} – ${format(addDays(units[units.length - 1], -1), 'PP')}`,
+            `${data.length} initiative${data.length !== 1 ? 's' : ''}`
+          ].join('  ·  ')
+        );
+        drawLegend(doc, 'Status:', Object.entries(GANTT_BAR_COLORS).map(([status, fill]) => [status, { fill }]));
+        drawGanttPage(doc, scale, units, rows, generatedAt);
+      });
+    });
+
+    drawFooters(doc, generatedAt);
+    doc.save(`roadmap_timeline_${fileDate(generatedAt)}.pdf`);
+    toast.success(`Exported ${data.length} initiative${data.length !== 1 ? 's' : ''} to PDF`);
+  } catch (error) {
+    console.error('Export failed:', error);
+    toast.error('Failed to export PDF');
+  }
+}
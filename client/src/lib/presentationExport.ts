@@ -0,0 +1,303 @@
+import { format } from 'date-fns';
+import type PptxGenJS from 'pptxgenjs';
+import { toast } from 'sonner';
+import { storage } from './storage';
+import { formatDate, initiativeDateRange } from './dateUtils';
+import { GANTT_BAR_COLORS, devStatusColors, ganttBarColor } from './exportColors';
+import type { Initiative, ProductType } from '@/types/database';
+
+export interface PresentationOptions {
+  // Workspace title, on the title slide
+  title: string;
+  productFilter: ProductType | 'All';
+  searchTerm: string;
+}
+
+// LAYOUT_WIDE (16:9), in inches
+const SLIDE_WIDTH = 13.33;
+const MARGIN = 0.5;
+const CONTENT_WIDTH = SLIDE_WIDTH - 2 * MARGIN;
+const TABLE_TOP = 1.3;
+const TABLE_ROWS_PER_SLIDE = 10;
+const TIMELINE_ROWS_PER_SLIDE = 14;
+// Timelines wider than this start a quarter before the current one
+const MAX_TIMELINE_QUARTERS = 8;
+
+const TEXT_COLOR = '111827';
+const MUTED_COLOR = '6B7280';
+const BORDER_COLOR = 'E5E7EB';
+const HEADER_FILL = 'F3F4F6';
+const TODAY_COLOR = 'EF4444';
+
+const NO_PRODUCT = 'No product';
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
+// Quarters counted from year 0, so neighbouring quarters differ by 1
+const quarterIndex = (date: Date) => date.getFullYear() * 4 + Math.floor(date.getMonth() / 3);
+const quarterLabel = (index: number) => `Q${(index % 4) + 1} ${Math.floor(index / 4)}`;
+const quarterStart = (index: number) => new Date(Math.floor(index / 4), (index % 4) * 3, 1);
+
+const initiativeName = (init: Initiative) => init.Initiative || 'Untitled';
+
+function addSlideTitle(slide: PptxGenJS.Slide, title: string, subtitle?: string) {
+  slide.addText(title, {
+    x: MARGIN, y: 0.35, w: CONTENT_WIDTH, h: 0.6,
+    fontSize: 26, bold: true, color: TEXT_COLOR
+  });
+  if (subtitle) {
+    slide.addText(subtitle, {
+      x: MARGIN, y: 0.85, w: CONTENT_WIDTH, h: 0.35,
+      fontSize: 13, color: MUTED_COLOR
+    });
+  }
+}
+
+const headerRow = (labels: string[]): PptxGenJS.TableRow =>
+  labels.map(label => ({
+    text: label,
+    options: { bold: true, fill: { color: HEADER_FILL }, color: TEXT_COLOR }
+  }));
+
+function devStatusCell(status: string | null): PptxGenJS.TableCell {
+  const colors = devStatusColors(status);
+  return {
+    text: status || '',
+    options: status ? { fill: { color: colors.fill }, color: colors.text, bold: true } : {}
+  };
+}
+
+// Tables are split by hand so every slide keeps its title
+function addTableSlides(
+  pptx: PptxGenJS,
+  title: string,
+  subtitle: string,
+  header: string[],
+  columnWidths: number[],
+  rows: PptxGenJS.TableRow[]
+) {
+  chunk(rows, TABLE_ROWS_PER_SLIDE).forEach((page, i) => {
+    const slide = pptx.addSlide();
+    addSlideTitle(slide, i === 0 ? title : `${title} (continued)`, subtitle);
+    slide.addTable([headerRow(header), ...page], {
+      x: MARGIN, y: TABLE_TOP, w: CONTENT_WIDTH, colW: columnWidths,
+      fontSize: 11, color: TEXT_COLOR, valign: 'middle',
+      border: { type: 'solid', pt: 0.5, color: BORDER_COLOR },
+      margin: 0.06
+    });
+  });
+}
+
+function filterSummary({ productFilter, searchTerm }: PresentationOptions) {
+  return [
+    productFilter === 'All' ? 'All products' : productFilter,
+    searchTerm && `matching "${searchTerm}"`
+  ].filter(Boolean).join(', ');
+}
+
+function addTitleSlide(pptx: PptxGenJS, options: PresentationOptions, initiatives: Initiative[]) {
+  const count = (status: string) => initiatives.filter(init => init.Status === status).length;
+  const slide = pptx.addSlide();
+
+  slide.addText(options.title, {
+    x: MARGIN, y: 2.3, w: CONTENT_WIDTH, h: 1,
+    fontSize: 40, bold: true, color: TEXT_COLOR, align: 'center'
+  });
+  slide.addText('Roadmap Review', {
+    x: MARGIN, y: 3.3, w: CONTENT_WIDTH, h: 0.6,
+    fontSize: 24, color: MUTED_COLOR, align: 'center'
+  });
+  slide.addText(
+    [
+      format(new Date(), 'PPP'),
+      filterSummary(options),
+      `${count('Active')} active, ${count('Backlog')} in backlog, ${count('Completed')} completed`
+    ].join('  ·  '),
+    { x: MARGIN, y: 4.3, w: CONTENT_WIDTH, h: 0.4, fontSize: 14, color: MUTED_COLOR, align: 'center' }
+  );
+}
+
+// One slide (or more, for long lists) per product with Active initiatives
+function addProductSlides(pptx: PptxGenJS, initiatives: Initiative[]) {
+  const active = initiatives.filter(init => init.Status === 'Active');
+  const products = Array.from(new Set(active.map(init => init.Product || NO_PRODUCT))).sort();
+
+  products.forEach(product => {
+    const rows = active
+      .filter(init => (init.Product || NO_PRODUCT) === product)
+      .map((init): PptxGenJS.TableRow => [
+        { text: initiativeName(init), options: { bold: true } },
+        { text: init.Priority || '' },
+        devStatusCell(init['Product Dev Status']),
+        { text: formatDate(init['Start Date']) },
+        { text: formatDate(init['End Date']) },
+        { text: init['Quarter Due'] || '' }
+      ]);
+
+    addTableSlides(
+      pptx,
+      product,
+      `${rows.length} active initiative${rows.length !== 1 ? 's' : ''}`,
+      ['Initiative', 'Priority', 'Product Dev Status', 'Start', 'End', 'Quarter Due'],
+      [4.4, 1.3, 2.6, 1.3, 1.3, 1.43],
+      rows
+    );
+  });
+}
+
+// The Gantt chart's bars, drawn on a grid of quarters
+function addTimelineSlides(pptx: PptxGenJS, initiatives: Initiative[], now: Date) {
+  const bars = initiatives.map(init => ({ init, ...initiativeDateRange(init) }));
+  let first = Math.min(...bars.map(bar => quarterIndex(bar.start)));
+  let last = Math.max(...bars.map(bar => quarterIndex(bar.end)));
+  if (last - first + 1 > MAX_TIMELINE_QUARTERS) {
+    first = Math.max(first, quarterIndex(now) - 1);
+    last = first + MAX_TIMELINE_QUARTERS - 1;
+  }
+
+  const labelWidth = 3.3;
+  const left = MARGIN + labelWidth;
+  const width = CONTENT_WIDTH - labelWidth;
+  const rangeStart = quarterStart(first).getTime();
+  const rangeEnd = quarterStart(last + 1).getTime();
+  const xOf = (time: number) =>
+    left + (Math.min(Math.max(time, rangeStart), rangeEnd) - rangeStart) / (rangeEnd - rangeStart) * width;
+  const quarterWidth = width / (last - first + 1);
+  const rowHeight = 0.36;
+  const gridTop = 1.3;
+  const rowsTop = gridTop + 0.35;
+
+  chunk(bars, TIMELINE_ROWS_PER_SLIDE).forEach((page, i) => {
+    const slide = pptx.addSlide();
+    addSlideTitle(slide, i === 0 ? 'Timeline' : 'Timeline (continued)', `${quarterLabel(first)} – ${quarterLabel(last)}`);
+    const gridHeight = rowsTop - gridTop + page.length * rowHeight;
+
+    for (let q = first; q <= last; q++) {
+      const x = left + (q - first) * quarterWidth;
+      slide.addText(quarterLabel(q), {
+        x, y: gridTop, w: quarterWidth, h: 0.3,
+        fontSize: 11, bold: true, color: MUTED_COLOR, align: 'center'
+      });
+      slide.addShape('line', { x, y: gridTop, w: 0, h: gridHeight, line: { color: BORDER_COLOR, width: 0.75 } });
+    }
+    slide.addShape('line', { x: left + width, y: gridTop, w: 0, h: gridHeight, line: { color: BORDER_COLOR, width: 0.75 } });
+
+    page.forEach(({ init, start, end }, row) => {
+      const y = rowsTop + row * rowHeight;
+      const rank = init.priority_rank != null ? `#${init.priority_rank} ` : '';
+      slide.addText(`${rank}${initiativeName(init)}`, {
+        x: MARGIN, y, w: labelWidth - 0.1, h: rowHeight,
+        fontSize: 10, color: TEXT_COLOR, valign: 'middle', fit: 'shrink'
+      });
+
+      const x = xOf(start.getTime());
+      const barWidth = xOf(end.getTime()) - x;
+      if (barWidth > 0) {
+        slide.addShape('roundRect', {
+          x, y: y + 0.07, w: barWidth, h: rowHeight - 0.14, rectRadius: 0.05,
+          fill: { color: ganttBarColor(init.Status) },
+          line: { type: 'none' }
+        });
+      }
+    });
+
+    if (now.getTime() >= rangeStart && now.getTime() < rangeEnd) {
+      slide.addShape('line', {
+        x: xOf(now.getTime()), y: gridTop, w: 0, h: gridHeight,
+        line: { color: TODAY_COLOR, width: 1, dashType: 'dash' }
+      });
+    }
+
+    // Legend
+    Object.entries(GANTT_BAR_COLORS).forEach(([status, color], j) => {
+      const x = MARGIN + j * 1.6;
+      slide.addShape('rect', { x, y: 6.95, w: 0.2, h: 0.2, fill: { color }, line: { type: 'none' } });
+      slide.addText(status, { x: x + 0.25, y: 6.9, w: 1.3, h: 0.3, fontSize: 10, color: MUTED_COLOR });
+    });
+  });
+}
+
+// Completed and PROD LIVE initiatives whose live date falls in this quarter
+function addLiveSlide(pptx: PptxGenJS, initiatives: Initiative[], now: Date) {
+  const quarter = quarterIndex(now);
+  const live = initiatives
+    .map(init => ({ init, date: init['Production Live Date'] || init.actual_completion_date }))
+    .filter(({ init, date }) => {
+      if (init.Status !== 'Completed' && !init['Product Dev Status']?.includes('PROD LIVE')) return false;
+      const parsed = date ? new Date(date) : null;
+      return !!parsed && !isNaN(parsed.getTime()) && quarterIndex(parsed) === quarter;
+    })
+    .sort((a, b) => new Date(a.date!).getTime() - new Date(b.date!).getTime());
+
+  const title = `Completed / PROD LIVE: ${quarterLabel(quarter)}`;
+  if (live.length === 0) {
+    const slide = pptx.addSlide();
+    addSlideTitle(slide, title);
+    slide.addText(`Nothing has gone live in ${quarterLabel(quarter)} yet.`, {
+      x: MARGIN, y: TABLE_TOP, w: CONTENT_WIDTH, h: 0.5, fontSize: 16, color: MUTED_COLOR
+    });
+    return;
+  }
+
+  addTableSlides(
+    pptx,
+    title,
+    `${live.length} initiative${live.length !== 1 ? 's' : ''} live or completed this quarter`,
+    ['Initiative', 'Product', 'Product Dev Status', 'Live'],
+    [5.0, 2.6, 2.9, 1.83],
+    live.map(({ init, date }): PptxGenJS.TableRow => [
+      { text: initiativeName(init), options: { bold: true } },
+      { text: init.Product || '' },
+      devStatusCell(init['Product Dev Status']),
+      { text: formatDate(date) }
+    ])
+  );
+}
+
+/**
+ * Downloads a slide deck for exec reviews: a title slide, one slide per
+ * product with its Active initiatives, a timeline of the Gantt bars and the
+ * initiatives that went live this quarter. Only initiatives matching the
+ * current product filter and search are included.
+ */
+export async function exportToPowerPoint(options: PresentationOptions): Promise<void> {
+  try {
+    const data = await storage.listInitiatives({
+      status: 'All',
+      product: options.productFilter,
+      search: options.searchTerm,
+      orderBy: 'priority_rank'
+    });
+
+    if (data.length === 0) {
+      toast.error('No initiatives match the current filters');
+      return;
+    }
+
+    // Only loaded when someone exports slides
+    const { default: PptxGenJS } = await import('pptxgenjs');
+    const pptx = new PptxGenJS();
+    pptx.layout = 'LAYOUT_WIDE';
+    pptx.title = `${options.title} Roadmap Review`;
+
+    const now = new Date();
+    addTitleSlide(pptx, options, data);
+    addProductSlides(pptx, data);
+    addTimelineSlides(pptx, data, now);
+    addLiveSlide(pptx, data, now);
+
+    const dateStr = now.toISOString().split('T')[0];
+    await pptx.writeFile({ fileName: `roadmap_review_${dateStr}.pptx` });
+
+    toast.success(`Exported ${data.length} initiative${data.length !== 1 ? 's' : ''} to slides`);
+  } catch (error) {
+    console.error('Export failed:', error);
+    toast.error('Failed to export slides');
+  }
+}
@@ -0,0 +1,39 @@
+import { createMemoryStorage, createSupabaseStorage, type MemoryData, type RoadmapStorage } from '@shared/storage';
+import { supabase } from './supabase';
+import { getActorName } from './actor';
+import { getWorkspaceId } from './workspace';
+
+const LOCAL_DATA_KEY = 'roadmap-local-data';
+
+/**
+ * 'local' keeps the roadmap in this browser (localStorage) instead of Supabase.
+ * Set VITE_STORAGE_BACKEND=local to run or demo the app without a Supabase project.
+ */
+export const storageBackend: 'supabase' | 'local' =
+  import.meta.env.VITE_STORAGE_BACKEND === 'local' ? 'local' : 'supabase';
+
+function createLocalStorage(): RoadmapStorage {
+  let initialData: MemoryData | null = null;
+  try {
+    const stored = window.localStorage.getItem(LOCAL_DATA_KEY);
+    initialData = stored ? JSON.parse(stored) : null;
+  } catch (error) {
+    console.error('Error reading local roadmap data:', error);
+  }
+
+  return createMemoryStorage({
+    initialData,
+    getActor: getActorName,
+    getWorkspaceId,
+    onChange: (data) => {
+      try {
+        window.localStorage.setItem(LOCAL_DATA_KEY, JSON.stringify(data));
+      } catch (error) {
+        console.error('Error saving local roadmap data:', error);
+      }
+    }
+  });
+}
+
+export const storage: RoadmapStorage =
+  storageBackend === 'local' ? createLocalStorage() : createSupabaseStorage(supabase, { getActor: getActorName, getWorkspaceId });
@@ -0,0 +1,26 @@
+import { DEFAULT_TRASH_RETENTION_DAYS } from '@shared/const';
+import { trashPurgeCutoff } from '@shared/initiatives';
+import { storage } from './storage';
+
+const configuredDays = import.meta.env.VITE_TRASH_RETENTION_DAYS;
+
+/**
+ * Days deleted initiatives stay in the trash. Set VITE_TRASH_RETENTION_DAYS=0
+ * to keep them until they are purged by hand.
+ */
+export const trashRetentionDays =
+  configuredDays && Number(configuredDays) >= 0 ? Number(configuredDays) : DEFAULT_TRASH_RETENTION_DAYS;
+
+/**
+ * Purges initiatives that have been in the trash longer than the retention period
+ */
+export async function purgeExpiredTrash() {
+  if (trashRetentionDays === 0) return 0;
+
+  try {
+    return await storage.purgeDeleted(trashPurgeCutoff(trashRetentionDays));
+  } catch (error) {
+    console.error('Error purging expired trash:', error);
+    return 0;
+  }
+}
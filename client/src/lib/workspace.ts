@@ -0,0 +1,56 @@
+import { DEFAULT_WORKSPACE_ID } from '@shared/workspaces';
+import { supabase } from './supabase';
+
+const WORKSPACE_KEY = 'roadmap-workspace';
+
+function readStoredWorkspace(): string {
+  try {
+    return window.localStorage.getItem(WORKSPACE_KEY) || DEFAULT_WORKSPACE_ID;
+  } catch {
+    return DEFAULT_WORKSPACE_ID;
+  }
+}
+
+// Read by the storage backend on every call, so switching needs no reload
+let currentWorkspace = readStoredWorkspace();
+
+/**
+ * Workspace whose initiatives and columns this browser is showing
+ */
+export function getWorkspaceId(): string {
+  return currentWorkspace;
+}
+
+export function setWorkspaceId(id: string) {
+  currentWorkspace = id;
+  try {
+    window.localStorage.setItem(WORKSPACE_KEY, id);
+  } catch (error) {
+    console.error('Error saving workspace:', error);
+  }
+}
+
+/**
+ * IDs of the users who are members of a workspace (admins only)
+ */
+export async function listWorkspaceMembers(workspaceId: string): Promise<string[]> {
+  const { data, error } = await supabase
+    .from('workspace_members')
+    .select('user_id')
+    .eq('workspace_id', workspaceId);
+  if (error) throw error;
+  return (data || []).map((row) => row.user_id);
+}
+
+export async function setWorkspaceMember(workspaceId: string, userId: string, member: boolean) {
+  const { error } = member
+    ? await supabase
+        .from('workspace_members')
+        .upsert({ workspace_id: workspaceId, user_id: userId })
+    : await supabase
+        .from('workspace_members')
+        .delete()
+        .eq('workspace_id', workspaceId)
+        .eq('user_id', userId);
+  if (error) throw error;
+}
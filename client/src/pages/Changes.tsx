@@ -0,0 +1,270 @@
+import { useEffect, useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { ArrowLeft, ArrowRight, FileSpreadsheet, FileText } from 'lucide-react';
+import { toast } from 'sonner';
+import { Link, useLocation, useSearch } from 'wouter';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { storage } from '@/lib/storage';
+import { exportDiffToExcel, exportDiffToMarkdown } from '@/lib/exportImport';
+import type { SnapshotSummary } from '@/types/database';
+import {
+  LIVE_STATE,
+  diffRoadmaps,
+  loadRoadmapState,
+  type DiffInitiative,
+  type RoadmapState
+} from '@shared/diff';
+
+const formatValue = (value: any) =>
+  value === null || value === undefined || value === '' ? '—' : String(value);
+
+const formatDays = (days: number | null) =>
+  days === null ? '' : `${days > 0 ? '+' : ''}${days} days`;
+
+function InitiativeName({ initiative }: { initiative: DiffInitiative }) {
+  return (
+    <span>
+      {initiative.name} <span className="text-muted-foreground">#{initiative.id}</span>
+    </span>
+  );
+}
+
+interface SectionProps {
+  title: string;
+  headings: string[];
+  rows: React.ReactNode[][];
+}
+
+function Section({ title, headings, rows }: SectionProps) {
+  return (
+    <section className="space-y-2">
+      <h2 className="text-lg font-semibold">
+        {title} <span className="text-muted-foreground font-normal">({rows.length})</span>
+      </h2>
+      {rows.length === 0 ? (
+        <p className="text-sm text-muted-foreground">None.</p>
+      ) : (
+        <div className="border border-border rounded-lg overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="bg-muted/50">
+              <tr>
+                {headings.map(heading => (
+                  <th key={heading} className="text-left font-medium px-3 py-2">{heading}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-border">
+              {rows.map((cells, i) => (
+                <tr key={i}>
+                  {cells.map((content, j) => (
+                    <td key={j} className="px-3 py-2 align-top break-words max-w-md">{content}</td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </section>
+  );
+}
+
+// "What changed" between two snapshots, or a snapshot and the live roadmap
+export default function Changes() {
+  const search = useSearch();
+  const [, navigate] = useLocation();
+  const params = new URLSearchParams(search);
+  const [snapshots, setSnapshots] = useState<SnapshotSummary[] | null>(null);
+  const [states, setStates] = useState<[RoadmapState, RoadmapState] | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  // Compare the newest snapshot with the live roadmap unless told otherwise
+  const from = params.get('from') ?? snapshots?.[0]?.id ?? null;
+  const to = params.get('to') ?? LIVE_STATE;
+
+  useEffect(() => {
+    storage.listSnapshots()
+      .then(setSnapshots)
+      .catch((error) => {
+        console.error('Error loading snapshots:', error);
+        toast.error('Failed to load snapshots');
+        setSnapshots([]);
+      });
+  }, []);
+
+  useEffect(() => {
+    if (!from) return;
+
+    setLoading(true);
+    Promise.all([loadRoadmapState(storage, from), loadRoadmapState(storage, to)])
+      .then(([before, after]) => {
+        if (!before || !after) {
+          toast.error('Snapshot not found');
+          setStates(null);
+          return;
+        }
+        setStates([before, after]);
+      })
+      .catch((error) => {
+        console.error('Error comparing roadmaps:', error);
+        toast.error('Failed to compare roadmaps');
+      })
+      .finally(() => setLoading(false));
+  }, [from, to]);
+
+  const diff = useMemo(
+    () => states && diffRoadmaps(states[0].initiatives, states[1].initiatives),
+    [states]
+  );
+
+  const labels = useMemo(
+    () => new Map(states?.[1].columns.map(c => [c.column_name, c.display_name])),
+    [states]
+  );
+  const label = (field: string) => labels.get(field) ?? field;
+
+  const choose = (side: 'from' | 'to', value: string) => {
+    const next = new URLSearchParams({ from: from ?? '', to });
+    next.set(side, value);
+    navigate(`/changes?${next}`);
+  };
+
+  const sourceOptions = (
+    <>
+      <SelectItem value={LIVE_STATE}>Live roadmap</SelectItem>
+      {snapshots?.map(snapshot => (
+        <SelectItem key={snapshot.id} value={snapshot.id}>
+          {snapshot.name} ({format(new Date(snapshot.created_at), 'PP')})
+        </SelectItem>
+      ))}
+    </>
+  );
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="sticky top-0 z-50 backdrop-blur-sm bg-background/95 border-b border-border shadow-sm">
+        <div className="max-w-[1600px] mx-auto px-6 py-4 flex items-center justify-between gap-4 flex-wrap">
+          <div className="flex items-center gap-4">
+            <Link href="/">
+              <Button variant="outline" size="icon" title="Back to the live roadmap" className="shadow-sm">
+                <ArrowLeft className="h-4 w-4" />
+              </Button>
+            </Link>
+            <h1 className="text-2xl font-semibold">What changed</h1>
+          </div>
+          <div className="flex items-center gap-2">
+            <Select value={from ?? undefined} onValueChange={(value) => choose('from', value)}>
+              <SelectTrigger className="w-[240px] shadow-sm">
+                <SelectValue placeholder="Choose a snapshot" />
+              </SelectTrigger>
+              <SelectContent>{sourceOptions}</SelectContent>
+            </Select>
+            <ArrowRight className="h-4 w-4 text-muted-foreground" />
+            <Select value={to} onValueChange={(value) => choose('to', value)}>
+              <SelectTrigger className="w-[240px] shadow-sm">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>{sourceOptions}</SelectContent>
+            </Select>
+          </div>
+          <div className="flex items-center gap-2">
+            <Button
+              variant="outline"
+              disabled={!diff || !states}
+              onClick={() => diff && states && exportDiffToMarkdown(diff, states[0].label, states[1].label, states[1].columns)}
+              className="gap-2 shadow-sm"
+            >
+              <FileText className="h-4 w-4" />
+              Markdown
+            </Button>
+            <Button
+              variant="outline"
+              disabled={!diff || !states}
+              onClick={() => diff && states && exportDiffToExcel(diff, states[0].label, states[1].label, states[1].columns)}
+              className="gap-2 shadow-sm"
+            >
+              <FileSpreadsheet className="h-4 w-4" />
+              Excel
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      <div className="max-w-[1600px] mx-auto px-6 py-6 space-y-8">
+        {snapshots !== null && !from ? (
+          <p className="text-muted-foreground text-center py-16">
+            Take a snapshot first; changes are measured from a snapshot.
+          </p>
+        ) : loading || !diff ? (
+          <div className="flex justify-center py-16">
+            <div className="animate-spin rounded-full h-10 w-10 border-2 border-muted border-t-primary" />
+          </div>
+        ) : (
+          <>
+            <Section
+              title="Added"
+              headings={['Initiative', 'Status', 'Product']}
+              rows={diff.added.map(init => [
+                <InitiativeName initiative={init} />,
+                formatValue(init.status),
+                formatValue(init.product)
+              ])}
+            />
+            <Section
+              title="Removed"
+              headings={['Initiative', 'Status', 'Product']}
+              rows={diff.removed.map(init => [
+                <InitiativeName initiative={init} />,
+                formatValue(init.status),
+                formatValue(init.product)
+              ])}
+            />
+            <Section
+              title="Moved between statuses"
+              headings={['Initiative', 'From', 'To']}
+              rows={diff.moved.map(move => [
+                <InitiativeName initiative={move.initiative} />,
+                formatValue(move.from),
+                formatValue(move.to)
+              ])}
+            />
+            <Section
+              title="Date slips"
+              headings={['Initiative', 'Field', 'Before', 'After', 'Slip']}
+              rows={diff.dateSlips.map(slip => [
+                <InitiativeName initiative={slip.initiative} />,
+                label(slip.field),
+                formatValue(slip.before),
+                formatValue(slip.after),
+                <span className={slip.days !== null && slip.days > 0 ? 'text-destructive' : ''}>
+                  {formatDays(slip.days)}
+                </span>
+              ])}
+            />
+            <Section
+              title="Priority rank changes"
+              headings={['Initiative', 'Status', 'Before', 'After']}
+              rows={diff.rankChanges.map(change => [
+                <InitiativeName initiative={change.initiative} />,
+                formatValue(change.initiative.status),
+                formatValue(change.before),
+                formatValue(change.after)
+              ])}
+            />
+            <Section
+              title="Field edits"
+              headings={['Initiative', 'Field', 'Before', 'After']}
+              rows={diff.edits.flatMap(edit => edit.changes.map(change => [
+                <InitiativeName initiative={edit.initiative} />,
+                label(change.field),
+                <span className="text-muted-foreground line-through">{formatValue(change.before)}</span>,
+                formatValue(change.after)
+              ]))}
+            />
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,87 @@
+import { useEffect, useState } from 'react';
+import { useSearch } from 'wouter';
+import { GanttView } from '@/components/GanttView';
+import { StatusBadge } from '@/components/StatusBadge';
+import { storage } from '@/lib/storage';
+import type { SharedRoadmap } from '@/types/database';
+import { EMBED_VIEWS, applyEmbedFilter, parseEmbedFilter, unsharedFilterFields, type EmbedView } from '@shared/embeds';
+
+interface EmbedProps {
+  params: { token: string } | null;
+}
+
+const ignoreClick = () => {};
+
+// A share link made small enough for an iframe: no header, no paging.
+// ?product= and ?status= narrow what the link shares, ?view= picks list or timeline
+export default function Embed({ params }: EmbedProps) {
+  const token = params?.token ?? '';
+  const query = new URLSearchParams(useSearch());
+  const [roadmap, setRoadmap] = useState<SharedRoadmap | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    setLoading(true);
+    storage.getSharedRoadmap(token)
+      .then(setRoadmap)
+      .catch((error) => console.error('Error loading embedded roadmap:', error))
+      .finally(() => setLoading(false));
+  }, [token]);
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-6 w-6 border-2 border-muted border-t-primary" />
+      </div>
+    );
+  }
+
+  if (!roadmap) {
+    return (
+      <div className="p-4 text-sm text-muted-foreground">
+        This roadmap link does not exist, has been revoked or has expired.
+      </div>
+    );
+  }
+
+  const requested = query.get('view') as EmbedView | null;
+  const view: EmbedView = requested && EMBED_VIEWS.includes(requested)
+    ? requested
+    : roadmap.view === 'gantt' ? 'timeline' : 'list';
+  const filter = parseEmbedFilter({ product: query.get('product'), status: query.get('status') });
+  const unshared = unsharedFilterFields(roadmap, filter);
+  const initiatives = applyEmbedFilter(roadmap.initiatives, filter);
+
+  return (
+    <div className="bg-background p-3 space-y-2">
+      {unshared.length > 0 ? (
+        <p className="text-sm text-muted-foreground">
+          This link does not share {unshared.join(', ')}, so it cannot be filtered by it.
+        </p>
+      ) : initiatives.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No initiatives match.</p>
+      ) : view === 'list' ? (
+        <ul className="divide-y divide-border border border-border rounded-md text-sm">
+          {initiatives.map((init) => (
+            <li key={init.ID} className="flex items-center gap-3 px-3 py-2">
+              <span className="flex-1 min-w-0 truncate font-medium">{init.Initiative}</span>
+              {init.Product && <span className="text-xs text-muted-foreground truncate">{init.Product}</span>}
+              {init['Quarter Due'] && <span className="text-xs text-muted-foreground">{init['Quarter Due']}</span>}
+              <StatusBadge status={init.Status} />
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <GanttView frozenInitiatives={initiatives} onTaskClick={ignoreClick} />
+      )}
+      <a
+        href={`/share/${token}`}
+        target="_blank"
+        rel="noreferrer"
+        className="block text-xs text-muted-foreground hover:text-foreground"
+      >
+        {roadmap.title} · Open the full roadmap
+      </a>
+    </div>
+  );
+}
@@ -1,31 +1,66 @@
-import { useState, useRef, useMemo, useCallback } from 'react';
+import { useState, useRef, useMemo, useCallback, useEffect } from 'react';
 import { Header } from '@/components/Header';
 import { TabNavigation } from '@/components/TabNavigation';
 import { ListView } from '@/components/ListView';
-import { GanttView } from '@/components/GanttView';
+import { GanttView, type GanttViewMode } from '@/components/GanttView';
 import { GanttLegend } from '@/components/GanttLegend';
 import { BacklogView } from '@/components/BacklogView';
 import { InitiativePopup } from '@/components/InitiativePopup';
 import { ColumnManager } from '@/components/ColumnManager';
 import { Pagination } from '@/components/Pagination';
 import { ImportPreviewDialog } from '@/components/ImportPreviewDialog';
+import { ConflictDialog } from '@/components/ConflictDialog';
+import { TrashView } from '@/components/TrashView';
+import { RankIntegrityDialog } from '@/components/RankIntegrityDialog';
+import { SnapshotsDialog } from '@/components/SnapshotsDialog';
+import { ShareLinksDialog } from '@/components/ShareLinksDialog';
 import { useInitiatives } from '@/hooks/useInitiatives';
 import { useLocalStorage } from '@/hooks/useLocalStorage';
+import { useUndoRedo } from '@/hooks/useUndoRedo';
+import { useFieldLocks } from '@/hooks/useFieldLocks';
+import { useAuth } from '@/contexts/AuthContext';
+import { useWorkspace } from '@/contexts/WorkspaceContext';
+import { storage } from '@/lib/storage';
+import { purgeExpiredTrash, trashRetentionDays } from '@/lib/trash';
+import { cleanInitiativeUpdates, computeOrderUpdates, pickFields } from '@shared/initiatives';
 import type { Initiative, TabStatus, ProductType } from '@/types/database';
 import { Loader2 } from 'lucide-react';
-import { exportToExcel, parseImportFile, validateImportData, bulkUpdateInitiatives } from '@/lib/exportImport';
+import {
+  exportToExcel,
+  exportCurrentView,
+  parseImportFile,
+  previewImport,
+  bulkImportInitiatives,
+  type ImportPreview
+} from '@/lib/exportImport';
+import { exportToPowerPoint } from '@/lib/presentationExport';
+import { exportGanttToPdf, exportListToPdf } from '@/lib/pdfExport';
+import { validateImportData, type ImportMode, type ViewExportFormat } from '@shared/exportImport';
+import { sortByColumn, type ColumnSort } from '@shared/initiatives';
+import { DEFAULT_WORKSPACE_TITLE } from '@shared/workspaces';
 import { toast } from 'sonner';
 
 export default function Home() {
+  const { user, can } = useAuth();
+  const { workspaces, current: workspace } = useWorkspace();
+  const isLocked = useFieldLocks();
+  // Reordering renumbers priority ranks, and the Gantt bars move both dates
+  const canReorder = can('editor') && !isLocked('priority_rank');
+  const canMoveDates = can('editor') && !isLocked('Start Date') && !isLocked('End Date');
   const [activeTab, setActiveTab] = useState<TabStatus>('Active');
   const [view, setView] = useLocalStorage<'list' | 'gantt'>('roadmap-view', 'list');
+  const [ganttViewMode, setGanttViewMode] = useLocalStorage<GanttViewMode>('roadmap-gantt-view-mode', 'Month');
   const [productFilter, setProductFilter] = useLocalStorage<ProductType | 'All'>('roadmap-product-filter', 'All');
   const [searchTerm, setSearchTerm] = useState('');
+  const [listSort, setListSort] = useState<ColumnSort | null>(null);
   const [pageSize, setPageSize] = useLocalStorage('roadmap-page-size', 10);
   const [currentPage, setCurrentPage] = useState(1);
   const [selectedInitiative, setSelectedInitiative] = useState<Initiative | null>(null);
   const [popupOpen, setPopupOpen] = useState(false);
   const [columnManagerOpen, setColumnManagerOpen] = useState(false);
+  const [rankCheckOpen, setRankCheckOpen] = useState(false);
+  const [snapshotsOpen, setSnapshotsOpen] = useState(false);
+  const [shareLinksOpen, setShareLinksOpen] = useState(false);
   
   // Edit mode state
   const [isEditMode, setIsEditMode] = useState(false);
@@ -36,20 +71,128 @@ export default function Home() {
   const updateTimeoutRef = useRef<Map<number, NodeJS.Timeout>>(new Map());
   
   // Import state
-  const [importPreview, setImportPreview] = useState<any[]>([]);
+  const [importPreview, setImportPreview] = useState<ImportPreview | null>(null);
   const [showImportDialog, setShowImportDialog] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   const {
     initiatives,
     loading,
+    recentChanges,
+    conflict,
+    resolveConflict,
+    dismissConflict,
     refetch,
     createInitiative,
     updateInitiative,
     deleteInitiative,
-    updateInitiativeOrder
+    restoreInitiative,
+    purgeInitiative,
+    emptyTrash,
+    moveInitiative,
+    copyInitiative,
+    updateInitiativeOrder,
+    applyOrder
   } = useInitiatives(activeTab, productFilter, searchTerm);
 
+  // Clear out initiatives past the trash retention period
+  useEffect(() => {
+    if (!can('admin')) return;
+    purgeExpiredTrash().then((count) => {
+      if (count > 0) refetch();
+    });
+  }, []);
+
+  const { record: recordUndo } = useUndoRedo();
+
+  // Latest rows, for capturing the "before" side of undoable changes
+  const initiativesRef = useRef(initiatives);
+  initiativesRef.current = initiatives;
+
+  const findInitiative = async (id: number) =>
+    initiativesRef.current.find(init => init.ID === id) ??
+    (await storage.getInitiative(id).catch(() => null));
+
+  // Saves an edit and records how to reverse it. The undo expects the row to
+  // still hold our values, so a teammate's later edit shows up as a conflict.
+  const updateWithUndo = async (id: number, updates: Partial<Initiative>, base?: Partial<Initiative>) => {
+    const previous = await findInitiative(id);
+    const success = await updateInitiative(id, updates, base);
+
+    if (success && previous) {
+      // Include side effects such as Completed clearing priority_rank
+      const after = cleanInitiativeUpdates(updates);
+      const before = pickFields(previous, Object.keys(after));
+      const name = previous.Initiative || 'Untitled';
+      const label = 'Status' in updates
+        ? `Move "${name}" to ${updates.Status}`
+        : `Edit ${Object.keys(updates).join(', ')} on "${name}"`;
+
+      recordUndo({
+        label,
+        undo: () => updateInitiative(id, before, after),
+        redo: () => updateInitiative(id, after, before)
+      });
+    }
+    return success;
+  };
+
+  const restoreWithUndo = async (id: number) => {
+    const previous = await findInitiative(id);
+    const success = await restoreInitiative(id);
+
+    if (success) {
+      toast.success('Initiative restored');
+      recordUndo({
+        label: `Restore "${previous?.Initiative || 'Untitled'}"`,
+        undo: () => deleteInitiative(id),
+        redo: () => restoreInitiative(id)
+      });
+    }
+    return success;
+  };
+
+  const deleteWithUndo = async (id: number) => {
+    const previous = await findInitiative(id);
+    const success = await deleteInitiative(id);
+
+    if (success && previous) {
+      recordUndo({
+        label: `Delete "${previous.Initiative || 'Untitled'}"`,
+        undo: () => restoreInitiative(id),
+        redo: () => deleteInitiative(id)
+      });
+    }
+    return success;
+  };
+
+  const workspaceName = (id: string) => workspaces.find(ws => ws.id === id)?.name ?? id;
+
+  // Moving back puts the initiative at the end of its status again
+  const moveWithUndo = async (id: number, workspaceId: string) => {
+    const previous = await findInitiative(id);
+    const success = await moveInitiative(id, workspaceId);
+
+    if (success && workspace) {
+      const from = workspace.id;
+      toast.success(`Moved to ${workspaceName(workspaceId)}`);
+      recordUndo({
+        label: `Move "${previous?.Initiative || 'Untitled'}" to ${workspaceName(workspaceId)}`,
+        undo: () => moveInitiative(id, from),
+        redo: () => moveInitiative(id, workspaceId)
+      });
+    }
+    return success;
+  };
+
+  const handleCopy = async (id: number, workspaceId: string) => {
+    const copy = await copyInitiative(id, workspaceId);
+    if (copy) {
+      toast.success(`Copied to ${workspaceName(workspaceId)} as #${copy.ID}`);
+    }
+    return !!copy;
+  };
+
   // Extract unique products from all initiatives for dynamic filter
   const availableProducts = useMemo(() => {
     const products = new Set<string>();
@@ -61,6 +204,9 @@ export default function Home() {
     return Array.from(products).sort();
   }, [initiatives]);
 
+  // The list's rows as sorted on screen, for exports
+  const viewInitiatives = useMemo(() => sortByColumn(initiatives, listSort), [initiatives, listSort]);
+
   const handleNewInitiative = () => {
     // Default to 'Active' status when creating from 'All' tab
     const status = activeTab === 'All' ? 'Active' : activeTab;
@@ -83,19 +229,33 @@ export default function Home() {
   };
 
   const handleDateChange = async (id: number, startDate: string, endDate: string) => {
-    await updateInitiative(id, {
+    await updateWithUndo(id, {
       'Start Date': startDate,
       'End Date': endDate
     });
   };
 
   const handleReorder = async (reorderedInitiatives: Initiative[]) => {
-    await updateInitiativeOrder(reorderedInitiatives);
+    const after = computeOrderUpdates(reorderedInitiatives);
+    if (after.length === 0) return;
+    const moved = new Set(after.map(update => update.ID));
+    const before = initiativesRef.current
+      .filter(({ ID }) => moved.has(ID))
+      .map(({ ID, sort_order, priority_rank }) => ({ ID, sort_order: sort_order ?? 0, priority_rank }));
+
+    if (await updateInitiativeOrder(reorderedInitiatives)) {
+      recordUndo({
+        label: 'Reorder',
+        undo: () => applyOrder(before),
+        redo: () => applyOrder(after)
+      });
+    }
   };
 
   const handleTabChange = (tab: TabStatus) => {
     setActiveTab(tab);
     setCurrentPage(1);
+    setListSort(null);
   };
 
   const handlePageSizeChange = (size: number) => {
@@ -147,13 +307,13 @@ export default function Home() {
 
     try {
       console.log('Processing batched update for row:', { rowId, updates });
-      const success = await updateInitiative(rowId, updates);
+      const success = await updateWithUndo(rowId, updates);
       
       if (success) {
         console.log('Batched update completed successfully for row:', rowId);
       } else {
+        // updateInitiative has already reported the error or opened the conflict dialog
         console.error('Batched update failed for row:', rowId);
-        toast.error('Failed to save some changes');
       }
     } catch (error) {
       console.error('Failed to process batched update:', error);
@@ -166,7 +326,7 @@ export default function Home() {
         return next;
       });
     }
-  }, [updateInitiative]);
+  }, [updateWithUndo]);
 
   const handleCellSave = useCallback(async (rowId: number, columnName: string, newValue: any, immediate: boolean = false) => {
     const cellKey = `${rowId}-${columnName}`;
@@ -207,6 +367,30 @@ export default function Home() {
     await exportToExcel();
   };
 
+  // Slides follow the product filter and search
+  const handleExportSlides = async () => {
+    await exportToPowerPoint({
+      title: workspace?.title || DEFAULT_WORKSPACE_TITLE,
+      productFilter,
+      searchTerm
+    });
+  };
+
+  // PDF of the current view: the list as filtered, or the Gantt chart at its view mode
+  const handleExportPdf = async () => {
+    const title = workspace?.title || DEFAULT_WORKSPACE_TITLE;
+    if (view === 'gantt') {
+      await exportGanttToPdf({ title, viewMode: ganttViewMode });
+    } else {
+      await exportListToPdf({ title, tab: activeTab, productFilter, searchTerm, initiatives: viewInitiatives });
+    }
+  };
+
+  // The current tab, filters and sort, with the visible columns
+  const handleExportView = async (format: ViewExportFormat) => {
+    await exportCurrentView({ tab: activeTab, initiatives: viewInitiatives, format });
+  };
+
   // Import handlers
   const handleImportClick = () => {
     fileInputRef.current?.click();
@@ -223,17 +407,17 @@ export default function Home() {
 
     try {
       // Parse file
-      const data = await parseImportFile(file);
+      const importFile = await parseImportFile(file);
 
-      // Validate data
-      const validation = validateImportData(data);
+      // Validate data; rows without an ID are allowed, as they can be created
+      const validation = validateImportData(importFile.rows, 'upsert');
       if (!validation.isValid) {
         toast.error(`Validation failed: ${validation.errors.join(', ')}`);
         return;
       }
 
-      // Show preview
-      setImportPreview(data);
+      // Show preview, with a warning for stale exports
+      setImportPreview(await previewImport(importFile));
       setShowImportDialog(true);
     } catch (error) {
       console.error('Import failed:', error);
@@ -241,11 +425,12 @@ export default function Home() {
     }
   };
 
-  const handleImportConfirm = async () => {
+  const handleImportConfirm = async (mode: ImportMode) => {
+    if (!importPreview) return;
     try {
       let progressToastId: string | number | undefined;
       
-      const result = await bulkUpdateInitiatives(importPreview, (progress) => {
+      const result = await bulkImportInitiatives(importPreview.rows, mode, user, (progress) => {
         if (progressToastId) {
           toast.loading(`Importing... ${progress}%`, { id: progressToastId });
         } else {
@@ -261,10 +446,31 @@ export default function Home() {
       await refetch();
 
       toast.success(
-        `Import complete: ${result.successCount} updated, ${result.errorCount} failed`
+        `Import complete: ${result.createdCount} created, ${result.updatedCount} updated, ` +
+          `${result.skippedCount} skipped, ${result.errorCount} failed`
       );
+      if (result.trashedCount > 0) {
+        toast.warning(
+          `${result.trashedCount} row${result.trashedCount !== 1 ? 's' : ''} not imported: the initiative is in the trash`,
+          { description: 'Restore it from the Trash tab, then import again.' }
+        );
+      }
+      if (result.rejected.length > 0) {
+        const fields = Array.from(new Set(result.rejected.flatMap(row => row.fields)));
+        const ids = result.rejected.flatMap(row => (row.id === null ? [] : [row.id]));
+        const newRows = result.rejected.length - ids.length;
+        toast.error(
+          `${result.rejected.length} row${result.rejected.length !== 1 ? 's' : ''} rejected for changing locked fields: ${fields.join(', ')}`,
+          {
+            description: [
+              ids.length > 0 && `IDs ${ids.join(', ')}`,
+              newRows > 0 && `${newRows} new row${newRows !== 1 ? 's' : ''}`
+            ].filter(Boolean).join('; ')
+          }
+        );
+      }
       setShowImportDialog(false);
-      setImportPreview([]);
+      setImportPreview(null);
     } catch (error) {
       console.error('Bulk update failed:', error);
       toast.error('Import failed');
@@ -283,17 +489,24 @@ export default function Home() {
         onSearchChange={setSearchTerm}
         onNewInitiative={handleNewInitiative}
         onManageColumns={() => setColumnManagerOpen(true)}
+        onCheckRanks={() => setRankCheckOpen(true)}
         isEditMode={isEditMode}
         onEditModeToggle={handleEditModeToggle}
         savingCells={savingCells.size}
         onExport={handleExport}
+        onExportSlides={handleExportSlides}
+        onExportPdf={handleExportPdf}
+        onExportView={handleExportView}
         onImport={handleImportClick}
+        onSnapshots={() => setSnapshotsOpen(true)}
+        onShareLinks={() => setShareLinksOpen(true)}
       />
 
       {view === 'list' && (
         <TabNavigation
           activeTab={activeTab}
           onTabChange={handleTabChange}
+          showTrash={can('admin')}
         />
       )}
 
@@ -305,17 +518,28 @@ export default function Home() {
           </div>
         ) : (
           <>
-            {activeTab === 'Backlog' && view === 'list' ? (
+            {activeTab === 'Trash' && view === 'list' ? (
+              <TrashView
+                initiatives={initiatives}
+                retentionDays={trashRetentionDays}
+                onRestore={restoreWithUndo}
+                onPurge={purgeInitiative}
+                onEmptyTrash={emptyTrash}
+              />
+            ) : activeTab === 'Backlog' && view === 'list' ? (
               <>
                 <BacklogView
                   initiatives={initiatives}
-                  onReorder={handleReorder}
+                  onReorder={canReorder ? handleReorder : undefined}
                   onRowClick={handleRowClick}
                   pageSize={pageSize}
                   currentPage={currentPage}
                   isEditMode={isEditMode}
                   savingCells={savingCells}
                   onCellSave={handleCellSave}
+                  recentChanges={recentChanges}
+                  sortConfig={listSort}
+                  onSortChange={setListSort}
                 />
                 <Pagination
                   currentPage={currentPage}
@@ -330,12 +554,15 @@ export default function Home() {
                 <ListView
                   initiatives={initiatives}
                   onRowClick={handleRowClick}
-                  onReorder={handleReorder}
+                  onReorder={canReorder ? handleReorder : undefined}
                   pageSize={pageSize}
                   currentPage={currentPage}
                   isEditMode={isEditMode}
                   savingCells={savingCells}
                   onCellSave={handleCellSave}
+                  recentChanges={recentChanges}
+                  sortConfig={listSort}
+                  onSortChange={setListSort}
                 />
                 <Pagination
                   currentPage={currentPage}
@@ -350,7 +577,9 @@ export default function Home() {
                 <GanttLegend />
                 <GanttView
                   onTaskClick={handleRowClick}
-                  onDateChange={handleDateChange}
+                  onDateChange={canMoveDates ? handleDateChange : undefined}
+                  viewMode={ganttViewMode}
+                  onViewModeChange={setGanttViewMode}
                 />
               </>
             )}
@@ -366,9 +595,12 @@ export default function Home() {
           setSelectedInitiative(null);
           refetch();
         }}
-        onUpdate={updateInitiative}
-        onDelete={deleteInitiative}
+        onUpdate={updateWithUndo}
+        onDelete={can('admin') ? deleteWithUndo : undefined}
         onCreate={createInitiative}
+        onMove={can('editor') ? moveWithUndo : undefined}
+        onCopy={can('editor') ? handleCopy : undefined}
+        readOnly={!can('editor')}
       />
 
       <ColumnManager
@@ -376,6 +608,22 @@ export default function Home() {
         onOpenChange={setColumnManagerOpen}
       />
 
+      <RankIntegrityDialog
+        open={rankCheckOpen}
+        onOpenChange={setRankCheckOpen}
+      />
+
+      <SnapshotsDialog
+        open={snapshotsOpen}
+        onOpenChange={setSnapshotsOpen}
+      />
+
+      <ShareLinksDialog
+        open={shareLinksOpen}
+        onOpenChange={setShareLinksOpen}
+        availableProducts={availableProducts}
+      />
+
       <input
         ref={fileInputRef}
         type="file"
@@ -384,13 +632,19 @@ export default function Home() {
         className="hidden"
       />
 
+      <ConflictDialog
+        conflict={conflict}
+        onResolve={resolveConflict}
+        onCancel={dismissConflict}
+      />
+
       <ImportPreviewDialog
         open={showImportDialog}
-        data={importPreview}
+        preview={importPreview}
         onConfirm={handleImportConfirm}
         onCancel={() => {
           setShowImportDialog(false);
-          setImportPreview([]);
+          setImportPreview(null);
         }}
       />
     </div>
@@ -0,0 +1,86 @@
+import { useState } from 'react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { signIn, signUp } from '@/lib/auth';
+
+type Mode = 'signIn' | 'signUp';
+
+export default function Login() {
+  const [mode, setMode] = useState<Mode>('signIn');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+    try {
+      if (mode === 'signIn') {
+        await signIn(email, password);
+      } else if (!(await signUp(email, password))) {
+        toast.success('Check your email to confirm your account, then sign in');
+        setMode('signIn');
+      }
+    } catch (error: any) {
+      console.error('Error signing in:', error);
+      toast.error(error?.message || (mode === 'signIn' ? 'Failed to sign in' : 'Failed to create account'));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background flex items-center justify-center px-6">
+      <Card className="w-full max-w-sm">
+        <CardHeader>
+          <CardTitle>Executive Product Roadmap</CardTitle>
+          <CardDescription>
+            {mode === 'signIn'
+              ? 'Sign in to view and edit the roadmap.'
+              : 'New accounts can view the roadmap until an admin grants more access.'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="email">Email</Label>
+              <Input
+                id="email"
+                type="email"
+                autoComplete="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="password">Password</Label>
+              <Input
+                id="password"
+                type="password"
+                autoComplete={mode === 'signIn' ? 'current-password' : 'new-password'}
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                minLength={6}
+                required
+              />
+            </div>
+            <Button type="submit" className="w-full" disabled={submitting}>
+              {submitting ? 'Please wait...' : mode === 'signIn' ? 'Sign In' : 'Create Account'}
+            </Button>
+          </form>
+          <button
+            type="button"
+            onClick={() => setMode(mode === 'signIn' ? 'signUp' : 'signIn')}
+            className="mt-4 w-full text-sm text-muted-foreground hover:text-foreground"
+          >
+            {mode === 'signIn' ? 'No account yet? Create one' : 'Already have an account? Sign in'}
+          </button>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
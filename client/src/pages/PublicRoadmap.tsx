@@ -0,0 +1,98 @@
+import { useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import { PublicInitiativeCard } from '@/components/PublicInitiativeCard';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { useLocalStorage } from '@/hooks/useLocalStorage';
+import { storage } from '@/lib/storage';
+import type { PublicRoadmap as PublicRoadmapData } from '@/types/database';
+import { groupPublicInitiatives, type PublicGrouping } from '@shared/publicRoadmap';
+import { DEFAULT_WORKSPACE_ID } from '@shared/workspaces';
+
+interface PublicRoadmapProps {
+  params: { workspace?: string } | null;
+}
+
+// The customer-facing roadmap: no sign-in, and only initiatives flagged public
+export default function PublicRoadmap({ params }: PublicRoadmapProps) {
+  const workspace = params?.workspace || DEFAULT_WORKSPACE_ID;
+  const [roadmap, setRoadmap] = useState<PublicRoadmapData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [grouping, setGrouping] = useLocalStorage<PublicGrouping>('public-roadmap-grouping', 'priority');
+
+  useEffect(() => {
+    setLoading(true);
+    storage.getPublicRoadmap(workspace)
+      .then(setRoadmap)
+      .catch((error) => {
+        console.error('Error loading public roadmap:', error);
+        toast.error('Failed to load the roadmap');
+      })
+      .finally(() => setLoading(false));
+  }, [workspace]);
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-10 w-10 border-2 border-muted border-t-primary" />
+      </div>
+    );
+  }
+
+  if (!roadmap) {
+    return (
+      <div className="min-h-screen flex items-center justify-center text-muted-foreground">
+        This roadmap does not exist.
+      </div>
+    );
+  }
+
+  const groups = groupPublicInitiatives(roadmap.initiatives, grouping);
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b border-border">
+        <div className="max-w-6xl mx-auto px-6 py-8 flex flex-wrap items-center justify-between gap-4">
+          <div className="flex items-center gap-4 min-w-0">
+            {roadmap.logo_url && (
+              <img src={roadmap.logo_url} alt="" className="h-10 w-auto max-w-[120px] object-contain" />
+            )}
+            <div className="min-w-0">
+              <h1 className="text-2xl font-semibold truncate">{roadmap.title}</h1>
+              <p className="text-sm text-muted-foreground">Product roadmap</p>
+            </div>
+          </div>
+          <ToggleGroup
+            type="single"
+            variant="outline"
+            size="sm"
+            value={grouping}
+            onValueChange={(value) => value && setGrouping(value as PublicGrouping)}
+          >
+            <ToggleGroupItem value="priority" className="px-3">Now / Next / Later</ToggleGroupItem>
+            <ToggleGroupItem value="quarter" className="px-3">By quarter</ToggleGroupItem>
+          </ToggleGroup>
+        </div>
+      </header>
+
+      <main className="max-w-6xl mx-auto px-6 py-8">
+        {groups.length === 0 ? (
+          <p className="text-center text-muted-foreground py-16">Nothing has been published yet.</p>
+        ) : (
+          <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
+            {groups.map((group) => (
+              <section key={group.title} className="space-y-3">
+                <h2 className="text-sm font-semibold uppercase tracking-wide text-muted-foreground">
+                  {group.title}
+                  <span className="ml-2 font-normal">{group.initiatives.length}</span>
+                </h2>
+                {group.initiatives.map((item) => (
+                  <PublicInitiativeCard key={item.id} initiative={item} />
+                ))}
+              </section>
+            ))}
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,102 @@
+import { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { toast } from 'sonner';
+import { ListView } from '@/components/ListView';
+import { GanttView } from '@/components/GanttView';
+import { GanttLegend } from '@/components/GanttLegend';
+import { Pagination } from '@/components/Pagination';
+import { useLocalStorage } from '@/hooks/useLocalStorage';
+import { storage } from '@/lib/storage';
+import type { SharedRoadmap } from '@/types/database';
+
+interface SharedProps {
+  params: { token: string } | null;
+}
+
+const ignoreClick = () => {};
+
+// A share link: read-only, no sign-in, and only what the link shares
+export default function Shared({ params }: SharedProps) {
+  const token = params?.token ?? '';
+  const [roadmap, setRoadmap] = useState<SharedRoadmap | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [pageSize, setPageSize] = useLocalStorage('roadmap-page-size', 10);
+  const [currentPage, setCurrentPage] = useState(1);
+
+  useEffect(() => {
+    setLoading(true);
+    storage.getSharedRoadmap(token)
+      .then(setRoadmap)
+      .catch((error) => {
+        console.error('Error loading shared roadmap:', error);
+        toast.error('Failed to load the roadmap');
+      })
+      .finally(() => setLoading(false));
+  }, [token]);
+
+  const handlePageSizeChange = (size: number) => {
+    setPageSize(size);
+    setCurrentPage(1);
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-10 w-10 border-2 border-muted border-t-primary" />
+      </div>
+    );
+  }
+
+  if (!roadmap) {
+    return (
+      <div className="min-h-screen flex items-center justify-center text-muted-foreground">
+        This link does not exist, has been revoked or has expired.
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="sticky top-0 z-50 backdrop-blur-sm bg-background/95 border-b border-border shadow-sm">
+        <div className="max-w-[1600px] mx-auto px-6 py-4 flex items-center gap-4">
+          {roadmap.logo_url && (
+            <img src={roadmap.logo_url} alt="" className="h-10 w-auto max-w-[120px] object-contain" />
+          )}
+          <div className="min-w-0">
+            <h1 className="text-2xl font-semibold truncate">{roadmap.title}</h1>
+            <p className="text-sm text-muted-foreground">
+              {roadmap.name}
+              {roadmap.expires_at && ` · Link expires ${format(new Date(roadmap.expires_at), 'PP')}`}
+            </p>
+          </div>
+        </div>
+      </header>
+
+      <div className="max-w-[1600px] mx-auto px-6 py-6">
+        {roadmap.view === 'list' ? (
+          <>
+            <ListView
+              initiatives={roadmap.initiatives}
+              columnConfig={roadmap.columns}
+              onRowClick={ignoreClick}
+              pageSize={pageSize}
+              currentPage={currentPage}
+            />
+            <Pagination
+              currentPage={currentPage}
+              totalItems={roadmap.initiatives.length}
+              pageSize={pageSize}
+              onPageChange={setCurrentPage}
+              onPageSizeChange={handlePageSizeChange}
+            />
+          </>
+        ) : (
+          <>
+            <GanttLegend />
+            <GanttView frozenInitiatives={roadmap.initiatives} onTaskClick={ignoreClick} />
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,170 @@
+import { useEffect, useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { ArrowLeft, BarChart3, Camera, GitCompare, List } from 'lucide-react';
+import { toast } from 'sonner';
+import { Link } from 'wouter';
+import { Button } from '@/components/ui/button';
+import { TabNavigation } from '@/components/TabNavigation';
+import { ListView } from '@/components/ListView';
+import { GanttView } from '@/components/GanttView';
+import { GanttLegend } from '@/components/GanttLegend';
+import { InitiativePopup } from '@/components/InitiativePopup';
+import { Pagination } from '@/components/Pagination';
+import { useLocalStorage } from '@/hooks/useLocalStorage';
+import { storage } from '@/lib/storage';
+import { compareInitiatives, matchesInitiativeQuery } from '@shared/initiatives';
+import type { Initiative, RoadmapSnapshot, TabStatus } from '@/types/database';
+
+interface SnapshotProps {
+  params: { id: string };
+}
+
+// A snapshot opened read-only in the same list and Gantt views as the live roadmap
+export default function Snapshot({ params }: SnapshotProps) {
+  const [snapshot, setSnapshot] = useState<RoadmapSnapshot | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [activeTab, setActiveTab] = useState<TabStatus>('Active');
+  const [view, setView] = useLocalStorage<'list' | 'gantt'>('roadmap-view', 'list');
+  const [pageSize, setPageSize] = useLocalStorage('roadmap-page-size', 10);
+  const [currentPage, setCurrentPage] = useState(1);
+  const [selectedInitiative, setSelectedInitiative] = useState<Initiative | null>(null);
+
+  useEffect(() => {
+    setLoading(true);
+    storage.getSnapshot(params.id)
+      .then(setSnapshot)
+      .catch((error) => {
+        console.error('Error loading snapshot:', error);
+        toast.error('Failed to load snapshot');
+      })
+      .finally(() => setLoading(false));
+  }, [params.id]);
+
+  const initiatives = useMemo(() => {
+    if (!snapshot) return [];
+    const query = { status: activeTab };
+    return snapshot.initiatives
+      .filter(init => matchesInitiativeQuery(init, query))
+      .sort(compareInitiatives(query));
+  }, [snapshot, activeTab]);
+
+  const handleTabChange = (tab: TabStatus) => {
+    setActiveTab(tab);
+    setCurrentPage(1);
+  };
+
+  const handlePageSizeChange = (size: number) => {
+    setPageSize(size);
+    setCurrentPage(1);
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-10 w-10 border-2 border-muted border-t-primary" />
+      </div>
+    );
+  }
+
+  if (!snapshot) {
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center gap-4 text-muted-foreground">
+        <p>This snapshot doesn't exist in the current workspace.</p>
+        <Link href="/" className="text-sm text-primary hover:underline">
+          Back to the roadmap
+        </Link>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="sticky top-0 z-50 backdrop-blur-sm bg-background/95 border-b border-border shadow-sm">
+        <div className="max-w-[1600px] mx-auto px-6 py-4 flex items-center justify-between gap-4">
+          <div className="flex items-center gap-4 min-w-0">
+            <Link href="/">
+              <Button variant="outline" size="icon" title="Back to the live roadmap" className="shadow-sm">
+                <ArrowLeft className="h-4 w-4" />
+              </Button>
+            </Link>
+            <div className="min-w-0">
+              <h1 className="text-2xl font-semibold truncate flex items-center gap-2">
+                <Camera className="h-5 w-5 text-muted-foreground shrink-0" />
+                {snapshot.name}
+              </h1>
+              <p className="text-sm text-muted-foreground">
+                Read-only snapshot taken {format(new Date(snapshot.created_at), 'PPp')} by {snapshot.created_by}
+              </p>
+            </div>
+          </div>
+          <div className="flex items-center gap-3">
+            <Link href={`/changes?from=${snapshot.id}`}>
+              <Button variant="outline" className="gap-2 shadow-sm">
+                <GitCompare className="h-4 w-4" />
+                What Changed Since
+              </Button>
+            </Link>
+            <div className="inline-flex rounded-lg border border-border bg-background p-1 shadow-sm">
+              <Button
+                variant={view === 'list' ? 'default' : 'ghost'}
+                size="sm"
+                onClick={() => setView('list')}
+                className={`gap-2 ${view === 'list' ? 'shadow-sm' : ''}`}
+              >
+                <List className="h-4 w-4" />
+                List
+              </Button>
+              <Button
+                variant={view === 'gantt' ? 'default' : 'ghost'}
+                size="sm"
+                onClick={() => setView('gantt')}
+                className={`gap-2 ${view === 'gantt' ? 'shadow-sm' : ''}`}
+              >
+                <BarChart3 className="h-4 w-4" />
+                Gantt
+              </Button>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      {view === 'list' && (
+        <TabNavigation activeTab={activeTab} onTabChange={handleTabChange} showTrash={false} />
+      )}
+
+      <div className="max-w-[1600px] mx-auto px-6 py-6">
+        {view === 'list' ? (
+          <>
+            <ListView
+              initiatives={initiatives}
+              columnConfig={snapshot.columns}
+              onRowClick={setSelectedInitiative}
+              pageSize={pageSize}
+              currentPage={currentPage}
+            />
+            <Pagination
+              currentPage={currentPage}
+              totalItems={initiatives.length}
+              pageSize={pageSize}
+              onPageChange={setCurrentPage}
+              onPageSizeChange={handlePageSizeChange}
+            />
+          </>
+        ) : (
+          <>
+            <GanttLegend />
+            <GanttView frozenInitiatives={snapshot.initiatives} onTaskClick={setSelectedInitiative} />
+          </>
+        )}
+      </div>
+
+      <InitiativePopup
+        initiative={selectedInitiative}
+        open={!!selectedInitiative}
+        onClose={() => setSelectedInitiative(null)}
+        onUpdate={async () => false}
+        readOnly
+      />
+    </div>
+  );
+}
@@ -0,0 +1,101 @@
+-- Migration: Change history for roadmap_fields
+-- Records every create, update, delete, reorder and import with field-level
+-- before/after values. The app sends the actor in the x-roadmap-actor request
+-- header and marks imports with x-roadmap-source: import.
+-- Run this migration in your Supabase SQL editor (after add_updated_at.sql)
+
+CREATE TABLE IF NOT EXISTS public.roadmap_audit_log (
+  id bigint GENERATED BY DEFAULT AS IDENTITY PRIMARY KEY,
+  initiative_id integer NOT NULL,
+  action text NOT NULL
+    CHECK (action IN ('create', 'update', 'delete', 'reorder', 'import')),
+  -- [{ "field": "...", "before": ..., "after": ... }]
+  changes jsonb NOT NULL DEFAULT '[]'::jsonb,
+  actor text NOT NULL DEFAULT 'unknown',
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS roadmap_audit_log_initiative_idx
+  ON public.roadmap_audit_log (initiative_id, created_at DESC);
+
+CREATE OR REPLACE FUNCTION public.log_roadmap_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  headers json := coalesce(
+    nullif(current_setting('request.headers', true), '')::json,
+    '{}'::json
+  );
+  entry_actor text := coalesce(headers->>'x-roadmap-actor', 'unknown');
+  entry_source text := headers->>'x-roadmap-source';
+  old_row jsonb := CASE WHEN TG_OP = 'INSERT' THEN '{}'::jsonb ELSE to_jsonb(OLD) END;
+  new_row jsonb := CASE WHEN TG_OP = 'DELETE' THEN '{}'::jsonb ELSE to_jsonb(NEW) END;
+  entry_changes jsonb;
+  entry_action text;
+BEGIN
+  IF entry_source IS DISTINCT FROM 'import' THEN
+    entry_source := NULL;
+  END IF;
+
+  SELECT coalesce(
+    jsonb_agg(
+      jsonb_build_object(
+        'field', key,
+        'before', coalesce(old_row->key, 'null'::jsonb),
+        'after', coalesce(new_row->key, 'null'::jsonb)
+      ) ORDER BY key
+    ),
+    '[]'::jsonb
+  )
+  INTO entry_changes
+  FROM (SELECT DISTINCT jsonb_object_keys(old_row || new_row) AS key) AS keys
+  WHERE key <> 'updated_at'
+    AND coalesce(old_row->key, 'null'::jsonb)
+      IS DISTINCT FROM coalesce(new_row->key, 'null'::jsonb);
+
+  IF TG_OP = 'DELETE' THEN
+    entry_action := 'delete';
+  ELSIF TG_OP = 'INSERT' THEN
+    entry_action := coalesce(entry_source, 'create');
+  ELSIF entry_changes = '[]'::jsonb THEN
+    RETURN NULL;
+  ELSIF entry_source IS NOT NULL THEN
+    entry_action := entry_source;
+  ELSIF NOT EXISTS (
+    SELECT 1 FROM jsonb_array_elements(entry_changes) AS change
+    WHERE change->>'field' NOT IN ('sort_order', 'priority_rank')
+  ) THEN
+    entry_action := 'reorder';
+  ELSE
+    entry_action := 'update';
+  END IF;
+
+  INSERT INTO public.roadmap_audit_log (initiative_id, action, changes, actor)
+  VALUES (
+    CASE WHEN TG_OP = 'DELETE' THEN OLD."ID" ELSE NEW."ID" END,
+    entry_action,
+    entry_changes,
+    entry_actor
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS roadmap_fields_audit ON public.roadmap_fields;
+CREATE TRIGGER roadmap_fields_audit
+AFTER INSERT OR UPDATE OR DELETE ON public.roadmap_fields
+FOR EACH ROW
+EXECUTE FUNCTION public.log_roadmap_change();
+
+-- History is written by the trigger only; the app just reads it
+ALTER TABLE public.roadmap_audit_log ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Allow read access to audit log" ON public.roadmap_audit_log;
+CREATE POLICY "Allow read access to audit log"
+ON public.roadmap_audit_log
+FOR SELECT
+USING (true);
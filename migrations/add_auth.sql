@@ -0,0 +1,237 @@
+-- Migration: Sign-in and roles
+-- Replaces the public (anon) access policies with per-role access for signed-in
+-- users: viewers read, editors create and edit initiatives, admins also manage
+-- columns, move initiatives to and from the trash, purge them and assign
+-- roles. The API server uses the service role key and checks roles itself.
+-- An import is a batch of ordinary creates and updates, so the database checks
+-- it like any other edit; only the app keeps the Import button to admins.
+-- Run this migration in your Supabase SQL editor after add_rank_trigger.sql
+
+CREATE TABLE IF NOT EXISTS public.user_roles (
+  user_id uuid PRIMARY KEY REFERENCES auth.users (id) ON DELETE CASCADE,
+  email text NOT NULL,
+  role text NOT NULL DEFAULT 'viewer'
+    CHECK (role IN ('viewer', 'editor', 'admin')),
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- New users start as viewers, except the very first, who becomes the admin
+CREATE OR REPLACE FUNCTION public.handle_new_roadmap_user()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.user_roles (user_id, email, role)
+  VALUES (
+    NEW.id,
+    NEW.email,
+    CASE WHEN EXISTS (SELECT 1 FROM public.user_roles) THEN 'viewer' ELSE 'admin' END
+  )
+  ON CONFLICT (user_id) DO NOTHING;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_auth_user_created_roadmap_role ON auth.users;
+CREATE TRIGGER on_auth_user_created_roadmap_role
+AFTER INSERT ON auth.users
+FOR EACH ROW
+EXECUTE FUNCTION public.handle_new_roadmap_user();
+
+-- Users who signed up before this migration
+INSERT INTO public.user_roles (user_id, email)
+SELECT id, email FROM auth.users
+ON CONFLICT (user_id) DO NOTHING;
+
+-- Role of the signed-in user (SECURITY DEFINER so policies on user_roles can
+-- call it without recursing)
+CREATE OR REPLACE FUNCTION public.roadmap_role()
+RETURNS text
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT role FROM public.user_roles WHERE user_id = auth.uid();
+$$;
+
+CREATE OR REPLACE FUNCTION public.has_roadmap_role(required text)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT CASE
+    -- The service role (API server) and the SQL editor are not limited
+    WHEN current_user NOT IN ('anon', 'authenticated') THEN true
+    ELSE coalesce(
+      array_position(ARRAY['viewer', 'editor', 'admin'], public.roadmap_role()),
+      0
+    ) >= array_position(ARRAY['viewer', 'editor', 'admin'], required)
+  END;
+$$;
+
+-- Trash moves need more than the editor access UPDATE grants
+CREATE OR REPLACE FUNCTION public.enforce_roadmap_roles()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.deleted_at IS DISTINCT FROM OLD.deleted_at
+    AND NOT public.has_roadmap_role('admin') THEN
+    RAISE EXCEPTION 'Only admins can delete or restore initiatives'
+      USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS roadmap_fields_enforce_roles ON public.roadmap_fields;
+CREATE TRIGGER roadmap_fields_enforce_roles
+BEFORE UPDATE ON public.roadmap_fields
+FOR EACH ROW
+EXECUTE FUNCTION public.enforce_roadmap_roles();
+
+CREATE OR REPLACE FUNCTION public.log_roadmap_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  headers json := coalesce(
+    nullif(current_setting('request.headers', true), '')::json,
+    '{}'::json
+  );
+  -- Signed-in users are recorded by their verified email; the header is only
+  -- trusted from the API server, which authenticates callers itself
+  entry_actor text := coalesce(
+    auth.jwt()->>'email',
+    CASE WHEN auth.role() = 'service_role' THEN headers->>'x-roadmap-actor' END,
+    'unknown'
+  );
+  entry_source text := headers->>'x-roadmap-source';
+  old_row jsonb := CASE WHEN TG_OP = 'INSERT' THEN '{}'::jsonb ELSE to_jsonb(OLD) END;
+  new_row jsonb := CASE WHEN TG_OP = 'DELETE' THEN '{}'::jsonb ELSE to_jsonb(NEW) END;
+  entry_changes jsonb;
+  entry_action text;
+BEGIN
+  IF entry_source IS DISTINCT FROM 'import' THEN
+    entry_source := NULL;
+  END IF;
+
+  SELECT coalesce(
+    jsonb_agg(
+      jsonb_build_object(
+        'field', key,
+        'before', coalesce(old_row->key, 'null'::jsonb),
+        'after', coalesce(new_row->key, 'null'::jsonb)
+      ) ORDER BY key
+    ),
+    '[]'::jsonb
+  )
+  INTO entry_changes
+  FROM (SELECT jsonb_object_keys(old_row || new_row) AS key) AS keys
+  WHERE key <> 'updated_at'
+    AND coalesce(old_row->key, 'null'::jsonb)
+      IS DISTINCT FROM coalesce(new_row->key, 'null'::jsonb);
+
+  IF TG_OP = 'DELETE' THEN
+    entry_action := 'purge';
+  ELSIF TG_OP = 'INSERT' THEN
+    entry_action := coalesce(entry_source, 'create');
+  ELSIF entry_changes = '[]'::jsonb THEN
+    RETURN NULL;
+  ELSIF OLD.deleted_at IS DISTINCT FROM NEW.deleted_at THEN
+    entry_action := CASE WHEN OLD.deleted_at IS NULL THEN 'delete' ELSE 'restore' END;
+  ELSIF entry_source IS NOT NULL THEN
+    entry_action := entry_source;
+  ELSIF NOT EXISTS (
+    SELECT 1 FROM jsonb_array_elements(entry_changes) AS change
+    WHERE change->>'field' NOT IN ('sort_order', 'priority_rank')
+  ) THEN
+    entry_action := 'reorder';
+  ELSE
+    entry_action := 'update';
+  END IF;
+
+  INSERT INTO public.roadmap_audit_log (initiative_id, action, changes, actor)
+  VALUES (
+    CASE WHEN TG_OP = 'DELETE' THEN OLD."ID" ELSE NEW."ID" END,
+    entry_action,
+    entry_changes,
+    entry_actor
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+-- roadmap_fields: drop the public policies from SUPABASE_SETUP.md
+ALTER TABLE public.roadmap_fields ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Allow public read access" ON public.roadmap_fields;
+DROP POLICY IF EXISTS "Allow public insert access" ON public.roadmap_fields;
+DROP POLICY IF EXISTS "Allow public update access" ON public.roadmap_fields;
+DROP POLICY IF EXISTS "Allow public delete access" ON public.roadmap_fields;
+
+DROP POLICY IF EXISTS "Viewers can read initiatives" ON public.roadmap_fields;
+CREATE POLICY "Viewers can read initiatives"
+ON public.roadmap_fields FOR SELECT TO authenticated
+USING (public.has_roadmap_role('viewer'));
+
+DROP POLICY IF EXISTS "Editors can create initiatives" ON public.roadmap_fields;
+CREATE POLICY "Editors can create initiatives"
+ON public.roadmap_fields FOR INSERT TO authenticated
+WITH CHECK (public.has_roadmap_role('editor'));
+
+DROP POLICY IF EXISTS "Editors can edit initiatives" ON public.roadmap_fields;
+CREATE POLICY "Editors can edit initiatives"
+ON public.roadmap_fields FOR UPDATE TO authenticated
+USING (public.has_roadmap_role('editor'))
+WITH CHECK (public.has_roadmap_role('editor'));
+
+DROP POLICY IF EXISTS "Admins can purge initiatives" ON public.roadmap_fields;
+CREATE POLICY "Admins can purge initiatives"
+ON public.roadmap_fields FOR DELETE TO authenticated
+USING (public.has_roadmap_role('admin'));
+
+-- column_config
+ALTER TABLE public.column_config ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Viewers can read columns" ON public.column_config;
+CREATE POLICY "Viewers can read columns"
+ON public.column_config FOR SELECT TO authenticated
+USING (public.has_roadmap_role('viewer'));
+
+DROP POLICY IF EXISTS "Admins can manage columns" ON public.column_config;
+CREATE POLICY "Admins can manage columns"
+ON public.column_config FOR ALL TO authenticated
+USING (public.has_roadmap_role('admin'))
+WITH CHECK (public.has_roadmap_role('admin'));
+
+-- roadmap_audit_log (written by the SECURITY DEFINER trigger)
+ALTER TABLE public.roadmap_audit_log ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Viewers can read history" ON public.roadmap_audit_log;
+CREATE POLICY "Viewers can read history"
+ON public.roadmap_audit_log FOR SELECT TO authenticated
+USING (public.has_roadmap_role('viewer'));
+
+-- user_roles: everyone sees their own role, admins see and change all
+ALTER TABLE public.user_roles ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can read their role" ON public.user_roles;
+CREATE POLICY "Users can read their role"
+ON public.user_roles FOR SELECT TO authenticated
+USING (user_id = auth.uid() OR public.has_roadmap_role('admin'));
+
+DROP POLICY IF EXISTS "Admins can assign roles" ON public.user_roles;
+CREATE POLICY "Admins can assign roles"
+ON public.user_roles FOR UPDATE TO authenticated
+USING (public.has_roadmap_role('admin'))
+WITH CHECK (public.has_roadmap_role('admin'));
+
+-- Optional: Make someone an admin by email
+-- UPDATE public.user_roles SET role = 'admin' WHERE email = 'you@example.com';
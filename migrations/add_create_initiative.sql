@@ -0,0 +1,59 @@
+-- Migration: Assign initiative IDs and priority ranks in the database
+-- New IDs come from a sequence, and create_initiative() takes a per-status
+-- lock before reading the highest rank, so initiatives created at the same
+-- time never share an ID or a rank
+-- Run this migration in your Supabase SQL editor after add_trash.sql
+
+CREATE SEQUENCE IF NOT EXISTS public.roadmap_fields_id_seq
+OWNED BY public.roadmap_fields."ID";
+
+-- Continue after the highest existing ID
+SELECT setval(
+  'public.roadmap_fields_id_seq',
+  COALESCE((SELECT MAX("ID") FROM public.roadmap_fields), 0) + 1,
+  false
+);
+
+ALTER TABLE public.roadmap_fields
+ALTER COLUMN "ID" SET DEFAULT nextval('public.roadmap_fields_id_seq');
+
+CREATE OR REPLACE FUNCTION public.create_initiative(initiative jsonb)
+RETURNS public.roadmap_fields
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  new_row public.roadmap_fields;
+BEGIN
+  new_row := jsonb_populate_record(NULL::public.roadmap_fields, initiative);
+  new_row."ID" := nextval('public.roadmap_fields_id_seq');
+  new_row."Status" := COALESCE(new_row."Status", 'Active');
+  new_row.updated_at := clock_timestamp();
+  new_row.deleted_at := NULL;
+
+  IF new_row."Status" = 'Completed' THEN
+    new_row.priority_rank := NULL;
+  ELSE
+    -- Held until the transaction commits, so the next create for this
+    -- status sees this row when it reads the highest rank
+    PERFORM pg_advisory_xact_lock(
+      hashtext('roadmap_fields.priority_rank:' || new_row."Status")
+    );
+
+    SELECT COALESCE(MAX(priority_rank), 0) + 1
+    INTO new_row.priority_rank
+    FROM public.roadmap_fields
+    WHERE "Status" = new_row."Status"
+      AND deleted_at IS NULL;
+  END IF;
+
+  INSERT INTO public.roadmap_fields
+  SELECT new_row.*
+  RETURNING * INTO new_row;
+
+  RETURN new_row;
+END;
+$$;
+
+-- Optional: Verify the sequence
+-- SELECT last_value FROM public.roadmap_fields_id_seq;
+-- Should be one more than SELECT MAX("ID") FROM public.roadmap_fields
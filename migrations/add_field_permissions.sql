@@ -0,0 +1,71 @@
+-- Migration: Field-level edit permissions
+-- Lets a column be limited to users in certain permission groups, such as
+-- "product-leadership" for Priority and priority_rank. Editors outside those
+-- groups (admins included) can still read the field but not change it.
+-- New initiatives take the defaults for locked fields; the app does not let
+-- anyone outside the groups fill them in.
+-- Run this migration in your Supabase SQL editor after add_auth.sql
+
+ALTER TABLE public.column_config
+ADD COLUMN IF NOT EXISTS editable_by text[];
+
+ALTER TABLE public.user_roles
+ADD COLUMN IF NOT EXISTS groups text[] NOT NULL DEFAULT '{}';
+
+-- Permission groups of the signed-in user
+CREATE OR REPLACE FUNCTION public.roadmap_groups()
+RETURNS text[]
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT coalesce(
+    (SELECT groups FROM public.user_roles WHERE user_id = auth.uid()),
+    '{}'
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION public.enforce_roadmap_roles()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  locked_fields text;
+BEGIN
+  IF NEW.deleted_at IS DISTINCT FROM OLD.deleted_at
+    AND NOT public.has_roadmap_role('admin') THEN
+    RAISE EXCEPTION 'Only admins can delete or restore initiatives'
+      USING ERRCODE = '42501';
+  END IF;
+
+  -- The API server checks field permissions itself
+  IF current_user IN ('anon', 'authenticated') THEN
+    SELECT string_agg(c.column_name, ', ' ORDER BY c.sort_order)
+    INTO locked_fields
+    FROM public.column_config c
+    WHERE cardinality(c.editable_by) > 0
+      AND NOT (c.editable_by && public.roadmap_groups())
+      AND to_jsonb(NEW) -> c.column_name IS DISTINCT FROM to_jsonb(OLD) -> c.column_name
+      -- Completing an initiative clears its rank; that is not an edit
+      AND NOT (
+        c.column_name = 'priority_rank'
+        AND NEW."Status" = 'Completed'
+        AND NEW.priority_rank IS NULL
+      );
+
+    IF locked_fields IS NOT NULL THEN
+      RAISE EXCEPTION 'You cannot change: %', locked_fields
+        USING ERRCODE = '42501';
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Optional: Limit fields to groups, then add users to them under Manage Users
+-- UPDATE public.column_config SET editable_by = '{product-leadership}'
+-- WHERE column_name IN ('Priority', 'priority_rank');
+-- UPDATE public.column_config SET editable_by = '{engineering-leads}'
+-- WHERE column_name IN ('engineer_assigned', 'est_hours_story_points');
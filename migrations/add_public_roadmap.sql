@@ -0,0 +1,94 @@
+-- Migration: Customer-facing public roadmap
+-- Admins flag initiatives as public and give them a title and description
+-- written for customers. The public roadmap page shows only those, grouped
+-- into Now / Next / Later or by quarter, to anyone without signing in.
+-- Anonymous visitors cannot read roadmap_fields: they call
+-- get_public_roadmap, which returns only the public fields.
+-- Run this migration in your Supabase SQL editor after add_share_links.sql
+
+ALTER TABLE public.roadmap_fields
+ADD COLUMN IF NOT EXISTS is_public boolean NOT NULL DEFAULT false,
+ADD COLUMN IF NOT EXISTS public_title text,
+ADD COLUMN IF NOT EXISTS public_description text;
+
+CREATE INDEX IF NOT EXISTS roadmap_fields_public_idx
+  ON public.roadmap_fields (workspace_id)
+  WHERE is_public AND deleted_at IS NULL;
+
+-- Editors can change every other field, but only admins decide what
+-- customers see
+CREATE OR REPLACE FUNCTION public.enforce_public_fields()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF public.has_roadmap_role('admin') THEN
+    RETURN NEW;
+  END IF;
+
+  -- A new row, or one moved in from another workspace, is published
+  -- from scratch
+  IF TG_OP = 'INSERT' OR NEW.workspace_id IS DISTINCT FROM OLD.workspace_id THEN
+    IF NEW.is_public OR nullif(NEW.public_title, '') IS NOT NULL
+      OR nullif(NEW.public_description, '') IS NOT NULL THEN
+      RAISE EXCEPTION 'Only admins can change: is_public, public_title, public_description'
+        USING ERRCODE = '42501';
+    END IF;
+  ELSIF NEW.is_public IS DISTINCT FROM OLD.is_public
+    OR nullif(NEW.public_title, '') IS DISTINCT FROM nullif(OLD.public_title, '')
+    OR nullif(NEW.public_description, '') IS DISTINCT FROM nullif(OLD.public_description, '') THEN
+    RAISE EXCEPTION 'Only admins can change: is_public, public_title, public_description'
+      USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS roadmap_fields_enforce_public ON public.roadmap_fields;
+CREATE TRIGGER roadmap_fields_enforce_public
+BEFORE INSERT OR UPDATE ON public.roadmap_fields
+FOR EACH ROW
+EXECUTE FUNCTION public.enforce_public_fields();
+
+-- The public roadmap of a workspace, or NULL when there is no such
+-- workspace. Mirrors buildPublicRoadmap in shared/publicRoadmap.ts.
+CREATE OR REPLACE FUNCTION public.get_public_roadmap(workspace text)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT jsonb_build_object(
+    'title', w.title,
+    'logo_url', w.logo_url,
+    'initiatives', coalesce(
+      (SELECT jsonb_agg(
+          jsonb_build_object(
+            'id', f."ID",
+            'title', coalesce(nullif(btrim(f.public_title), ''), f."Initiative", 'Untitled'),
+            'description', nullif(btrim(f.public_description), ''),
+            'product', f."Product",
+            'priority', f."Priority",
+            'quarter', f."Quarter Due",
+            'released', coalesce(f."Status" = 'Completed', false)
+          )
+          ORDER BY f."Status", f.priority_rank NULLS LAST, f."ID")
+        FROM public.roadmap_fields f
+        WHERE f.workspace_id = w.id
+          AND f.is_public
+          AND f.deleted_at IS NULL),
+      '[]'::jsonb
+    )
+  )
+  FROM public.workspaces w
+  WHERE w.id = workspace;
+$$;
+
+REVOKE ALL ON FUNCTION public.get_public_roadmap(text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.get_public_roadmap(text) TO anon, authenticated;
+
+-- Optional: Publish every active initiative of a product
+-- UPDATE public.roadmap_fields SET is_public = true
+-- WHERE "Product" = 'Order Management' AND "Status" = 'Active';
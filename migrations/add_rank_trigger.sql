@@ -0,0 +1,66 @@
+-- Migration: Keep priority_rank consistent in the database
+-- Completed and trashed initiatives never have a rank, and any other
+-- initiative saved without one, moved to another status without a new rank
+-- or restored from the trash goes to the end of its status's priority
+-- sequence. This replaces the back-filling the
+-- app used to do every time it loaded the list
+-- Run this migration in your Supabase SQL editor after add_create_initiative.sql
+
+CREATE OR REPLACE FUNCTION public.normalize_priority_rank()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  moved boolean := false;
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    moved := (
+        NEW."Status" IS DISTINCT FROM OLD."Status"
+        AND NEW.priority_rank IS NOT DISTINCT FROM OLD.priority_rank
+      )
+      OR (OLD.deleted_at IS NOT NULL AND NEW.deleted_at IS NULL);
+  END IF;
+
+  IF NEW."Status" = 'Completed' OR NEW.deleted_at IS NOT NULL THEN
+    NEW.priority_rank := NULL;
+  ELSIF NEW.priority_rank IS NULL OR moved THEN
+    -- Same lock as create_initiative(), so the two never hand out one rank twice
+    PERFORM pg_advisory_xact_lock(
+      hashtext('roadmap_fields.priority_rank:' || COALESCE(NEW."Status", ''))
+    );
+
+    SELECT COALESCE(MAX(priority_rank), 0) + 1
+    INTO NEW.priority_rank
+    FROM public.roadmap_fields
+    WHERE "Status" IS NOT DISTINCT FROM NEW."Status"
+      AND deleted_at IS NULL
+      AND "ID" <> NEW."ID";
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS roadmap_fields_normalize_priority_rank ON public.roadmap_fields;
+CREATE TRIGGER roadmap_fields_normalize_priority_rank
+BEFORE INSERT OR UPDATE OF "Status", priority_rank, deleted_at ON public.roadmap_fields
+FOR EACH ROW
+EXECUTE FUNCTION public.normalize_priority_rank();
+
+-- Fix existing rows once: clear ranks on Completed and trashed initiatives
+-- and append unranked ones (the trigger assigns the rank)
+UPDATE public.roadmap_fields
+SET priority_rank = NULL
+WHERE ("Status" = 'Completed' OR deleted_at IS NOT NULL)
+  AND priority_rank IS NOT NULL;
+
+UPDATE public.roadmap_fields
+SET "Status" = "Status"
+WHERE "Status" IS DISTINCT FROM 'Completed'
+  AND priority_rank IS NULL
+  AND deleted_at IS NULL;
+
+-- Optional: Verify no active initiative is unranked
+-- SELECT COUNT(*) FROM public.roadmap_fields
+-- WHERE "Status" <> 'Completed' AND priority_rank IS NULL AND deleted_at IS NULL;
+-- Should return 0 after running the migration
@@ -0,0 +1,18 @@
+-- Migration: Save a reorder in one transactional call
+-- The app sends only the rows whose position changed; save_order() applies
+-- them in a single UPDATE, so a failure never leaves a half-saved order
+-- Run this migration in your Supabase SQL editor
+
+CREATE OR REPLACE FUNCTION public.save_order(updates jsonb)
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  -- Each element is { "ID", "sort_order", "priority_rank" }
+  UPDATE public.roadmap_fields AS f
+  SET sort_order = u.sort_order,
+      priority_rank = u.priority_rank
+  FROM jsonb_populate_recordset(NULL::public.roadmap_fields, updates) AS u
+  WHERE f."ID" = u."ID";
+END;
+$$;
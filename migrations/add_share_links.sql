@@ -0,0 +1,102 @@
+-- Migration: Public read-only share links
+-- A share link opens part of one workspace's roadmap without signing in, for
+-- partners who must not see internal fields such as Notes. Each link lists
+-- the columns it shares and can be limited to some statuses and products;
+-- links can be revoked and can expire. Anonymous visitors cannot read the
+-- tables: they call get_shared_roadmap, which returns only what the link
+-- shares.
+-- Run this migration in your Supabase SQL editor after add_webhooks.sql
+
+CREATE TABLE IF NOT EXISTS public.share_links (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  workspace_id text NOT NULL REFERENCES public.workspaces(id) ON DELETE CASCADE,
+  token text NOT NULL UNIQUE,
+  name text NOT NULL CHECK (btrim(name) <> ''),
+  view text NOT NULL DEFAULT 'list' CHECK (view IN ('list', 'gantt')),
+  -- Shared besides ID, Initiative and Status
+  columns text[] NOT NULL DEFAULT '{}',
+  -- NULL: no filter
+  statuses text[],
+  products text[],
+  expires_at timestamptz,
+  revoked_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  created_by text NOT NULL DEFAULT 'unknown'
+);
+
+CREATE INDEX IF NOT EXISTS share_links_workspace_idx
+  ON public.share_links (workspace_id, created_at DESC);
+
+ALTER TABLE public.share_links ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can manage share links" ON public.share_links;
+CREATE POLICY "Admins can manage share links"
+ON public.share_links FOR ALL TO authenticated
+USING (public.has_roadmap_role('admin') AND public.is_workspace_member(workspace_id))
+WITH CHECK (public.has_roadmap_role('admin') AND public.is_workspace_member(workspace_id));
+
+-- What a live link shows: matching initiatives outside the trash with only
+-- the shared fields, and the shared columns' configuration. Returns NULL for
+-- unknown, revoked and expired links. Mirrors buildSharedRoadmap in
+-- shared/shareLinks.ts.
+CREATE OR REPLACE FUNCTION public.get_shared_roadmap(share_token text)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  link public.share_links;
+  ws public.workspaces;
+  fields text[];
+BEGIN
+  SELECT * INTO link FROM public.share_links
+  WHERE token = share_token
+    AND revoked_at IS NULL
+    AND (expires_at IS NULL OR expires_at > now());
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT * INTO ws FROM public.workspaces WHERE id = link.workspace_id;
+  fields := ARRAY['ID', 'Initiative', 'Status', 'sort_order'] || link.columns;
+
+  RETURN jsonb_build_object(
+    'name', link.name,
+    'view', link.view,
+    'title', coalesce(ws.title, link.name),
+    'logo_url', ws.logo_url,
+    'expires_at', link.expires_at,
+    'columns', coalesce(
+      (SELECT jsonb_agg(
+          (to_jsonb(c) - 'editable_by') || '{"is_visible": true}'::jsonb
+          ORDER BY c.sort_order)
+        FROM public.column_config c
+        WHERE c.workspace_id = link.workspace_id
+          AND c.column_name = ANY (link.columns)),
+      '[]'::jsonb
+    ),
+    'initiatives', coalesce(
+      (SELECT jsonb_agg(
+          (SELECT jsonb_object_agg(e.key, e.value)
+            FROM jsonb_each(to_jsonb(f)) e
+            WHERE e.key = ANY (fields))
+          ORDER BY f."Status", f.sort_order NULLS LAST, f."ID")
+        FROM public.roadmap_fields f
+        WHERE f.workspace_id = link.workspace_id
+          AND f.deleted_at IS NULL
+          AND (link.statuses IS NULL OR f."Status" = ANY (link.statuses))
+          AND (link.products IS NULL OR f."Product" = ANY (link.products))),
+      '[]'::jsonb
+    )
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.get_shared_roadmap(text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.get_shared_roadmap(text) TO anon, authenticated;
+
+-- Optional: Revoke every link of a workspace
+-- UPDATE public.share_links SET revoked_at = now()
+-- WHERE workspace_id = 'default' AND revoked_at IS NULL;
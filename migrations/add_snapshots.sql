@@ -0,0 +1,86 @@
+-- Migration: Roadmap snapshots
+-- A snapshot is a named, frozen copy of every initiative outside the trash
+-- and the column configuration of one workspace, so the roadmap as it was
+-- presented (e.g. at a quarterly review) can be opened again later. The rows
+-- are stored as JSON and never change after the snapshot is taken.
+-- Run this migration in your Supabase SQL editor after add_workspaces.sql
+
+CREATE TABLE IF NOT EXISTS public.roadmap_snapshots (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL CHECK (btrim(name) <> ''),
+  workspace_id text NOT NULL REFERENCES public.workspaces(id) ON DELETE CASCADE,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  created_by text NOT NULL DEFAULT 'unknown',
+  initiative_count integer NOT NULL,
+  initiatives jsonb NOT NULL,
+  columns jsonb NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS roadmap_snapshots_workspace_idx
+  ON public.roadmap_snapshots (workspace_id, created_at DESC);
+
+-- Copies the workspace's initiatives and columns in one statement, so the
+-- snapshot is consistent even while others are editing
+CREATE OR REPLACE FUNCTION public.create_snapshot(snapshot_name text, workspace text)
+RETURNS public.roadmap_snapshots
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  headers json := coalesce(
+    nullif(current_setting('request.headers', true), '')::json,
+    '{}'::json
+  );
+  new_row public.roadmap_snapshots;
+BEGIN
+  INSERT INTO public.roadmap_snapshots (
+    name, workspace_id, created_by, initiative_count, initiatives, columns
+  )
+  SELECT
+    btrim(snapshot_name),
+    workspace,
+    -- Same author rules as the change history: the signed-in user's email,
+    -- or the header from the API server, which authenticates callers itself
+    coalesce(
+      auth.jwt()->>'email',
+      CASE WHEN auth.role() = 'service_role' THEN headers->>'x-roadmap-actor' END,
+      'unknown'
+    ),
+    (SELECT count(*) FROM public.roadmap_fields f
+      WHERE f.workspace_id = workspace AND f.deleted_at IS NULL),
+    coalesce(
+      (SELECT jsonb_agg(to_jsonb(f) ORDER BY f."Status", f.sort_order NULLS LAST, f."ID")
+        FROM public.roadmap_fields f
+        WHERE f.workspace_id = workspace AND f.deleted_at IS NULL),
+      '[]'::jsonb
+    ),
+    coalesce(
+      (SELECT jsonb_agg(to_jsonb(c) ORDER BY c.sort_order)
+        FROM public.column_config c
+        WHERE c.workspace_id = workspace),
+      '[]'::jsonb
+    )
+  RETURNING * INTO new_row;
+
+  RETURN new_row;
+END;
+$$;
+
+ALTER TABLE public.roadmap_snapshots ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Viewers can read snapshots" ON public.roadmap_snapshots;
+CREATE POLICY "Viewers can read snapshots"
+ON public.roadmap_snapshots FOR SELECT TO authenticated
+USING (public.has_roadmap_role('viewer') AND public.is_workspace_member(workspace_id));
+
+DROP POLICY IF EXISTS "Editors can take snapshots" ON public.roadmap_snapshots;
+CREATE POLICY "Editors can take snapshots"
+ON public.roadmap_snapshots FOR INSERT TO authenticated
+WITH CHECK (public.has_roadmap_role('editor') AND public.is_workspace_member(workspace_id));
+
+DROP POLICY IF EXISTS "Admins can delete snapshots" ON public.roadmap_snapshots;
+CREATE POLICY "Admins can delete snapshots"
+ON public.roadmap_snapshots FOR DELETE TO authenticated
+USING (public.has_roadmap_role('admin') AND public.is_workspace_member(workspace_id));
+
+-- Optional: Take a snapshot of the default workspace by hand
+-- SELECT id, name, initiative_count FROM public.create_snapshot('Q3 exec review', 'default');
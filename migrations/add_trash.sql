@@ -0,0 +1,97 @@
+-- Migration: Soft delete for roadmap_fields
+-- Deleting an initiative sets deleted_at and moves it to the Trash tab, where
+-- it can be restored or purged. The app purges anything older than the
+-- retention period (VITE_TRASH_RETENTION_DAYS / TRASH_RETENTION_DAYS).
+-- Trashed initiatives give up their priority rank and go to the end of their
+-- status when restored (see add_rank_trigger.sql).
+-- Run this migration in your Supabase SQL editor (after add_audit_log.sql)
+
+ALTER TABLE public.roadmap_fields
+ADD COLUMN IF NOT EXISTS deleted_at timestamptz;
+
+CREATE INDEX IF NOT EXISTS roadmap_fields_deleted_at_idx
+  ON public.roadmap_fields (deleted_at)
+  WHERE deleted_at IS NOT NULL;
+
+-- Trash moves are recorded as delete/restore; removing a row for good is a purge
+ALTER TABLE public.roadmap_audit_log
+  DROP CONSTRAINT IF EXISTS roadmap_audit_log_action_check;
+ALTER TABLE public.roadmap_audit_log
+  ADD CONSTRAINT roadmap_audit_log_action_check
+  CHECK (action IN ('create', 'update', 'delete', 'restore', 'purge', 'reorder', 'import'));
+
+CREATE OR REPLACE FUNCTION public.log_roadmap_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  headers json := coalesce(
+    nullif(current_setting('request.headers', true), '')::json,
+    '{}'::json
+  );
+  entry_actor text := coalesce(headers->>'x-roadmap-actor', 'unknown');
+  entry_source text := headers->>'x-roadmap-source';
+  old_row jsonb := CASE WHEN TG_OP = 'INSERT' THEN '{}'::jsonb ELSE to_jsonb(OLD) END;
+  new_row jsonb := CASE WHEN TG_OP = 'DELETE' THEN '{}'::jsonb ELSE to_jsonb(NEW) END;
+  entry_changes jsonb;
+  entry_action text;
+BEGIN
+  IF entry_source IS DISTINCT FROM 'import' THEN
+    entry_source := NULL;
+  END IF;
+
+  SELECT coalesce(
+    jsonb_agg(
+      jsonb_build_object(
+        'field', key,
+        'before', coalesce(old_row->key, 'null'::jsonb),
+        'after', coalesce(new_row->key, 'null'::jsonb)
+      ) ORDER BY key
+    ),
+    '[]'::jsonb
+  )
+  INTO entry_changes
+  FROM (SELECT jsonb_object_keys(old_row || new_row) AS key) AS keys
+  WHERE key <> 'updated_at'
+    AND coalesce(old_row->key, 'null'::jsonb)
+      IS DISTINCT FROM coalesce(new_row->key, 'null'::jsonb);
+
+  IF TG_OP = 'DELETE' THEN
+    entry_action := 'purge';
+  ELSIF TG_OP = 'INSERT' THEN
+    entry_action := coalesce(entry_source, 'create');
+  ELSIF entry_changes = '[]'::jsonb THEN
+    RETURN NULL;
+  ELSIF OLD.deleted_at IS DISTINCT FROM NEW.deleted_at THEN
+    entry_action := CASE WHEN OLD.deleted_at IS NULL THEN 'delete' ELSE 'restore' END;
+  ELSIF entry_source IS NOT NULL THEN
+    entry_action := entry_source;
+  ELSIF NOT EXISTS (
+    SELECT 1 FROM jsonb_array_elements(entry_changes) AS change
+    WHERE change->>'field' NOT IN ('sort_order', 'priority_rank')
+  ) THEN
+    entry_action := 'reorder';
+  ELSE
+    entry_action := 'update';
+  END IF;
+
+  INSERT INTO public.roadmap_audit_log (initiative_id, action, changes, actor)
+  VALUES (
+    CASE WHEN TG_OP = 'DELETE' THEN OLD."ID" ELSE NEW."ID" END,
+    entry_action,
+    entry_changes,
+    entry_actor
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+-- Optional: purge on a schedule in the database as well (requires pg_cron)
+-- SELECT cron.schedule(
+--   'purge-roadmap-trash',
+--   '0 3 * * *',
+--   $$DELETE FROM public.roadmap_fields WHERE deleted_at < now() - interval '30 days'$$
+-- );
@@ -0,0 +1,28 @@
+-- Migration: Track a row version on roadmap_fields
+-- The app sends the updated_at it last saw with each edit and rejects the
+-- save as a conflict if someone else has written the row since
+-- Run this migration in your Supabase SQL editor
+
+ALTER TABLE public.roadmap_fields
+ADD COLUMN IF NOT EXISTS updated_at timestamptz NOT NULL DEFAULT now();
+
+CREATE OR REPLACE FUNCTION public.set_roadmap_updated_at()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  -- clock_timestamp() so several writes in one transaction still differ
+  NEW.updated_at := clock_timestamp();
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS roadmap_fields_set_updated_at ON public.roadmap_fields;
+CREATE TRIGGER roadmap_fields_set_updated_at
+BEFORE UPDATE ON public.roadmap_fields
+FOR EACH ROW
+EXECUTE FUNCTION public.set_roadmap_updated_at();
+
+-- Optional: Verify every row has a version
+-- SELECT COUNT(*) FROM public.roadmap_fields WHERE updated_at IS NULL;
+-- Should return 0 after running the migration
@@ -0,0 +1,65 @@
+-- Migration: Outbound webhooks
+-- Admins subscribe URLs to roadmap events (initiative created, edited, status
+-- changed, deleted, restored, purged; column added or deleted) per workspace.
+-- The API server listens to realtime changes, POSTs a signed JSON payload to
+-- every matching subscription and records each attempt in the delivery log.
+-- The server needs SUPABASE_SERVICE_ROLE_KEY to read subscriptions and write
+-- the log of every workspace.
+-- Run this migration in your Supabase SQL editor after add_snapshots.sql
+
+CREATE TABLE IF NOT EXISTS public.roadmap_webhooks (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  workspace_id text NOT NULL REFERENCES public.workspaces(id) ON DELETE CASCADE,
+  url text NOT NULL CHECK (url ~ '^https?://'),
+  secret text NOT NULL,
+  events text[] NOT NULL CHECK (cardinality(events) > 0),
+  -- NULL: no filter
+  statuses text[],
+  fields text[],
+  active boolean NOT NULL DEFAULT true,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS roadmap_webhooks_workspace_idx
+  ON public.roadmap_webhooks (workspace_id, created_at);
+
+CREATE TABLE IF NOT EXISTS public.roadmap_webhook_deliveries (
+  id uuid PRIMARY KEY,
+  webhook_id uuid NOT NULL REFERENCES public.roadmap_webhooks(id) ON DELETE CASCADE,
+  workspace_id text NOT NULL REFERENCES public.workspaces(id) ON DELETE CASCADE,
+  event text NOT NULL,
+  payload jsonb NOT NULL,
+  status text NOT NULL CHECK (status IN ('pending', 'succeeded', 'failed')),
+  attempts integer NOT NULL DEFAULT 0,
+  response_status integer,
+  error text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  last_attempt_at timestamptz,
+  next_attempt_at timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS roadmap_webhook_deliveries_workspace_idx
+  ON public.roadmap_webhook_deliveries (workspace_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS roadmap_webhook_deliveries_pending_idx
+  ON public.roadmap_webhook_deliveries (next_attempt_at)
+  WHERE status = 'pending';
+
+ALTER TABLE public.roadmap_webhooks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.roadmap_webhook_deliveries ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can manage webhooks" ON public.roadmap_webhooks;
+CREATE POLICY "Admins can manage webhooks"
+ON public.roadmap_webhooks FOR ALL TO authenticated
+USING (public.has_roadmap_role('admin') AND public.is_workspace_member(workspace_id))
+WITH CHECK (public.has_roadmap_role('admin') AND public.is_workspace_member(workspace_id));
+
+-- Deliveries are written by the server (service role) only
+DROP POLICY IF EXISTS "Admins can read webhook deliveries" ON public.roadmap_webhook_deliveries;
+CREATE POLICY "Admins can read webhook deliveries"
+ON public.roadmap_webhook_deliveries FOR SELECT TO authenticated
+USING (public.has_roadmap_role('admin') AND public.is_workspace_member(workspace_id));
+
+-- Optional: Deliveries that gave up
+-- SELECT event, attempts, response_status, error FROM public.roadmap_webhook_deliveries
+-- WHERE status = 'failed' ORDER BY created_at DESC;
@@ -0,0 +1,367 @@
+-- Migration: Workspaces
+-- Each workspace has its own initiatives, column configuration, branding
+-- (header title and logo) and members. Everything that exists today goes to
+-- the "default" workspace, and every existing user becomes a member of it.
+-- Admins can open every workspace; everyone else only the ones they are a
+-- member of. Workspaces share the roadmap_fields table, so a custom column
+-- added in one workspace has the same type everywhere it is configured.
+-- Run this migration in your Supabase SQL editor after add_field_permissions.sql
+
+CREATE TABLE IF NOT EXISTS public.workspaces (
+  id text PRIMARY KEY CHECK (id ~ '^[a-z0-9][a-z0-9-]*$'),
+  name text NOT NULL,
+  title text NOT NULL DEFAULT 'Executive Product Roadmap',
+  logo_url text,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+INSERT INTO public.workspaces (id, name)
+VALUES ('default', 'Default')
+ON CONFLICT (id) DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS public.workspace_members (
+  workspace_id text NOT NULL REFERENCES public.workspaces (id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES public.user_roles (user_id) ON DELETE CASCADE,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (workspace_id, user_id)
+);
+
+-- Existing users keep seeing the roadmap they see today
+INSERT INTO public.workspace_members (workspace_id, user_id)
+SELECT 'default', user_id FROM public.user_roles
+ON CONFLICT DO NOTHING;
+
+-- So do users who sign up later, until an admin changes their workspaces
+CREATE OR REPLACE FUNCTION public.join_default_workspace()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.workspace_members (workspace_id, user_id)
+  VALUES ('default', NEW.user_id)
+  ON CONFLICT DO NOTHING;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS user_roles_join_default_workspace ON public.user_roles;
+CREATE TRIGGER user_roles_join_default_workspace
+AFTER INSERT ON public.user_roles
+FOR EACH ROW
+EXECUTE FUNCTION public.join_default_workspace();
+
+ALTER TABLE public.roadmap_fields
+ADD COLUMN IF NOT EXISTS workspace_id text NOT NULL DEFAULT 'default'
+  REFERENCES public.workspaces (id);
+
+CREATE INDEX IF NOT EXISTS roadmap_fields_workspace_idx
+  ON public.roadmap_fields (workspace_id, "Status");
+
+ALTER TABLE public.column_config
+ADD COLUMN IF NOT EXISTS workspace_id text NOT NULL DEFAULT 'default'
+  REFERENCES public.workspaces (id) ON DELETE CASCADE;
+
+-- Column names are unique per workspace instead of overall
+ALTER TABLE public.column_config
+DROP CONSTRAINT IF EXISTS column_config_column_name_key;
+ALTER TABLE public.column_config
+DROP CONSTRAINT IF EXISTS column_config_workspace_column_key;
+ALTER TABLE public.column_config
+ADD CONSTRAINT column_config_workspace_column_key UNIQUE (workspace_id, column_name);
+
+-- Whether the signed-in user may use a workspace
+CREATE OR REPLACE FUNCTION public.is_workspace_member(workspace text)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT current_user NOT IN ('anon', 'authenticated')
+    OR public.roadmap_role() = 'admin'
+    OR EXISTS (
+      SELECT 1 FROM public.workspace_members
+      WHERE workspace_id = workspace AND user_id = auth.uid()
+    );
+$$;
+
+-- Creates a workspace with a copy of another one's column configuration,
+-- and makes the creator a member
+CREATE OR REPLACE FUNCTION public.create_workspace(
+  workspace jsonb,
+  copy_columns_from text DEFAULT 'default'
+)
+RETURNS public.workspaces
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  new_row public.workspaces;
+BEGIN
+  INSERT INTO public.workspaces (id, name, title, logo_url)
+  VALUES (
+    workspace->>'id',
+    workspace->>'name',
+    coalesce(nullif(workspace->>'title', ''), 'Executive Product Roadmap'),
+    nullif(workspace->>'logo_url', '')
+  )
+  RETURNING * INTO new_row;
+
+  INSERT INTO public.column_config (
+    column_name, display_name, data_type, is_visible, sort_order,
+    is_system_column, is_required, editable_by, workspace_id
+  )
+  SELECT column_name, display_name, data_type, is_visible, sort_order,
+    is_system_column, is_required, editable_by, new_row.id
+  FROM public.column_config
+  WHERE workspace_id = copy_columns_from;
+
+  IF auth.uid() IS NOT NULL THEN
+    INSERT INTO public.workspace_members (workspace_id, user_id)
+    VALUES (new_row.id, auth.uid())
+    ON CONFLICT DO NOTHING;
+  END IF;
+
+  RETURN new_row;
+END;
+$$;
+
+-- Priority ranks are sequences per workspace and status
+CREATE OR REPLACE FUNCTION public.create_initiative(initiative jsonb)
+RETURNS public.roadmap_fields
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  new_row public.roadmap_fields;
+BEGIN
+  new_row := jsonb_populate_record(NULL::public.roadmap_fields, initiative);
+  new_row."ID" := nextval('public.roadmap_fields_id_seq');
+  new_row."Status" := COALESCE(new_row."Status", 'Active');
+  new_row.workspace_id := COALESCE(new_row.workspace_id, 'default');
+  new_row.updated_at := clock_timestamp();
+  new_row.deleted_at := NULL;
+
+  IF new_row."Status" = 'Completed' THEN
+    new_row.priority_rank := NULL;
+  ELSE
+    -- Held until the transaction commits, so the next create for this
+    -- status sees this row when it reads the highest rank
+    PERFORM pg_advisory_xact_lock(
+      hashtext(
+        'roadmap_fields.priority_rank:' || new_row.workspace_id || ':' || new_row."Status"
+      )
+    );
+
+    SELECT COALESCE(MAX(priority_rank), 0) + 1
+    INTO new_row.priority_rank
+    FROM public.roadmap_fields
+    WHERE workspace_id = new_row.workspace_id
+      AND "Status" = new_row."Status"
+      AND deleted_at IS NULL;
+  END IF;
+
+  INSERT INTO public.roadmap_fields
+  SELECT new_row.*
+  RETURNING * INTO new_row;
+
+  RETURN new_row;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.normalize_priority_rank()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  moved boolean := false;
+BEGIN
+  -- A status or workspace change that keeps the old rank goes to the end
+  -- of the new sequence, instead of sharing a rank there, and so does a
+  -- restore from the trash
+  IF TG_OP = 'UPDATE' THEN
+    moved := (
+        (
+          NEW."Status" IS DISTINCT FROM OLD."Status"
+          OR NEW.workspace_id IS DISTINCT FROM OLD.workspace_id
+        )
+        AND NEW.priority_rank IS NOT DISTINCT FROM OLD.priority_rank
+      )
+      OR (OLD.deleted_at IS NOT NULL AND NEW.deleted_at IS NULL);
+  END IF;
+
+  IF NEW."Status" = 'Completed' OR NEW.deleted_at IS NOT NULL THEN
+    NEW.priority_rank := NULL;
+  ELSIF NEW.priority_rank IS NULL OR moved THEN
+    -- Same lock as create_initiative(), so the two never hand out one rank twice
+    PERFORM pg_advisory_xact_lock(
+      hashtext(
+        'roadmap_fields.priority_rank:' || NEW.workspace_id || ':' || COALESCE(NEW."Status", '')
+      )
+    );
+
+    SELECT COALESCE(MAX(priority_rank), 0) + 1
+    INTO NEW.priority_rank
+    FROM public.roadmap_fields
+    WHERE workspace_id = NEW.workspace_id
+      AND "Status" IS NOT DISTINCT FROM NEW."Status"
+      AND deleted_at IS NULL
+      AND "ID" <> NEW."ID";
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Moving, trashing and restoring an initiative change its rank, so the
+-- trigger also runs on those
+DROP TRIGGER IF EXISTS roadmap_fields_normalize_priority_rank ON public.roadmap_fields;
+CREATE TRIGGER roadmap_fields_normalize_priority_rank
+BEFORE INSERT OR UPDATE OF "Status", priority_rank, workspace_id, deleted_at ON public.roadmap_fields
+FOR EACH ROW
+EXECUTE FUNCTION public.normalize_priority_rank();
+
+-- Same as add_field_permissions.sql, except that moving an initiative to
+-- another workspace may re-rank it even when priority_rank is locked, and
+-- that new initiatives cannot fill in locked fields either
+CREATE OR REPLACE FUNCTION public.enforce_roadmap_roles()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  -- A new initiative is compared with the defaults the app gives every new
+  -- initiative (INITIATIVE_DEFAULTS in shared/initiatives.ts)
+  old_row jsonb := CASE
+    WHEN TG_OP = 'INSERT' THEN jsonb_build_object(
+      'Product', 'Order Management',
+      'Status', 'Active',
+      'Priority', 'Build Now',
+      'Quarter Due', 'Q1 2026',
+      'Initiative', 'New Initiative',
+      'sort_order', 0
+    )
+    ELSE to_jsonb(OLD)
+  END;
+  row_workspace text := CASE WHEN TG_OP = 'INSERT' THEN NEW.workspace_id ELSE OLD.workspace_id END;
+  locked_fields text;
+BEGIN
+  IF NEW.deleted_at IS DISTINCT FROM OLD.deleted_at
+    AND NOT public.has_roadmap_role('admin') THEN
+    RAISE EXCEPTION 'Only admins can delete or restore initiatives'
+      USING ERRCODE = '42501';
+  END IF;
+
+  -- The API server checks field permissions itself
+  IF current_user IN ('anon', 'authenticated') THEN
+    SELECT string_agg(c.column_name, ', ' ORDER BY c.sort_order)
+    INTO locked_fields
+    FROM public.column_config c
+    WHERE c.workspace_id = row_workspace
+      AND cardinality(c.editable_by) > 0
+      AND NOT (c.editable_by && public.roadmap_groups())
+      AND coalesce(to_jsonb(NEW) -> c.column_name, 'null'::jsonb)
+        IS DISTINCT FROM coalesce(old_row -> c.column_name, 'null'::jsonb)
+      -- create_initiative() assigns the ID and rank
+      AND NOT (TG_OP = 'INSERT' AND c.column_name IN ('ID', 'priority_rank'))
+      -- Completing or moving an initiative clears its rank; that is not an edit
+      AND NOT (
+        c.column_name = 'priority_rank'
+        AND (
+          (NEW."Status" = 'Completed' AND NEW.priority_rank IS NULL)
+          OR NEW.workspace_id IS DISTINCT FROM OLD.workspace_id
+        )
+      );
+
+    IF locked_fields IS NOT NULL THEN
+      RAISE EXCEPTION 'You cannot change: %', locked_fields
+        USING ERRCODE = '42501';
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS roadmap_fields_enforce_roles ON public.roadmap_fields;
+CREATE TRIGGER roadmap_fields_enforce_roles
+BEFORE INSERT OR UPDATE ON public.roadmap_fields
+FOR EACH ROW
+EXECUTE FUNCTION public.enforce_roadmap_roles();
+
+-- roadmap_fields: the role policies from add_auth.sql, limited to members.
+-- An update must keep the row in a workspace the user belongs to.
+DROP POLICY IF EXISTS "Viewers can read initiatives" ON public.roadmap_fields;
+CREATE POLICY "Viewers can read initiatives"
+ON public.roadmap_fields FOR SELECT TO authenticated
+USING (public.has_roadmap_role('viewer') AND public.is_workspace_member(workspace_id));
+
+DROP POLICY IF EXISTS "Editors can create initiatives" ON public.roadmap_fields;
+CREATE POLICY "Editors can create initiatives"
+ON public.roadmap_fields FOR INSERT TO authenticated
+WITH CHECK (public.has_roadmap_role('editor') AND public.is_workspace_member(workspace_id));
+
+DROP POLICY IF EXISTS "Editors can edit initiatives" ON public.roadmap_fields;
+CREATE POLICY "Editors can edit initiatives"
+ON public.roadmap_fields FOR UPDATE TO authenticated
+USING (public.has_roadmap_role('editor') AND public.is_workspace_member(workspace_id))
+WITH CHECK (public.has_roadmap_role('editor') AND public.is_workspace_member(workspace_id));
+
+DROP POLICY IF EXISTS "Admins can purge initiatives" ON public.roadmap_fields;
+CREATE POLICY "Admins can purge initiatives"
+ON public.roadmap_fields FOR DELETE TO authenticated
+USING (public.has_roadmap_role('admin'));
+
+-- column_config
+DROP POLICY IF EXISTS "Viewers can read columns" ON public.column_config;
+CREATE POLICY "Viewers can read columns"
+ON public.column_config FOR SELECT TO authenticated
+USING (public.has_roadmap_role('viewer') AND public.is_workspace_member(workspace_id));
+
+-- roadmap_audit_log: history of initiatives in the user's workspaces
+DROP POLICY IF EXISTS "Viewers can read history" ON public.roadmap_audit_log;
+CREATE POLICY "Viewers can read history"
+ON public.roadmap_audit_log FOR SELECT TO authenticated
+USING (
+  public.has_roadmap_role('viewer')
+  -- The read policy on roadmap_fields limits this to the user's workspaces
+  AND EXISTS (
+    SELECT 1 FROM public.roadmap_fields f
+    WHERE f."ID" = roadmap_audit_log.initiative_id
+  )
+);
+
+-- workspaces: members read them, admins manage them
+ALTER TABLE public.workspaces ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Members can read workspaces" ON public.workspaces;
+CREATE POLICY "Members can read workspaces"
+ON public.workspaces FOR SELECT TO authenticated
+USING (public.is_workspace_member(id));
+
+DROP POLICY IF EXISTS "Admins can manage workspaces" ON public.workspaces;
+CREATE POLICY "Admins can manage workspaces"
+ON public.workspaces FOR ALL TO authenticated
+USING (public.has_roadmap_role('admin'))
+WITH CHECK (public.has_roadmap_role('admin'));
+
+-- workspace_members: everyone sees their own memberships, admins manage all
+ALTER TABLE public.workspace_members ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can read their memberships" ON public.workspace_members;
+CREATE POLICY "Users can read their memberships"
+ON public.workspace_members FOR SELECT TO authenticated
+USING (user_id = auth.uid() OR public.has_roadmap_role('admin'));
+
+DROP POLICY IF EXISTS "Admins can manage memberships" ON public.workspace_members;
+CREATE POLICY "Admins can manage memberships"
+ON public.workspace_members FOR ALL TO authenticated
+USING (public.has_roadmap_role('admin'))
+WITH CHECK (public.has_roadmap_role('admin'));
+
+-- Optional: A second workspace with its own branding, starting from the
+-- default column configuration
+-- SELECT * FROM public.create_workspace(
+--   '{"id": "pritchard", "name": "Pritchard", "logo_url": "/pritchard-logo.avif"}',
+--   'default'
+-- );
+-- UPDATE public.workspaces SET logo_url = '/shaed-logo.png' WHERE id = 'default';
@@ -0,0 +1,14 @@
+-- Migration: Broadcast roadmap changes over Supabase Realtime
+-- Lets open browsers receive edits made by other users without reloading
+-- Run this migration in your Supabase SQL editor
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.roadmap_fields;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.column_config;
+
+-- Include the full previous row in UPDATE and DELETE events so clients can
+-- tell which fields changed
+ALTER TABLE public.roadmap_fields REPLICA IDENTITY FULL;
+ALTER TABLE public.column_config REPLICA IDENTITY FULL;
+
+-- Optional: Verify the tables are published
+-- SELECT tablename FROM pg_publication_tables WHERE pubname = 'supabase_realtime';
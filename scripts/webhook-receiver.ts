@@ -0,0 +1,67 @@
+import { createHmac, timingSafeEqual } from "crypto";
+import { createServer } from "http";
+
+/**
+ * Local webhook receiver for trying out roadmap webhooks:
+ *
+ *   WEBHOOK_SECRET=<secret> pnpm webhook-receiver
+ *
+ * Listens on RECEIVER_PORT (default 4000), checks the X-Roadmap-Signature
+ * header when WEBHOOK_SECRET is set and prints every event. Set
+ * RECEIVER_FAIL=1 to answer 500 and watch the server retry.
+ */
+
+const port = Number(process.env.RECEIVER_PORT || 4000);
+const secret = process.env.WEBHOOK_SECRET;
+const fail = process.env.RECEIVER_FAIL === "1";
+
+function signatureMatches(body: string, signature: string | undefined) {
+  if (!secret) return true;
+  if (!signature) return false;
+
+  const expected = `sha256=${createHmac("sha256", secret).update(body).digest("hex")}`;
+  return (
+    signature.length === expected.length &&
+    timingSafeEqual(Buffer.from(signature), Buffer.from(expected))
+  );
+}
+
+const server = createServer((req, res) => {
+  let body = "";
+  req.setEncoding("utf8");
+  req.on("data", chunk => (body += chunk));
+  req.on("end", () => {
+    const event = req.headers["x-roadmap-event"];
+    const delivery = req.headers["x-roadmap-delivery"];
+
+    if (!signatureMatches(body, req.headers["x-roadmap-signature"] as string)) {
+      console.log(`✗ ${event} ${delivery}: signature does not match`);
+      res.writeHead(401).end("Invalid signature");
+      return;
+    }
+
+    const payload = JSON.parse(body || "{}");
+    const subject = payload.initiative
+      ? `#${payload.initiative.ID} ${payload.initiative.Initiative ?? ""}`
+      : payload.column
+        ? `column ${payload.column.column_name}`
+        : "";
+    console.log(
+      `${fail ? "✗" : "✓"} ${event} in ${payload.workspace} ${subject} (${delivery})`
+    );
+    for (const change of payload.changes ?? []) {
+      console.log(
+        `    ${change.field}: ${JSON.stringify(change.before)} → ${JSON.stringify(change.after)}`
+      );
+    }
+
+    res.writeHead(fail ? 500 : 200).end(fail ? "Failing on purpose" : "OK");
+  });
+});
+
+server.listen(port, () => {
+  console.log(
+    `Webhook receiver on http://localhost:${port}/` +
+      (secret ? "" : " (not checking signatures; set WEBHOOK_SECRET)")
+  );
+});
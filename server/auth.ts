@@ -0,0 +1,126 @@
+import type { Request, RequestHandler, Response } from "express";
+import {
+  hasRole,
+  isRole,
+  parseGroups,
+  type RoadmapUser,
+  type Role,
+} from "@shared/auth";
+import { HttpError } from "./http";
+import { isLocalBackend } from "./storage";
+import { supabase } from "./supabase";
+
+/**
+ * Role of every caller when STORAGE_BACKEND=local, which has no user accounts
+ * (LOCAL_AUTH_ROLE, default admin)
+ */
+const localRole: Role = isRole(process.env.LOCAL_AUTH_ROLE)
+  ? process.env.LOCAL_AUTH_ROLE
+  : "admin";
+
+// Permission groups of every caller in local mode (LOCAL_AUTH_GROUPS)
+const localGroups = parseGroups(process.env.LOCAL_AUTH_GROUPS || "");
+
+async function getSupabaseUser(token: string): Promise<RoadmapUser | null> {
+  const {
+    data: { user },
+    error,
+  } = await supabase.auth.getUser(token);
+  if (error || !user) return null;
+
+  const { data, error: roleError } = await supabase
+    .from("user_roles")
+    .select("role, groups")
+    .eq("user_id", user.id)
+    .maybeSingle();
+  if (roleError) throw roleError;
+
+  return {
+    id: user.id,
+    email: user.email || user.id,
+    role: isRole(data?.role) ? data.role : "viewer",
+    groups: data?.groups ?? [],
+  };
+}
+
+async function resolveUser(req: Request): Promise<RoadmapUser | null> {
+  if (isLocalBackend) {
+    return {
+      id: "local",
+      email: req.get("X-Roadmap-Actor") || "api",
+      role: localRole,
+      groups: localGroups,
+    };
+  }
+
+  const token = req.get("Authorization")?.match(/^Bearer (.+)$/)?.[1];
+  return token ? getSupabaseUser(token) : null;
+}
+
+/**
+ * Identifies the caller from the `Authorization: Bearer <access token>` header
+ * (a Supabase session token). Anonymous callers continue without a user and
+ * are turned away by requireRole.
+ */
+export const authenticate: RequestHandler = (req, res, next) => {
+  resolveUser(req).then(user => {
+    res.locals.user = user;
+    next();
+  }, next);
+};
+
+export function currentUser(res: Response): RoadmapUser | null {
+  return res.locals.user ?? null;
+}
+
+/**
+ * Whether the user may use a workspace: admins see every workspace, everyone
+ * else the ones they are a member of. Local mode has no memberships.
+ */
+export async function canAccessWorkspace(
+  user: RoadmapUser,
+  workspaceId: string
+): Promise<boolean> {
+  if (isLocalBackend || hasRole(user.role, "admin")) return true;
+
+  const { data, error } = await supabase
+    .from("workspace_members")
+    .select("workspace_id")
+    .eq("user_id", user.id)
+    .eq("workspace_id", workspaceId)
+    .maybeSingle();
+  if (error) throw error;
+  return !!data;
+}
+
+/**
+ * Workspaces the user is a member of, or null when they may use every one
+ */
+export async function memberWorkspaceIds(
+  user: RoadmapUser
+): Promise<string[] | null> {
+  if (isLocalBackend || hasRole(user.role, "admin")) return null;
+
+  const { data, error } = await supabase
+    .from("workspace_members")
+    .select("workspace_id")
+    .eq("user_id", user.id);
+  if (error) throw error;
+  return (data || []).map(row => row.workspace_id);
+}
+
+/**
+ * Rejects callers who are not signed in (401) or lack the role (403)
+ */
+export function requireRole(role: Role): RequestHandler {
+  return (_req, res, next) => {
+    const user = currentUser(res);
+    if (!user) {
+      next(new HttpError(401, "Sign in required"));
+    } else if (!hasRole(user.role, role)) {
+      next(new HttpError(403, `Requires the ${role} role`));
+    } else {
+      next();
+    }
+  };
+}
@@ -0,0 +1,73 @@
+import type { NextFunction, Request, RequestHandler, Response } from "express";
+import { ConflictError } from "@shared/storage";
+
+/**
+ * Error carrying the HTTP status the API should respond with
+ */
+export class HttpError extends Error {
+  constructor(
+    public status: number,
+    message: string
+  ) {
+    super(message);
+    this.name = "HttpError";
+  }
+}
+
+/**
+ * Wraps an async route handler so rejected promises reach the error handler
+ */
+export function asyncHandler(
+  handler: (req: Request, res: Response) => Promise<unknown>
+): RequestHandler {
+  return (req, res, next) => {
+    handler(req, res).catch(next);
+  };
+}
+
+/**
+ * Parses a numeric route parameter, rejecting anything that is not an integer
+ */
+export function parseId(value: string): number {
+  const id = Number(value);
+  if (!Number.isInteger(id)) {
+    throw new HttpError(400, `Invalid ID: ${value}`);
+  }
+  return id;
+}
+
+/**
+ * Converts thrown errors (HttpError, storage or Supabase/PostgREST errors) into JSON responses
+ */
+export function errorHandler(
+  error: any,
+  _req: Request,
+  res: Response,
+  _next: NextFunction
+) {
+  if (error instanceof HttpError) {
+    res.status(error.status).json({ error: error.message });
+    return;
+  }
+
+  // Stale versioned update; include the current row so the client can merge
+  if (error instanceof ConflictError) {
+    res.status(409).json({ error: error.message, current: error.current });
+    return;
+  }
+
+  // Postgres unique violation
+  if (error?.code === "23505") {
+    res.status(409).json({ error: error.message || "Already exists" });
+    return;
+  }
+
+  // Postgres invalid input, such as text where a uuid or date is expected
+  if (error?.code === "22P02") {
+    res.status(400).json({ error: error.message || "Invalid input" });
+    return;
+  }
+
+  console.error("API error:", error);
+  res.status(500).json({ error: error?.message || "Internal server error" });
+}
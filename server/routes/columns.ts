@@ -0,0 +1,114 @@
+import { Router } from "express";
+import { parseGroups } from "@shared/auth";
+import {
+  COLUMN_NAME_ERROR,
+  COLUMN_NAME_PATTERN,
+  SQL_TYPE_MAP,
+} from "@shared/columns";
+import type { ColumnUpdate } from "@shared/storage";
+import { requireRole } from "../auth";
+import { HttpError, asyncHandler } from "../http";
+import { storage } from "../storage";
+
+export const columnsRouter = Router();
+
+columnsRouter.get(
+  "/",
+  asyncHandler(async (_req, res) => {
+    res.json(await storage.listColumns());
+  })
+);
+
+/**
+ * POST /api/columns
+ * Adds the config row and the physical column to roadmap_fields
+ */
+columnsRouter.post(
+  "/",
+  requireRole("admin"),
+  asyncHandler(async (req, res) => {
+    const { column_name, display_name, data_type, is_required, is_visible } =
+      req.body || {};
+
+    if (
+      typeof column_name !== "string" ||
+      !COLUMN_NAME_PATTERN.test(column_name)
+    ) {
+      throw new HttpError(400, COLUMN_NAME_ERROR);
+    }
+    if (typeof display_name !== "string" || !display_name.trim()) {
+      throw new HttpError(400, "display_name is required");
+    }
+    if (!(data_type in SQL_TYPE_MAP)) {
+      throw new HttpError(400, `Invalid data_type: ${data_type}`);
+    }
+
+    const column = await storage.addColumn({
+      column_name,
+      display_name,
+      data_type,
+      is_required,
+      is_visible,
+    });
+    res.status(201).json(column);
+  })
+);
+
+/**
+ * PUT /api/columns/order
+ * Body: { ids: string[] } - every column id in its new order
+ */
+columnsRouter.put(
+  "/order",
+  requireRole("admin"),
+  asyncHandler(async (req, res) => {
+    const ids = req.body?.ids;
+    if (!Array.isArray(ids) || ids.some(id => typeof id !== "string")) {
+      throw new HttpError(400, "Body must be { ids: string[] }");
+    }
+
+    await storage.reorderColumns(ids);
+    res.status(204).end();
+  })
+);
+
+columnsRouter.patch(
+  "/:id",
+  requireRole("admin"),
+  asyncHandler(async (req, res) => {
+    const updates: ColumnUpdate = {};
+    const { display_name, is_visible, sort_order, editable_by } =
+      req.body || {};
+    if (display_name !== undefined) updates.display_name = display_name;
+    if (is_visible !== undefined) updates.is_visible = is_visible;
+    if (sort_order !== undefined) updates.sort_order = sort_order;
+    if (editable_by !== undefined) {
+      if (
+        editable_by !== null &&
+        (!Array.isArray(editable_by) ||
+          editable_by.some(group => typeof group !== "string"))
+      ) {
+        throw new HttpError(400, "editable_by must be a list of group names");
+      }
+      updates.editable_by = editable_by && parseGroups(editable_by.join(","));
+    }
+
+    if (Object.keys(updates).length === 0) {
+      throw new HttpError(400, "No fields to update");
+    }
+
+    const column = await storage.updateColumn(req.params.id, updates);
+    if (!column) throw new HttpError(404, `Column ${req.params.id} not found`);
+
+    res.json(column);
+  })
+);
+
+columnsRouter.delete(
+  "/:id",
+  requireRole("admin"),
+  asyncHandler(async (req, res) => {
+    await storage.deleteColumn(req.params.id);
+    res.status(204).end();
+  })
+);
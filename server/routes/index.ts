@@ -0,0 +1,80 @@
+import express, { Router } from "express";
+import {
+  DEFAULT_WORKSPACE_ID,
+  WORKSPACE_ID_ERROR,
+  WORKSPACE_ID_PATTERN,
+} from "@shared/workspaces";
+import {
+  authenticate,
+  canAccessWorkspace,
+  currentUser,
+  requireRole,
+} from "../auth";
+import { HttpError, errorHandler } from "../http";
+import { requestActor, requestWorkspace } from "../storage";
+import { columnsRouter } from "./columns";
+import { initiativesRouter } from "./initiatives";
+import { publicRoadmapRouter } from "./publicRoadmap";
+import { shareLinksRouter, sharedRoadmapRouter } from "./shareLinks";
+import { snapshotsRouter } from "./snapshots";
+import { webhooksRouter } from "./webhooks";
+import { workspacesRouter } from "./workspaces";
+
+/**
+ * JSON API mounted at /api
+ */
+export function createApiRouter() {
+  const router = Router();
+
+  router.use(express.json({ limit: "5mb" }));
+  router.use(authenticate);
+  // Changes are recorded under the signed-in user's email
+  router.use((_req, res, next) => {
+    requestActor.run(currentUser(res)?.email || "api", next);
+  });
+  // Initiatives and columns are read from and written to this workspace
+  router.use((req, res, next) => {
+    const workspace =
+      req.get("X-Roadmap-Workspace") ||
+      (req.query.workspace as string | undefined) ||
+      DEFAULT_WORKSPACE_ID;
+    if (!WORKSPACE_ID_PATTERN.test(workspace)) {
+      next(new HttpError(400, WORKSPACE_ID_ERROR));
+      return;
+    }
+
+    // Anonymous callers are turned away by requireRole
+    const user = currentUser(res);
+    (user ? canAccessWorkspace(user, workspace) : Promise.resolve(true)).then(
+      allowed => {
+        if (!allowed) {
+          next(new HttpError(403, `No access to workspace ${workspace}`));
+        } else {
+          requestWorkspace.run(workspace, next);
+        }
+      },
+      next
+    );
+  });
+
+  router.get("/me", requireRole("viewer"), (_req, res) => {
+    res.json(currentUser(res));
+  });
+  router.use("/initiatives", requireRole("viewer"), initiativesRouter);
+  router.use("/columns", requireRole("viewer"), columnsRouter);
+  router.use("/workspaces", requireRole("viewer"), workspacesRouter);
+  router.use("/snapshots", requireRole("viewer"), snapshotsRouter);
+  router.use("/webhooks", requireRole("admin"), webhooksRouter);
+  router.use("/share-links", requireRole("admin"), shareLinksRouter);
+  // Public: the token is the credential
+  router.use("/share", sharedRoadmapRouter);
+  router.use("/public", publicRoadmapRouter);
+
+  // Unknown API routes should not fall through to the SPA's index.html
+  router.use((_req, res) => {
+    res.status(404).json({ error: "Not found" });
+  });
+  router.use(errorHandler);
+
+  return router;
+}
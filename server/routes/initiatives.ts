@@ -0,0 +1,319 @@
+import { Router } from "express";
+import {
+  canEditField,
+  hasRole,
+  lockedChanges,
+  lockedFieldsOnCreate,
+  type RoadmapUser,
+} from "@shared/auth";
+import { computeOrderUpdates } from "@shared/initiatives";
+import { publicFieldChanges } from "@shared/publicRoadmap";
+import { checkRankIntegrity, rankRepairUpdates } from "@shared/ranks";
+import { STATUS_OPTIONS } from "@shared/types/database";
+import type { Initiative, TabStatus } from "@shared/types/database";
+import { WORKSPACE_ID_PATTERN } from "@shared/workspaces";
+import { canAccessWorkspace, currentUser, requireRole } from "../auth";
+import { HttpError, asyncHandler, parseId } from "../http";
+import { storage } from "../storage";
+
+export const initiativesRouter = Router();
+
+// The public roadmap listing is up to admins
+function checkPublicFields(
+  user: RoadmapUser | null,
+  current: Partial<Initiative>,
+  updates: Partial<Initiative>
+) {
+  const changed = publicFieldChanges(current, updates);
+  if (changed.length > 0 && !hasRole(user?.role, "admin")) {
+    throw new HttpError(403, `Only admins can change: ${changed.join(", ")}`);
+  }
+}
+
+/**
+ * GET /api/initiatives?status=Active&product=X&search=term
+ * Same filtering and ordering as the list view
+ */
+initiativesRouter.get(
+  "/",
+  asyncHandler(async (req, res) => {
+    const status = (req.query.status as string | undefined) || "All";
+    const product = (req.query.product as string | undefined) || "All";
+    const search = (req.query.search as string | undefined) || "";
+
+    if (!STATUS_OPTIONS.includes(status as TabStatus)) {
+      throw new HttpError(400, `Invalid status: ${status}`);
+    }
+
+    res.json(
+      await storage.listInitiatives({
+        status: status as TabStatus,
+        product,
+        search,
+      })
+    );
+  })
+);
+
+/**
+ * GET /api/initiatives/rank-integrity
+ * Gaps, duplicates and other priority-rank problems
+ */
+initiativesRouter.get(
+  "/rank-integrity",
+  requireRole("admin"),
+  asyncHandler(async (_req, res) => {
+    res.json(checkRankIntegrity(await storage.listInitiatives()));
+  })
+);
+
+/**
+ * POST /api/initiatives/rank-integrity/repair
+ * Renumbers ranks 1..n per status; returns the positions that changed
+ */
+initiativesRouter.post(
+  "/rank-integrity/repair",
+  requireRole("admin"),
+  asyncHandler(async (_req, res) => {
+    const columns = await storage.listColumns();
+    const rankColumn = columns.find(col => col.column_name === "priority_rank");
+    if (!canEditField(currentUser(res), rankColumn)) {
+      throw new HttpError(403, "You cannot change: priority_rank");
+    }
+
+    const updates = rankRepairUpdates(await storage.listInitiatives());
+    await storage.saveOrder(updates);
+    res.json(updates);
+  })
+);
+
+initiativesRouter.get(
+  "/:id",
+  asyncHandler(async (req, res) => {
+    const id = parseId(req.params.id);
+    const initiative = await storage.getInitiative(id);
+    if (!initiative) throw new HttpError(404, `Initiative ${id} not found`);
+
+    if (initiative.updated_at) {
+      res.set("ETag", `"${initiative.updated_at}"`);
+    }
+    res.json(initiative);
+  })
+);
+
+/**
+ * POST /api/initiatives
+ * Assigns the next ID and the next priority rank within the initiative's status
+ */
+initiativesRouter.post(
+  "/",
+  requireRole("editor"),
+  asyncHandler(async (req, res) => {
+    const initiative = (req.body || {}) as Partial<Initiative>;
+    const locked = lockedFieldsOnCreate(
+      currentUser(res),
+      await storage.listColumns(),
+      initiative
+    );
+    if (locked.length > 0) {
+      throw new HttpError(403, `You cannot change: ${locked.join(", ")}`);
+    }
+    checkPublicFields(currentUser(res), {}, initiative);
+    res.status(201).json(await storage.createInitiative(initiative));
+  })
+);
+
+/**
+ * PUT /api/initiatives/order
+ * Body: { ids: number[] } - the full list in its new order
+ */
+initiativesRouter.put(
+  "/order",
+  requireRole("editor"),
+  asyncHandler(async (req, res) => {
+    const ids = req.body?.ids;
+    if (!Array.isArray(ids) || ids.some(id => !Number.isInteger(id))) {
+      throw new HttpError(400, "Body must be { ids: number[] }");
+    }
+
+    const all = await storage.listInitiatives();
+    const byId = new Map(all.map(init => [init.ID, init]));
+    const missing = ids.filter((id: number) => !byId.has(id));
+    if (missing.length > 0) {
+      throw new HttpError(404, `Initiatives not found: ${missing.join(", ")}`);
+    }
+
+    const updates = computeOrderUpdates(
+      ids.map((id: number) => byId.get(id) as Initiative)
+    );
+    const columns = await storage.listColumns();
+    const locked = new Set(
+      updates.flatMap(({ ID, ...update }) =>
+        lockedChanges(currentUser(res), columns, byId.get(ID)!, update)
+      )
+    );
+    if (locked.size > 0) {
+      throw new HttpError(
+        403,
+        `You cannot change: ${Array.from(locked).join(", ")}`
+      );
+    }
+    await storage.saveOrder(updates);
+
+    res.json(updates);
+  })
+);
+
+/**
+ * GET /api/initiatives/:id/history
+ * Change history, newest first. Only for initiatives in the current workspace
+ * (the audit log itself is not scoped by workspace)
+ */
+initiativesRouter.get(
+  "/:id/history",
+  asyncHandler(async (req, res) => {
+    const id = parseId(req.params.id);
+    if (!(await storage.getInitiative(id))) {
+      throw new HttpError(404, `Initiative ${id} not found`);
+    }
+    res.json(await storage.listHistory(id));
+  })
+);
+
+/**
+ * PATCH /api/initiatives/:id
+ * Send the ETag from GET as If-Match to reject the update with 409 when the
+ * row has changed in the meantime
+ */
+initiativesRouter.patch(
+  "/:id",
+  requireRole("editor"),
+  asyncHandler(async (req, res) => {
+    const id = parseId(req.params.id);
+    const ifMatch = req.get("If-Match")?.replace(/^"|"$/g, "");
+    const { ID: _ignored, ...updates } = (req.body ||
+      {}) as Partial<Initiative>;
+
+    if (Object.keys(updates).length === 0) {
+      throw new HttpError(400, "No fields to update");
+    }
+
+    const current = await storage.getInitiative(id);
+    if (!current) throw new HttpError(404, `Initiative ${id} not found`);
+
+    const locked = lockedChanges(
+      currentUser(res),
+      await storage.listColumns(),
+      current,
+      updates
+    );
+    if (locked.length > 0) {
+      throw new HttpError(403, `You cannot change: ${locked.join(", ")}`);
+    }
+    checkPublicFields(currentUser(res), current, updates);
+
+    const initiative = await storage.updateInitiative(id, updates, {
+      expectedUpdatedAt: ifMatch,
+    });
+    if (!initiative) throw new HttpError(404, `Initiative ${id} not found`);
+
+    if (initiative.updated_at) {
+      res.set("ETag", `"${initiative.updated_at}"`);
+    }
+    res.json(initiative);
+  })
+);
+
+/**
+ * DELETE /api/initiatives/:id moves the initiative to the trash;
+ * ?permanent=true deletes it for good
+ */
+initiativesRouter.delete(
+  "/:id",
+  requireRole("admin"),
+  asyncHandler(async (req, res) => {
+    const id = parseId(req.params.id);
+    const deleted =
+      req.query.permanent === "true"
+        ? await storage.purgeInitiative(id)
+        : await storage.deleteInitiative(id);
+    if (!deleted) {
+      throw new HttpError(404, `Initiative ${id} not found`);
+    }
+
+    res.status(204).end();
+  })
+);
+
+initiativesRouter.post(
+  "/:id/restore",
+  requireRole("admin"),
+  asyncHandler(async (req, res) => {
+    const id = parseId(req.params.id);
+    const initiative = await storage.restoreInitiative(id);
+    if (!initiative) {
+      throw new HttpError(404, `Initiative ${id} is not in the trash`);
+    }
+
+    res.json(initiative);
+  })
+);
+
+/**
+ * Target workspace of a move or copy; the caller must have access to it
+ */
+async function targetWorkspace(body: any, user: RoadmapUser): Promise<string> {
+  const workspace = body?.workspace;
+  if (typeof workspace !== "string" || !WORKSPACE_ID_PATTERN.test(workspace)) {
+    throw new HttpError(400, "Body must be { workspace: string }");
+  }
+  if (!(await canAccessWorkspace(user, workspace))) {
+    throw new HttpError(403, `No access to workspace ${workspace}`);
+  }
+  return workspace;
+}
+
+/**
+ * POST /api/initiatives/:id/move
+ * Body: { workspace } - moves the initiative to the end of its status's
+ * priority sequence in that workspace
+ */
+initiativesRouter.post(
+  "/:id/move",
+  requireRole("editor"),
+  asyncHandler(async (req, res) => {
+    const id = parseId(req.params.id);
+    const workspace = await targetWorkspace(req.body, currentUser(res)!);
+    const source = await storage.getInitiative(id);
+    if (!source) throw new HttpError(404, `Initiative ${id} not found`);
+    // Moving a public initiative publishes it in the other workspace
+    checkPublicFields(currentUser(res), {}, source);
+
+    const initiative = await storage.moveInitiative(id, workspace);
+    if (!initiative) throw new HttpError(404, `Initiative ${id} not found`);
+
+    res.json(initiative);
+  })
+);
+
+/**
+ * POST /api/initiatives/:id/copy
+ * Body: { workspace } - creates a copy with a new ID in that workspace
+ */
+initiativesRouter.post(
+  "/:id/copy",
+  requireRole("editor"),
+  asyncHandler(async (req, res) => {
+    const id = parseId(req.params.id);
+    const workspace = await targetWorkspace(req.body, currentUser(res)!);
+    const source = await storage.getInitiative(id);
+    if (!source) throw new HttpError(404, `Initiative ${id} not found`);
+    // The copy of a public initiative would be public too
+    checkPublicFields(currentUser(res), {}, source);
+
+    const copy = await storage.copyInitiative(id, workspace);
+    if (!copy) throw new HttpError(404, `Initiative ${id} not found`);
+
+    res.status(201).json(copy);
+  })
+);
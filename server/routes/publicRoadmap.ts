@@ -0,0 +1,27 @@
+import { Router } from "express";
+import { WORKSPACE_ID_ERROR, WORKSPACE_ID_PATTERN } from "@shared/workspaces";
+import { HttpError, asyncHandler } from "../http";
+import { storage } from "../storage";
+
+export const publicRoadmapRouter = Router();
+
+/**
+ * GET /api/public/:workspace
+ * The workspace's customer-facing roadmap; no sign-in needed
+ */
+publicRoadmapRouter.get(
+  "/:workspace",
+  asyncHandler(async (req, res) => {
+    const { workspace } = req.params;
+    if (!WORKSPACE_ID_PATTERN.test(workspace)) {
+      throw new HttpError(400, WORKSPACE_ID_ERROR);
+    }
+
+    const roadmap = await storage.getPublicRoadmap(workspace);
+    if (!roadmap) {
+      throw new HttpError(404, `Workspace ${workspace} not found`);
+    }
+
+    res.json(roadmap);
+  })
+);
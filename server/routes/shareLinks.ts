@@ -0,0 +1,120 @@
+import { Router } from "express";
+import {
+  applyEmbedFilter,
+  badgeMessage,
+  countBadge,
+  parseEmbedFilter,
+  renderBadge,
+  unsharedFilterFields,
+} from "@shared/embeds";
+import { validateShareLink } from "@shared/shareLinks";
+import { HttpError, asyncHandler } from "../http";
+import { storage } from "../storage";
+
+// Managing links (admins)
+export const shareLinksRouter = Router();
+
+// Opening a link (anyone with the token)
+export const sharedRoadmapRouter = Router();
+
+/**
+ * GET /api/share-links
+ * The workspace's share links with their tokens, newest first
+ */
+shareLinksRouter.get(
+  "/",
+  asyncHandler(async (_req, res) => {
+    res.json(await storage.listShareLinks());
+  })
+);
+
+/**
+ * POST /api/share-links
+ * Body: { name, view, columns, statuses?, products?, expires_at? } - returns
+ * the link with its generated token
+ */
+shareLinksRouter.post(
+  "/",
+  asyncHandler(async (req, res) => {
+    const { name, view, columns, statuses, products, expires_at } =
+      req.body || {};
+    const link = { name, view, columns, statuses, products, expires_at };
+    const error = validateShareLink(link);
+    if (error) {
+      throw new HttpError(400, error);
+    }
+
+    res.status(201).json(await storage.createShareLink(link));
+  })
+);
+
+/**
+ * POST /api/share-links/:id/revoke
+ * The link stops opening at once
+ */
+shareLinksRouter.post(
+  "/:id/revoke",
+  asyncHandler(async (req, res) => {
+    const link = await storage.revokeShareLink(req.params.id);
+    if (!link) {
+      throw new HttpError(404, `Share link ${req.params.id} not found`);
+    }
+
+    res.json(link);
+  })
+);
+
+/**
+ * GET /api/share/:token
+ * What the link shows; no sign-in needed
+ */
+sharedRoadmapRouter.get(
+  "/:token",
+  asyncHandler(async (req, res) => {
+    const roadmap = await storage.getSharedRoadmap(req.params.token);
+    if (!roadmap) {
+      throw new HttpError(404, "This link does not exist or has expired");
+    }
+
+    res.set("Cache-Control", "no-store").json(roadmap);
+  })
+);
+
+/**
+ * GET /api/share/:token/badge.svg
+ * Query: product?, status? (comma-separated) - an SVG badge such as
+ * "Order Management: 5 active / 2 live this quarter" for image embeds
+ */
+sharedRoadmapRouter.get(
+  "/:token/badge.svg",
+  asyncHandler(async (req, res) => {
+    res.type("image/svg+xml").set("Cache-Control", "no-store");
+
+    // Still an image, so the embed shows why it stopped working
+    const roadmap = await storage.getSharedRoadmap(req.params.token);
+    if (!roadmap) {
+      res.status(404).send(renderBadge("roadmap", "link expired", "#9ca3af"));
+      return;
+    }
+
+    const filter = parseEmbedFilter(req.query);
+    const products = filter.products ?? [];
+    const label =
+      (typeof req.query.label === "string" && req.query.label) ||
+      (products.length === 1 ? products[0] : roadmap.title);
+
+    // Would count nothing, and read as if the roadmap were empty
+    const unshared = unsharedFilterFields(roadmap, filter);
+    if (unshared.length > 0) {
+      const message = `${unshared.join(", ").toLowerCase()} not shared`;
+      res.status(400).send(renderBadge(label, message, "#9ca3af"));
+      return;
+    }
+
+    const counts = countBadge(
+      roadmap,
+      applyEmbedFilter(roadmap.initiatives, filter)
+    );
+    res.send(renderBadge(label, badgeMessage(counts)));
+  })
+);
@@ -0,0 +1,107 @@
+import { Router } from "express";
+import {
+  LIVE_STATE,
+  diffRoadmaps,
+  loadRoadmapState,
+  roadmapDiffToMarkdown,
+} from "@shared/diff";
+import { requireRole } from "../auth";
+import { HttpError, asyncHandler } from "../http";
+import { storage } from "../storage";
+
+export const snapshotsRouter = Router();
+
+/**
+ * GET /api/snapshots
+ * Snapshots of the workspace without their contents, newest first
+ */
+snapshotsRouter.get(
+  "/",
+  asyncHandler(async (_req, res) => {
+    res.json(await storage.listSnapshots());
+  })
+);
+
+/**
+ * GET /api/snapshots/diff?from=<id>&to=<id|live>&format=markdown
+ * What changed between two snapshots, or a snapshot and the live roadmap
+ * (`to` defaults to live). JSON unless Markdown is asked for.
+ */
+snapshotsRouter.get(
+  "/diff",
+  asyncHandler(async (req, res) => {
+    const from = String(req.query.from ?? "");
+    const to = String(req.query.to ?? LIVE_STATE);
+    if (!from) {
+      throw new HttpError(400, "from is required");
+    }
+
+    const [before, after] = await Promise.all([
+      loadRoadmapState(storage, from),
+      loadRoadmapState(storage, to),
+    ]);
+    if (!before || !after) {
+      throw new HttpError(404, `Snapshot ${before ? to : from} not found`);
+    }
+
+    const diff = diffRoadmaps(before.initiatives, after.initiatives);
+    if (req.query.format === "markdown") {
+      res
+        .type("text/markdown")
+        .send(
+          roadmapDiffToMarkdown(diff, before.label, after.label, after.columns)
+        );
+      return;
+    }
+
+    res.json({ from: before.label, to: after.label, ...diff });
+  })
+);
+
+/**
+ * GET /api/snapshots/:id
+ * The snapshot with its frozen initiatives and column configuration
+ */
+snapshotsRouter.get(
+  "/:id",
+  asyncHandler(async (req, res) => {
+    const snapshot = await storage.getSnapshot(req.params.id);
+    if (!snapshot) {
+      throw new HttpError(404, `Snapshot ${req.params.id} not found`);
+    }
+
+    res.json(snapshot);
+  })
+);
+
+/**
+ * POST /api/snapshots
+ * Body: { name } - freezes the workspace's initiatives and columns as they are now
+ */
+snapshotsRouter.post(
+  "/",
+  requireRole("editor"),
+  asyncHandler(async (req, res) => {
+    const name = req.body?.name;
+    if (typeof name !== "string" || !name.trim()) {
+      throw new HttpError(400, "name is required");
+    }
+
+    res.status(201).json(await storage.createSnapshot(name.trim()));
+  })
+);
+
+/**
+ * DELETE /api/snapshots/:id
+ */
+snapshotsRouter.delete(
+  "/:id",
+  requireRole("admin"),
+  asyncHandler(async (req, res) => {
+    if (!(await storage.deleteSnapshot(req.params.id))) {
+      throw new HttpError(404, `Snapshot ${req.params.id} not found`);
+    }
+
+    res.status(204).end();
+  })
+);
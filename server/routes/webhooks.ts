@@ -0,0 +1,149 @@
+import { Router } from "express";
+import type { WebhookDeliveryStatus } from "@shared/types/database";
+import { WEBHOOK_PING, validateWebhook } from "@shared/webhooks";
+import { HttpError, asyncHandler } from "../http";
+import { requestWorkspace, storage } from "../storage";
+import { deliverWebhook } from "../webhooks";
+
+export const webhooksRouter = Router();
+
+const DELIVERY_STATUSES: WebhookDeliveryStatus[] = [
+  "pending",
+  "succeeded",
+  "failed",
+];
+
+function checkWebhook(body: any) {
+  const error = validateWebhook(body);
+  if (error) {
+    throw new HttpError(400, error);
+  }
+}
+
+/**
+ * GET /api/webhooks
+ * The workspace's subscriptions, with their signing secrets
+ */
+webhooksRouter.get(
+  "/",
+  asyncHandler(async (_req, res) => {
+    res.json(await storage.listWebhooks());
+  })
+);
+
+/**
+ * GET /api/webhooks/deliveries?webhook=<id>&status=failed&limit=100
+ * Delivery log, newest first
+ */
+webhooksRouter.get(
+  "/deliveries",
+  asyncHandler(async (req, res) => {
+    const { webhook, status } = req.query;
+    if (
+      status !== undefined &&
+      !DELIVERY_STATUSES.includes(status as WebhookDeliveryStatus)
+    ) {
+      throw new HttpError(
+        400,
+        `status must be one of ${DELIVERY_STATUSES.join(", ")}`
+      );
+    }
+    const limit = req.query.limit === undefined ? 100 : Number(req.query.limit);
+    if (!Number.isInteger(limit) || limit < 1) {
+      throw new HttpError(400, "limit must be a positive integer");
+    }
+
+    res.json(
+      await storage.listWebhookDeliveries({
+        webhookId: webhook as string | undefined,
+        status: status as WebhookDeliveryStatus | undefined,
+        limit,
+      })
+    );
+  })
+);
+
+/**
+ * POST /api/webhooks
+ * Body: { url, events, statuses?, fields?, active? } - returns the
+ * subscription with its generated secret
+ */
+webhooksRouter.post(
+  "/",
+  asyncHandler(async (req, res) => {
+    const { url, events, statuses, fields, active } = req.body || {};
+    if (url === undefined || events === undefined) {
+      throw new HttpError(400, "url and events are required");
+    }
+    checkWebhook({ url, events, statuses, fields, active });
+
+    res
+      .status(201)
+      .json(
+        await storage.createWebhook({ url, events, statuses, fields, active })
+      );
+  })
+);
+
+/**
+ * PATCH /api/webhooks/:id
+ * Body: any of { url, events, statuses, fields, active }
+ */
+webhooksRouter.patch(
+  "/:id",
+  asyncHandler(async (req, res) => {
+    const { url, events, statuses, fields, active } = req.body || {};
+    const updates = Object.fromEntries(
+      Object.entries({ url, events, statuses, fields, active }).filter(
+        ([, value]) => value !== undefined
+      )
+    );
+    checkWebhook(updates);
+
+    const webhook = await storage.updateWebhook(req.params.id, updates);
+    if (!webhook) {
+      throw new HttpError(404, `Webhook ${req.params.id} not found`);
+    }
+
+    res.json(webhook);
+  })
+);
+
+/**
+ * DELETE /api/webhooks/:id
+ * Deletes the subscription and its delivery log
+ */
+webhooksRouter.delete(
+  "/:id",
+  asyncHandler(async (req, res) => {
+    if (!(await storage.deleteWebhook(req.params.id))) {
+      throw new HttpError(404, `Webhook ${req.params.id} not found`);
+    }
+
+    res.status(204).end();
+  })
+);
+
+/**
+ * POST /api/webhooks/:id/test
+ * Sends a ping event and returns its delivery after the first attempt
+ */
+webhooksRouter.post(
+  "/:id/test",
+  asyncHandler(async (req, res) => {
+    const webhook = (await storage.listWebhooks()).find(
+      hook => hook.id === req.params.id
+    );
+    if (!webhook) {
+      throw new HttpError(404, `Webhook ${req.params.id} not found`);
+    }
+
+    res.json(
+      await deliverWebhook(webhook, {
+        type: WEBHOOK_PING,
+        workspace: requestWorkspace.getStore()!,
+        changes: [],
+      })
+    );
+  })
+);
@@ -0,0 +1,97 @@
+import { Router } from "express";
+import type { WorkspaceUpdate } from "@shared/storage";
+import {
+  WORKSPACE_ID_ERROR,
+  WORKSPACE_ID_PATTERN,
+  workspaceIdFromName,
+} from "@shared/workspaces";
+import { currentUser, memberWorkspaceIds, requireRole } from "../auth";
+import { HttpError, asyncHandler } from "../http";
+import { storage } from "../storage";
+
+export const workspacesRouter = Router();
+
+function checkLogoUrl(logo_url: unknown) {
+  if (logo_url !== undefined && logo_url !== null) {
+    if (typeof logo_url !== "string") {
+      throw new HttpError(400, "logo_url must be a string or null");
+    }
+  }
+}
+
+/**
+ * GET /api/workspaces
+ * Every workspace for admins, the ones they are a member of for everyone else
+ */
+workspacesRouter.get(
+  "/",
+  asyncHandler(async (_req, res) => {
+    const [workspaces, memberOf] = await Promise.all([
+      storage.listWorkspaces(),
+      memberWorkspaceIds(currentUser(res)!),
+    ]);
+    res.json(
+      memberOf ? workspaces.filter(ws => memberOf.includes(ws.id)) : workspaces
+    );
+  })
+);
+
+/**
+ * POST /api/workspaces
+ * Body: { name, id?, title?, logo_url? } - the ID defaults to the name as a
+ * slug; the column configuration is copied from the request's workspace
+ */
+workspacesRouter.post(
+  "/",
+  requireRole("admin"),
+  asyncHandler(async (req, res) => {
+    const { name, title, logo_url } = req.body || {};
+    if (typeof name !== "string" || !name.trim()) {
+      throw new HttpError(400, "name is required");
+    }
+    const id = req.body?.id ?? workspaceIdFromName(name);
+    if (typeof id !== "string" || !WORKSPACE_ID_PATTERN.test(id)) {
+      throw new HttpError(400, WORKSPACE_ID_ERROR);
+    }
+    checkLogoUrl(logo_url);
+
+    const workspace = await storage.createWorkspace({
+      id,
+      name: name.trim(),
+      title: typeof title === "string" ? title.trim() : undefined,
+      logo_url,
+    });
+    res.status(201).json(workspace);
+  })
+);
+
+workspacesRouter.patch(
+  "/:id",
+  requireRole("admin"),
+  asyncHandler(async (req, res) => {
+    const updates: WorkspaceUpdate = {};
+    const { name, title, logo_url } = req.body || {};
+    if (name !== undefined) {
+      if (typeof name !== "string" || !name.trim()) {
+        throw new HttpError(400, "name cannot be empty");
+      }
+      updates.name = name.trim();
+    }
+    if (title !== undefined) updates.title = title;
+    if (logo_url !== undefined) {
+      checkLogoUrl(logo_url);
+      updates.logo_url = logo_url;
+    }
+
+    if (Object.keys(updates).length === 0) {
+      throw new HttpError(400, "No fields to update");
+    }
+
+    const workspace = await storage.updateWorkspace(req.params.id, updates);
+    if (!workspace) {
+      throw new HttpError(404, `Workspace ${req.params.id} not found`);
+    }
+
+    res.json(workspace);
+  })
+);
@@ -0,0 +1,52 @@
+import { AsyncLocalStorage } from "async_hooks";
+import fs from "fs";
+import path from "path";
+import {
+  createMemoryStorage,
+  createSupabaseStorage,
+  type MemoryData,
+  type RoadmapStorage,
+} from "@shared/storage";
+import { DEFAULT_WORKSPACE_ID } from "@shared/workspaces";
+import { supabase } from "./supabase";
+
+// Actor of the request being handled, recorded in the change history
+export const requestActor = new AsyncLocalStorage<string>();
+
+const getActor = () => requestActor.getStore() || "api";
+
+// Workspace the request reads and writes (X-Roadmap-Workspace header)
+export const requestWorkspace = new AsyncLocalStorage<string>();
+
+const getWorkspaceId = () =>
+  requestWorkspace.getStore() || DEFAULT_WORKSPACE_ID;
+
+/**
+ * STORAGE_BACKEND=local keeps the roadmap in memory, persisted to
+ * ROADMAP_DATA_FILE (default: ./roadmap-data.json) when set.
+ */
+function createLocalStorage(): RoadmapStorage {
+  const dataFile = path.resolve(
+    process.env.ROADMAP_DATA_FILE || "roadmap-data.json"
+  );
+
+  let initialData: MemoryData | null = null;
+  if (fs.existsSync(dataFile)) {
+    initialData = JSON.parse(fs.readFileSync(dataFile, "utf8"));
+  }
+
+  return createMemoryStorage({
+    initialData,
+    getActor,
+    getWorkspaceId,
+    onChange: data => {
+      fs.writeFileSync(dataFile, JSON.stringify(data, null, 2));
+    },
+  });
+}
+
+export const isLocalBackend = process.env.STORAGE_BACKEND === "local";
+
+export const storage: RoadmapStorage = isLocalBackend
+  ? createLocalStorage()
+  : createSupabaseStorage(supabase, { getActor, getWorkspaceId });
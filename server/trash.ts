@@ -0,0 +1,42 @@
+import { DEFAULT_TRASH_RETENTION_DAYS, ONE_DAY_MS } from "@shared/const";
+import { trashPurgeCutoff } from "@shared/initiatives";
+import { requestWorkspace, storage } from "./storage";
+
+const configuredDays = process.env.TRASH_RETENTION_DAYS;
+
+/**
+ * Days deleted initiatives stay in the trash (TRASH_RETENTION_DAYS,
+ * 0 keeps them until purged by hand)
+ */
+export const trashRetentionDays =
+  configuredDays && Number(configuredDays) >= 0
+    ? Number(configuredDays)
+    : DEFAULT_TRASH_RETENTION_DAYS;
+
+async function purgeExpiredTrash() {
+  try {
+    const cutoff = trashPurgeCutoff(trashRetentionDays);
+    for (const workspace of await storage.listWorkspaces()) {
+      const purged = await requestWorkspace.run(workspace.id, () =>
+        storage.purgeDeleted(cutoff)
+      );
+      if (purged > 0) {
+        console.log(
+          `Purged ${purged} initiative(s) from the trash of ${workspace.name}`
+        );
+      }
+    }
+  } catch (error) {
+    console.error("Error purging expired trash:", error);
+  }
+}
+
+/**
+ * Purges expired trash now and then once a day
+ */
+export function scheduleTrashPurge() {
+  if (trashRetentionDays === 0) return;
+
+  purgeExpiredTrash();
+  setInterval(purgeExpiredTrash, ONE_DAY_MS).unref();
+}
@@ -0,0 +1,96 @@
+import { createHmac } from "crypto";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import type { Webhook } from "@shared/types/database";
+import {
+  WEBHOOK_DELIVERY_HEADER,
+  WEBHOOK_EVENT_HEADER,
+  WEBHOOK_PING,
+  WEBHOOK_SIGNATURE_HEADER,
+} from "@shared/webhooks";
+
+const dataFile = path.join(
+  os.tmpdir(),
+  `roadmap-webhooks-test-${process.pid}.json`
+);
+
+let webhooks: typeof import("./webhooks");
+
+beforeAll(async () => {
+  // Deliveries are recorded in the local backend, not Supabase
+  vi.stubEnv("STORAGE_BACKEND", "local");
+  vi.stubEnv("ROADMAP_DATA_FILE", dataFile);
+  webhooks = await import("./webhooks");
+});
+
+afterAll(() => {
+  vi.unstubAllEnvs();
+  vi.unstubAllGlobals();
+  fs.rmSync(dataFile, { force: true });
+});
+
+describe("signWebhookPayload", () => {
+  it("is the hex HMAC-SHA256 of the body, keyed with the secret", () => {
+    expect(
+      webhooks.signWebhookPayload(
+        "key",
+        "The quick brown fox jumps over the lazy dog"
+      )
+    ).toBe(
+      "sha256=f7bc83f430538424b13298e6aa6fb143ef4d59a14946175997479dbc2d1a3cd8"
+    );
+  });
+
+  it("changes with the secret and the body", () => {
+    const signature = webhooks.signWebhookPayload("secret", "{}");
+
+    expect(webhooks.signWebhookPayload("other", "{}")).not.toBe(signature);
+    expect(webhooks.signWebhookPayload("secret", "{ }")).not.toBe(signature);
+  });
+});
+
+describe("deliverWebhook", () => {
+  it("signs the exact body it sends", async () => {
+    const fetch = vi.fn(async () => new Response("ok", { status: 200 }));
+    vi.stubGlobal("fetch", fetch);
+    const webhook: Webhook = {
+      id: "hook-1",
+      workspace_id: "default",
+      url: "https://example.com/hooks/roadmap",
+      secret: "0123456789abcdef",
+      events: [WEBHOOK_PING],
+      statuses: null,
+      fields: null,
+      active: true,
+      created_at: "2026-01-01T00:00:00Z",
+    };
+
+    const delivery = await webhooks.deliverWebhook(webhook, {
+      type: WEBHOOK_PING,
+      workspace: "default",
+      changes: [],
+    });
+
+    expect(delivery).toMatchObject({ status: "succeeded", attempts: 1 });
+    expect(fetch).toHaveBeenCalledOnce();
+
+    const [url, init] = fetch.mock.calls[0] as unknown as [string, RequestInit];
+    const headers = init.headers as Record<string, string>;
+    const body = init.body as string;
+
+    expect(url).toBe(webhook.url);
+    expect(headers[WEBHOOK_EVENT_HEADER]).toBe(WEBHOOK_PING);
+    expect(headers[WEBHOOK_DELIVERY_HEADER]).toBe(delivery.id);
+    // How a receiver checks the signature
+    expect(headers[WEBHOOK_SIGNATURE_HEADER]).toBe(
+      `sha256=${createHmac("sha256", webhook.secret).update(body).digest("hex")}`
+    );
+    expect(JSON.parse(body)).toMatchObject({
+      id: delivery.id,
+      event: WEBHOOK_PING,
+      workspace: "default",
+    });
+  });
+});
@@ -0,0 +1,193 @@
+import { createHmac } from "crypto";
+import type { StorageChange } from "@shared/storage";
+import type { Webhook, WebhookDelivery } from "@shared/types/database";
+import {
+  WEBHOOK_DELIVERY_HEADER,
+  WEBHOOK_EVENT_HEADER,
+  WEBHOOK_MAX_ATTEMPTS,
+  WEBHOOK_SIGNATURE_HEADER,
+  webhookEventsFor,
+  webhookMatches,
+  webhookRetryDelay,
+  type WebhookEvent,
+  type WebhookPayload,
+} from "@shared/webhooks";
+import { requestWorkspace, storage } from "./storage";
+
+// A receiver that takes longer than this counts as failed
+const DELIVERY_TIMEOUT_MS = 10_000;
+
+// Kept in the delivery log, for debugging receivers
+const MAX_ERROR_LENGTH = 500;
+
+/**
+ * Signature of a payload: `sha256=` and the hex HMAC-SHA256 of the raw body,
+ * keyed with the webhook's secret
+ */
+export function signWebhookPayload(secret: string, body: string): string {
+  return `sha256=${createHmac("sha256", secret).update(body).digest("hex")}`;
+}
+
+const inWorkspace = <T>(workspace: string, work: () => Promise<T>) =>
+  requestWorkspace.run(workspace, work);
+
+async function save(delivery: WebhookDelivery) {
+  await inWorkspace(delivery.workspace_id, () =>
+    storage.saveWebhookDelivery(delivery)
+  );
+}
+
+/**
+ * POSTs a delivery once and records the outcome. Failed attempts are retried
+ * with exponential backoff until WEBHOOK_MAX_ATTEMPTS.
+ */
+async function attempt(webhook: Webhook, delivery: WebhookDelivery) {
+  const body = JSON.stringify(delivery.payload);
+  const now = new Date();
+  delivery.attempts += 1;
+  delivery.last_attempt_at = now.toISOString();
+
+  try {
+    const response = await fetch(webhook.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "User-Agent": "Roadmap-Webhooks",
+        [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(webhook.secret, body),
+        [WEBHOOK_EVENT_HEADER]: delivery.event,
+        [WEBHOOK_DELIVERY_HEADER]: delivery.id,
+      },
+      body,
+      signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+    });
+    delivery.response_status = response.status;
+    delivery.error = response.ok
+      ? null
+      : (await response.text()).slice(0, MAX_ERROR_LENGTH) ||
+        response.statusText;
+  } catch (error: any) {
+    delivery.response_status = null;
+    delivery.error = String(error?.message || error).slice(0, MAX_ERROR_LENGTH);
+  }
+
+  if (delivery.error === null) {
+    delivery.status = "succeeded";
+    delivery.next_attempt_at = null;
+  } else if (delivery.attempts >= WEBHOOK_MAX_ATTEMPTS) {
+    delivery.status = "failed";
+    delivery.next_attempt_at = null;
+  } else {
+    const delay = webhookRetryDelay(delivery.attempts);
+    delivery.status = "pending";
+    delivery.next_attempt_at = new Date(now.getTime() + delay).toISOString();
+    setTimeout(() => retry(delivery), delay).unref();
+  }
+
+  await save(delivery);
+}
+
+// Sends a retry with the subscription as it is now, unless it was removed
+// or switched off in the meantime
+async function retry(delivery: WebhookDelivery) {
+  try {
+    const webhooks = await inWorkspace(delivery.workspace_id, () =>
+      storage.listWebhooks()
+    );
+    const webhook = webhooks.find(hook => hook.id === delivery.webhook_id);
+    if (!webhook) return;
+
+    if (!webhook.active) {
+      delivery.status = "failed";
+      delivery.next_attempt_at = null;
+      delivery.error = "Webhook was switched off before the retry";
+      await save(delivery);
+      return;
+    }
+    await attempt(webhook, delivery);
+  } catch (error) {
+    console.error(`Error retrying webhook delivery ${delivery.id}:`, error);
+  }
+}
+
+/**
+ * Records a delivery of the event to the webhook and sends it
+ */
+export async function deliverWebhook(
+  webhook: Webhook,
+  event: WebhookEvent
+): Promise<WebhookDelivery> {
+  const id = crypto.randomUUID();
+  const { type, ...rest } = event;
+  const payload: WebhookPayload = {
+    id,
+    event: type,
+    occurred_at: new Date().toISOString(),
+    ...rest,
+  };
+  const delivery: WebhookDelivery = {
+    id,
+    webhook_id: webhook.id,
+    workspace_id: webhook.workspace_id,
+    event: type,
+    payload,
+    status: "pending",
+    attempts: 0,
+    response_status: null,
+    error: null,
+    created_at: payload.occurred_at,
+    last_attempt_at: null,
+    next_attempt_at: null,
+  };
+
+  await save(delivery);
+  await attempt(webhook, delivery);
+  return delivery;
+}
+
+async function dispatch(change: StorageChange) {
+  const events = webhookEventsFor(change);
+  if (events.length === 0) return;
+
+  try {
+    // Every event of one change belongs to the same workspace
+    const webhooks = await inWorkspace(events[0].workspace, () =>
+      storage.listWebhooks()
+    );
+    await Promise.all(
+      events.flatMap(event =>
+        webhooks
+          .filter(webhook => webhookMatches(webhook, event))
+          .map(webhook => deliverWebhook(webhook, event))
+      )
+    );
+  } catch (error) {
+    console.error("Error dispatching webhooks:", error);
+  }
+}
+
+// Picks up retries that were due while the server was down
+async function resumePendingDeliveries() {
+  try {
+    for (const workspace of await storage.listWorkspaces()) {
+      const pending = await inWorkspace(workspace.id, () =>
+        storage.listWebhookDeliveries({ status: "pending", limit: 1000 })
+      );
+      pending.forEach(delivery => {
+        const due = delivery.next_attempt_at
+          ? Date.parse(delivery.next_attempt_at) - Date.now()
+          : 0;
+        setTimeout(() => retry(delivery), Math.max(0, due)).unref();
+      });
+    }
+  } catch (error) {
+    console.error("Error resuming webhook deliveries:", error);
+  }
+}
+
+/**
+ * Sends webhooks for changes made by any client in any workspace
+ */
+export function startWebhookDispatcher() {
+  storage.subscribe(change => void dispatch(change), { allWorkspaces: true });
+  resumePendingDeliveries();
+}
@@ -0,0 +1,78 @@
+import { changedFields } from "./initiatives";
+import type { Initiative } from "./types/database";
+
+/**
+ * Change history for roadmap_fields. The Supabase trigger in
+ * migrations/add_audit_log.sql applies the same rules as these helpers.
+ */
+
+export type AuditAction =
+  | "create"
+  | "update"
+  | "delete"
+  | "restore"
+  | "purge"
+  | "reorder"
+  | "import";
+
+// Where a write came from when it is not a regular edit
+export type AuditSource = "import";
+
+export interface FieldChange {
+  field: string;
+  before: any;
+  after: any;
+}
+
+export interface AuditEntry {
+  id: number;
+  initiative_id: number;
+  action: AuditAction;
+  changes: FieldChange[];
+  actor: string;
+  created_at: string;
+}
+
+// Fields that change together when the list is reordered
+const ORDER_FIELDS = ["sort_order", "priority_rank"];
+
+/**
+ * Field-level before/after values between two versions of a row.
+ * Pass null for `before` on create and for `after` on delete.
+ */
+export function diffInitiatives(
+  before: Partial<Initiative> | null,
+  after: Partial<Initiative> | null
+): FieldChange[] {
+  const from = before ?? {};
+  const to = after ?? {};
+  return changedFields(from, to)
+    .sort()
+    .map(field => ({
+      field,
+      before: from[field] ?? null,
+      after: to[field] ?? null,
+    }));
+}
+
+/**
+ * Classifies a write for the log. Moving to and from the trash is a delete
+ * or restore, removing the row for good a purge, and updates that only move
+ * the row are reorders. Returns null for updates that changed nothing.
+ */
+export function auditActionFor(
+  operation: "INSERT" | "UPDATE" | "DELETE",
+  changes: FieldChange[],
+  source?: AuditSource
+): AuditAction | null {
+  if (operation === "DELETE") return "purge";
+  if (operation === "INSERT") return source ?? "create";
+  if (changes.length === 0) return null;
+
+  const trashed = changes.find(change => change.field === "deleted_at");
+  if (trashed) return trashed.before === null ? "delete" : "restore";
+  if (source) return source;
+  return changes.every(change => ORDER_FIELDS.includes(change.field))
+    ? "reorder"
+    : "update";
+}
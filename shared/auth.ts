@@ -0,0 +1,109 @@
+import { buildInitiativeInsert } from "./initiatives";
+import type { ColumnConfig, Initiative } from "./types/database";
+
+/**
+ * Roles, from least to most access. Viewers read the roadmap, editors edit
+ * initiatives, admins also manage columns, import, delete and assign roles.
+ * migrations/add_auth.sql enforces the same levels in the database, except
+ * for imports, which it checks like any other creates and updates.
+ */
+export const ROLES = ["viewer", "editor", "admin"] as const;
+
+export type Role = (typeof ROLES)[number];
+
+export interface RoadmapUser {
+  id: string;
+  email: string;
+  role: Role;
+  // Permission groups, such as "product-leadership", that unlock fields
+  // limited to them (see canEditField)
+  groups: string[];
+}
+
+export function isRole(value: unknown): value is Role {
+  return ROLES.includes(value as Role);
+}
+
+/**
+ * Whether a role grants at least the access of `required`
+ */
+export function hasRole(role: Role | null | undefined, required: Role) {
+  return !!role && ROLES.indexOf(role) >= ROLES.indexOf(required);
+}
+
+/**
+ * Normalizes a comma-separated list of permission groups
+ * ("Product Leadership, eng-leads") to lower-case names without duplicates
+ */
+export function parseGroups(text: string): string[] {
+  const groups = text
+    .split(",")
+    .map(group => group.trim().toLowerCase())
+    .filter(Boolean);
+  return Array.from(new Set(groups));
+}
+
+/**
+ * Whether the user may change a field. Editors and admins can change any
+ * field whose column has no `editable_by` groups; the others are limited to
+ * members of those groups, admins included (admins can add themselves).
+ */
+export function canEditField(
+  user: RoadmapUser | null | undefined,
+  column: Pick<ColumnConfig, "editable_by"> | null | undefined
+) {
+  if (!user || !hasRole(user.role, "editor")) return false;
+
+  const groups = column?.editable_by ?? [];
+  return (
+    groups.length === 0 || groups.some(group => user.groups.includes(group))
+  );
+}
+
+const sameValue = (a: unknown, b: unknown) =>
+  (a ?? null) === (b ?? null) ||
+  (a != null && b != null && String(a) === String(b));
+
+/**
+ * Fields in `updates` that would change `current` although the user may not
+ * edit them. Clearing the priority rank of a completed initiative is left to
+ * the rank rules rather than counted as an edit.
+ */
+export function lockedChanges(
+  user: RoadmapUser | null | undefined,
+  columns: ColumnConfig[],
+  current: Partial<Initiative>,
+  updates: Partial<Initiative>
+): string[] {
+  const byName = new Map(columns.map(col => [col.column_name, col]));
+  const status = updates.Status !== undefined ? updates.Status : current.Status;
+
+  return Object.keys(updates).filter(field => {
+    const column = byName.get(field);
+    if (!column || canEditField(user, column)) return false;
+    if (sameValue(updates[field], current[field])) return false;
+    return !(
+      field === "priority_rank" &&
+      status === "Completed" &&
+      updates.priority_rank == null
+    );
+  });
+}
+
+/**
+ * Locked fields that a new initiative would fill in. The defaults every new
+ * initiative gets and the fields the backend assigns (ID, priority rank,
+ * workspace) do not count.
+ */
+export function lockedFieldsOnCreate(
+  user: RoadmapUser | null | undefined,
+  columns: ColumnConfig[],
+  initiative: Partial<Initiative>
+): string[] {
+  return lockedChanges(
+    user,
+    columns,
+    buildInitiativeInsert({}),
+    buildInitiativeInsert(initiative)
+  );
+}
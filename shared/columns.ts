@@ -0,0 +1,25 @@
+import type { ColumnConfig, ColumnDataType } from "./types/database";
+
+// Custom column names must be valid, unquoted Postgres identifiers
+export const COLUMN_NAME_PATTERN = /^[a-z][a-z0-9_]*$/;
+
+export const COLUMN_NAME_ERROR =
+  "Column name must start with lowercase letter and contain only lowercase letters, numbers, and underscores";
+
+// Map data types to SQL types
+export const SQL_TYPE_MAP: Record<ColumnDataType, string> = {
+  text: "text",
+  integer: "integer",
+  date: "date",
+  boolean: "boolean",
+  numeric: "numeric",
+};
+
+/**
+ * The columns the list shows, in their configured order
+ */
+export function getVisibleColumns(columns: ColumnConfig[]): ColumnConfig[] {
+  return columns
+    .filter(col => col.is_visible)
+    .sort((a, b) => a.sort_order - b.sort_order);
+}
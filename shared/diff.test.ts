@@ -0,0 +1,108 @@
+import { describe, expect, it } from "vitest";
+import { diffRoadmaps, roadmapDiffToMarkdown } from "./diff";
+import type { ColumnConfig, Initiative } from "./types/database";
+
+const initiative = (ID: number, fields: Partial<Initiative> = {}) =>
+  ({
+    ID,
+    Initiative: `Initiative ${ID}`,
+    Product: "Billing",
+    Status: "Active",
+    priority_rank: ID,
+    sort_order: 0,
+    ...fields,
+  }) as Initiative;
+
+describe("diffRoadmaps", () => {
+  it("reports nothing for the same roadmap", () => {
+    const roadmap = [initiative(1), initiative(2)];
+
+    expect(diffRoadmaps(roadmap, structuredClone(roadmap))).toEqual({
+      added: [],
+      removed: [],
+      moved: [],
+      dateSlips: [],
+      rankChanges: [],
+      edits: [],
+    });
+  });
+
+  it("sorts changes into added, removed, moves, slips, ranks and edits", () => {
+    const diff = diffRoadmaps(
+      [
+        initiative(1, { "End Date": "2026-03-01" }),
+        initiative(2),
+        initiative(3, { Priority: "Later" }),
+        initiative(4),
+      ],
+      [
+        initiative(1, { "End Date": "2026-03-15", priority_rank: 2 }),
+        initiative(2, { Status: "Completed", priority_rank: null }),
+        initiative(3, { Priority: "Now", sort_order: 5, priority_rank: 1 }),
+        initiative(5),
+      ]
+    );
+    const ref = (id: number, status = "Active") => ({
+      id,
+      name: `Initiative ${id}`,
+      product: "Billing",
+      status,
+    });
+
+    expect(diff.added).toEqual([ref(5)]);
+    expect(diff.removed).toEqual([ref(4)]);
+    // Status moves do not count as rank changes
+    expect(diff.moved).toEqual([
+      { initiative: ref(2, "Completed"), from: "Active", to: "Completed" },
+    ]);
+    expect(diff.dateSlips).toEqual([
+      {
+        initiative: ref(1),
+        field: "End Date",
+        before: "2026-03-01",
+        after: "2026-03-15",
+        days: 14,
+      },
+    ]);
+    expect(diff.rankChanges).toEqual([
+      { initiative: ref(3), field: "priority_rank", before: 3, after: 1 },
+      { initiative: ref(1), field: "priority_rank", before: 1, after: 2 },
+    ]);
+    // sort_order is left out
+    expect(diff.edits).toEqual([
+      {
+        initiative: ref(3),
+        changes: [{ field: "Priority", before: "Later", after: "Now" }],
+      },
+    ]);
+  });
+
+  it("gives no day count for dates that do not parse", () => {
+    const diff = diffRoadmaps(
+      [initiative(1, { "Quarter Due": "Q1 2026" })],
+      [initiative(1, { "Quarter Due": "Q2 2026" })]
+    );
+
+    expect(diff.dateSlips[0].days).toBeNull();
+  });
+});
+
+describe("roadmapDiffToMarkdown", () => {
+  it("uses display names and escapes table cells", () => {
+    const diff = diffRoadmaps(
+      [initiative(1, { Initiative: "A | B", "End Date": "2026-03-10" })],
+      [initiative(1, { Initiative: "A | B", "End Date": "2026-03-01" })]
+    );
+    const columns = [
+      { column_name: "End Date", display_name: "Finish" },
+    ] as ColumnConfig[];
+
+    const markdown = roadmapDiffToMarkdown(diff, "Q1 plan", "Live", columns);
+
+    expect(markdown).toContain("# What changed: Q1 plan → Live");
+    expect(markdown).toContain(
+      "| A \\| B (#1) | Finish | 2026-03-10 | 2026-03-01 (-9 days) |"
+    );
+    expect(markdown).toContain("## Added (0)\n\nNone.");
+  });
+});
@@ -0,0 +1,257 @@
+import { diffInitiatives, type FieldChange } from "./audit";
+import { ONE_DAY_MS } from "./const";
+import type { RoadmapStorage } from "./storage/types";
+import type { ColumnConfig, Initiative } from "./types/database";
+
+/**
+ * Differences between two states of a roadmap, e.g. a snapshot and the live
+ * initiatives. Rows are matched by ID, and both sides are expected to leave
+ * out the trash.
+ */
+
+// The live roadmap, as opposed to a snapshot ID
+export const LIVE_STATE = "live";
+
+export const DATE_FIELDS = ["Start Date", "End Date", "Quarter Due"];
+
+// Bookkeeping, and ordering that priority rank changes already cover
+const IGNORED_FIELDS = [
+  "sort_order",
+  "updated_at",
+  "deleted_at",
+  "workspace_id",
+];
+
+export interface RoadmapState {
+  label: string;
+  initiatives: Initiative[];
+  columns: ColumnConfig[];
+}
+
+export interface DiffInitiative {
+  id: number;
+  name: string;
+  product: string | null;
+  status: string | null;
+}
+
+export interface StatusMove {
+  initiative: DiffInitiative;
+  from: string | null;
+  to: string | null;
+}
+
+export interface DateSlip {
+  initiative: DiffInitiative;
+  field: string;
+  before: string | null;
+  after: string | null;
+  // Positive when the date moved later; null unless both sides are dates
+  days: number | null;
+}
+
+export interface RankChange {
+  initiative: DiffInitiative;
+  before: number | null;
+  after: number | null;
+}
+
+export interface FieldEdits {
+  initiative: DiffInitiative;
+  changes: FieldChange[];
+}
+
+export interface RoadmapDiff {
+  added: DiffInitiative[];
+  removed: DiffInitiative[];
+  moved: StatusMove[];
+  dateSlips: DateSlip[];
+  rankChanges: RankChange[];
+  edits: FieldEdits[];
+}
+
+function describe(initiative: Initiative): DiffInitiative {
+  return {
+    id: initiative.ID,
+    name: initiative.Initiative || "Untitled",
+    product: initiative.Product ?? null,
+    status: initiative.Status ?? null,
+  };
+}
+
+function daysBetween(before: string | null, after: string | null) {
+  const from = before ? Date.parse(before) : NaN;
+  const to = after ? Date.parse(after) : NaN;
+  if (Number.isNaN(from) || Number.isNaN(to)) return null;
+  return Math.round((to - from) / ONE_DAY_MS);
+}
+
+/**
+ * Lists initiatives added, removed and moved between statuses, date slips,
+ * priority rank changes within a status, and every other field edit
+ */
+export function diffRoadmaps(
+  before: Initiative[],
+  after: Initiative[]
+): RoadmapDiff {
+  const diff: RoadmapDiff = {
+    added: [],
+    removed: [],
+    moved: [],
+    dateSlips: [],
+    rankChanges: [],
+    edits: [],
+  };
+  const previous = new Map(before.map(init => [init.ID, init]));
+  const current = new Set(after.map(init => init.ID));
+
+  before
+    .filter(init => !current.has(init.ID))
+    .forEach(init => diff.removed.push(describe(init)));
+
+  after.forEach(init => {
+    const old = previous.get(init.ID);
+    const initiative = describe(init);
+    if (!old) {
+      diff.added.push(initiative);
+      return;
+    }
+
+    const edits: FieldChange[] = [];
+    diffInitiatives(old, init).forEach(change => {
+      if (IGNORED_FIELDS.includes(change.field)) return;
+
+      if (change.field === "Status") {
+        diff.moved.push({ initiative, from: change.before, to: change.after });
+      } else if (DATE_FIELDS.includes(change.field)) {
+        diff.dateSlips.push({
+          initiative,
+          ...change,
+          days: daysBetween(change.before, change.after),
+        });
+      } else if (change.field === "priority_rank") {
+        // Ranks only compare within the same status
+        if (old.Status === init.Status) {
+          diff.rankChanges.push({ initiative, ...change });
+        }
+      } else {
+        edits.push(change);
+      }
+    });
+    if (edits.length > 0) {
+      diff.edits.push({ initiative, changes: edits });
+    }
+  });
+
+  diff.rankChanges.sort(
+    (a, b) =>
+      (a.initiative.status ?? "").localeCompare(b.initiative.status ?? "") ||
+      (a.after ?? Infinity) - (b.after ?? Infinity)
+  );
+  return diff;
+}
+
+/**
+ * The live roadmap or a snapshot of the storage's workspace, without the
+ * trash. Returns null for an unknown snapshot.
+ */
+export async function loadRoadmapState(
+  storage: RoadmapStorage,
+  source: string
+): Promise<RoadmapState | null> {
+  if (source === LIVE_STATE) {
+    const [initiatives, columns] = await Promise.all([
+      storage.listInitiatives({ status: "All" }),
+      storage.listColumns(),
+    ]);
+    return { label: "Live roadmap", initiatives, columns };
+  }
+
+  const snapshot = await storage.getSnapshot(source);
+  if (!snapshot) return null;
+  return {
+    label: snapshot.name,
+    initiatives: snapshot.initiatives,
+    columns: snapshot.columns,
+  };
+}
+
+const formatValue = (value: any) =>
+  value === null || value === undefined || value === "" ? "—" : String(value);
+
+// Keeps user text from breaking the table
+const cell = (value: any) =>
+  formatValue(value).replace(/\|/g, "\\|").replace(/\r?\n/g, " ");
+
+const formatDays = (days: number | null) =>
+  days === null ? "" : ` (${days > 0 ? "+" : ""}${days} days)`;
+
+/**
+ * The diff as a Markdown report. Field names are shown with the display
+ * names from `columns` where there is one.
+ */
+export function roadmapDiffToMarkdown(
+  diff: RoadmapDiff,
+  from: string,
+  to: string,
+  columns: ColumnConfig[] = []
+): string {
+  const names = new Map(columns.map(c => [c.column_name, c.display_name]));
+  const label = (field: string) => names.get(field) ?? field;
+  const name = (init: DiffInitiative) => `${cell(init.name)} (#${init.id})`;
+  const lines = [`# What changed: ${from} → ${to}`, ""];
+
+  const section = (title: string, count: number, rows: string[]) => {
+    lines.push(`## ${title} (${count})`, "");
+    lines.push(...(count === 0 ? ["None."] : rows), "");
+  };
+
+  section(
+    "Added",
+    diff.added.length,
+    diff.added.map(
+      init => `- ${name(init)}, ${cell(init.status)}, ${cell(init.product)}`
+    )
+  );
+  section(
+    "Removed",
+    diff.removed.length,
+    diff.removed.map(init => `- ${name(init)}, was ${cell(init.status)}`)
+  );
+  section(
+    "Moved between statuses",
+    diff.moved.length,
+    diff.moved.map(
+      move =>
+        `- ${name(move.initiative)}: ${cell(move.from)} → ${cell(move.to)}`
+    )
+  );
+  section("Date slips", diff.dateSlips.length, [
+    "| Initiative | Field | Before | After |",
+    "| --- | --- | --- | --- |",
+    ...diff.dateSlips.map(
+      slip =>
+        `| ${name(slip.initiative)} | ${cell(label(slip.field))} | ${cell(slip.before)} | ${cell(slip.after)}${formatDays(slip.days)} |`
+    ),
+  ]);
+  section("Priority rank changes", diff.rankChanges.length, [
+    "| Initiative | Status | Before | After |",
+    "| --- | --- | --- | --- |",
+    ...diff.rankChanges.map(
+      change =>
+        `| ${name(change.initiative)} | ${cell(change.initiative.status)} | ${cell(change.before)} | ${cell(change.after)} |`
+    ),
+  ]);
+  section("Field edits", diff.edits.length, [
+    "| Initiative | Field | Before | After |",
+    "| --- | --- | --- | --- |",
+    ...diff.edits.flatMap(edit =>
+      edit.changes.map(
+        change =>
+          `| ${name(edit.initiative)} | ${cell(label(change.field))} | ${cell(change.before)} | ${cell(change.after)} |`
+      )
+    ),
+  ]);
+
+  return lines.join("\n");
+}
@@ -0,0 +1,95 @@
+import { describe, expect, it } from "vitest";
+import {
+  applyEmbedFilter,
+  badgeMessage,
+  countBadge,
+  parseEmbedFilter,
+  renderBadge,
+  sharesField,
+  unsharedFilterFields,
+} from "./embeds";
+import type { ColumnConfig, Initiative, SharedRoadmap } from "./types/database";
+
+const roadmap = (...columns: string[]): SharedRoadmap => ({
+  name: "Partners",
+  view: "list",
+  title: "Roadmap",
+  logo_url: null,
+  expires_at: null,
+  columns: columns.map(column_name => ({ column_name }) as ColumnConfig),
+  initiatives: [],
+});
+
+const initiatives = [
+  { ID: 1, Status: "Active", Product: "Billing" },
+  { ID: 2, Status: "Active", Product: "Search" },
+  { ID: 3, Status: "Backlog", Product: "Billing" },
+] as Initiative[];
+
+describe("parseEmbedFilter", () => {
+  it("splits comma-separated lists and ignores empty ones", () => {
+    expect(
+      parseEmbedFilter({ product: " Billing, Search ,", status: "" })
+    ).toEqual({ products: ["Billing", "Search"], statuses: null });
+    expect(parseEmbedFilter({ product: ["Billing"] }).products).toBeNull();
+  });
+});
+
+describe("applyEmbedFilter", () => {
+  it("narrows by product and status", () => {
+    const ids = (filter: Parameters<typeof applyEmbedFilter>[1]) =>
+      applyEmbedFilter(initiatives, filter).map(init => init.ID);
+
+    expect(ids({ products: null, statuses: null })).toEqual([1, 2, 3]);
+    expect(ids({ products: ["Billing"], statuses: null })).toEqual([1, 3]);
+    expect(ids({ products: ["Billing"], statuses: ["Active"] })).toEqual([1]);
+  });
+});
+
+describe("unsharedFilterFields", () => {
+  it("reports filters on columns the link leaves out", () => {
+    const filter = { products: ["Billing"], statuses: ["Active"] };
+
+    expect(sharesField(roadmap(), "Status")).toBe(true);
+    expect(unsharedFilterFields(roadmap(), filter)).toEqual(["Product"]);
+    expect(unsharedFilterFields(roadmap("Product"), filter)).toEqual([]);
+    expect(
+      unsharedFilterFields(roadmap(), { products: null, statuses: null })
+    ).toEqual([]);
+  });
+});
+
+describe("countBadge", () => {
+  const now = new Date(2026, 4, 15);
+  const dated = [
+    { ...initiatives[0], "Production Live Date": "2026-04-02" },
+    { ...initiatives[1], "Production Live Date": "2026-07-01" },
+    { ...initiatives[2], "Production Live Date": "not a date" },
+  ] as Initiative[];
+
+  it("counts live dates in the current quarter when the link shares them", () => {
+    const counts = countBadge(roadmap("Production Live Date"), dated, now);
+
+    expect(counts).toEqual({ active: 2, live: 1 });
+    expect(badgeMessage(counts)).toBe("2 active / 1 live this quarter");
+  });
+
+  it("leaves live dates out when the link does not share them", () => {
+    const counts = countBadge(roadmap(), dated, now);
+
+    expect(counts).toEqual({ active: 2, live: null });
+    expect(badgeMessage(counts)).toBe("2 active");
+  });
+});
+
+describe("renderBadge", () => {
+  it("escapes the label and message", () => {
+    const svg = renderBadge("R&D <roadmap>", `"3" active`);
+
+    expect(svg).toContain(
+      "<title>R&amp;D &lt;roadmap&gt;: &quot;3&quot; active</title>"
+    );
+    expect(svg).not.toContain("<roadmap>");
+    expect(svg).toContain('fill="#2563eb"');
+  });
+});
@@ -0,0 +1,168 @@
+import { SHARE_LINK_FIELDS } from "./shareLinks";
+import type { Initiative, SharedRoadmap } from "./types/database";
+
+/**
+ * Embeds put part of a share link's roadmap into wikis and dashboards: the
+ * /embed/<token> page for iframes and an SVG status badge for images. The
+ * share link is the credential, so an embed never shows more than the link
+ * shares; the filters here only narrow it further.
+ */
+
+export const EMBED_VIEWS = ["list", "timeline"] as const;
+
+export type EmbedView = (typeof EMBED_VIEWS)[number];
+
+export interface EmbedFilter {
+  // null: no filter
+  products: string[] | null;
+  statuses: string[] | null;
+}
+
+export interface BadgeCounts {
+  active: number;
+  // Production Live Date in the current quarter; null when the link does not
+  // share that column
+  live: number | null;
+}
+
+const LIVE_DATE_FIELD = "Production Live Date";
+
+const listParam = (value: unknown): string[] | null => {
+  const items =
+    typeof value === "string"
+      ? value
+          .split(",")
+          .map(item => item.trim())
+          .filter(Boolean)
+      : [];
+  return items.length > 0 ? items : null;
+};
+
+/**
+ * Reads the comma-separated `product` and `status` query parameters
+ */
+export function parseEmbedFilter(query: {
+  product?: unknown;
+  status?: unknown;
+}): EmbedFilter {
+  return {
+    products: listParam(query.product),
+    statuses: listParam(query.status),
+  };
+}
+
+/**
+ * Whether the link's roadmap carries a field: the always-shared ones or one
+ * of the link's columns
+ */
+export function sharesField(roadmap: SharedRoadmap, field: string) {
+  return (
+    SHARE_LINK_FIELDS.includes(field) ||
+    roadmap.columns.some(col => col.column_name === field)
+  );
+}
+
+/**
+ * Fields the filter narrows by that the link does not share. Filtering on
+ * one would match nothing and look like an empty roadmap, so embeds report
+ * it instead.
+ */
+export function unsharedFilterFields(
+  roadmap: SharedRoadmap,
+  filter: EmbedFilter
+): string[] {
+  return [filter.products && "Product", filter.statuses && "Status"].filter(
+    (field): field is string => !!field && !sharesField(roadmap, field)
+  );
+}
+
+export function applyEmbedFilter(
+  initiatives: Initiative[],
+  filter: EmbedFilter
+): Initiative[] {
+  return initiatives.filter(
+    init =>
+      (!filter.products || filter.products.includes(init.Product ?? "")) &&
+      (!filter.statuses || filter.statuses.includes(init.Status ?? ""))
+  );
+}
+
+const quarterOf = (date: Date) =>
+  date.getFullYear() * 4 + Math.floor(date.getMonth() / 3);
+
+/**
+ * Active initiatives, and those going live this quarter. Live dates are only
+ * counted when the link shares Production Live Date.
+ */
+export function countBadge(
+  roadmap: SharedRoadmap,
+  initiatives: Initiative[],
+  now = new Date()
+): BadgeCounts {
+  const active = initiatives.filter(init => init.Status === "Active").length;
+  if (!sharesField(roadmap, LIVE_DATE_FIELD)) {
+    return { active, live: null };
+  }
+
+  return {
+    active,
+    live: initiatives.filter(init => {
+      const live = init[LIVE_DATE_FIELD];
+      const date = live ? new Date(live) : null;
+      return (
+        !!date &&
+        !Number.isNaN(date.getTime()) &&
+        quarterOf(date) === quarterOf(now)
+      );
+    }).length,
+  };
+}
+
+export function badgeMessage(counts: BadgeCounts): string {
+  return counts.live === null
+    ? `${counts.active} active`
+    : `${counts.active} active / ${counts.live} live this quarter`;
+}
+
+const XML_ESCAPES: Record<string, string> = {
+  "<": "&lt;",
+  ">": "&gt;",
+  "&": "&amp;",
+  '"': "&quot;",
+  "'": "&apos;",
+};
+
+const escapeXml = (text: string) =>
+  text.replace(/[<>&"']/g, char => XML_ESCAPES[char]);
+
+// Close enough to Verdana 11px to size the badge without measuring text
+const textWidth = (text: string) => Math.round(text.length * 6.5) + 10;
+
+/**
+ * A flat two-part badge, label on grey and message on `color`
+ */
+export function renderBadge(
+  label: string,
+  message: string,
+  color = "#2563eb"
+): string {
+  const labelWidth = textWidth(label);
+  const messageWidth = textWidth(message);
+  const width = labelWidth + messageWidth;
+  const title = escapeXml(`${label}: ${message}`);
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="20" role="img" aria-label="${title}">`,
+    `<title>${title}</title>`,
+    `<clipPath id="r"><rect width="${width}" height="20" rx="3"/></clipPath>`,
+    `<g clip-path="url(#r)">`,
+    `<rect width="${labelWidth}" height="20" fill="#555"/>`,
+    `<rect x="${labelWidth}" width="${messageWidth}" height="20" fill="${color}"/>`,
+    `</g>`,
+    `<g fill="#fff" text-anchor="middle" font-family="Verdana,Geneva,DejaVu Sans,sans-serif" font-size="11">`,
+    `<text x="${labelWidth / 2}" y="14">${escapeXml(label)}</text>`,
+    `<text x="${labelWidth + messageWidth / 2}" y="14">${escapeXml(message)}</text>`,
+    `</g>`,
+    `</svg>`,
+  ].join("");
+}
@@ -0,0 +1,138 @@
+import * as XLSX from "xlsx";
+import { describe, expect, it } from "vitest";
+import { diffInitiatives } from "./audit";
+import {
+  buildFormattedWorkbook,
+  cleanNewRowData,
+  cleanRowData,
+  planImport,
+  readExportMetadata,
+  readImportRows,
+  validateImportData,
+} from "./exportImport";
+import { createMemoryStorage } from "./storage/memory";
+
+describe("cleanRowData", () => {
+  it("turns TRUE/FALSE text into booleans for boolean columns", () => {
+    const columns = [{ column_name: "is_billable", data_type: "boolean" }];
+
+    expect(
+      cleanRowData(
+        {
+          ID: "1",
+          is_public: "FALSE",
+          is_billable: "true",
+          Initiative: "TRUE",
+        },
+        columns as any
+      )
+    ).toEqual({ is_public: false, is_billable: true, Initiative: "TRUE" });
+  });
+
+  it("leaves blank and unreadable booleans empty", () => {
+    expect(cleanRowData({ ID: 1, is_public: "" }).is_public).toBeNull();
+    expect(cleanRowData({ ID: 1, is_public: "maybe" }).is_public).toBeNull();
+  });
+
+  it("normalizes dates and known numeric columns", () => {
+    expect(
+      cleanRowData({
+        ID: 1,
+        "Production Live Date": "2026-03-04T00:00:00Z",
+        est_hours_story_points: "8",
+        sort_order: "x",
+      })
+    ).toEqual({
+      "Production Live Date": "2026-03-04",
+      est_hours_story_points: 8,
+      sort_order: null,
+    });
+  });
+});
+
+describe("cleanNewRowData", () => {
+  it("drops the fields the backend assigns", () => {
+    expect(
+      cleanNewRowData({
+        ID: 7,
+        Initiative: "New",
+        priority_rank: "3",
+        workspace_id: "other",
+        updated_at: "2026-01-01T00:00:00Z",
+        deleted_at: null,
+      })
+    ).toEqual({ Initiative: "New" });
+  });
+});
+
+describe("planImport", () => {
+  const rows = [{ ID: 1 }, { ID: 2 }, { ID: 99 }, { ID: "" }];
+  const existing = new Set([1]);
+  const trashed = new Set([2]);
+
+  it.each([
+    ["update", [{ ID: 1 }], [], [{ ID: 99 }, { ID: "" }]],
+    ["create", [], [{ ID: 99 }, { ID: "" }], [{ ID: 1 }]],
+    ["upsert", [{ ID: 1 }], [{ ID: 99 }, { ID: "" }], []],
+  ] as const)("sorts rows in %s mode", (mode, update, create, skip) => {
+    expect(planImport(rows, existing, trashed, mode)).toEqual({
+      update,
+      create,
+      skip,
+      trashed: [{ ID: 2 }],
+    });
+  });
+});
+
+describe("validateImportData", () => {
+  it("requires the ID column only in update mode", () => {
+    const rows = [{ Initiative: "No ID" }];
+    expect(validateImportData(rows, "update").isValid).toBe(false);
+    expect(validateImportData(rows, "create").isValid).toBe(true);
+  });
+});
+
+describe("formatted workbook round trip", () => {
+  it("imports an unchanged export without changing anything", async () => {
+    const storage = createMemoryStorage();
+    await storage.updateInitiative(1, { is_public: true });
+    await storage.updateInitiative(2, { is_public: false });
+
+    const [before, columns] = await Promise.all([
+      storage.listInitiatives(),
+      storage.listColumns(),
+    ]);
+    const exportedAt = new Date("2026-05-01T12:00:00Z");
+    const workbook = XLSX.read(
+      await buildFormattedWorkbook(before, columns, exportedAt),
+      { type: "array" }
+    );
+
+    expect(readExportMetadata(workbook)?.exportedAt).toBe(
+      exportedAt.toISOString()
+    );
+
+    const rows = readImportRows(workbook);
+    expect(rows.map(row => Number(row.ID)).sort()).toEqual(
+      before.map(init => init.ID).sort()
+    );
+
+    for (const row of rows) {
+      const updates = cleanRowData(row, columns);
+      const current = before.find(init => init.ID === Number(row.ID))!;
+      const picked = Object.fromEntries(
+        Object.keys(updates).map(field => [field, current[field] ?? null])
+      );
+      expect(diffInitiatives(picked as any, { ...picked, ...updates })).toEqual(
+        []
+      );
+      await storage.updateInitiative(Number(row.ID), updates);
+    }
+
+    const after = await storage.listInitiatives();
+    expect(after.filter(init => init.is_public).map(init => init.ID)).toEqual([
+      1,
+    ]);
+    expect(after.find(init => init.ID === 2)?.is_public).toBe(false);
+  });
+});
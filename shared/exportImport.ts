@@ -0,0 +1,558 @@
+import type * as ExcelJS from "exceljs";
+import * as XLSX from "xlsx";
+import { ASSIGNED_ON_CREATE } from "./initiatives";
+import {
+  ACTUAL_STATUS_OPTIONS,
+  DEV_STATUS_OPTIONS,
+  PRIORITY_OPTIONS,
+  QUARTER_OPTIONS,
+  RISK_LEVEL_OPTIONS,
+  type ColumnConfig,
+  type Initiative,
+} from "./types/database";
+
+/**
+ * Spreadsheet export and import shared by the web app and the roadmap CLI.
+ * Reading and writing files is left to each of them.
+ */
+
+// Hidden sheets of the formatted workbook
+export const METADATA_SHEET = "Export Info";
+export const OPTIONS_SHEET = "Options";
+
+// Columns with a fixed set of values, which get a dropdown in the workbook
+const DROPDOWN_FIELDS: Record<string, readonly string[]> = {
+  Status: ACTUAL_STATUS_OPTIONS,
+  Priority: PRIORITY_OPTIONS,
+  "Quarter Due": QUARTER_OPTIONS,
+  "Product Dev Status": DEV_STATUS_OPTIONS,
+  risk_level: RISK_LEVEL_OPTIONS,
+};
+
+// Rows below the data that still get dropdowns, for rows added offline
+const EXTRA_DROPDOWN_ROWS = 100;
+const MAX_COLUMN_WIDTH = 30;
+const HEADER_FILL = "FFF3F4F6";
+
+/**
+ * What the formatted workbook records about its export, so an import can
+ * tell when the file has gone stale
+ */
+export interface ExportMetadata {
+  exportedAt: string;
+  columns: Pick<
+    ColumnConfig,
+    "column_name" | "display_name" | "data_type" | "is_visible" | "sort_order"
+  >[];
+}
+
+// What an import does with rows that match an initiative by ID and rows
+// that do not (a blank or unknown ID)
+export const IMPORT_MODES = ["update", "create", "upsert"] as const;
+export type ImportMode = (typeof IMPORT_MODES)[number];
+
+// Set by the backend or the trash, never copied into a new initiative
+const NOT_IMPORTED_ON_CREATE = ["updated_at", "deleted_at"];
+
+/**
+ * Import rows sorted by what the mode does with them
+ */
+export interface ImportPlan {
+  create: any[];
+  update: any[];
+  skip: any[];
+  // Rows whose ID belongs to an initiative in the trash. They are neither
+  // updated nor created again under a new ID; restore the initiative first.
+  trashed: any[];
+}
+
+// Formats for exporting the current view
+export const VIEW_EXPORT_FORMATS = ["xlsx", "csv", "json"] as const;
+export type ViewExportFormat = (typeof VIEW_EXPORT_FORMATS)[number];
+
+/**
+ * Builds the export workbook: one "Roadmap" sheet with every field of the
+ * given rows, including custom columns
+ */
+export function buildExportWorkbook(
+  data: Record<string, unknown>[]
+): XLSX.WorkBook {
+  // Convert to worksheet
+  const worksheet = XLSX.utils.json_to_sheet(data);
+
+  // Set column widths
+  const maxWidth = 30;
+  const columnWidths = Object.keys(data[0] || {}).map(key => {
+    const maxLength = Math.max(
+      key.length,
+      ...data.map((row: any) => String(row[key] || "").length)
+    );
+    return { wch: Math.min(maxLength + 2, maxWidth) };
+  });
+  worksheet["!cols"] = columnWidths;
+
+  // Create workbook
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, worksheet, "Roadmap");
+  return workbook;
+}
+
+/**
+ * Rows as the list shows them: only the given columns, in their order,
+ * keyed by display name
+ */
+export function buildViewRows(
+  data: Initiative[],
+  columns: ColumnConfig[]
+): Record<string, unknown>[] {
+  return data.map(init =>
+    Object.fromEntries(
+      columns.map(col => [col.display_name, init[col.column_name] ?? null])
+    )
+  );
+}
+
+// Same rule as the list view's date formatting
+const isDateField = (field: string, columns: ColumnConfig[]) =>
+  field.includes("Date") ||
+  columns.some(col => col.column_name === field && col.data_type === "date");
+
+// YYYY-MM-DD values become date cells; anything else stays as it is
+function toDateCell(value: unknown): unknown {
+  if (typeof value !== "string" || !/^\d{4}-\d{2}-\d{2}/.test(value)) {
+    return value;
+  }
+  const date = new Date(`${value.slice(0, 10)}T00:00:00Z`);
+  return isNaN(date.getTime()) ? value : date;
+}
+
+// Untyped in exceljs, but how ranges of cells get a validation
+type WorksheetWithValidations = ExcelJS.Worksheet & {
+  dataValidations: {
+    add(address: string, validation: ExcelJS.DataValidation): void;
+  };
+};
+
+// "Options!$A$2:$A$4", for a dropdown's list
+function optionsRange(column: number, count: number) {
+  const letter = String.fromCharCode(65 + column);
+  return `${OPTIONS_SHEET}!$${letter}$2:$${letter}$${count + 1}`;
+}
+
+/**
+ * Builds the workbook for editing offline: one sheet per Status with every
+ * field, frozen headers, date cells and dropdowns for the fields with fixed
+ * options. Hidden sheets hold the dropdown options and the export metadata.
+ */
+export async function buildFormattedWorkbook(
+  data: Initiative[],
+  columns: ColumnConfig[],
+  exportedAt = new Date()
+): Promise<ArrayBuffer> {
+  // A CommonJS module in Node and a UMD bundle in the browser, so the
+  // classes are on the default export in both
+  const imported: any = await import("exceljs");
+  const { Workbook }: typeof ExcelJS = imported.default ?? imported;
+
+  const workbook = new Workbook();
+  workbook.created = exportedAt;
+
+  const fields = Array.from(
+    new Set(
+      data.length > 0
+        ? data.flatMap(row => Object.keys(row))
+        : ["ID", ...columns.map(col => col.column_name)]
+    )
+  );
+  const dropdowns = Object.keys(DROPDOWN_FIELDS);
+
+  // Every Status gets a sheet, even when empty, so rows can be added to it
+  const sheets: [string, Initiative[]][] = ACTUAL_STATUS_OPTIONS.map(status => [
+    status,
+    data.filter(row => row.Status === status),
+  ]);
+  const other = data.filter(
+    row => !ACTUAL_STATUS_OPTIONS.includes(row.Status as any)
+  );
+  if (other.length > 0) {
+    sheets.push(["Other", other]);
+  }
+
+  sheets.forEach(([name, rows]) => {
+    const sheet = workbook.addWorksheet(name, {
+      views: [{ state: "frozen", ySplit: 1 }],
+    });
+    sheet.columns = fields.map(field => ({
+      header: field,
+      key: field,
+      width: Math.min(
+        Math.max(
+          field.length,
+          ...rows.map(row => String(row[field] ?? "").length)
+        ) + 2,
+        MAX_COLUMN_WIDTH
+      ),
+      style: isDateField(field, columns) ? { numFmt: "yyyy-mm-dd" } : {},
+    }));
+
+    const header = sheet.getRow(1);
+    header.font = { bold: true };
+    header.fill = {
+      type: "pattern",
+      pattern: "solid",
+      fgColor: { argb: HEADER_FILL },
+    };
+
+    rows.forEach(row => {
+      sheet.addRow(
+        Object.fromEntries(
+          fields.map(field => [
+            field,
+            isDateField(field, columns)
+              ? toDateCell(row[field])
+              : (row[field] ?? null),
+          ])
+        )
+      );
+    });
+
+    fields.forEach((field, i) => {
+      const option = dropdowns.indexOf(field);
+      if (option === -1) return;
+      const validation: ExcelJS.DataValidation = {
+        type: "list",
+        allowBlank: true,
+        formulae: [optionsRange(option, DROPDOWN_FIELDS[field].length)],
+        showErrorMessage: true,
+        errorStyle: "warning",
+        errorTitle: field,
+        error: `${field} is usually one of the listed options`,
+      };
+      // One range per column: exceljs merges per-cell validations into
+      // overlapping ranges, which Excel reports as corrupt
+      const letter = sheet.getColumn(i + 1).letter;
+      (sheet as WorksheetWithValidations).dataValidations.add(
+        `${letter}2:${letter}${rows.length + 1 + EXTRA_DROPDOWN_ROWS}`,
+        validation
+      );
+    });
+  });
+
+  const options = workbook.addWorksheet(OPTIONS_SHEET, { state: "hidden" });
+  dropdowns.forEach((field, i) => {
+    options.getColumn(i + 1).values = [field, ...DROPDOWN_FIELDS[field]];
+  });
+
+  const metadata = workbook.addWorksheet(METADATA_SHEET, { state: "hidden" });
+  metadata.addRows([
+    ["Exported At", exportedAt.toISOString()],
+    [],
+    ["Column", "Display Name", "Data Type", "Visible", "Sort Order"],
+    ...columns.map(col => [
+      col.column_name,
+      col.display_name,
+      col.data_type,
+      col.is_visible,
+      col.sort_order,
+    ]),
+  ]);
+
+  return workbook.xlsx.writeBuffer();
+}
+
+/**
+ * Rows of an import file, keyed by column header. Every visible sheet with an
+ * ID column is read, so the per-Status sheets of the formatted workbook come
+ * back together; other workbooks are read from their first sheet.
+ */
+export function readImportRows(workbook: XLSX.WorkBook): any[] {
+  const readSheet = (name: string): any[] =>
+    XLSX.utils.sheet_to_json(workbook.Sheets[name], {
+      raw: false, // Keep dates as strings for parsing
+      defval: null, // Use null for empty cells
+    });
+
+  const sheets = workbook.SheetNames.filter(
+    (name, i) => !workbook.Workbook?.Sheets?.[i]?.Hidden
+  ).map(readSheet);
+  const withIds = sheets.filter(rows => rows.length > 0 && "ID" in rows[0]);
+
+  return withIds.length > 0
+    ? withIds.flat()
+    : readSheet(workbook.SheetNames[0]);
+}
+
+/**
+ * The metadata of a formatted workbook, or null for any other file
+ */
+export function readExportMetadata(
+  workbook: XLSX.WorkBook
+): ExportMetadata | null {
+  const sheet = workbook.Sheets[METADATA_SHEET];
+  if (!sheet) return null;
+
+  const rows: any[][] = XLSX.utils.sheet_to_json(sheet, {
+    header: 1,
+    defval: null,
+  });
+  const exportedAt = rows[0]?.[1];
+  if (rows[0]?.[0] !== "Exported At" || !exportedAt) return null;
+
+  const header = rows.findIndex(row => row[0] === "Column");
+  return {
+    exportedAt: String(exportedAt),
+    columns:
+      header === -1
+        ? []
+        : rows
+            .slice(header + 1)
+            .filter(row => row[0])
+            .map(row => ({
+              column_name: String(row[0]),
+              display_name: String(row[1] ?? row[0]),
+              data_type: row[2],
+              is_visible: row[3] === true || row[3] === "TRUE",
+              sort_order: Number(row[4]),
+            })),
+  };
+}
+
+/**
+ * Why an import from an exported workbook may overwrite newer changes:
+ * initiatives edited since the export, and columns added or removed since.
+ * Empty when the file is current.
+ */
+export function staleImportWarnings(
+  metadata: ExportMetadata,
+  rows: any[],
+  current: Initiative[],
+  columns: ColumnConfig[]
+): string[] {
+  const warnings: string[] = [];
+  const exportedAt = new Date(metadata.exportedAt).getTime();
+
+  const ids = new Set(rows.map(row => Number(row.ID)));
+  const edited = current
+    .filter(
+      init =>
+        ids.has(init.ID) &&
+        init.updated_at &&
+        new Date(init.updated_at).getTime() > exportedAt
+    )
+    .map(init => init.ID);
+  if (edited.length > 0) {
+    warnings.push(
+      `${edited.length} initiative${edited.length !== 1 ? "s have" : " has"} changed since this file was exported (IDs ${edited.join(", ")})`
+    );
+  }
+
+  const exported = new Set(metadata.columns.map(col => col.column_name));
+  const names = new Set(columns.map(col => col.column_name));
+  const added = columns.filter(col => !exported.has(col.column_name));
+  const removed = metadata.columns.filter(col => !names.has(col.column_name));
+  if (added.length > 0) {
+    warnings.push(
+      `Columns added since the export: ${added.map(col => col.display_name).join(", ")}`
+    );
+  }
+  if (removed.length > 0) {
+    warnings.push(
+      `Columns removed since the export: ${removed.map(col => col.display_name).join(", ")}`
+    );
+  }
+
+  return warnings;
+}
+
+/**
+ * Validates import data
+ * Only requires ID column, and only to update - accepts any other columns
+ * that exist in the table
+ */
+export function validateImportData(
+  data: any[],
+  mode: ImportMode = "update"
+): {
+  isValid: boolean;
+  errors: string[];
+} {
+  const errors: string[] = [];
+
+  // Check if data is empty
+  if (!data || data.length === 0) {
+    errors.push("File is empty");
+    return { isValid: false, errors };
+  }
+
+  // Check required columns - only ID is required, when updating
+  const requiredColumns = mode === "update" ? ["ID"] : [];
+  const firstRow = data[0];
+
+  for (const col of requiredColumns) {
+    if (!(col in firstRow)) {
+      errors.push(`Missing required column: ${col}`);
+    }
+  }
+
+  // Check for duplicate IDs
+  const ids = data.map(row => row.ID).filter(id => id != null);
+  const uniqueIds = new Set(ids);
+  if (ids.length !== uniqueIds.size) {
+    errors.push("Duplicate IDs found");
+  }
+
+  // Validate data types
+  for (let i = 0; i < data.length; i++) {
+    const row = data[i];
+
+    // ID must be a number
+    if (row.ID != null && isNaN(Number(row.ID))) {
+      errors.push(`Row ${i + 2}: ID must be a number`);
+    }
+
+    // Validate dates - dynamically detect any column with "date" in the name (case-insensitive)
+    for (const col of Object.keys(row)) {
+      if (
+        col.toLowerCase().includes("date") &&
+        row[col] &&
+        !isValidDate(row[col])
+      ) {
+        errors.push(`Row ${i + 2}: ${col} is not a valid date`);
+      }
+    }
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors,
+  };
+}
+
+const hasId = (row: any) =>
+  row.ID !== null && row.ID !== undefined && row.ID !== "";
+
+/**
+ * Decides what happens to each row: rows whose ID exists are updated unless
+ * the mode is "create", the others (blank or unknown ID) become new
+ * initiatives with backend-assigned IDs unless the mode is "update". Rows
+ * whose ID is in the trash are set aside in every mode.
+ */
+export function planImport(
+  rows: any[],
+  existingIds: Set<number>,
+  trashedIds: Set<number>,
+  mode: ImportMode
+): ImportPlan {
+  const plan: ImportPlan = { create: [], update: [], skip: [], trashed: [] };
+  rows.forEach(row => {
+    const exists = hasId(row) && existingIds.has(Number(row.ID));
+    if (hasId(row) && trashedIds.has(Number(row.ID))) {
+      plan.trashed.push(row);
+    } else if (exists) {
+      (mode === "create" ? plan.skip : plan.update).push(row);
+    } else {
+      (mode === "update" ? plan.skip : plan.create).push(row);
+    }
+  });
+  return plan;
+}
+
+// TRUE/FALSE from spreadsheets, true/false from CSV and JSON; anything else
+// is left empty rather than guessed
+function parseBoolean(value: string): boolean | null {
+  const text = value.trim().toLowerCase();
+  if (text === "true") return true;
+  if (text === "false") return false;
+  return null;
+}
+
+/**
+ * Checks if a string is a valid date
+ */
+function isValidDate(dateString: string): boolean {
+  if (!dateString) return true; // Null/empty is valid
+  const date = new Date(dateString);
+  return !isNaN(date.getTime());
+}
+
+/**
+ * Cleans a row for creating an initiative: as for an update, without the
+ * fields the backend sets. The ID, priority rank and workspace are assigned
+ * on insert, so an exported sheet's values for them are dropped here rather
+ * than counted as edits.
+ */
+export function cleanNewRowData(
+  row: any,
+  columns: Pick<ColumnConfig, "column_name" | "data_type">[] = []
+): Partial<Initiative> {
+  const initiative = cleanRowData(row, columns);
+  [...NOT_IMPORTED_ON_CREATE, ...ASSIGNED_ON_CREATE].forEach(
+    field => delete initiative[field]
+  );
+  return initiative;
+}
+
+/**
+ * Cleans row data for database update
+ * Handles ALL columns dynamically, including custom columns. Pass the column
+ * configuration so boolean columns come back as booleans: spreadsheets read
+ * them as the text TRUE/FALSE.
+ */
+export function cleanRowData(
+  row: any,
+  columns: Pick<ColumnConfig, "column_name" | "data_type">[] = []
+): Partial<Initiative> {
+  // Remove ID from updates (it's the WHERE condition)
+  const { ID, ...updates } = row;
+
+  // Convert empty strings to null
+  Object.keys(updates).forEach(key => {
+    if (updates[key] === "" || updates[key] === undefined) {
+      updates[key] = null;
+    }
+  });
+
+  // Parse dates - dynamically detect any column with "date" in the name (case-insensitive)
+  Object.keys(updates).forEach(col => {
+    if (col.toLowerCase().includes("date") && updates[col]) {
+      // Ensure proper date format
+      const date = new Date(updates[col]);
+      if (!isNaN(date.getTime())) {
+        updates[col] = date.toISOString().split("T")[0]; // YYYY-MM-DD
+      } else {
+        updates[col] = null;
+      }
+    }
+  });
+
+  // Parse numbers - only known numeric columns; other values that look
+  // numeric may well be text fields
+  const knownNumberColumns = [
+    "priority_rank",
+    "est_hours_story_points",
+    "sort_order",
+  ];
+  knownNumberColumns.forEach(col => {
+    if (updates[col] != null && updates[col] !== "") {
+      const num = Number(updates[col]);
+      updates[col] = isNaN(num) ? null : num;
+    } else if (updates[col] === "") {
+      updates[col] = null;
+    }
+  });
+
+  // Parse booleans - is_public is not in the column configuration
+  const booleanColumns = [
+    "is_public",
+    ...columns
+      .filter(col => col.data_type === "boolean")
+      .map(col => col.column_name),
+  ];
+  booleanColumns.forEach(col => {
+    if (typeof updates[col] === "string") {
+      updates[col] = parseBoolean(updates[col]);
+    }
+  });
+
+  return updates;
+}
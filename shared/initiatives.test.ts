@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import { cleanInitiativeUpdates, computeOrderUpdates } from "./initiatives";
+import type { Initiative } from "./types/database";
+
+const initiative = (
+  ID: number,
+  Status: string,
+  sort_order: number,
+  priority_rank: number | null
+) => ({ ID, Status, sort_order, priority_rank }) as Initiative;
+
+describe("computeOrderUpdates", () => {
+  it("returns only the rows whose position changes", () => {
+    // Initiative 3 dragged to the top
+    const updates = computeOrderUpdates([
+      initiative(3, "Active", 2, 3),
+      initiative(1, "Active", 0, 1),
+      initiative(2, "Active", 1, 2),
+      initiative(4, "Active", 3, 4),
+    ]);
+
+    expect(updates).toEqual([
+      { ID: 3, sort_order: 0, priority_rank: 1 },
+      { ID: 1, sort_order: 1, priority_rank: 2 },
+      { ID: 2, sort_order: 2, priority_rank: 3 },
+    ]);
+  });
+
+  it("skips Completed initiatives when ranking", () => {
+    const updates = computeOrderUpdates([
+      initiative(1, "Active", 0, 1),
+      initiative(2, "Completed", 1, 2),
+      initiative(3, "Active", 2, 2),
+    ]);
+
+    expect(updates).toEqual([{ ID: 2, sort_order: 1, priority_rank: null }]);
+  });
+
+  it("returns nothing for an unchanged order", () => {
+    expect(
+      computeOrderUpdates([
+        initiative(1, "Active", 0, 1),
+        initiative(2, "Active", 1, 2),
+      ])
+    ).toEqual([]);
+  });
+});
+
+describe("cleanInitiativeUpdates", () => {
+  it("clears empty values and drops fields callers may not set", () => {
+    expect(
+      cleanInitiativeUpdates({
+        Priority: "",
+        Product: "Billing",
+        workspace_id: "other",
+        deleted_at: "2026-01-01T00:00:00Z",
+      })
+    ).toEqual({ Priority: null, Product: "Billing" });
+  });
+
+  it("unranks initiatives moved to Completed", () => {
+    expect(
+      cleanInitiativeUpdates({ Status: "Completed", priority_rank: 3 })
+    ).toEqual({ Status: "Completed", priority_rank: null });
+  });
+});
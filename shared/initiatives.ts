@@ -0,0 +1,307 @@
+import { ONE_DAY_MS } from "./const";
+import type { Initiative, TabStatus } from "./types/database";
+
+/**
+ * Business rules for roadmap initiatives, shared by the browser hooks and the
+ * Express API so both write the same shape of data to roadmap_fields.
+ */
+
+// Text columns matched by the search box (case-insensitive, partial match)
+export const SEARCHABLE_FIELDS = [
+  "Initiative",
+  "Objective",
+  "Notes",
+  "requested_by",
+  "engineer_assigned",
+  "dependencies",
+  "tags_labels",
+  "epic_theme",
+  "customer_impact",
+  "team",
+] as const;
+
+// Maintained by the database, never written by clients
+const BOOKKEEPING_FIELDS = ["updated_at"];
+
+// Defaults applied when a new initiative is created without these fields
+export const INITIATIVE_DEFAULTS = {
+  Product: "Order Management",
+  Status: "Active",
+  Priority: "Build Now",
+  "Quarter Due": "Q1 2026",
+  Initiative: "New Initiative",
+} as const;
+
+export interface InitiativeQuery {
+  status?: TabStatus;
+  product?: string;
+  search?: string;
+  // 'sort_order' matches the list views, 'priority_rank' the Gantt chart.
+  // The trash is always ordered by most recently deleted.
+  orderBy?: "sort_order" | "priority_rank";
+}
+
+/**
+ * Builds the PostgREST `or` filter used for the search box
+ */
+export function buildSearchFilter(searchTerm: string): string {
+  return SEARCHABLE_FIELDS.map(field => `${field}.ilike.%${searchTerm}%`).join(
+    ","
+  );
+}
+
+/**
+ * Normalizes an update payload before it is written:
+ * empty strings become null, completed initiatives lose their priority_rank
+ * and bookkeeping fields such as updated_at, the workspace and deleted_at
+ * are dropped
+ */
+export function cleanInitiativeUpdates(
+  updates: Partial<Initiative>
+): Partial<Initiative> {
+  const cleanedUpdates: Partial<Initiative> = {};
+  Object.keys(updates).forEach(key => {
+    const value = updates[key as keyof Initiative];
+    cleanedUpdates[key as keyof Initiative] =
+      value === "" || value === undefined ? null : value;
+  });
+  BOOKKEEPING_FIELDS.forEach(field => delete cleanedUpdates[field]);
+  // Only moving an initiative changes its workspace
+  delete cleanedUpdates.workspace_id;
+  // Only the trash and restore operations (admins) change deleted_at
+  delete cleanedUpdates.deleted_at;
+
+  if (cleanedUpdates.Status === "Completed") {
+    cleanedUpdates.priority_rank = null;
+  }
+
+  return cleanedUpdates;
+}
+
+// Assigned by the backend when the row is inserted, never by the caller
+export const ASSIGNED_ON_CREATE = ["ID", "priority_rank", "workspace_id"];
+
+/**
+ * Builds the insert payload for a new initiative from the submitted fields.
+ * The backend adds the ID and the next priority rank for its status in the
+ * same atomic step as the insert.
+ */
+export function buildInitiativeInsert(
+  initiative: Partial<Initiative>
+): Record<string, any> {
+  const status = initiative.Status || INITIATIVE_DEFAULTS.Status;
+
+  const insertData: Record<string, any> = {
+    Product: initiative.Product || INITIATIVE_DEFAULTS.Product,
+    Status: status,
+    Priority: initiative.Priority || INITIATIVE_DEFAULTS.Priority,
+    "Quarter Due":
+      initiative["Quarter Due"] || INITIATIVE_DEFAULTS["Quarter Due"],
+    Initiative: initiative.Initiative || INITIATIVE_DEFAULTS.Initiative,
+    sort_order: initiative.sort_order ?? 0,
+  };
+
+  // Merge in the remaining submitted fields, skipping undefined values
+  Object.keys(initiative).forEach(key => {
+    if (initiative[key] !== undefined && !ASSIGNED_ON_CREATE.includes(key)) {
+      insertData[key] = initiative[key];
+    }
+  });
+
+  Object.keys(insertData).forEach(key => {
+    if (insertData[key] === undefined) {
+      delete insertData[key];
+    }
+  });
+
+  return insertData;
+}
+
+export interface OrderUpdate {
+  ID: number;
+  sort_order: number;
+  priority_rank: number | null;
+}
+
+/**
+ * Computes sort_order and priority_rank for a reordered list.
+ * Completed initiatives keep their position but never get a rank.
+ * Only initiatives whose position actually changes are returned, so moving
+ * one row in a long list writes just the rows between its old and new place.
+ */
+export function computeOrderUpdates(initiatives: Initiative[]): OrderUpdate[] {
+  let rank = 0;
+
+  return initiatives
+    .map((initiative, index) => ({
+      initiative,
+      update: {
+        ID: initiative.ID,
+        sort_order: index,
+        priority_rank: initiative.Status === "Completed" ? null : ++rank,
+      },
+    }))
+    .filter(
+      ({ initiative, update }) =>
+        initiative.sort_order !== update.sort_order ||
+        (initiative.priority_rank ?? null) !== update.priority_rank
+    )
+    .map(({ update }) => update);
+}
+
+/**
+ * Client-side equivalent of the list query's filters
+ * (trash, status, product and case-insensitive search)
+ */
+export function matchesInitiativeQuery(
+  initiative: Initiative,
+  { status = "All", product = "All", search = "" }: InitiativeQuery
+): boolean {
+  // Deleted initiatives only show up in the trash
+  if (!!initiative.deleted_at !== (status === "Trash")) return false;
+  if (status !== "All" && status !== "Trash" && initiative.Status !== status) {
+    return false;
+  }
+  if (product !== "All" && initiative.Product !== product) return false;
+  if (search) {
+    const term = search.toLowerCase();
+    return SEARCHABLE_FIELDS.some(field =>
+      String(initiative[field] ?? "")
+        .toLowerCase()
+        .includes(term)
+    );
+  }
+  return true;
+}
+
+// Ascending with nulls last, like Postgres `nullsFirst: false`
+function compareNullable(a: any, b: any): number {
+  if (a === b) return 0;
+  if (a === null || a === undefined) return 1;
+  if (b === null || b === undefined) return -1;
+  return a < b ? -1 : 1;
+}
+
+/**
+ * Client-side equivalent of the list query's ordering
+ */
+export function compareInitiatives({
+  status = "All",
+  orderBy = "sort_order",
+}: InitiativeQuery = {}) {
+  return (a: Initiative, b: Initiative): number => {
+    if (status === "Trash") {
+      return compareNullable(b.deleted_at, a.deleted_at) || a.ID - b.ID;
+    }
+    if (orderBy === "priority_rank") {
+      return (
+        compareNullable(a.Status, b.Status) ||
+        compareNullable(a.priority_rank, b.priority_rank)
+      );
+    }
+    return (
+      (status === "All" ? compareNullable(a.Status, b.Status) : 0) ||
+      compareNullable(a.sort_order, b.sort_order) ||
+      a.ID - b.ID
+    );
+  };
+}
+
+/**
+ * A list sorted by clicking one of its column headers
+ */
+export interface ColumnSort {
+  key: string;
+  direction: "asc" | "desc";
+}
+
+/**
+ * Header clicks cycle through ascending, descending and unsorted
+ */
+export function nextColumnSort(
+  current: ColumnSort | null,
+  key: string
+): ColumnSort | null {
+  if (current?.key !== key) return { key, direction: "asc" };
+  return current.direction === "asc" ? { key, direction: "desc" } : null;
+}
+
+/**
+ * Sorts rows by a column, with empty values last in either direction.
+ * Without a sort the rows keep their order.
+ */
+export function sortByColumn(
+  initiatives: Initiative[],
+  sort: ColumnSort | null
+): Initiative[] {
+  if (!sort) return initiatives;
+
+  return [...initiatives].sort((a, b) => {
+    const aValue = a[sort.key];
+    const bValue = b[sort.key];
+
+    if (aValue === null || aValue === undefined) return 1;
+    if (bValue === null || bValue === undefined) return -1;
+
+    if (aValue < bValue) return sort.direction === "asc" ? -1 : 1;
+    if (aValue > bValue) return sort.direction === "asc" ? 1 : -1;
+    return 0;
+  });
+}
+
+/**
+ * Copies the given fields of a row, with missing values as null
+ */
+export function pickFields(
+  source: Partial<Initiative>,
+  fields: string[]
+): Partial<Initiative> {
+  return Object.fromEntries(
+    fields.map(field => [field, source[field] ?? null])
+  );
+}
+
+/**
+ * Names of the fields whose values differ between two versions of a row
+ */
+export function changedFields(
+  before: Record<string, any>,
+  after: Record<string, any>
+): string[] {
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+  return Array.from(keys).filter(
+    key =>
+      !BOOKKEEPING_FIELDS.includes(key) &&
+      (before[key] ?? null) !== (after[key] ?? null)
+  );
+}
+
+/**
+ * Fields of a stale update that someone else changed in the meantime.
+ * `base` holds the values the editor saw before making `updates`; fields
+ * whose current value still equals the base (or already equals the update)
+ * can be written without overwriting anyone.
+ */
+export function findConflictingFields(
+  updates: Partial<Initiative>,
+  base: Partial<Initiative>,
+  current: Initiative
+): string[] {
+  // Empty strings are stored as null
+  const normalize = (value: any) =>
+    value === "" || value === undefined ? null : value;
+
+  return Object.keys(updates).filter(field => {
+    const theirs = normalize(current[field]);
+    return (
+      theirs !== normalize(base[field]) && theirs !== normalize(updates[field])
+    );
+  });
+}
+
+/**
+ * Initiatives deleted before this time are due to be purged from the trash
+ */
+export function trashPurgeCutoff(retentionDays: number, now = Date.now()) {
+  return new Date(now - retentionDays * ONE_DAY_MS).toISOString();
+}
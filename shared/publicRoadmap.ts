@@ -0,0 +1,132 @@
+import { compareInitiatives } from "./initiatives";
+import type {
+  Initiative,
+  PublicInitiative,
+  PublicRoadmap,
+  Workspace,
+} from "./types/database";
+
+/**
+ * The customer-facing roadmap: initiatives an admin flagged public, with only
+ * their public title and description and a few planning fields. Nothing else
+ * is returned by the storage backend (the get_public_roadmap function in
+ * Supabase).
+ */
+
+// Only admins may change these
+export const PUBLIC_FIELDS = [
+  "is_public",
+  "public_title",
+  "public_description",
+];
+
+export type PublicGrouping = "priority" | "quarter";
+
+export interface PublicGroup {
+  title: string;
+  initiatives: PublicInitiative[];
+}
+
+// Now / Next / Later columns, from Priority
+const PRIORITY_GROUPS: {
+  title: string;
+  matches: (item: PublicInitiative) => boolean;
+}[] = [
+  { title: "Now", matches: item => item.priority === "Build Now" },
+  { title: "Next", matches: item => item.priority === "Build Next" },
+  {
+    title: "Later",
+    matches: item =>
+      item.priority !== "Build Now" && item.priority !== "Build Next",
+  },
+];
+
+const UNSCHEDULED = "Unscheduled";
+
+/**
+ * Fields of `updates` that would change an initiative's public listing.
+ * false, empty and missing values count as the same.
+ */
+export function publicFieldChanges(
+  current: Partial<Initiative>,
+  updates: Partial<Initiative>
+): string[] {
+  return PUBLIC_FIELDS.filter(
+    field =>
+      field in updates && (updates[field] || null) !== (current[field] || null)
+  );
+}
+
+/**
+ * An initiative as customers see it. Used for the admin preview as well, so
+ * it does not check the public flag.
+ */
+export function toPublicInitiative(
+  initiative: Partial<Initiative>
+): PublicInitiative {
+  return {
+    id: initiative.ID ?? 0,
+    title:
+      initiative.public_title?.trim() || initiative.Initiative || "Untitled",
+    description: initiative.public_description?.trim() || null,
+    product: initiative.Product ?? null,
+    priority: initiative.Priority ?? null,
+    quarter: initiative["Quarter Due"] ?? null,
+    released: initiative.Status === "Completed",
+  };
+}
+
+/**
+ * The public roadmap of a workspace: its public initiatives outside the
+ * trash. Same result as the get_public_roadmap SQL function.
+ */
+export function buildPublicRoadmap(
+  workspace: Workspace | undefined,
+  initiatives: Initiative[]
+): PublicRoadmap {
+  return {
+    title: workspace?.title ?? "",
+    logo_url: workspace?.logo_url ?? null,
+    initiatives: initiatives
+      .filter(init => init.is_public && !init.deleted_at)
+      .sort(compareInitiatives({ orderBy: "priority_rank" }))
+      .map(toPublicInitiative),
+  };
+}
+
+// "Q3 2026" sorts as 2026.3; anything else (such as TBD) sorts last
+function quarterKey(quarter: string): number {
+  const match = quarter.match(/^Q([1-4]) (\d{4})$/);
+  return match ? Number(match[2]) + Number(match[1]) / 10 : Number.MAX_VALUE;
+}
+
+/**
+ * Groups the public roadmap into Now / Next / Later (released initiatives
+ * last, under Released) or into quarters in date order
+ */
+export function groupPublicInitiatives(
+  initiatives: PublicInitiative[],
+  grouping: PublicGrouping
+): PublicGroup[] {
+  if (grouping === "priority") {
+    const planned = initiatives.filter(item => !item.released);
+    return [
+      ...PRIORITY_GROUPS.map(({ title, matches }) => ({
+        title,
+        initiatives: planned.filter(matches),
+      })),
+      { title: "Released", initiatives: initiatives.filter(i => i.released) },
+    ].filter(group => group.initiatives.length > 0);
+  }
+
+  const byQuarter = new Map<string, PublicInitiative[]>();
+  initiatives.forEach(item => {
+    const quarter =
+      item.quarter && item.quarter !== "TBD" ? item.quarter : UNSCHEDULED;
+    byQuarter.set(quarter, [...(byQuarter.get(quarter) ?? []), item]);
+  });
+  return Array.from(byQuarter, ([title, items]) => ({
+    title,
+    initiatives: items,
+  })).sort((a, b) => quarterKey(a.title) - quarterKey(b.title));
+}
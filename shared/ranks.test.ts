@@ -0,0 +1,93 @@
+import { describe, expect, it } from "vitest";
+import { checkRankIntegrity, rankRepairUpdates } from "./ranks";
+import type { Initiative } from "./types/database";
+
+let nextId = 1;
+const initiative = (
+  Status: string,
+  priority_rank: number | null,
+  extra: Partial<Initiative> = {}
+) =>
+  ({
+    ID: nextId++,
+    Initiative: `Initiative ${nextId}`,
+    Status,
+    priority_rank,
+    sort_order: 0,
+    ...extra,
+  }) as Initiative;
+
+describe("checkRankIntegrity", () => {
+  it("reports nothing for ranks 1..n per status", () => {
+    expect(
+      checkRankIntegrity([
+        initiative("Active", 1),
+        initiative("Active", 2),
+        initiative("Backlog", 1),
+        initiative("Completed", null),
+      ])
+    ).toEqual([]);
+  });
+
+  it("merges a run of skipped ranks into one gap", () => {
+    expect(
+      checkRankIntegrity([initiative("Active", 1), initiative("Active", 4)])
+    ).toEqual([
+      { kind: "gap", status: "Active", rank: 2, lastRank: 3, ids: [] },
+    ]);
+  });
+
+  it("keeps gaps in different statuses apart", () => {
+    const issues = checkRankIntegrity([
+      initiative("Active", 1),
+      initiative("Active", 2),
+      initiative("Active", 4),
+      initiative("Backlog", 1),
+      initiative("Backlog", 2),
+      initiative("Backlog", 3),
+      initiative("Backlog", 5),
+    ]);
+
+    expect(issues).toEqual([
+      { kind: "gap", status: "Active", rank: 3, lastRank: 3, ids: [] },
+      { kind: "gap", status: "Backlog", rank: 4, lastRank: 4, ids: [] },
+    ]);
+  });
+
+  it("reports duplicates, missing ranks and ranked Completed initiatives", () => {
+    const a = initiative("Active", 1);
+    const b = initiative("Active", 1);
+    const unranked = initiative("Backlog", null);
+    const done = initiative("Completed", 3);
+
+    expect(checkRankIntegrity([a, b, unranked, done])).toEqual([
+      { kind: "duplicate", status: "Active", rank: 1, ids: [a.ID, b.ID] },
+      { kind: "missing", status: "Backlog", rank: null, ids: [unranked.ID] },
+      { kind: "completed", status: "Completed", rank: null, ids: [done.ID] },
+    ]);
+  });
+
+  it("ignores the trash", () => {
+    expect(
+      checkRankIntegrity([
+        initiative("Active", 1),
+        initiative("Active", 1, { deleted_at: "2026-01-01T00:00:00Z" }),
+      ])
+    ).toEqual([]);
+  });
+});
+
+describe("rankRepairUpdates", () => {
+  it("renumbers each status and clears Completed ranks", () => {
+    const a = initiative("Active", 2);
+    const b = initiative("Active", 5);
+    const c = initiative("Backlog", 1);
+    const done = initiative("Completed", 4);
+
+    expect(rankRepairUpdates([a, b, c, done])).toEqual([
+      { ID: a.ID, sort_order: 0, priority_rank: 1 },
+      { ID: b.ID, sort_order: 0, priority_rank: 2 },
+      { ID: done.ID, sort_order: 0, priority_rank: null },
+    ]);
+  });
+});
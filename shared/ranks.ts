@@ -0,0 +1,126 @@
+import type { OrderUpdate } from "./initiatives";
+import type { Initiative } from "./types/database";
+
+/**
+ * Priority-rank integrity. Each status other than Completed should rank its
+ * initiatives 1..n without gaps or ties; Completed initiatives have no rank.
+ * Trashed initiatives are ignored.
+ */
+
+export type RankIssueKind = "missing" | "duplicate" | "gap" | "completed";
+
+export interface RankIssue {
+  kind: RankIssueKind;
+  status: string;
+  // The duplicated or first skipped rank; null for missing and completed
+  rank: number | null;
+  // Last rank of a run of skipped ranks
+  lastRank?: number;
+  // Initiatives involved (none for a gap)
+  ids: number[];
+}
+
+function groupByStatus(initiatives: Initiative[]) {
+  const groups = new Map<string, Initiative[]>();
+  initiatives
+    .filter(init => !init.deleted_at)
+    .forEach(init => {
+      const status = init.Status || "";
+      groups.set(status, [...(groups.get(status) ?? []), init]);
+    });
+  return groups;
+}
+
+/**
+ * Lists missing ranks, duplicated ranks, skipped ranks and ranked
+ * Completed initiatives
+ */
+export function checkRankIntegrity(initiatives: Initiative[]): RankIssue[] {
+  const issues: RankIssue[] = [];
+
+  groupByStatus(initiatives).forEach((group, status) => {
+    if (status === "Completed") {
+      const ranked = group.filter(init => init.priority_rank != null);
+      if (ranked.length > 0) {
+        issues.push({
+          kind: "completed",
+          status,
+          rank: null,
+          ids: ranked.map(init => init.ID),
+        });
+      }
+      return;
+    }
+
+    const missing = group.filter(init => init.priority_rank == null);
+    if (missing.length > 0) {
+      issues.push({
+        kind: "missing",
+        status,
+        rank: null,
+        ids: missing.map(init => init.ID),
+      });
+    }
+
+    const byRank = new Map<number, number[]>();
+    group.forEach(init => {
+      if (init.priority_rank == null) return;
+      byRank.set(init.priority_rank, [
+        ...(byRank.get(init.priority_rank) ?? []),
+        init.ID,
+      ]);
+    });
+
+    const maxRank = Math.max(0, ...Array.from(byRank.keys()));
+    for (let rank = 1; rank <= maxRank; rank++) {
+      const ids = byRank.get(rank);
+      const previous = issues[issues.length - 1];
+      if (
+        !ids &&
+        previous?.kind === "gap" &&
+        previous.status === status &&
+        previous.lastRank === rank - 1
+      ) {
+        previous.lastRank = rank;
+      } else if (!ids) {
+        issues.push({ kind: "gap", status, rank, lastRank: rank, ids: [] });
+      } else if (ids.length > 1) {
+        issues.push({ kind: "duplicate", status, rank, ids });
+      }
+    }
+  });
+
+  return issues;
+}
+
+/**
+ * Positions that renumber every status's ranks 1..n, keeping the current
+ * rank order (ties and unranked initiatives follow sort_order), and clear
+ * ranks on Completed initiatives. Only changed initiatives are returned.
+ */
+export function rankRepairUpdates(initiatives: Initiative[]): OrderUpdate[] {
+  const updates: OrderUpdate[] = [];
+  const last = Number.MAX_SAFE_INTEGER;
+
+  groupByStatus(initiatives).forEach((group, status) => {
+    const ordered = [...group].sort(
+      (a, b) =>
+        (a.priority_rank ?? last) - (b.priority_rank ?? last) ||
+        (a.sort_order ?? last) - (b.sort_order ?? last) ||
+        a.ID - b.ID
+    );
+
+    ordered.forEach((init, index) => {
+      const rank = status === "Completed" ? null : index + 1;
+      if ((init.priority_rank ?? null) !== rank) {
+        updates.push({
+          ID: init.ID,
+          sort_order: init.sort_order ?? 0,
+          priority_rank: rank,
+        });
+      }
+    });
+  });
+
+  return updates;
+}
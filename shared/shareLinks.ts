@@ -0,0 +1,145 @@
+import { compareInitiatives } from "./initiatives";
+import type { NewShareLink } from "./storage/types";
+import type {
+  ColumnConfig,
+  Initiative,
+  ShareLink,
+  SharedRoadmap,
+  Workspace,
+} from "./types/database";
+
+/**
+ * Share links open part of a workspace's roadmap read-only, without signing
+ * in. Everything outside the link's columns, statuses and products is left
+ * out by the storage backend (the get_shared_roadmap function in Supabase),
+ * never just hidden in the browser.
+ */
+
+// Always shared: needed to list the rows and draw the Gantt bars' labels
+export const SHARE_LINK_FIELDS = ["ID", "Initiative", "Status", "sort_order"];
+
+export const SHARE_LINK_VIEWS = ["list", "gantt"] as const;
+
+// Statuses a link can be limited to; the trash is never shared
+export const SHARE_LINK_STATUSES = ["Active", "Backlog", "Completed"];
+
+/**
+ * Checks a new share link; returns an error message, or null when it is valid
+ */
+export function validateShareLink(link: Partial<NewShareLink>): string | null {
+  if (typeof link.name !== "string" || !link.name.trim()) {
+    return "name is required";
+  }
+  if (!SHARE_LINK_VIEWS.includes(link.view as any)) {
+    return `view must be one of ${SHARE_LINK_VIEWS.join(", ")}`;
+  }
+  if (
+    !Array.isArray(link.columns) ||
+    !link.columns.every(column => typeof column === "string")
+  ) {
+    return "columns must be a list of column names";
+  }
+  for (const key of ["statuses", "products"] as const) {
+    const value = link[key];
+    if (
+      value !== undefined &&
+      value !== null &&
+      !(Array.isArray(value) && value.every(item => typeof item === "string"))
+    ) {
+      return `${key} must be a list of strings or null`;
+    }
+  }
+  const unknown = link.statuses?.find(
+    status => !SHARE_LINK_STATUSES.includes(status)
+  );
+  if (unknown !== undefined) {
+    return `Unknown status: ${unknown}`;
+  }
+  if (
+    link.expires_at !== undefined &&
+    link.expires_at !== null &&
+    Number.isNaN(Date.parse(link.expires_at))
+  ) {
+    return "expires_at must be a date or null";
+  }
+  return null;
+}
+
+/**
+ * A random URL-safe link token (32 hex characters)
+ */
+export function generateShareToken(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(16));
+  return Array.from(bytes, byte => byte.toString(16).padStart(2, "0")).join("");
+}
+
+/**
+ * Column values for a new share link, with a fresh token. Empty status and
+ * product filters are stored as null (no filter).
+ */
+export function buildShareLinkInsert(link: NewShareLink) {
+  return {
+    name: link.name.trim(),
+    view: link.view,
+    columns: Array.from(new Set(link.columns)),
+    statuses: link.statuses?.length ? link.statuses : null,
+    products: link.products?.length ? link.products : null,
+    expires_at: link.expires_at
+      ? new Date(link.expires_at).toISOString()
+      : null,
+    token: generateShareToken(),
+  };
+}
+
+/**
+ * Whether the link still opens: not revoked and not expired
+ */
+export function isShareLinkLive(link: ShareLink, now = new Date()): boolean {
+  return (
+    !link.revoked_at &&
+    (!link.expires_at || Date.parse(link.expires_at) > now.getTime())
+  );
+}
+
+/**
+ * What a link shows of a workspace: the initiatives outside the trash that
+ * match its filters, with only the shared fields, and the configuration of
+ * the shared columns. Same result as the get_shared_roadmap SQL function.
+ */
+export function buildSharedRoadmap(
+  link: ShareLink,
+  workspace: Workspace | undefined,
+  initiatives: Initiative[],
+  columns: ColumnConfig[]
+): SharedRoadmap {
+  const fields = new Set([...SHARE_LINK_FIELDS, ...link.columns]);
+
+  return {
+    name: link.name,
+    view: link.view,
+    title: workspace?.title ?? link.name,
+    logo_url: workspace?.logo_url ?? null,
+    expires_at: link.expires_at,
+    columns: columns
+      .filter(col => link.columns.includes(col.column_name))
+      .sort((a, b) => a.sort_order - b.sort_order)
+      .map(({ editable_by: _editableBy, ...col }) => ({
+        ...col,
+        is_visible: true,
+      })),
+    initiatives: initiatives
+      .filter(
+        init =>
+          !init.deleted_at &&
+          (!link.statuses || link.statuses.includes(init.Status ?? "")) &&
+          (!link.products || link.products.includes(init.Product ?? ""))
+      )
+      .sort(compareInitiatives())
+      .map(
+        init =>
+          Object.fromEntries(
+            Object.entries(init).filter(([key]) => fields.has(key))
+          ) as Initiative
+      ),
+  };
+}
@@ -0,0 +1,3 @@
+export * from "./types";
+export { createSupabaseStorage } from "./supabase";
+export { createMemoryStorage, type MemoryData } from "./memory";
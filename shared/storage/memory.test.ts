@@ -0,0 +1,86 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { createMemoryStorage } from "./memory";
+import type { RoadmapStorage, StorageChange } from "./types";
+
+describe("memory storage workspaces", () => {
+  let current: string;
+  let storage: RoadmapStorage;
+
+  // The sample roadmap in the default workspace, and an empty "other" one
+  beforeEach(async () => {
+    current = "default";
+    storage = createMemoryStorage({ getWorkspaceId: () => current });
+    await storage.createWorkspace({ id: "other", name: "Other" });
+  });
+
+  const inOther = async <T>(work: () => Promise<T>) => {
+    current = "other";
+    try {
+      return await work();
+    } finally {
+      current = "default";
+    }
+  };
+
+  it("lists and reads only the current workspace's initiatives", async () => {
+    const { ID } = await inOther(() =>
+      storage.createInitiative({ Initiative: "Elsewhere", Status: "Active" })
+    );
+
+    expect(
+      (await storage.listInitiatives()).map(init => init.ID)
+    ).not.toContain(ID);
+    expect(await storage.getInitiative(ID)).toBeNull();
+    expect(await storage.updateInitiative(ID, { Priority: "Now" })).toBeNull();
+
+    const other = await inOther(() => storage.listInitiatives());
+    expect(other.map(init => init.Initiative)).toEqual(["Elsewhere"]);
+    expect(other[0]).toMatchObject({ workspace_id: "other", priority_rank: 1 });
+  });
+
+  it("copies the column configuration into a new workspace", async () => {
+    const columns = await storage.listColumns();
+    const copied = await inOther(() => storage.listColumns());
+
+    expect(copied.map(col => col.column_name)).toEqual(
+      columns.map(col => col.column_name)
+    );
+    expect(copied.every(col => col.workspace_id === "other")).toBe(true);
+  });
+
+  it("keeps history to initiatives in the current workspace", async () => {
+    await storage.updateInitiative(1, { Priority: "Now" });
+    expect(await storage.listHistory(1)).not.toHaveLength(0);
+
+    expect(await inOther(() => storage.listHistory(1))).toEqual([]);
+  });
+
+  it("moves an initiative to the end of its status in another workspace", async () => {
+    await inOther(() =>
+      storage.createInitiative({ Initiative: "Elsewhere", Status: "Active" })
+    );
+
+    const moved = await storage.moveInitiative(1, "other");
+
+    expect(moved).toMatchObject({ workspace_id: "other", priority_rank: 2 });
+    expect(await storage.getInitiative(1)).toBeNull();
+    // Like a status change, the move leaves a gap for rank repair to close
+    expect(
+      (await storage.listInitiatives({ status: "Active" })).map(
+        init => init.priority_rank
+      )
+    ).toEqual([2, 3]);
+  });
+
+  it("delivers a move out of the workspace as a delete", async () => {
+    const changes: StorageChange[] = [];
+    const unsubscribe = storage.subscribe(change => changes.push(change));
+
+    await storage.moveInitiative(2, "other");
+    await new Promise(resolve => setTimeout(resolve));
+    unsubscribe();
+
+    expect(changes.map(change => change.eventType)).toEqual(["DELETE"]);
+    expect(changes[0].old).toMatchObject({ ID: 2 });
+  });
+});
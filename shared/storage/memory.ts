@@ -0,0 +1,772 @@
+import {
+  auditActionFor,
+  diffInitiatives,
+  type AuditEntry,
+  type AuditSource,
+} from "../audit";
+import {
+  buildInitiativeInsert,
+  cleanInitiativeUpdates,
+  compareInitiatives,
+  matchesInitiativeQuery,
+} from "../initiatives";
+import { buildPublicRoadmap } from "../publicRoadmap";
+import {
+  buildShareLinkInsert,
+  buildSharedRoadmap,
+  isShareLinkLive,
+} from "../shareLinks";
+import type {
+  ColumnConfig,
+  Initiative,
+  RoadmapSnapshot,
+  ShareLink,
+  SnapshotSummary,
+  Webhook,
+  WebhookDelivery,
+  Workspace,
+} from "../types/database";
+import { buildWebhookInsert, cleanWebhookUpdates } from "../webhooks";
+import {
+  DEFAULT_WORKSPACE_ID,
+  DEFAULT_WORKSPACE_TITLE,
+  buildInitiativeCopy,
+  scopeChange,
+  workspaceOf,
+} from "../workspaces";
+import {
+  createDefaultColumns,
+  createDefaultWorkspace,
+  createSampleInitiatives,
+} from "./seed";
+import {
+  ConflictError,
+  StorageError,
+  UNIQUE_VIOLATION,
+  type RoadmapStorage,
+  type StorageChange,
+  type StorageListener,
+  type StorageOptions,
+} from "./types";
+
+export interface MemoryData {
+  initiatives: Initiative[];
+  columns: ColumnConfig[];
+  // Missing in data saved before the change history existed
+  auditLog?: AuditEntry[];
+  // Highest ID handed out so far; purged IDs are never reused
+  lastId?: number;
+  // Missing in data saved before workspaces existed
+  workspaces?: Workspace[];
+  // Missing in data saved before snapshots existed
+  snapshots?: RoadmapSnapshot[];
+  // Missing in data saved before webhooks existed
+  webhooks?: Webhook[];
+  webhookDeliveries?: WebhookDelivery[];
+  // Missing in data saved before share links existed
+  shareLinks?: ShareLink[];
+}
+
+export interface MemoryStorageOptions extends StorageOptions {
+  // Starting data; defaults to the sample roadmap
+  initialData?: MemoryData | null;
+  // Called with the full data set after every write (e.g. to persist it)
+  onChange?: (data: MemoryData) => void;
+}
+
+const clone = <T>(value: T): T => structuredClone(value);
+
+// Oldest deliveries are dropped from the log beyond this many
+const MAX_DELIVERIES = 1000;
+
+// Snapshot without the frozen rows, for listing
+const summarize = ({
+  initiatives: _initiatives,
+  columns: _columns,
+  ...summary
+}: RoadmapSnapshot): SnapshotSummary => summary;
+
+/**
+ * In-memory storage used for local development, demos and scripts.
+ * Pass `onChange` to persist the data (localStorage in the browser, a JSON
+ * file on the server).
+ */
+export function createMemoryStorage({
+  initialData,
+  onChange,
+  getActor,
+  getWorkspaceId,
+}: MemoryStorageOptions = {}): RoadmapStorage {
+  const data: MemoryData = initialData
+    ? clone(initialData)
+    : {
+        initiatives: createSampleInitiatives(),
+        columns: createDefaultColumns(),
+      };
+
+  const auditLog = (data.auditLog ??= []);
+  const workspaces = (data.workspaces ??= [createDefaultWorkspace()]);
+  const snapshots = (data.snapshots ??= []);
+  const webhooks = (data.webhooks ??= []);
+  const deliveries = (data.webhookDeliveries ??= []);
+  const shareLinks = (data.shareLinks ??= []);
+  // Rows saved before workspaces existed belong to the default one
+  data.initiatives.forEach(
+    init => (init.workspace_id ??= DEFAULT_WORKSPACE_ID)
+  );
+  data.columns.forEach(col => (col.workspace_id ??= DEFAULT_WORKSPACE_ID));
+  const listeners = new Set<StorageListener>();
+  const globalListeners = new Set<StorageListener>();
+
+  const workspaceId = () => getWorkspaceId?.() || DEFAULT_WORKSPACE_ID;
+  const inWorkspace = (row: { workspace_id?: string }) =>
+    workspaceOf(row) === workspaceId();
+
+  // Same entries the Supabase audit trigger writes
+  const record = (
+    operation: "INSERT" | "UPDATE" | "DELETE",
+    before: Initiative | null,
+    after: Initiative | null,
+    source?: AuditSource
+  ) => {
+    const changes = diffInitiatives(before, after);
+    const action = auditActionFor(operation, changes, source);
+    if (!action) return;
+
+    auditLog.push({
+      id: auditLog.reduce((max, entry) => Math.max(max, entry.id), 0) + 1,
+      initiative_id: (after ?? before)!.ID,
+      action,
+      changes,
+      actor: getActor?.() || "unknown",
+      created_at: new Date().toISOString(),
+    });
+  };
+
+  // Persists the data and notifies subscribers asynchronously, like realtime
+  const commit = (...changes: StorageChange[]) => {
+    onChange?.(clone(data));
+    const delivered = clone(changes);
+    queueMicrotask(() => {
+      delivered.forEach(change => {
+        globalListeners.forEach(listener => listener(change));
+        const scoped = scopeChange(change, workspaceId());
+        if (scoped) listeners.forEach(listener => listener(scoped));
+      });
+    });
+  };
+
+  // A fresh timestamp that always differs from the row's current version,
+  // even for writes within the same millisecond
+  const nextVersion = (initiative: Initiative) => {
+    const now = new Date();
+    if (initiative.updated_at && now.toISOString() <= initiative.updated_at) {
+      now.setTime(new Date(initiative.updated_at).getTime() + 1);
+    }
+    return now.toISOString();
+  };
+
+  const findInitiative = (id: number) =>
+    data.initiatives.find(init => init.ID === id && inWorkspace(init));
+
+  // End of a status's priority sequence within a workspace
+  const nextRank = (status: string | null, workspace = workspaceId()) =>
+    data.initiatives
+      .filter(
+        init =>
+          init.Status === status &&
+          !init.deleted_at &&
+          workspaceOf(init) === workspace
+      )
+      .reduce((max, init) => Math.max(max, init.priority_rank ?? 0), 0) + 1;
+
+  // Runs without awaiting, so concurrent creates cannot interleave
+  const insertInitiative = (
+    initiative: Partial<Initiative>,
+    workspace: string,
+    source?: AuditSource
+  ) => {
+    const insert = buildInitiativeInsert(initiative);
+    const nextId =
+      data.initiatives.reduce(
+        (max, init) => Math.max(max, init.ID),
+        data.lastId ?? 0
+      ) + 1;
+    data.lastId = nextId;
+    const nextPriorityRank =
+      insert.Status === "Completed" ? null : nextRank(insert.Status, workspace);
+
+    // Start from every configured column so rows have a consistent shape
+    const row = Object.fromEntries(
+      data.columns
+        .filter(col => workspaceOf(col) === workspace)
+        .map(col => [col.column_name, null])
+    ) as Initiative;
+    Object.assign(row, insert, {
+      ID: nextId,
+      priority_rank: nextPriorityRank,
+      workspace_id: workspace,
+      updated_at: new Date().toISOString(),
+    });
+
+    data.initiatives.push(row);
+    record("INSERT", null, row, source);
+    commit({
+      table: "roadmap_fields",
+      eventType: "INSERT",
+      new: row,
+      old: null,
+    });
+    return clone(row);
+  };
+
+  const findWorkspace = (id: string) => workspaces.find(ws => ws.id === id);
+
+  return {
+    async listInitiatives(query = {}) {
+      return clone(
+        data.initiatives
+          .filter(
+            init => inWorkspace(init) && matchesInitiativeQuery(init, query)
+          )
+          .sort(compareInitiatives(query))
+      );
+    },
+
+    async getInitiative(id) {
+      const initiative = findInitiative(id);
+      return initiative ? clone(initiative) : null;
+    },
+
+    async createInitiative(initiative, { source } = {}) {
+      return insertInitiative(initiative, workspaceId(), source);
+    },
+
+    async updateInitiative(id, updates, { expectedUpdatedAt, source } = {}) {
+      const initiative = findInitiative(id);
+      if (!initiative) return null;
+
+      if (
+        expectedUpdatedAt !== undefined &&
+        (initiative.updated_at ?? null) !== expectedUpdatedAt
+      ) {
+        throw new ConflictError(clone(initiative));
+      }
+
+      const old = clone(initiative);
+      const { ID: _ignored, ...cleaned } = cleanInitiativeUpdates(updates);
+      Object.assign(initiative, cleaned, { updated_at: nextVersion(old) });
+      // Same rules as the normalize_priority_rank trigger
+      const moved =
+        initiative.Status !== old.Status &&
+        initiative.priority_rank === old.priority_rank;
+      if (initiative.Status === "Completed") {
+        initiative.priority_rank = null;
+      } else if (initiative.priority_rank == null || moved) {
+        // Cleared first so its old rank does not count
+        initiative.priority_rank = null;
+        initiative.priority_rank = nextRank(initiative.Status);
+      }
+      record("UPDATE", old, initiative, source);
+      commit({
+        table: "roadmap_fields",
+        eventType: "UPDATE",
+        new: initiative,
+        old,
+      });
+      return clone(initiative);
+    },
+
+    async deleteInitiative(id) {
+      const initiative = findInitiative(id);
+      if (!initiative || initiative.deleted_at) return false;
+
+      const old = clone(initiative);
+      initiative.deleted_at = new Date().toISOString();
+      // Trashed initiatives give up their rank, as in the rank trigger
+      initiative.priority_rank = null;
+      initiative.updated_at = nextVersion(old);
+      record("UPDATE", old, initiative);
+      commit({
+        table: "roadmap_fields",
+        eventType: "UPDATE",
+        new: initiative,
+        old,
+      });
+      return true;
+    },
+
+    async restoreInitiative(id) {
+      const initiative = findInitiative(id);
+      if (!initiative || !initiative.deleted_at) return null;
+
+      const old = clone(initiative);
+      initiative.deleted_at = null;
+      // Back at the end of its status, whatever rank it had before
+      initiative.priority_rank = null;
+      initiative.priority_rank =
+        initiative.Status === "Completed" ? null : nextRank(initiative.Status);
+      initiative.updated_at = nextVersion(old);
+      record("UPDATE", old, initiative);
+      commit({
+        table: "roadmap_fields",
+        eventType: "UPDATE",
+        new: initiative,
+        old,
+      });
+      return clone(initiative);
+    },
+
+    async purgeInitiative(id) {
+      const index = data.initiatives.findIndex(
+        init => init.ID === id && inWorkspace(init)
+      );
+      if (index < 0) return false;
+
+      const [removed] = data.initiatives.splice(index, 1);
+      record("DELETE", removed, null);
+      commit({
+        table: "roadmap_fields",
+        eventType: "DELETE",
+        new: null,
+        old: removed,
+      });
+      return true;
+    },
+
+    async purgeDeleted(deletedBefore) {
+      const expired = data.initiatives.filter(
+        init =>
+          inWorkspace(init) &&
+          init.deleted_at &&
+          init.deleted_at < deletedBefore
+      );
+      if (expired.length === 0) return 0;
+
+      data.initiatives = data.initiatives.filter(
+        init => !expired.includes(init)
+      );
+      expired.forEach(init => record("DELETE", init, null));
+      commit(
+        ...expired.map(
+          (init): StorageChange => ({
+            table: "roadmap_fields",
+            eventType: "DELETE",
+            new: null,
+            old: init,
+          })
+        )
+      );
+      return expired.length;
+    },
+
+    async moveInitiative(id, workspace) {
+      if (!findWorkspace(workspace)) {
+        throw new StorageError(`Workspace ${workspace} not found`);
+      }
+      const initiative = data.initiatives.find(init => init.ID === id);
+      if (!initiative || initiative.deleted_at) return null;
+      if (workspaceOf(initiative) === workspace) return clone(initiative);
+
+      const old = clone(initiative);
+      initiative.priority_rank =
+        initiative.Status === "Completed"
+          ? null
+          : nextRank(initiative.Status, workspace);
+      initiative.workspace_id = workspace;
+      initiative.sort_order = null;
+      initiative.updated_at = nextVersion(old);
+      record("UPDATE", old, initiative);
+      commit({
+        table: "roadmap_fields",
+        eventType: "UPDATE",
+        new: initiative,
+        old,
+      });
+      return clone(initiative);
+    },
+
+    async copyInitiative(id, workspace) {
+      if (!findWorkspace(workspace)) {
+        throw new StorageError(`Workspace ${workspace} not found`);
+      }
+      const initiative = data.initiatives.find(init => init.ID === id);
+      if (!initiative) return null;
+
+      return insertInitiative(buildInitiativeCopy(initiative), workspace);
+    },
+
+    async saveOrder(updates) {
+      const changes: StorageChange[] = [];
+      updates.forEach(update => {
+        const initiative = findInitiative(update.ID);
+        if (
+          initiative &&
+          (initiative.sort_order !== update.sort_order ||
+            initiative.priority_rank !== update.priority_rank)
+        ) {
+          const old = clone(initiative);
+          initiative.sort_order = update.sort_order;
+          initiative.priority_rank = update.priority_rank;
+          initiative.updated_at = nextVersion(old);
+          record("UPDATE", old, initiative);
+          changes.push({
+            table: "roadmap_fields",
+            eventType: "UPDATE",
+            new: initiative,
+            old,
+          });
+        }
+      });
+      commit(...changes);
+    },
+
+    // Like the audit log's RLS policy: only initiatives in the workspace
+    async listHistory(initiativeId) {
+      if (!findInitiative(initiativeId)) return [];
+      return clone(
+        auditLog.filter(entry => entry.initiative_id === initiativeId).reverse()
+      );
+    },
+
+    async listColumns() {
+      return clone(
+        data.columns
+          .filter(inWorkspace)
+          .sort((a, b) => a.sort_order - b.sort_order)
+      );
+    },
+
+    async addColumn(column) {
+      const existing = data.columns.filter(
+        col => col.column_name === column.column_name
+      );
+      if (existing.some(inWorkspace)) {
+        throw new StorageError("Column name already exists", UNIQUE_VIOLATION);
+      }
+      // Other workspaces share the underlying column, so its type must match
+      if (existing.some(col => col.data_type !== column.data_type)) {
+        throw new StorageError(
+          `Another workspace already has a ${existing[0].data_type} column named ${column.column_name}`,
+          UNIQUE_VIOLATION
+        );
+      }
+
+      const now = new Date().toISOString();
+      const config: ColumnConfig = {
+        id: crypto.randomUUID(),
+        column_name: column.column_name,
+        display_name: column.display_name,
+        data_type: column.data_type,
+        is_visible: column.is_visible ?? true,
+        sort_order:
+          data.columns
+            .filter(inWorkspace)
+            .reduce((max, col) => Math.max(max, col.sort_order), 0) + 1,
+        is_system_column: false,
+        is_required: column.is_required ?? false,
+        workspace_id: workspaceId(),
+        created_at: now,
+        updated_at: now,
+      };
+
+      data.columns.push(config);
+      data.initiatives.forEach(init => {
+        init[column.column_name] ??= null;
+      });
+      commit({
+        table: "column_config",
+        eventType: "INSERT",
+        new: config,
+        old: null,
+      });
+      return clone(config);
+    },
+
+    async updateColumn(id, updates) {
+      const column = data.columns.find(
+        col => col.id === id && inWorkspace(col)
+      );
+      if (!column) return null;
+
+      const old = clone(column);
+      Object.assign(column, updates, { updated_at: new Date().toISOString() });
+      commit({ table: "column_config", eventType: "UPDATE", new: column, old });
+      return clone(column);
+    },
+
+    async deleteColumn(id) {
+      const column = data.columns.find(
+        col => col.id === id && inWorkspace(col)
+      );
+      if (!column) {
+        throw new StorageError(`Column ${id} not found`);
+      }
+      if (column.is_system_column) {
+        throw new StorageError("Cannot delete system columns");
+      }
+
+      data.columns = data.columns.filter(col => col.id !== id);
+      // The values stay while another workspace still uses the column
+      if (!data.columns.some(col => col.column_name === column.column_name)) {
+        data.initiatives.forEach(init => {
+          delete init[column.column_name];
+        });
+      }
+      commit({
+        table: "column_config",
+        eventType: "DELETE",
+        new: null,
+        old: column,
+      });
+    },
+
+    async reorderColumns(ids) {
+      const changes: StorageChange[] = [];
+      ids.forEach((id, index) => {
+        const column = data.columns.find(
+          col => col.id === id && inWorkspace(col)
+        );
+        if (column) {
+          const old = clone(column);
+          column.sort_order = index;
+          changes.push({
+            table: "column_config",
+            eventType: "UPDATE",
+            new: column,
+            old,
+          });
+        }
+      });
+      commit(...changes);
+    },
+
+    async listWorkspaces() {
+      return clone(
+        [...workspaces].sort((a, b) => a.name.localeCompare(b.name))
+      );
+    },
+
+    async createWorkspace(workspace) {
+      if (findWorkspace(workspace.id)) {
+        throw new StorageError("Workspace ID already exists", UNIQUE_VIOLATION);
+      }
+
+      const now = new Date().toISOString();
+      const created: Workspace = {
+        id: workspace.id,
+        name: workspace.name,
+        title: workspace.title || DEFAULT_WORKSPACE_TITLE,
+        logo_url: workspace.logo_url ?? null,
+        created_at: now,
+      };
+      workspaces.push(created);
+      data.columns.push(
+        ...data.columns.filter(inWorkspace).map(col => ({
+          ...clone(col),
+          id: crypto.randomUUID(),
+          workspace_id: created.id,
+          created_at: now,
+          updated_at: now,
+        }))
+      );
+      commit();
+      return clone(created);
+    },
+
+    async updateWorkspace(id, updates) {
+      const workspace = findWorkspace(id);
+      if (!workspace) return null;
+
+      Object.assign(workspace, updates);
+      commit();
+      return clone(workspace);
+    },
+
+    async listSnapshots() {
+      return clone(
+        snapshots
+          .filter(inWorkspace)
+          .map(summarize)
+          .sort((a, b) => b.created_at.localeCompare(a.created_at))
+      );
+    },
+
+    async getSnapshot(id) {
+      const snapshot = snapshots.find(
+        snap => snap.id === id && inWorkspace(snap)
+      );
+      return snapshot ? clone(snapshot) : null;
+    },
+
+    async createSnapshot(name) {
+      const initiatives = data.initiatives
+        .filter(init => inWorkspace(init) && !init.deleted_at)
+        .sort(compareInitiatives());
+      const snapshot: RoadmapSnapshot = {
+        id: crypto.randomUUID(),
+        name,
+        workspace_id: workspaceId(),
+        created_at: new Date().toISOString(),
+        created_by: getActor?.() || "unknown",
+        initiative_count: initiatives.length,
+        initiatives: clone(initiatives),
+        columns: clone(
+          data.columns
+            .filter(inWorkspace)
+            .sort((a, b) => a.sort_order - b.sort_order)
+        ),
+      };
+      snapshots.push(snapshot);
+      commit();
+      return summarize(clone(snapshot));
+    },
+
+    async deleteSnapshot(id) {
+      const index = snapshots.findIndex(
+        snap => snap.id === id && inWorkspace(snap)
+      );
+      if (index === -1) return false;
+
+      snapshots.splice(index, 1);
+      commit();
+      return true;
+    },
+
+    async listWebhooks() {
+      return clone(
+        webhooks
+          .filter(inWorkspace)
+          .sort((a, b) => a.created_at.localeCompare(b.created_at))
+      );
+    },
+
+    async createWebhook(webhook) {
+      const created: Webhook = {
+        id: crypto.randomUUID(),
+        workspace_id: workspaceId(),
+        created_at: new Date().toISOString(),
+        ...buildWebhookInsert(webhook),
+      };
+      webhooks.push(created);
+      commit();
+      return clone(created);
+    },
+
+    async updateWebhook(id, updates) {
+      const webhook = webhooks.find(
+        hook => hook.id === id && inWorkspace(hook)
+      );
+      if (!webhook) return null;
+
+      Object.assign(webhook, cleanWebhookUpdates(updates));
+      commit();
+      return clone(webhook);
+    },
+
+    async deleteWebhook(id) {
+      const index = webhooks.findIndex(
+        hook => hook.id === id && inWorkspace(hook)
+      );
+      if (index === -1) return false;
+
+      webhooks.splice(index, 1);
+      for (let i = deliveries.length - 1; i >= 0; i--) {
+        if (deliveries[i].webhook_id === id) deliveries.splice(i, 1);
+      }
+      commit();
+      return true;
+    },
+
+    async listWebhookDeliveries({ webhookId, status, limit = 100 } = {}) {
+      return clone(
+        deliveries
+          .filter(
+            d =>
+              inWorkspace(d) &&
+              (!webhookId || d.webhook_id === webhookId) &&
+              (!status || d.status === status)
+          )
+          .sort((a, b) => b.created_at.localeCompare(a.created_at))
+          .slice(0, limit)
+      );
+    },
+
+    async saveWebhookDelivery(delivery) {
+      const index = deliveries.findIndex(d => d.id === delivery.id);
+      if (index === -1) {
+        deliveries.push(clone(delivery));
+        deliveries.splice(0, Math.max(0, deliveries.length - MAX_DELIVERIES));
+      } else {
+        deliveries[index] = clone(delivery);
+      }
+      commit();
+    },
+
+    async listShareLinks() {
+      return clone(
+        shareLinks
+          .filter(inWorkspace)
+          .sort((a, b) => b.created_at.localeCompare(a.created_at))
+      );
+    },
+
+    async createShareLink(link) {
+      const created: ShareLink = {
+        id: crypto.randomUUID(),
+        workspace_id: workspaceId(),
+        created_at: new Date().toISOString(),
+        created_by: getActor?.() || "unknown",
+        revoked_at: null,
+        ...buildShareLinkInsert(link),
+      };
+      shareLinks.push(created);
+      commit();
+      return clone(created);
+    },
+
+    async revokeShareLink(id) {
+      const link = shareLinks.find(l => l.id === id && inWorkspace(l));
+      if (!link) return null;
+
+      link.revoked_at = new Date().toISOString();
+      commit();
+      return clone(link);
+    },
+
+    async getSharedRoadmap(token) {
+      const link = shareLinks.find(l => l.token === token);
+      if (!link || !isShareLinkLive(link)) return null;
+
+      const linkWorkspace = workspaceOf(link);
+      return clone(
+        buildSharedRoadmap(
+          link,
+          findWorkspace(linkWorkspace),
+          data.initiatives.filter(init => workspaceOf(init) === linkWorkspace),
+          data.columns.filter(col => workspaceOf(col) === linkWorkspace)
+        )
+      );
+    },
+
+    async getPublicRoadmap(id) {
+      const workspace = findWorkspace(id);
+      if (!workspace) return null;
+
+      return clone(
+        buildPublicRoadmap(
+          workspace,
+          data.initiatives.filter(init => workspaceOf(init) === id)
+        )
+      );
+    },
+
+    subscribe(listener, { allWorkspaces = false } = {}) {
+      const set = allWorkspaces ? globalListeners : listeners;
+      set.add(listener);
+      return () => {
+        set.delete(listener);
+      };
+    },
+  };
+}
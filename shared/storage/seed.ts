@@ -0,0 +1,180 @@
+import type {
+  ColumnConfig,
+  ColumnDataType,
+  Initiative,
+  Workspace,
+} from "../types/database";
+import { DEFAULT_WORKSPACE_ID, DEFAULT_WORKSPACE_TITLE } from "../workspaces";
+
+// System columns of roadmap_fields, in their default display order
+const SYSTEM_COLUMNS: Array<[string, string, ColumnDataType, boolean?]> = [
+  ["Product", "Product", "text"],
+  ["Initiative", "Initiative", "text"],
+  ["Objective", "Objective", "text"],
+  ["Deliverables", "Deliverables", "text"],
+  ["Measure of Success / Outcomes", "Measure of Success / Outcomes", "text"],
+  ["User Impact / Effort", "User Impact / Effort", "text"],
+  ["Priority", "Priority", "text"],
+  ["priority_rank", "Priority Rank", "integer"],
+  ["requested_by", "Requested By", "text"],
+  ["engineer_assigned", "Engineer Assigned", "text"],
+  ["est_hours_story_points", "Est. Hours / Story Points", "numeric"],
+  ["dependencies", "Dependencies", "text"],
+  ["tags_labels", "Tags / Labels", "text"],
+  ["epic_theme", "Epic / Theme", "text"],
+  ["business_value_roi", "Business Value / ROI", "text"],
+  ["risk_level", "Risk Level", "text"],
+  ["external_links", "External Links", "text"],
+  ["Quarter Due", "Quarter Due", "text"],
+  ["Start Date", "Start Date", "date"],
+  ["End Date", "End Date", "date"],
+  ["actual_completion_date", "Actual Completion Date", "date"],
+  ["Production Live Date", "Production Live Date", "text"],
+  ["Product Dev Status", "Product Dev Status", "text"],
+  ["customer_impact", "Customer Impact", "text", false],
+  ["team", "Team", "text", false],
+  ["Notes", "Notes", "text"],
+  ["Status", "Status", "text", false],
+];
+
+export function createDefaultColumns(): ColumnConfig[] {
+  const now = new Date().toISOString();
+  return SYSTEM_COLUMNS.map(
+    ([column_name, display_name, data_type, is_visible = true], index) => ({
+      id: `system-${index + 1}`,
+      column_name,
+      display_name,
+      data_type,
+      is_visible,
+      sort_order: index,
+      is_system_column: true,
+      is_required: column_name === "Initiative",
+      created_at: now,
+      updated_at: now,
+    })
+  );
+}
+
+export function createDefaultWorkspace(): Workspace {
+  return {
+    id: DEFAULT_WORKSPACE_ID,
+    name: "Default",
+    title: DEFAULT_WORKSPACE_TITLE,
+    logo_url: null,
+    created_at: new Date().toISOString(),
+  };
+}
+
+function sample(ID: number, fields: Partial<Initiative>): Initiative {
+  return {
+    ID,
+    Product: null,
+    Status: null,
+    Initiative: null,
+    Objective: null,
+    Deliverables: null,
+    "Measure of Success / Outcomes": null,
+    "User Impact / Effort": null,
+    Priority: null,
+    "Start Date": null,
+    "End Date": null,
+    "Quarter Due": null,
+    "Production Live Date": null,
+    "Product Dev Status": null,
+    Notes: null,
+    sort_order: 0,
+    priority_rank: null,
+    requested_by: null,
+    engineer_assigned: null,
+    est_hours_story_points: null,
+    dependencies: null,
+    tags_labels: null,
+    epic_theme: null,
+    business_value_roi: null,
+    risk_level: null,
+    external_links: null,
+    actual_completion_date: null,
+    customer_impact: null,
+    team: null,
+    updated_at: new Date().toISOString(),
+    ...fields,
+  };
+}
+
+/**
+ * Demo data for the local backend so the app is usable without Supabase
+ */
+export function createSampleInitiatives(): Initiative[] {
+  return [
+    sample(1, {
+      Product: "Order Management",
+      Status: "Active",
+      Initiative: "Bulk order editing",
+      Objective: "Let dealers edit many orders at once",
+      Priority: "Build Now",
+      "Quarter Due": "Q1 2026",
+      "Product Dev Status": "Dev In progress",
+      "User Impact / Effort": "High / Medium",
+      sort_order: 0,
+      priority_rank: 1,
+      engineer_assigned: "Alex",
+      risk_level: "Medium",
+    }),
+    sample(2, {
+      Product: "Order Management",
+      Status: "Active",
+      Initiative: "Order status notifications",
+      Objective: "Notify customers when their order changes status",
+      Priority: "Build Now",
+      "Quarter Due": "Q2 2026",
+      "Product Dev Status": "Design In progress",
+      sort_order: 1,
+      priority_rank: 2,
+      risk_level: "Low",
+    }),
+    sample(3, {
+      Product: "Marketplace",
+      Status: "Active",
+      Initiative: "Marketplace search filters",
+      Objective: "Filter listings by body type and upfit",
+      Priority: "Build Next",
+      "Quarter Due": "Q2 2026",
+      "Product Dev Status": "Not started",
+      sort_order: 2,
+      priority_rank: 3,
+    }),
+    sample(4, {
+      Product: "Marketplace",
+      Status: "Backlog",
+      Initiative: "Saved searches",
+      Priority: "On Hold",
+      "Quarter Due": "TBD",
+      "Product Dev Status": "Backlog",
+      sort_order: 0,
+      priority_rank: 1,
+    }),
+    sample(5, {
+      Product: "Order Management",
+      Status: "Backlog",
+      Initiative: "CSV order import",
+      Priority: "Build Next",
+      "Quarter Due": "Q3 2026",
+      "Product Dev Status": "Backlog",
+      sort_order: 1,
+      priority_rank: 2,
+    }),
+    sample(6, {
+      Product: "Order Management",
+      Status: "Completed",
+      Initiative: "Dealer portal login",
+      Priority: "Build Now",
+      "Quarter Due": "Q4 2025",
+      "Product Dev Status": "Completed, PROD LIVE",
+      "Start Date": "2025-10-01",
+      "End Date": "2025-12-15",
+      "Production Live Date": "2025-12-15",
+      actual_completion_date: "2025-12-15",
+      sort_order: 0,
+    }),
+  ];
+}
@@ -0,0 +1,697 @@
+import type {
+  PostgrestError,
+  RealtimeChannel,
+  RealtimePostgresChangesPayload,
+  SupabaseClient,
+} from "@supabase/supabase-js";
+import type { AuditSource } from "../audit";
+import { SQL_TYPE_MAP } from "../columns";
+import {
+  buildInitiativeInsert,
+  buildSearchFilter,
+  cleanInitiativeUpdates,
+} from "../initiatives";
+import { buildShareLinkInsert } from "../shareLinks";
+import type {
+  ColumnConfig,
+  Initiative,
+  PublicRoadmap,
+  RoadmapSnapshot,
+  ShareLink,
+  SharedRoadmap,
+  SnapshotSummary,
+  Webhook,
+  WebhookDelivery,
+  Workspace,
+} from "../types/database";
+import { buildWebhookInsert, cleanWebhookUpdates } from "../webhooks";
+import {
+  DEFAULT_WORKSPACE_ID,
+  buildInitiativeCopy,
+  scopeChange,
+} from "../workspaces";
+import {
+  ConflictError,
+  StorageError,
+  UNIQUE_VIOLATION,
+  type AuditEntry,
+  type RoadmapStorage,
+  type StorageOptions,
+  type StorageChange,
+  type StorageListener,
+  type StorageTable,
+} from "./types";
+
+// Snapshots, webhooks and share links have uuid IDs. Postgres rejects any
+// other text compared with one (22P02), so such an ID matches nothing here,
+// as in the local backend.
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const isUuid = (id: string) => UUID_PATTERN.test(id);
+
+// Every snapshot column except the frozen rows
+const SNAPSHOT_SUMMARY =
+  "id, name, workspace_id, created_at, created_by, initiative_count";
+
+function check(error: PostgrestError | null): void {
+  if (error) {
+    throw new StorageError(error.message, error.code);
+  }
+}
+
+/**
+ * Storage backed by the Supabase roadmap_fields and column_config tables
+ */
+export function createSupabaseStorage(
+  supabase: SupabaseClient,
+  { getActor, getWorkspaceId }: StorageOptions = {}
+): RoadmapStorage {
+  const workspaceId = () => getWorkspaceId?.() || DEFAULT_WORKSPACE_ID;
+
+  // The audit trigger reads the actor and source from these request headers
+  const audited = <T extends { setHeader(name: string, value: string): T }>(
+    builder: T,
+    source?: AuditSource
+  ): T => {
+    // Header values must be plain ASCII
+    const actor = (getActor?.() || "").replace(/[^\x20-\x7E]/g, "");
+    if (actor) builder.setHeader("x-roadmap-actor", actor);
+    if (source) builder.setHeader("x-roadmap-source", source);
+    return builder;
+  };
+
+  // One realtime channel is shared by every subscriber
+  const listeners = new Set<StorageListener>();
+  const globalListeners = new Set<StorageListener>();
+  let channel: RealtimeChannel | null = null;
+
+  const forward =
+    (table: StorageTable) =>
+    (payload: RealtimePostgresChangesPayload<Record<string, any>>) => {
+      const change = {
+        table,
+        eventType: payload.eventType,
+        new: payload.eventType === "DELETE" ? null : payload.new,
+        old: payload.eventType === "INSERT" ? null : payload.old,
+      } as StorageChange;
+      globalListeners.forEach(listener => listener(change));
+      const scoped = scopeChange(change, workspaceId());
+      if (scoped) listeners.forEach(listener => listener(scoped));
+    };
+
+  async function getInitiative(id: number): Promise<Initiative | null> {
+    const { data, error } = await supabase
+      .from("roadmap_fields")
+      .select("*")
+      .eq("ID", id)
+      .eq("workspace_id", workspaceId())
+      .maybeSingle();
+    check(error);
+    return data;
+  }
+
+  return {
+    async listInitiatives({
+      status = "All",
+      product = "All",
+      search = "",
+      orderBy = "sort_order",
+    } = {}) {
+      let query = supabase
+        .from("roadmap_fields")
+        .select("*")
+        .eq("workspace_id", workspaceId());
+
+      if (status === "Trash") {
+        query = query.not("deleted_at", "is", null);
+      } else {
+        query = query.is("deleted_at", null);
+        if (status !== "All") {
+          query = query.eq("Status", status);
+        }
+      }
+
+      if (product !== "All") {
+        query = query.eq("Product", product);
+      }
+
+      if (search) {
+        query = query.or(buildSearchFilter(search));
+      }
+
+      if (status === "Trash") {
+        query = query
+          .order("deleted_at", { ascending: false })
+          .order("ID", { ascending: true });
+      } else if (orderBy === "priority_rank") {
+        query = query
+          .order("Status", { ascending: true })
+          .order("priority_rank", { ascending: true, nullsFirst: false });
+      } else {
+        // Group by Status first when showing 'All'
+        if (status === "All") {
+          query = query.order("Status", { ascending: true });
+        }
+        query = query
+          .order("sort_order", { ascending: true, nullsFirst: false })
+          .order("ID", { ascending: true });
+      }
+
+      const { data, error } = await query;
+      check(error);
+      return data || [];
+    },
+
+    getInitiative,
+
+    // The create_initiative function assigns the ID from a sequence and the
+    // next priority rank for the status under a lock, in one transaction
+    async createInitiative(initiative, { source } = {}) {
+      const { data, error } = await audited(
+        supabase.rpc("create_initiative", {
+          initiative: {
+            ...buildInitiativeInsert(initiative),
+            workspace_id: workspaceId(),
+          },
+        }),
+        source
+      ).single();
+      check(error);
+      return data as Initiative;
+    },
+
+    async updateInitiative(id, updates, { expectedUpdatedAt, source } = {}) {
+      let query = audited(
+        supabase
+          .from("roadmap_fields")
+          .update(cleanInitiativeUpdates(updates))
+          .eq("ID", id)
+          .eq("workspace_id", workspaceId()),
+        source
+      );
+
+      // Only touch the row if it is still at the version the caller saw
+      if (expectedUpdatedAt === null) {
+        query = query.is("updated_at", null);
+      } else if (expectedUpdatedAt !== undefined) {
+        query = query.eq("updated_at", expectedUpdatedAt);
+      }
+
+      const { data, error } = await query.select("*").maybeSingle();
+      check(error);
+
+      if (!data && expectedUpdatedAt !== undefined) {
+        const current = await getInitiative(id);
+        if (current) throw new ConflictError(current);
+      }
+      return data;
+    },
+
+    async deleteInitiative(id) {
+      const { data, error } = await audited(
+        supabase
+          .from("roadmap_fields")
+          .update({ deleted_at: new Date().toISOString() })
+          .eq("ID", id)
+          .eq("workspace_id", workspaceId())
+          .is("deleted_at", null)
+          .select("ID")
+      );
+      check(error);
+      return !!data && data.length > 0;
+    },
+
+    async restoreInitiative(id) {
+      const { data, error } = await audited(
+        supabase
+          .from("roadmap_fields")
+          .update({ deleted_at: null })
+          .eq("ID", id)
+          .eq("workspace_id", workspaceId())
+          .not("deleted_at", "is", null)
+          .select("*")
+      ).maybeSingle();
+      check(error);
+      return data;
+    },
+
+    async purgeInitiative(id) {
+      const { data, error } = await audited(
+        supabase
+          .from("roadmap_fields")
+          .delete()
+          .eq("ID", id)
+          .eq("workspace_id", workspaceId())
+          .select("ID")
+      );
+      check(error);
+      return !!data && data.length > 0;
+    },
+
+    async purgeDeleted(deletedBefore) {
+      const { data, error } = await audited(
+        supabase
+          .from("roadmap_fields")
+          .delete()
+          .eq("workspace_id", workspaceId())
+          .lt("deleted_at", deletedBefore)
+          .select("ID")
+      );
+      check(error);
+      return data?.length ?? 0;
+    },
+
+    // The normalize_priority_rank trigger ranks the row in its new workspace
+    async moveInitiative(id, workspace) {
+      const { data, error } = await audited(
+        supabase
+          .from("roadmap_fields")
+          .update({
+            workspace_id: workspace,
+            priority_rank: null,
+            sort_order: null,
+          })
+          .eq("ID", id)
+          .is("deleted_at", null)
+          .select("*")
+      ).maybeSingle();
+      check(error);
+      return data;
+    },
+
+    async copyInitiative(id, workspace) {
+      const { data: source, error: sourceError } = await supabase
+        .from("roadmap_fields")
+        .select("*")
+        .eq("ID", id)
+        .maybeSingle();
+      check(sourceError);
+      if (!source) return null;
+
+      const { data, error } = await audited(
+        supabase.rpc("create_initiative", {
+          initiative: {
+            ...buildInitiativeInsert(buildInitiativeCopy(source)),
+            workspace_id: workspace,
+          },
+        })
+      ).single();
+      check(error);
+      return data as Initiative;
+    },
+
+    // One call to the save_order function, which applies every position in
+    // a single statement so a failed reorder leaves the old order intact
+    async saveOrder(updates) {
+      if (updates.length === 0) return;
+      const { error } = await audited(supabase.rpc("save_order", { updates }));
+      check(error);
+    },
+
+    async listHistory(initiativeId) {
+      const { data, error } = await supabase
+        .from("roadmap_audit_log")
+        .select("*")
+        .eq("initiative_id", initiativeId)
+        .order("created_at", { ascending: false })
+        .order("id", { ascending: false });
+      check(error);
+      return (data || []) as AuditEntry[];
+    },
+
+    async listColumns() {
+      const { data, error } = await supabase
+        .from("column_config")
+        .select("*")
+        .eq("workspace_id", workspaceId())
+        .order("sort_order", { ascending: true });
+      check(error);
+      return data || [];
+    },
+
+    async addColumn(column) {
+      // Workspaces configure their own columns over one roadmap_fields table
+      const { data: shared, error: sharedError } = await supabase
+        .from("column_config")
+        .select("data_type")
+        .eq("column_name", column.column_name)
+        .neq("workspace_id", workspaceId())
+        .limit(1);
+      check(sharedError);
+      const existingType = shared?.[0]?.data_type;
+      if (existingType && existingType !== column.data_type) {
+        throw new StorageError(
+          `Another workspace already has a ${existingType} column named ${column.column_name}`,
+          UNIQUE_VIOLATION
+        );
+      }
+
+      const { data: maxData, error: maxError } = await supabase
+        .from("column_config")
+        .select("sort_order")
+        .eq("workspace_id", workspaceId())
+        .order("sort_order", { ascending: false })
+        .limit(1);
+      check(maxError);
+
+      // Step 1: Add to column_config
+      const { data: columnData, error: columnError } = await supabase
+        .from("column_config")
+        .insert({
+          column_name: column.column_name,
+          display_name: column.display_name,
+          data_type: column.data_type,
+          is_visible: column.is_visible ?? true,
+          sort_order: (maxData?.[0]?.sort_order ?? 0) + 1,
+          is_system_column: false,
+          is_required: column.is_required ?? false,
+          workspace_id: workspaceId(),
+        })
+        .select()
+        .single();
+      check(columnError);
+
+      if (existingType) return columnData as ColumnConfig;
+
+      // Step 2: Add column to roadmap_fields table via RPC
+      const { error: rpcError } = await supabase.rpc("add_column_to_roadmap", {
+        col_name: column.column_name,
+        col_type: SQL_TYPE_MAP[column.data_type],
+      });
+
+      if (rpcError) {
+        // Rollback: remove from column_config if RPC fails
+        await supabase.from("column_config").delete().eq("id", columnData.id);
+        check(rpcError);
+      }
+
+      return columnData as ColumnConfig;
+    },
+
+    async updateColumn(id, updates) {
+      const { data, error } = await supabase
+        .from("column_config")
+        .update(updates)
+        .eq("id", id)
+        .eq("workspace_id", workspaceId())
+        .select()
+        .maybeSingle();
+      check(error);
+      return data;
+    },
+
+    async deleteColumn(id) {
+      const { data: column, error: fetchError } = await supabase
+        .from("column_config")
+        .select("column_name, is_system_column")
+        .eq("id", id)
+        .eq("workspace_id", workspaceId())
+        .maybeSingle();
+      check(fetchError);
+
+      if (!column) {
+        throw new StorageError(`Column ${id} not found`);
+      }
+      if (column.is_system_column) {
+        throw new StorageError("Cannot delete system columns");
+      }
+
+      // Step 1: Remove from column_config
+      const { error: deleteError } = await supabase
+        .from("column_config")
+        .delete()
+        .eq("id", id);
+      check(deleteError);
+
+      // The values stay while another workspace still uses the column
+      const { count, error: countError } = await supabase
+        .from("column_config")
+        .select("id", { count: "exact", head: true })
+        .eq("column_name", column.column_name);
+      check(countError);
+      if (count) return;
+
+      // Step 2: Drop column from roadmap_fields table via RPC
+      const { error: rpcError } = await supabase.rpc(
+        "drop_column_from_roadmap",
+        { col_name: column.column_name }
+      );
+      if (rpcError) {
+        throw new StorageError(
+          "Column removed from config but failed to drop from table",
+          rpcError.code
+        );
+      }
+    },
+
+    async reorderColumns(ids) {
+      const results = await Promise.all(
+        ids.map((id, index) =>
+          supabase
+            .from("column_config")
+            .update({ sort_order: index })
+            .eq("id", id)
+            .eq("workspace_id", workspaceId())
+        )
+      );
+      results.forEach(result => check(result.error));
+    },
+
+    async listWorkspaces() {
+      const { data, error } = await supabase
+        .from("workspaces")
+        .select("*")
+        .order("name", { ascending: true });
+      check(error);
+      return (data || []) as Workspace[];
+    },
+
+    // The create_workspace function copies the current workspace's column
+    // configuration and adds the creator as a member in one transaction
+    async createWorkspace(workspace) {
+      const { data, error } = await supabase
+        .rpc("create_workspace", {
+          workspace,
+          copy_columns_from: workspaceId(),
+        })
+        .single();
+      check(error);
+      return data as Workspace;
+    },
+
+    async updateWorkspace(id, updates) {
+      const { data, error } = await supabase
+        .from("workspaces")
+        .update(updates)
+        .eq("id", id)
+        .select()
+        .maybeSingle();
+      check(error);
+      return data;
+    },
+
+    async listSnapshots() {
+      const { data, error } = await supabase
+        .from("roadmap_snapshots")
+        .select(SNAPSHOT_SUMMARY)
+        .eq("workspace_id", workspaceId())
+        .order("created_at", { ascending: false });
+      check(error);
+      return (data || []) as SnapshotSummary[];
+    },
+
+    async getSnapshot(id) {
+      if (!isUuid(id)) return null;
+      const { data, error } = await supabase
+        .from("roadmap_snapshots")
+        .select("*")
+        .eq("id", id)
+        .eq("workspace_id", workspaceId())
+        .maybeSingle();
+      check(error);
+      return data as RoadmapSnapshot | null;
+    },
+
+    // The create_snapshot function copies the rows in one statement, so the
+    // snapshot never mixes states from before and after a concurrent write
+    async createSnapshot(name) {
+      const { data, error } = await audited(
+        supabase.rpc("create_snapshot", {
+          snapshot_name: name,
+          workspace: workspaceId(),
+        })
+      )
+        .select(SNAPSHOT_SUMMARY)
+        .single();
+      check(error);
+      return data as SnapshotSummary;
+    },
+
+    async deleteSnapshot(id) {
+      if (!isUuid(id)) return false;
+      const { data, error } = await supabase
+        .from("roadmap_snapshots")
+        .delete()
+        .eq("id", id)
+        .eq("workspace_id", workspaceId())
+        .select("id");
+      check(error);
+      return !!data && data.length > 0;
+    },
+
+    async listWebhooks() {
+      const { data, error } = await supabase
+        .from("roadmap_webhooks")
+        .select("*")
+        .eq("workspace_id", workspaceId())
+        .order("created_at");
+      check(error);
+      return (data || []) as Webhook[];
+    },
+
+    async createWebhook(webhook) {
+      const { data, error } = await supabase
+        .from("roadmap_webhooks")
+        .insert({ ...buildWebhookInsert(webhook), workspace_id: workspaceId() })
+        .select()
+        .single();
+      check(error);
+      return data as Webhook;
+    },
+
+    async updateWebhook(id, updates) {
+      if (!isUuid(id)) return null;
+      const { data, error } = await supabase
+        .from("roadmap_webhooks")
+        .update(cleanWebhookUpdates(updates))
+        .eq("id", id)
+        .eq("workspace_id", workspaceId())
+        .select()
+        .maybeSingle();
+      check(error);
+      return data as Webhook | null;
+    },
+
+    // Deliveries go with it (ON DELETE CASCADE)
+    async deleteWebhook(id) {
+      if (!isUuid(id)) return false;
+      const { data, error } = await supabase
+        .from("roadmap_webhooks")
+        .delete()
+        .eq("id", id)
+        .eq("workspace_id", workspaceId())
+        .select("id");
+      check(error);
+      return !!data && data.length > 0;
+    },
+
+    async listWebhookDeliveries({ webhookId, status, limit = 100 } = {}) {
+      if (webhookId && !isUuid(webhookId)) return [];
+      let query = supabase
+        .from("roadmap_webhook_deliveries")
+        .select("*")
+        .eq("workspace_id", workspaceId());
+      if (webhookId) query = query.eq("webhook_id", webhookId);
+      if (status) query = query.eq("status", status);
+
+      const { data, error } = await query
+        .order("created_at", { ascending: false })
+        .limit(limit);
+      check(error);
+      return (data || []) as WebhookDelivery[];
+    },
+
+    async saveWebhookDelivery(delivery) {
+      const { error } = await supabase
+        .from("roadmap_webhook_deliveries")
+        .upsert(delivery);
+      check(error);
+    },
+
+    async listShareLinks() {
+      const { data, error } = await supabase
+        .from("share_links")
+        .select("*")
+        .eq("workspace_id", workspaceId())
+        .order("created_at", { ascending: false });
+      check(error);
+      return (data || []) as ShareLink[];
+    },
+
+    async createShareLink(link) {
+      const { data, error } = await supabase
+        .from("share_links")
+        .insert({
+          ...buildShareLinkInsert(link),
+          workspace_id: workspaceId(),
+          created_by: getActor?.() || "unknown",
+        })
+        .select()
+        .single();
+      check(error);
+      return data as ShareLink;
+    },
+
+    async revokeShareLink(id) {
+      if (!isUuid(id)) return null;
+      const { data, error } = await supabase
+        .from("share_links")
+        .update({ revoked_at: new Date().toISOString() })
+        .eq("id", id)
+        .eq("workspace_id", workspaceId())
+        .select()
+        .maybeSingle();
+      check(error);
+      return data as ShareLink | null;
+    },
+
+    // The get_shared_roadmap function redacts in the database, so anonymous
+    // callers never receive more than the link shares
+    async getSharedRoadmap(token) {
+      const { data, error } = await supabase.rpc("get_shared_roadmap", {
+        share_token: token,
+      });
+      check(error);
+      return (data ?? null) as SharedRoadmap | null;
+    },
+
+    // Anonymous visitors can call get_public_roadmap; it returns only the
+    // public fields of public initiatives
+    async getPublicRoadmap(id) {
+      const { data, error } = await supabase.rpc("get_public_roadmap", {
+        workspace: id,
+      });
+      check(error);
+      return (data ?? null) as PublicRoadmap | null;
+    },
+
+    subscribe(listener, { allWorkspaces = false } = {}) {
+      const set = allWorkspaces ? globalListeners : listeners;
+      set.add(listener);
+
+      if (!channel) {
+        channel = supabase
+          .channel("roadmap-changes")
+          .on(
+            "postgres_changes",
+            { event: "*", schema: "public", table: "roadmap_fields" },
+            forward("roadmap_fields")
+          )
+          .on(
+            "postgres_changes",
+            { event: "*", schema: "public", table: "column_config" },
+            forward("column_config")
+          )
+          .subscribe();
+      }
+
+      return () => {
+        set.delete(listener);
+        if (listeners.size + globalListeners.size === 0 && channel) {
+          supabase.removeChannel(channel);
+          channel = null;
+        }
+      };
+    },
+  };
+}
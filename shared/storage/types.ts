@@ -0,0 +1,242 @@
+import type { AuditEntry, AuditSource } from "../audit";
+import type { InitiativeQuery, OrderUpdate } from "../initiatives";
+import type {
+  ColumnConfig,
+  ColumnDataType,
+  Initiative,
+  PublicRoadmap,
+  RoadmapSnapshot,
+  ShareLink,
+  ShareLinkView,
+  SharedRoadmap,
+  SnapshotSummary,
+  Webhook,
+  WebhookDelivery,
+  WebhookDeliveryStatus,
+  Workspace,
+} from "../types/database";
+
+export type { AuditEntry, InitiativeQuery };
+
+export interface UpdateOptions {
+  // Throw ConflictError if the row has changed since this version
+  expectedUpdatedAt?: string | null;
+  // Recorded in the change history instead of a regular update
+  source?: AuditSource;
+}
+
+export interface CreateOptions {
+  // Recorded in the change history instead of a regular create
+  source?: AuditSource;
+}
+
+export interface StorageOptions {
+  // Name recorded as the author of each write in the change history
+  getActor?: () => string;
+  // Workspace that reads and writes apply to (default: DEFAULT_WORKSPACE_ID)
+  getWorkspaceId?: () => string;
+}
+
+export interface NewColumn {
+  column_name: string;
+  display_name: string;
+  data_type: ColumnDataType;
+  is_required?: boolean;
+  is_visible?: boolean;
+}
+
+export interface ColumnUpdate {
+  display_name?: string;
+  is_visible?: boolean;
+  sort_order?: number;
+  editable_by?: string[] | null;
+}
+
+export interface NewWorkspace {
+  id: string;
+  name: string;
+  title?: string;
+  logo_url?: string | null;
+}
+
+export interface WorkspaceUpdate {
+  name?: string;
+  title?: string;
+  logo_url?: string | null;
+}
+
+export interface NewWebhook {
+  url: string;
+  events: string[];
+  statuses?: string[] | null;
+  fields?: string[] | null;
+  active?: boolean;
+}
+
+export type WebhookUpdate = Partial<NewWebhook>;
+
+export interface DeliveryQuery {
+  webhookId?: string;
+  status?: WebhookDeliveryStatus;
+  // Newest deliveries to return (default: 100)
+  limit?: number;
+}
+
+export interface NewShareLink {
+  name: string;
+  view: ShareLinkView;
+  columns: string[];
+  statuses?: string[] | null;
+  products?: string[] | null;
+  expires_at?: string | null;
+}
+
+export interface SubscribeOptions {
+  // Receive changes from every workspace, unscoped (for server-side work
+  // such as webhooks)
+  allWorkspaces?: boolean;
+}
+
+export type StorageTable = "roadmap_fields" | "column_config";
+
+/**
+ * A row-level change, in the shape of a Postgres change event.
+ * `old` may only contain the primary key unless the table uses
+ * REPLICA IDENTITY FULL.
+ */
+export type StorageChange =
+  | {
+      table: "roadmap_fields";
+      eventType: "INSERT" | "UPDATE" | "DELETE";
+      new: Initiative | null;
+      old: Partial<Initiative> | null;
+    }
+  | {
+      table: "column_config";
+      eventType: "INSERT" | "UPDATE" | "DELETE";
+      new: ColumnConfig | null;
+      old: Partial<ColumnConfig> | null;
+    };
+
+export type StorageListener = (change: StorageChange) => void;
+
+/**
+ * Repository for initiatives and column configuration.
+ * Implementations apply the rules in shared/initiatives.ts on writes.
+ * Everything except workspaces, moves, copies, shared and public roadmaps is
+ * scoped to the workspace from StorageOptions.getWorkspaceId.
+ */
+export interface RoadmapStorage {
+  listInitiatives(query?: InitiativeQuery): Promise<Initiative[]>;
+  getInitiative(id: number): Promise<Initiative | null>;
+  // Assigns the next ID and priority rank
+  createInitiative(
+    initiative: Partial<Initiative>,
+    options?: CreateOptions
+  ): Promise<Initiative>;
+  // Resolves to null when no initiative has this ID
+  updateInitiative(
+    id: number,
+    updates: Partial<Initiative>,
+    options?: UpdateOptions
+  ): Promise<Initiative | null>;
+  // Moves an initiative to the trash; resolves to false when no initiative
+  // outside the trash has this ID
+  deleteInitiative(id: number): Promise<boolean>;
+  // Takes an initiative back out of the trash; null when it isn't there
+  restoreInitiative(id: number): Promise<Initiative | null>;
+  // Deletes an initiative for good
+  purgeInitiative(id: number): Promise<boolean>;
+  // Purges everything moved to the trash before this time; returns the count
+  purgeDeleted(deletedBefore: string): Promise<number>;
+  // Moves an initiative (by ID, wherever it is) to the end of its status in
+  // another workspace; null when there is no such initiative outside the trash
+  moveInitiative(id: number, workspaceId: string): Promise<Initiative | null>;
+  // Creates a copy with a new ID in another workspace
+  copyInitiative(id: number, workspaceId: string): Promise<Initiative | null>;
+  // Writes new positions all at once: either every update applies or none
+  saveOrder(updates: OrderUpdate[]): Promise<void>;
+  // Change history of one initiative, newest first
+  listHistory(initiativeId: number): Promise<AuditEntry[]>;
+
+  listColumns(): Promise<ColumnConfig[]>;
+  // Adds both the config row and the physical column
+  addColumn(column: NewColumn): Promise<ColumnConfig>;
+  updateColumn(id: string, updates: ColumnUpdate): Promise<ColumnConfig | null>;
+  deleteColumn(id: string): Promise<void>;
+  reorderColumns(ids: string[]): Promise<void>;
+
+  // Workspaces the caller can open, by name
+  listWorkspaces(): Promise<Workspace[]>;
+  // Starts with a copy of the current workspace's column configuration
+  createWorkspace(workspace: NewWorkspace): Promise<Workspace>;
+  updateWorkspace(
+    id: string,
+    updates: WorkspaceUpdate
+  ): Promise<Workspace | null>;
+
+  // Snapshots of the current workspace, newest first
+  listSnapshots(): Promise<SnapshotSummary[]>;
+  getSnapshot(id: string): Promise<RoadmapSnapshot | null>;
+  // Freezes every initiative outside the trash and the column configuration
+  createSnapshot(name: string): Promise<SnapshotSummary>;
+  deleteSnapshot(id: string): Promise<boolean>;
+
+  // Webhook subscriptions of the current workspace
+  listWebhooks(): Promise<Webhook[]>;
+  // Generates the signing secret
+  createWebhook(webhook: NewWebhook): Promise<Webhook>;
+  updateWebhook(id: string, updates: WebhookUpdate): Promise<Webhook | null>;
+  // Deletes the subscription with its delivery log
+  deleteWebhook(id: string): Promise<boolean>;
+  // Delivery log of the current workspace, newest first
+  listWebhookDeliveries(query?: DeliveryQuery): Promise<WebhookDelivery[]>;
+  // Inserts the delivery, or replaces the one with the same ID
+  saveWebhookDelivery(delivery: WebhookDelivery): Promise<void>;
+
+  // Share links of the current workspace, newest first
+  listShareLinks(): Promise<ShareLink[]>;
+  // Generates the link token
+  createShareLink(link: NewShareLink): Promise<ShareLink>;
+  // The link stops opening at once; null when there is no such link
+  revokeShareLink(id: string): Promise<ShareLink | null>;
+  // What the link with this token shows, in whichever workspace it belongs
+  // to; null when it is unknown, revoked or expired
+  getSharedRoadmap(token: string): Promise<SharedRoadmap | null>;
+
+  // Customer-facing roadmap of any workspace; null when there is no such
+  // workspace
+  getPublicRoadmap(workspaceId: string): Promise<PublicRoadmap | null>;
+
+  // Receives changes made by any client in the current workspace; returns an
+  // unsubscribe function
+  subscribe(listener: StorageListener, options?: SubscribeOptions): () => void;
+}
+
+// Postgres error code for unique violations; the local backend reuses it
+export const UNIQUE_VIOLATION = "23505";
+
+/**
+ * Error thrown by storage backends. `code` carries the Postgres error code
+ * when there is one so callers can special-case e.g. unique violations.
+ */
+export class StorageError extends Error {
+  constructor(
+    message: string,
+    public code?: string
+  ) {
+    super(message);
+    this.name = "StorageError";
+  }
+}
+
+/**
+ * Thrown when a versioned update finds the row was changed by someone else.
+ * `current` is the row as it is now.
+ */
+export class ConflictError extends StorageError {
+  constructor(public current: Initiative) {
+    super(`Initiative ${current.ID} was changed by someone else`);
+    this.name = "ConflictError";
+  }
+}
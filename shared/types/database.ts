@@ -0,0 +1,226 @@
+export interface Initiative {
+  ID: number;
+  Product: string | null;
+  Status: string | null;
+  Initiative: string | null;
+  Objective: string | null;
+  Deliverables: string | null;
+  "Measure of Success / Outcomes": string | null;
+  "User Impact / Effort": string | null;
+  Priority: string | null;
+  "Start Date": string | null;  // ISO date string
+  "End Date": string | null;    // ISO date string
+  "Quarter Due": string | null;
+  "Production Live Date": string | null;
+  "Product Dev Status": string | null;
+  Notes: string | null;
+  sort_order?: number | null;
+  // New columns
+  priority_rank: number | null;
+  requested_by: string | null;
+  engineer_assigned: string | null;
+  est_hours_story_points: number | null;
+  dependencies: string | null;
+  tags_labels: string | null;
+  epic_theme: string | null;
+  business_value_roi: string | null;
+  risk_level: string | null;
+  external_links: string | null;
+  actual_completion_date: string | null;  // ISO date string
+  customer_impact: string | null;
+  team: string | null;
+  updated_at?: string | null;  // Set by the database on every write; used as the row version
+  deleted_at?: string | null;  // Set when moved to the trash; null for live initiatives
+  workspace_id?: string;  // Workspace the initiative belongs to; changed only by moving it
+  is_public?: boolean;  // Shown on the customer-facing roadmap; set by admins
+  public_title?: string | null;  // Title customers see; falls back to Initiative
+  public_description?: string | null;  // Description customers see
+  // Allow dynamic columns added via column manager
+  [key: string]: any;
+}
+
+export type TabStatus = 'Active' | 'Completed' | 'Backlog' | 'All' | 'Trash';
+
+export type ProductType = string; // Allow any product name
+
+export interface Database {
+  public: {
+    Tables: {
+      roadmap_fields: {
+        Row: Initiative;
+        Insert: Omit<Initiative, 'ID'> & { ID?: number };
+        Update: Partial<Omit<Initiative, 'ID'>>;
+      };
+    };
+  };
+}
+
+export const PRIORITY_OPTIONS = ['Build Now', 'Build Next', 'On Hold'] as const;
+
+export const QUARTER_OPTIONS = [
+  'Q1 2024', 'Q2 2024', 'Q3 2024', 'Q4 2024',
+  'Q1 2025', 'Q2 2025', 'Q3 2025', 'Q4 2025',
+  'Q1 2026', 'Q2 2026', 'Q3 2026', 'Q4 2026',
+  'TBD'
+] as const;
+
+export const IMPACT_EFFORT_OPTIONS = [
+  'High / High', 'High / Medium', 'High / Low',
+  'Medium / High', 'Medium / Medium', 'Medium / Low',
+  'Low / High', 'Low / Medium', 'Low / Low'
+] as const;
+
+export const DEV_STATUS_OPTIONS = [
+  'Not started',
+  'Dev In progress',
+  'Design In progress',
+  'Design In progress, Dev In progress',
+  'Completed',
+  'Completed, PROD LIVE',
+  'Completed, PROD LIVE, VoC In Progress',
+  'Completed, PROD LIVE, VoC Completed',
+  'Backlog'
+] as const;
+
+
+export const STATUS_OPTIONS: TabStatus[] = ['Active', 'Backlog', 'Completed', 'All', 'Trash'];
+
+// Actual status values (excluding 'All' which is just a view filter)
+export const ACTUAL_STATUS_OPTIONS: ('Active' | 'Completed' | 'Backlog')[] = ['Active', 'Completed', 'Backlog'];
+
+export const RISK_LEVEL_OPTIONS = ['Low', 'Medium', 'High', 'Critical'] as const;
+
+// Column configuration types
+export type ColumnDataType = 'text' | 'integer' | 'date' | 'boolean' | 'numeric';
+
+export interface ColumnConfig {
+  id: string;
+  column_name: string;
+  display_name: string;
+  data_type: ColumnDataType;
+  is_visible: boolean;
+  sort_order: number;
+  is_system_column: boolean;
+  is_required: boolean;
+  editable_by?: string[] | null;  // Permission groups allowed to edit the field; empty for every editor
+  workspace_id?: string;  // Each workspace configures its own columns
+  created_at: string;
+  updated_at: string;
+}
+
+// A separate roadmap (e.g. one per business unit) with its own initiatives,
+// columns, branding and members
+export interface Workspace {
+  id: string;  // URL-safe slug such as "pritchard"
+  name: string;  // Shown in the workspace switcher
+  title: string;  // Heading above the roadmap
+  logo_url: string | null;
+  created_at: string;
+}
+
+// Frozen copy of a workspace's initiatives and column configuration, e.g. the
+// roadmap as presented at a quarterly review
+export interface RoadmapSnapshot {
+  id: string;
+  name: string;
+  workspace_id: string;
+  created_at: string;
+  created_by: string;
+  initiative_count: number;
+  initiatives: Initiative[];
+  columns: ColumnConfig[];
+}
+
+// A snapshot without its contents, as listed in the snapshot browser
+export type SnapshotSummary = Omit<RoadmapSnapshot, 'initiatives' | 'columns'>;
+
+// Outbound webhook subscription of a workspace (see shared/webhooks.ts)
+export interface Webhook {
+  id: string;
+  workspace_id: string;
+  url: string;
+  secret: string;  // Signs each payload with HMAC-SHA256
+  events: string[];
+  statuses: string[] | null;  // Status changes only fire when moving to one of these; null for any
+  fields: string[] | null;  // Edits only fire when one of these fields changed; null for any
+  active: boolean;
+  created_at: string;
+}
+
+export type WebhookDeliveryStatus = 'pending' | 'succeeded' | 'failed';
+
+// One event sent (or being retried) to one webhook
+export interface WebhookDelivery {
+  id: string;
+  webhook_id: string;
+  workspace_id: string;
+  event: string;
+  payload: Record<string, any>;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  response_status: number | null;
+  error: string | null;
+  created_at: string;
+  last_attempt_at: string | null;
+  next_attempt_at: string | null;  // When the next retry is due while pending
+}
+
+export type ShareLinkView = 'list' | 'gantt';
+
+// Read-only link to part of a workspace's roadmap (see shared/shareLinks.ts)
+export interface ShareLink {
+  id: string;
+  workspace_id: string;
+  token: string;  // Secret part of the link URL
+  name: string;
+  view: ShareLinkView;
+  columns: string[];  // Fields shared besides ID, Initiative and Status
+  statuses: string[] | null;  // null for every status outside the trash
+  products: string[] | null;  // null for every product
+  expires_at: string | null;
+  revoked_at: string | null;
+  created_at: string;
+  created_by: string;
+}
+
+// What a share link shows: only its columns and matching initiatives
+export interface SharedRoadmap {
+  name: string;
+  view: ShareLinkView;
+  title: string;  // Header title of the workspace
+  logo_url: string | null;
+  expires_at: string | null;
+  columns: ColumnConfig[];
+  initiatives: Initiative[];
+}
+
+// An initiative as customers see it on the public roadmap
+export interface PublicInitiative {
+  id: number;
+  title: string;
+  description: string | null;
+  product: string | null;
+  priority: string | null;
+  quarter: string | null;
+  released: boolean;  // Completed
+}
+
+// The customer-facing roadmap of a workspace (see shared/publicRoadmap.ts)
+export interface PublicRoadmap {
+  title: string;
+  logo_url: string | null;
+  initiatives: PublicInitiative[];
+}
+
+// Status badge colors
+export const STATUS_COLORS: Record<string, string> = {
+  'Dev In progress': 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200',
+  'Not started': 'bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-200',
+  'Completed, PROD LIVE': 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200',
+  'Completed, PROD LIVE, VoC Completed': 'bg-emerald-100 text-emerald-800 dark:bg-emerald-900 dark:text-emerald-200',
+  'Completed, PROD LIVE, VoC In Progress': 'bg-teal-100 text-teal-800 dark:bg-teal-900 dark:text-teal-200',
+  'Backlog': 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200',
+  'Design In progress': 'bg-purple-100 text-purple-800 dark:bg-purple-900 dark:text-purple-200',
+  'Design In progress, Dev In progress': 'bg-indigo-100 text-indigo-800 dark:bg-indigo-900 dark:text-indigo-200',
+  'Completed': 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200',
+};
@@ -0,0 +1,200 @@
+import { auditActionFor, diffInitiatives, type FieldChange } from "./audit";
+import type { NewWebhook, StorageChange, WebhookUpdate } from "./storage/types";
+import type { ColumnConfig, Initiative, Webhook } from "./types/database";
+import { workspaceOf } from "./workspaces";
+
+/**
+ * Outbound webhooks. The API server turns storage changes into these events
+ * and POSTs them, signed, to every matching subscription of the workspace.
+ */
+
+export const WEBHOOK_EVENTS = {
+  "initiative.created": "Initiative created",
+  "initiative.updated": "Initiative edited",
+  "initiative.status_changed": "Status changed",
+  "initiative.deleted": "Initiative moved to the trash",
+  "initiative.restored": "Initiative restored from the trash",
+  "initiative.purged": "Initiative deleted for good",
+  "column.added": "Column added",
+  "column.deleted": "Column deleted",
+} as const;
+
+export type WebhookEventType = keyof typeof WEBHOOK_EVENTS;
+
+// Sent by "Send test event"; subscriptions can't filter on it
+export const WEBHOOK_PING = "ping";
+
+// Request headers of every delivery
+export const WEBHOOK_SIGNATURE_HEADER = "X-Roadmap-Signature";
+export const WEBHOOK_EVENT_HEADER = "X-Roadmap-Event";
+export const WEBHOOK_DELIVERY_HEADER = "X-Roadmap-Delivery";
+
+// Attempts per delivery, and the wait before the first retry; each further
+// retry waits twice as long
+export const WEBHOOK_MAX_ATTEMPTS = 5;
+export const WEBHOOK_RETRY_DELAY_MS = 10_000;
+
+export interface WebhookEvent {
+  type: WebhookEventType | typeof WEBHOOK_PING;
+  workspace: string;
+  // The row after the change; before it for deletes and purges
+  initiative?: Initiative;
+  column?: ColumnConfig;
+  // Field-level before and after values
+  changes: FieldChange[];
+}
+
+export interface WebhookPayload extends Omit<WebhookEvent, "type"> {
+  // Same as the delivery ID; stays the same across retries
+  id: string;
+  event: WebhookEvent["type"];
+  occurred_at: string;
+}
+
+const INITIATIVE_EVENTS: Record<string, WebhookEventType> = {
+  create: "initiative.created",
+  update: "initiative.updated",
+  import: "initiative.updated",
+  delete: "initiative.deleted",
+  restore: "initiative.restored",
+  purge: "initiative.purged",
+};
+
+/**
+ * The webhook events a storage change stands for. Reorders fire nothing, and
+ * a status change fires both an edit and a status change.
+ */
+export function webhookEventsFor(change: StorageChange): WebhookEvent[] {
+  const row = change.new ?? change.old;
+  if (!row) return [];
+  const workspace = workspaceOf(row);
+
+  if (change.table === "column_config") {
+    if (change.eventType === "UPDATE") return [];
+    return [
+      {
+        type: change.eventType === "INSERT" ? "column.added" : "column.deleted",
+        workspace,
+        column: row as ColumnConfig,
+        changes: [],
+      },
+    ];
+  }
+
+  const changes = diffInitiatives(change.old, change.new);
+  const action = auditActionFor(change.eventType, changes);
+  const type = action && INITIATIVE_EVENTS[action];
+  if (!type) return [];
+
+  const initiative = row as Initiative;
+  const events: WebhookEvent[] = [{ type, workspace, initiative, changes }];
+  if (
+    type === "initiative.updated" &&
+    changes.some(c => c.field === "Status")
+  ) {
+    events.push({
+      type: "initiative.status_changed",
+      workspace,
+      initiative,
+      changes: changes.filter(c => c.field === "Status"),
+    });
+  }
+  return events;
+}
+
+/**
+ * Whether an event passes a subscription's event, status and field filters
+ */
+export function webhookMatches(webhook: Webhook, event: WebhookEvent): boolean {
+  if (!webhook.active || !webhook.events.includes(event.type)) return false;
+
+  if (event.type === "initiative.status_changed" && webhook.statuses?.length) {
+    return webhook.statuses.includes(event.initiative?.Status ?? "");
+  }
+  if (event.type === "initiative.updated" && webhook.fields?.length) {
+    return event.changes.some(c => webhook.fields!.includes(c.field));
+  }
+  return true;
+}
+
+/**
+ * Checks a new subscription or an update to one; returns an error message,
+ * or null when it is valid
+ */
+export function validateWebhook(webhook: WebhookUpdate): string | null {
+  if (webhook.url !== undefined) {
+    let url: URL | null = null;
+    try {
+      url = new URL(webhook.url);
+    } catch {
+      // Reported below
+    }
+    if (!url || !["http:", "https:"].includes(url.protocol)) {
+      return "url must be an http or https URL";
+    }
+  }
+  if (webhook.events !== undefined) {
+    if (!Array.isArray(webhook.events) || webhook.events.length === 0) {
+      return "events must list at least one event";
+    }
+    const unknown = webhook.events.find(event => !(event in WEBHOOK_EVENTS));
+    if (unknown !== undefined) {
+      return `Unknown event: ${unknown}`;
+    }
+  }
+  for (const key of ["statuses", "fields"] as const) {
+    const value = webhook[key];
+    if (
+      value !== undefined &&
+      value !== null &&
+      !(Array.isArray(value) && value.every(item => typeof item === "string"))
+    ) {
+      return `${key} must be a list of strings or null`;
+    }
+  }
+  if (webhook.active !== undefined && typeof webhook.active !== "boolean") {
+    return "active must be true or false";
+  }
+  return null;
+}
+
+/**
+ * A random signing secret (64 hex characters)
+ */
+export function generateWebhookSecret(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  return Array.from(bytes, byte => byte.toString(16).padStart(2, "0")).join("");
+}
+
+/**
+ * Stores empty status and field filters as null (no filter)
+ */
+export function cleanWebhookUpdates(updates: WebhookUpdate): WebhookUpdate {
+  const clean = { ...updates };
+  for (const key of ["statuses", "fields"] as const) {
+    if (key in clean && !clean[key]?.length) clean[key] = null;
+  }
+  return clean;
+}
+
+/**
+ * Column values for a new subscription, with a fresh secret
+ */
+export function buildWebhookInsert(webhook: NewWebhook) {
+  const { statuses = null, fields = null } = cleanWebhookUpdates(webhook);
+  return {
+    url: webhook.url,
+    events: webhook.events,
+    statuses,
+    fields,
+    active: webhook.active ?? true,
+    secret: generateWebhookSecret(),
+  };
+}
+
+/**
+ * Wait before the given retry (1 for the first retry)
+ */
+export function webhookRetryDelay(retry: number): number {
+  return WEBHOOK_RETRY_DELAY_MS * 2 ** (retry - 1);
+}
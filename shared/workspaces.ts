@@ -0,0 +1,75 @@
+import type { StorageChange } from "./storage/types";
+import type { Initiative } from "./types/database";
+
+// Workspace of everything created before workspaces existed
+export const DEFAULT_WORKSPACE_ID = "default";
+
+export const DEFAULT_WORKSPACE_TITLE = "Executive Product Roadmap";
+
+// Workspace IDs appear in URLs and request headers
+export const WORKSPACE_ID_PATTERN = /^[a-z0-9][a-z0-9-]*$/;
+
+export const WORKSPACE_ID_ERROR =
+  "Workspace ID must start with a lowercase letter or digit and contain only lowercase letters, digits and hyphens";
+
+/**
+ * Workspace a row belongs to; rows saved before workspaces existed have none
+ */
+export function workspaceOf(
+  row: { workspace_id?: string | null } | null | undefined
+): string {
+  return row?.workspace_id || DEFAULT_WORKSPACE_ID;
+}
+
+/**
+ * Suggested workspace ID for a name ("Pritchard Companies" → "pritchard-companies")
+ */
+export function workspaceIdFromName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+}
+
+// Not carried over when an initiative is copied into another workspace
+const NOT_COPIED = [
+  "ID",
+  "priority_rank",
+  "sort_order",
+  "updated_at",
+  "deleted_at",
+  "workspace_id",
+];
+
+/**
+ * Fields of an initiative to create its copy from. The copy gets its own ID
+ * and goes to the end of its status's priority sequence.
+ */
+export function buildInitiativeCopy(
+  initiative: Initiative
+): Partial<Initiative> {
+  return Object.fromEntries(
+    Object.entries(initiative).filter(([key]) => !NOT_COPIED.includes(key))
+  );
+}
+
+/**
+ * Narrows a change to what subscribers of one workspace should see. A row
+ * moved out of the workspace arrives as a DELETE; changes elsewhere are
+ * dropped. DELETE events pass through since `old` may only hold the ID.
+ */
+export function scopeChange(
+  change: StorageChange,
+  workspaceId: string
+): StorageChange | null {
+  if (change.eventType === "DELETE" || !change.new) return change;
+  if (workspaceOf(change.new) === workspaceId) return change;
+  if (change.eventType === "INSERT") return null;
+
+  return {
+    ...change,
+    eventType: "DELETE",
+    new: null,
+    old: change.old ?? change.new,
+  } as StorageChange;
+}
@@ -0,0 +1,16 @@
+import path from "path";
+import { defineConfig } from "vitest/config";
+
+// Unit tests for the shared and server code; the client build config
+// (vite.config.ts) is rooted in client/ and pulls in browser-only plugins
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@shared": path.resolve(import.meta.dirname, "shared"),
+    },
+  },
+  test: {
+    include: ["shared/**/*.test.ts", "server/**/*.test.ts"],
+    environment: "node",
+  },
+});